@@ -0,0 +1,75 @@
+export type AchievementMetric = 'streak' | 'total_hours' | 'best_week' | 'friends'
+
+export interface AchievementDefinition {
+  id: string
+  name: string
+  description: string
+  metric: AchievementMetric
+  threshold: number // days for streaks, hours for totals, minutes for best weeks, friend count for friends
+  repeatable?: boolean // repeatable badges are awarded once per occurrence rather than once per user
+}
+
+// Badge catalogue. IDs are stored with every award, so never rename an existing ID.
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'streak_7',
+    name: 'Week Streak',
+    description: 'Created something 7 days in a row',
+    metric: 'streak',
+    threshold: 7
+  },
+  {
+    id: 'streak_30',
+    name: 'Month Streak',
+    description: 'Created something 30 days in a row',
+    metric: 'streak',
+    threshold: 30
+  },
+  {
+    id: 'streak_100',
+    name: 'Centurion',
+    description: 'Created something 100 days in a row',
+    metric: 'streak',
+    threshold: 100
+  },
+  {
+    id: 'first_100_hours',
+    name: 'First 100 Hours',
+    description: 'Logged 100 hours of creating time',
+    metric: 'total_hours',
+    threshold: 100
+  },
+  {
+    id: 'best_week',
+    name: 'Best Week Ever',
+    description: 'Beat your previous best week of creating time',
+    metric: 'best_week',
+    threshold: 60, // ignore "records" set by near-empty weeks
+    repeatable: true
+  },
+  {
+    id: 'friends_1',
+    name: 'Better Together',
+    description: 'Added your first friend',
+    metric: 'friends',
+    threshold: 1
+  },
+  {
+    id: 'friends_5',
+    name: 'Crew',
+    description: 'Added 5 friends',
+    metric: 'friends',
+    threshold: 5
+  },
+  {
+    id: 'friends_10',
+    name: 'Squad',
+    description: 'Added 10 friends',
+    metric: 'friends',
+    threshold: 10
+  }
+]
+
+export const getAchievementDefinition = (id: string): AchievementDefinition | undefined => {
+  return ACHIEVEMENTS.find(achievement => achievement.id === id)
+}
\ No newline at end of file
@@ -27,7 +27,10 @@ export const notificationConfig: NotificationConfig = {
     weekly_report: ['discord'],
     payment_failed: ['discord'],
     checkout_completed: ['discord'],
-    subscription_cancelled: ['discord']
+    subscription_cancelled: ['discord'],
+    // Goal results carry the user's email and personal targets, so they never go to the ops channels
+    goal_hit: [],
+    goal_missed: []
   }
 }
 
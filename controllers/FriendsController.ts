@@ -2,8 +2,12 @@ import { Router } from 'express'
 import type { Request, Response } from 'express'
 import { FriendsService } from '../services/FriendsService'
 import { AuthMiddleware } from '../middleware/auth'
-import { asyncHandler } from '../middleware/errorHandler'
+import { asyncHandler, ApiError } from '../middleware/errorHandler'
 import { FriendDashboardService } from '../services/FriendDashboardService'
+import { FriendInviteService } from '../services/FriendInviteService'
+import { FriendFeedService } from '../services/FriendFeedService'
+import { PresenceService } from '../services/PresenceService'
+import { ActivityDistributionService } from '../services/ActivityDistributionService'
 
 const router = Router()
 
@@ -26,6 +30,24 @@ const respondToFriendRequest = async (req: Request, res: Response): Promise<void
   })
 }
 
+const cancelFriendRequest = async (req: Request, res: Response): Promise<void> => {
+  const friendRequest = await FriendsService.cancelFriendRequest(req)
+  res.json({
+    success: true,
+    data: friendRequest,
+    message: 'Friend request cancelled'
+  })
+}
+
+const resendFriendRequest = async (req: Request, res: Response): Promise<void> => {
+  const friendRequest = await FriendsService.resendFriendRequest(req)
+  res.json({
+    success: true,
+    data: friendRequest,
+    message: 'Friend request resent'
+  })
+}
+
 const getPendingRequestsSent = async (req: Request, res: Response): Promise<void> => {
   const requests = await FriendsService.getPendingRequestsSent(req)
   res.json({
@@ -58,20 +80,228 @@ const getDashboardInsights = async (req: Request, res: Response): Promise<void>
   })
 }
 
+const getActivityDistribution = async (req: Request, res: Response): Promise<void> => {
+  const distribution = await ActivityDistributionService.getDistributionChart(req)
+  res.json({
+    success: true,
+    data: distribution
+  })
+}
+
+const getLeaderboard = async (req: Request, res: Response): Promise<void> => {
+  const leaderboard = await FriendDashboardService.getLeaderboard(req)
+  res.json({
+    success: true,
+    data: leaderboard
+  })
+}
+
+const updateSharingSettings = async (req: Request, res: Response): Promise<void> => {
+  const settings = await FriendsService.updateSharingSettings(req)
+  res.json({
+    success: true,
+    data: settings
+  })
+}
+
+const removeFriend = async (req: Request, res: Response): Promise<void> => {
+  await FriendsService.removeFriend(req)
+  res.json({
+    success: true,
+    message: 'Friend removed'
+  })
+}
+
+const blockUser = async (req: Request, res: Response): Promise<void> => {
+  await FriendsService.blockUser(req)
+  res.json({
+    success: true,
+    message: 'User blocked'
+  })
+}
+
+const unblockUser = async (req: Request, res: Response): Promise<void> => {
+  await FriendsService.unblockUser(req)
+  res.json({
+    success: true,
+    message: 'User unblocked'
+  })
+}
+
+const getBlockedUsers = async (req: Request, res: Response): Promise<void> => {
+  const blockedUsers = await FriendsService.getBlockedUsers(req)
+  res.json({
+    success: true,
+    data: blockedUsers
+  })
+}
+
+const updateFriendVisibility = async (req: Request, res: Response): Promise<void> => {
+  const visibility = await FriendsService.updateFriendVisibility(req)
+  res.json({
+    success: true,
+    data: visibility
+  })
+}
+
+const createInvite = async (req: Request, res: Response): Promise<void> => {
+  const invite = await FriendInviteService.createInvite(req)
+  res.status(201).json({
+    success: true,
+    data: invite
+  })
+}
+
+const getInvites = async (req: Request, res: Response): Promise<void> => {
+  const invites = await FriendInviteService.getInvites(req)
+  res.json({
+    success: true,
+    data: invites
+  })
+}
+
+const revokeInvite = async (req: Request, res: Response): Promise<void> => {
+  const invite = await FriendInviteService.revokeInvite(req)
+  res.json({
+    success: true,
+    data: invite,
+    message: 'Invite revoked'
+  })
+}
+
+const redeemInvite = async (req: Request, res: Response): Promise<void> => {
+  const result = await FriendInviteService.redeemInvite(req)
+  res.status(201).json({
+    success: true,
+    data: result,
+    message: 'Invite redeemed'
+  })
+}
+
+const getFeed = async (req: Request, res: Response): Promise<void> => {
+  const feed = await FriendFeedService.getFeed(req)
+  res.json({
+    success: true,
+    data: feed
+  })
+}
+
+const getFeedSettings = async (req: Request, res: Response): Promise<void> => {
+  const settings = await FriendFeedService.getSettings(req)
+  res.json({
+    success: true,
+    data: settings
+  })
+}
+
+const updateFeedSettings = async (req: Request, res: Response): Promise<void> => {
+  const settings = await FriendFeedService.updateSettings(req)
+  res.json({
+    success: true,
+    data: settings
+  })
+}
+
+// Keeps proxies from closing an idle stream
+const PRESENCE_HEARTBEAT_MS = 25 * 1000
+
+/**
+ * Server-sent events stream of friends' presence: a snapshot on connect, then
+ * `presence` and `flowing_started` events as they happen
+ */
+const streamPresence = async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+  if (!PresenceService.isAvailable()) {
+    throw new ApiError('Presence stream is not available', 503)
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  })
+
+  // Listen before opening the stream, so a client that disconnects while it opens is cleaned up too
+  let disconnected = false
+  let close: (() => void) | null = null
+  let heartbeat: ReturnType<typeof setInterval> | null = null
+  req.on('close', () => {
+    disconnected = true
+    if (heartbeat) clearInterval(heartbeat)
+    close?.()
+  })
+
+  try {
+    close = await PresenceService.openStream(req.user.id, ({ event, data }) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+    })
+  } catch (error) {
+    // Headers are already sent, so the error handler can't respond
+    console.error('Error opening presence stream:', error)
+    res.end()
+    return
+  }
+
+  if (disconnected) {
+    close()
+    return
+  }
+  heartbeat = setInterval(() => res.write(': ping\n\n'), PRESENCE_HEARTBEAT_MS)
+}
+
 // Initialize routes with authentication middleware and async error handling
 router.post('/invite', AuthMiddleware.authenticateToken, asyncHandler(inviteFriend))
 router.post('/requests/:requestId/respond', AuthMiddleware.authenticateToken, asyncHandler(respondToFriendRequest))
+router.post('/requests/:requestId/cancel', AuthMiddleware.authenticateToken, asyncHandler(cancelFriendRequest))
+router.post('/requests/:requestId/resend', AuthMiddleware.authenticateToken, asyncHandler(resendFriendRequest))
 router.get('/requests/sent', AuthMiddleware.authenticateToken, asyncHandler(getPendingRequestsSent))
 router.get('/requests/received', AuthMiddleware.authenticateToken, asyncHandler(getPendingRequestsReceived))
 router.get('/list', AuthMiddleware.authenticateToken, asyncHandler(getFriends))
 router.get('/dashboard-insights', AuthMiddleware.authenticateToken, asyncHandler(getDashboardInsights))
+router.get('/dashboard-insights/distribution', AuthMiddleware.authenticateToken, asyncHandler(getActivityDistribution))
+router.get('/leaderboard', AuthMiddleware.authenticateToken, asyncHandler(getLeaderboard))
+router.get('/presence/stream', AuthMiddleware.authenticateToken, asyncHandler(streamPresence))
+router.get('/feed', AuthMiddleware.authenticateToken, asyncHandler(getFeed))
+router.get('/feed/settings', AuthMiddleware.authenticateToken, asyncHandler(getFeedSettings))
+router.put('/feed/settings', AuthMiddleware.authenticateToken, asyncHandler(updateFeedSettings))
+router.put('/sharing', AuthMiddleware.authenticateToken, asyncHandler(updateSharingSettings))
+router.post('/invites', AuthMiddleware.authenticateToken, asyncHandler(createInvite))
+router.get('/invites', AuthMiddleware.authenticateToken, asyncHandler(getInvites))
+router.post('/invites/redeem', AuthMiddleware.authenticateToken, asyncHandler(redeemInvite))
+router.delete('/invites/:inviteId', AuthMiddleware.authenticateToken, asyncHandler(revokeInvite))
+router.get('/blocked', AuthMiddleware.authenticateToken, asyncHandler(getBlockedUsers))
+router.post('/:friendId/block', AuthMiddleware.authenticateToken, asyncHandler(blockUser))
+router.post('/:friendId/unblock', AuthMiddleware.authenticateToken, asyncHandler(unblockUser))
+router.put('/:friendId/visibility', AuthMiddleware.authenticateToken, asyncHandler(updateFriendVisibility))
+router.delete('/:friendId', AuthMiddleware.authenticateToken, asyncHandler(removeFriend))
 
 export const FriendsController = {
   router,
   inviteFriend,
   respondToFriendRequest,
+  cancelFriendRequest,
+  resendFriendRequest,
   getPendingRequestsSent,
   getPendingRequestsReceived,
   getFriends,
-  getDashboardInsights
+  getDashboardInsights,
+  getActivityDistribution,
+  getLeaderboard,
+  updateSharingSettings,
+  removeFriend,
+  blockUser,
+  unblockUser,
+  getBlockedUsers,
+  updateFriendVisibility,
+  createInvite,
+  getInvites,
+  revokeInvite,
+  redeemInvite,
+  getFeed,
+  getFeedSettings,
+  updateFeedSettings,
+  streamPresence
 } 
\ No newline at end of file
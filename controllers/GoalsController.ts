@@ -0,0 +1,65 @@
+import { Router } from 'express'
+import type { Request, Response } from 'express'
+import { GoalService } from '../services/GoalService'
+import { AuthMiddleware } from '../middleware/auth'
+import { asyncHandler } from '../middleware/errorHandler'
+
+const router = Router()
+
+const getGoals = async (req: Request, res: Response): Promise<void> => {
+  const goals = await GoalService.getGoals(req)
+  res.json({
+    success: true,
+    data: goals
+  })
+}
+
+const createGoal = async (req: Request, res: Response): Promise<void> => {
+  const goal = await GoalService.createGoal(req)
+  res.status(201).json({
+    success: true,
+    data: goal,
+    message: 'Goal created successfully'
+  })
+}
+
+const updateGoal = async (req: Request, res: Response): Promise<void> => {
+  const goal = await GoalService.updateGoal(req)
+  res.json({
+    success: true,
+    data: goal,
+    message: 'Goal updated successfully'
+  })
+}
+
+const deleteGoal = async (req: Request, res: Response): Promise<void> => {
+  await GoalService.deleteGoal(req)
+  res.json({
+    success: true,
+    message: 'Goal deleted successfully'
+  })
+}
+
+const getGoalResults = async (req: Request, res: Response): Promise<void> => {
+  const results = await GoalService.getGoalResults(req)
+  res.json({
+    success: true,
+    data: results
+  })
+}
+
+// Initialize routes with authentication middleware and async error handling
+router.get('/', AuthMiddleware.authenticateToken, asyncHandler(getGoals))
+router.post('/', AuthMiddleware.authenticateToken, asyncHandler(createGoal))
+router.get('/results', AuthMiddleware.authenticateToken, asyncHandler(getGoalResults))
+router.put('/:goalId', AuthMiddleware.authenticateToken, asyncHandler(updateGoal))
+router.delete('/:goalId', AuthMiddleware.authenticateToken, asyncHandler(deleteGoal))
+
+export const GoalsController = {
+  router,
+  getGoals,
+  createGoal,
+  updateGoal,
+  deleteGoal,
+  getGoalResults
+}
\ No newline at end of file
@@ -0,0 +1,139 @@
+import { Router } from 'express'
+import type { Request, Response } from 'express'
+import { GroupService } from '../services/GroupService'
+import { FriendDashboardService } from '../services/FriendDashboardService'
+import { AuthMiddleware } from '../middleware/auth'
+import { asyncHandler } from '../middleware/errorHandler'
+
+const router = Router()
+
+const getGroups = async (req: Request, res: Response): Promise<void> => {
+  const groups = await GroupService.getGroups(req)
+  res.json({
+    success: true,
+    data: groups
+  })
+}
+
+const createGroup = async (req: Request, res: Response): Promise<void> => {
+  const group = await GroupService.createGroup(req)
+  res.status(201).json({
+    success: true,
+    data: group,
+    message: 'Group created successfully'
+  })
+}
+
+const getGroup = async (req: Request, res: Response): Promise<void> => {
+  const group = await GroupService.getGroup(req)
+  res.json({
+    success: true,
+    data: group
+  })
+}
+
+const updateGroup = async (req: Request, res: Response): Promise<void> => {
+  const group = await GroupService.updateGroup(req)
+  res.json({
+    success: true,
+    data: group,
+    message: 'Group updated successfully'
+  })
+}
+
+const deleteGroup = async (req: Request, res: Response): Promise<void> => {
+  await GroupService.deleteGroup(req)
+  res.json({
+    success: true,
+    message: 'Group deleted successfully'
+  })
+}
+
+const getGroupDashboard = async (req: Request, res: Response): Promise<void> => {
+  const dashboard = await FriendDashboardService.getGroupDashboard(req)
+  res.json({
+    success: true,
+    data: dashboard
+  })
+}
+
+const inviteMember = async (req: Request, res: Response): Promise<void> => {
+  const invitation = await GroupService.inviteMember(req)
+  res.status(201).json({
+    success: true,
+    data: invitation,
+    message: 'Invitation sent'
+  })
+}
+
+const cancelInvitation = async (req: Request, res: Response): Promise<void> => {
+  const invitation = await GroupService.cancelInvitation(req)
+  res.json({
+    success: true,
+    data: invitation,
+    message: 'Invitation cancelled'
+  })
+}
+
+const getInvitations = async (req: Request, res: Response): Promise<void> => {
+  const invitations = await GroupService.getInvitations(req)
+  res.json({
+    success: true,
+    data: invitations
+  })
+}
+
+const respondToInvitation = async (req: Request, res: Response): Promise<void> => {
+  const result = await GroupService.respondToInvitation(req)
+  res.json({
+    success: true,
+    data: result,
+    message: req.body.action === 'accept' ? 'Invitation accepted' : 'Invitation declined'
+  })
+}
+
+const updateMemberRole = async (req: Request, res: Response): Promise<void> => {
+  const member = await GroupService.updateMemberRole(req)
+  res.json({
+    success: true,
+    data: member
+  })
+}
+
+const removeMember = async (req: Request, res: Response): Promise<void> => {
+  await GroupService.removeMember(req)
+  res.json({
+    success: true,
+    message: req.params.userId === req.user?.id ? 'You left the group' : 'Member removed'
+  })
+}
+
+// Initialize routes with authentication middleware and async error handling
+router.get('/', AuthMiddleware.authenticateToken, asyncHandler(getGroups))
+router.post('/', AuthMiddleware.authenticateToken, asyncHandler(createGroup))
+router.get('/invitations', AuthMiddleware.authenticateToken, asyncHandler(getInvitations))
+router.post('/invitations/:invitationId/respond', AuthMiddleware.authenticateToken, asyncHandler(respondToInvitation))
+router.get('/:groupId', AuthMiddleware.authenticateToken, asyncHandler(getGroup))
+router.put('/:groupId', AuthMiddleware.authenticateToken, asyncHandler(updateGroup))
+router.delete('/:groupId', AuthMiddleware.authenticateToken, asyncHandler(deleteGroup))
+router.get('/:groupId/dashboard', AuthMiddleware.authenticateToken, asyncHandler(getGroupDashboard))
+router.post('/:groupId/invitations', AuthMiddleware.authenticateToken, asyncHandler(inviteMember))
+router.delete('/:groupId/invitations/:invitationId', AuthMiddleware.authenticateToken, asyncHandler(cancelInvitation))
+router.put('/:groupId/members/:userId', AuthMiddleware.authenticateToken, asyncHandler(updateMemberRole))
+router.delete('/:groupId/members/:userId', AuthMiddleware.authenticateToken, asyncHandler(removeMember))
+
+export const GroupsController = {
+  router,
+  getGroups,
+  createGroup,
+  getGroup,
+  updateGroup,
+  deleteGroup,
+  getGroupDashboard,
+  inviteMember,
+  cancelInvitation,
+  getInvitations,
+  respondToInvitation,
+  updateMemberRole,
+  removeMember
+}
\ No newline at end of file
@@ -3,6 +3,7 @@ import type { Request, Response } from 'express'
 import { jobQueueService } from '../services/JobQueueService'
 import { AuthMiddleware } from '../middleware/auth'
 import { asyncHandler } from '../middleware/errorHandler'
+import { MarketingService } from '../services/MarketingService'
 
 const router = Router()
 
@@ -126,6 +127,110 @@ const triggerWeeklyEmailReminder = async (req: Request, res: Response): Promise<
   }
 }
 
+const triggerGoalCheck = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const job = await jobQueueService.triggerGoalCheck()
+    res.json({
+      success: true,
+      message: 'Goal check job triggered',
+      data: {
+        jobId: job.id,
+        jobName: job.name
+      }
+    })
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to trigger goal check',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
+
+const triggerAchievementCheck = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const job = await jobQueueService.triggerAchievementCheck()
+    res.json({
+      success: true,
+      message: 'Achievement check job triggered',
+      data: {
+        jobId: job.id,
+        jobName: job.name
+      }
+    })
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to trigger achievement check',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
+
+const triggerFriendRequestExpiry = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const job = await jobQueueService.triggerFriendRequestExpiry()
+    res.json({
+      success: true,
+      message: 'Friend request expiry job triggered',
+      data: {
+        jobId: job.id,
+        jobName: job.name
+      }
+    })
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to trigger friend request expiry',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
+
+const triggerActivityDistributionRefresh = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const job = await jobQueueService.triggerActivityDistributionRefresh()
+    res.json({
+      success: true,
+      message: 'Activity distribution refresh job triggered',
+      data: {
+        jobId: job.id,
+        jobName: job.name
+      }
+    })
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to trigger activity distribution refresh',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
+
+// Pass `from` (and optionally `to`) to also backfill history for days before snapshots began
+const triggerMarketingSnapshot = async (req: Request, res: Response): Promise<void> => {
+  const { from, to } = req.body || {}
+  const backfill = from === undefined && to === undefined ? undefined : MarketingService.parseBackfillRange(from, to)
+
+  try {
+    const job = await jobQueueService.triggerMarketingSnapshot({ backfill })
+    res.json({
+      success: true,
+      message: 'Marketing snapshot job triggered',
+      data: {
+        jobId: job.id,
+        jobName: job.name
+      }
+    })
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to trigger marketing snapshot',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
+
 // Protected routes - require authentication
 router.get('/stats', AuthMiddleware.authenticateToken, asyncHandler(getQueueStats))
 router.post('/trigger/new-users', AuthMiddleware.authenticateToken, asyncHandler(triggerNewUserCheck))
@@ -133,6 +238,11 @@ router.post('/trigger/paid-users', AuthMiddleware.authenticateToken, asyncHandle
 router.post('/trigger/inactive-users', AuthMiddleware.authenticateToken, asyncHandler(triggerInactiveUserCheck))
 router.post('/trigger/test', AuthMiddleware.authenticateToken, asyncHandler(triggerTestJob))
 router.post('/trigger/weekly-email-reminder', AuthMiddleware.authenticateToken, asyncHandler(triggerWeeklyEmailReminder))
+router.post('/trigger/goals', AuthMiddleware.authenticateToken, asyncHandler(triggerGoalCheck))
+router.post('/trigger/achievements', AuthMiddleware.authenticateToken, asyncHandler(triggerAchievementCheck))
+router.post('/trigger/friend-requests/expire', AuthMiddleware.authenticateToken, asyncHandler(triggerFriendRequestExpiry))
+router.post('/trigger/activity-distribution/refresh', AuthMiddleware.authenticateToken, asyncHandler(triggerActivityDistributionRefresh))
+router.post('/trigger/marketing/snapshot', AuthMiddleware.authenticateToken, asyncHandler(triggerMarketingSnapshot))
 
 export const JobQueueController = {
   router,
@@ -142,4 +252,9 @@ export const JobQueueController = {
   triggerInactiveUserCheck,
   triggerTestJob,
   triggerWeeklyEmailReminder,
+  triggerGoalCheck,
+  triggerAchievementCheck,
+  triggerFriendRequestExpiry,
+  triggerActivityDistributionRefresh,
+  triggerMarketingSnapshot,
 } 
\ No newline at end of file
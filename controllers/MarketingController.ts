@@ -1,11 +1,25 @@
 import { Router } from 'express'
 import type { Request, Response } from 'express'
 import { MarketingService } from '../services/MarketingService'
+import { MarketingBadgeService } from '../services/MarketingBadgeService'
 import { asyncHandler } from '../middleware/errorHandler'
-import { cache } from '../utils/cache'
+import { getCacheStatus as getSharedCacheStatus } from '../utils/cache'
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from '../utils/timezone'
 
 const router = Router()
 
+// Embedded badges are fetched on every page view; let browsers and CDNs reuse them briefly
+const BADGE_CACHE_CONTROL = 'public, max-age=300, stale-while-revalidate=3600'
+
+// Community-wide "last N days" windows are resolved in the caller's timezone when given
+const getTimeZoneParam = (req: Request): string => {
+  const timeZone = req.query.timezone
+  if (typeof timeZone === 'string' && isValidTimeZone(timeZone)) {
+    return timeZone
+  }
+  return DEFAULT_TIME_ZONE
+}
+
 const getWeeklyActivityData = async (req: Request, res: Response): Promise<void> => {
   const weeklyData = await MarketingService.getWeeklyActivityData()
   res.json({
@@ -25,7 +39,7 @@ const getTotalHoursCreating = async (req: Request, res: Response): Promise<void>
 }
 
 const getAverageWeeklyHours = async (req: Request, res: Response): Promise<void> => {
-  const averageHours = await MarketingService.getAverageWeeklyHours()
+  const averageHours = await MarketingService.getAverageWeeklyHours(getTimeZoneParam(req))
   res.json({
     success: true,
     data: {
@@ -36,7 +50,7 @@ const getAverageWeeklyHours = async (req: Request, res: Response): Promise<void>
 
 const getDailyActivityData = async (req: Request, res: Response): Promise<void> => {
   const days = req.query.days ? parseInt(req.query.days as string) : 90
-  const dailyData = await MarketingService.getDailyActivityData(days)
+  const dailyData = await MarketingService.getDailyActivityData(days, getTimeZoneParam(req))
   res.json({
     success: true,
     data: dailyData
@@ -60,8 +74,35 @@ const getCumulativeWeeklyHours = async (req: Request, res: Response): Promise<vo
   })
 }
 
+const getMetricHistory = async (req: Request, res: Response): Promise<void> => {
+  const history = await MarketingService.getMetricHistory(req.params.metric as string, req.query.from, req.query.to)
+  res.json({
+    success: true,
+    data: history
+  })
+}
+
+const getSnapshot = async (req: Request, res: Response): Promise<void> => {
+  const snapshot = await MarketingService.getSnapshot(req.params.date)
+  res.json({
+    success: true,
+    data: snapshot
+  })
+}
+
+const getBadge = async (req: Request, res: Response): Promise<void> => {
+  const badge = await MarketingBadgeService.getBadge(req.params.metric as string, req.query)
+  res.set({
+    'Content-Type': 'image/svg+xml; charset=utf-8',
+    'Cache-Control': BADGE_CACHE_CONTROL,
+    ETag: badge.etag
+  })
+  // send() answers a matching If-None-Match with 304 and no body
+  res.send(badge.svg)
+}
+
 const getCacheStatus = async (req: Request, res: Response): Promise<void> => {
-  const stats = cache.getStats()
+  const stats = await getSharedCacheStatus()
   const cacheInfo = {
     ...stats,
     items: stats.items.map(item => ({
@@ -85,6 +126,9 @@ router.get('/average-weekly-hours', asyncHandler(getAverageWeeklyHours))
 router.get('/daily-activity', asyncHandler(getDailyActivityData))
 router.get('/top-creating-days', asyncHandler(getTopCreatingDays))
 router.get('/cumulative-weekly-hours', asyncHandler(getCumulativeWeeklyHours))
+router.get('/history/:metric', asyncHandler(getMetricHistory))
+router.get('/snapshots/:date', asyncHandler(getSnapshot))
+router.get('/badge/:metric.svg', asyncHandler(getBadge))
 router.get('/cache-status', asyncHandler(getCacheStatus))
 
 export const MarketingController = {
@@ -95,5 +139,8 @@ export const MarketingController = {
   getDailyActivityData,
   getTopCreatingDays,
   getCumulativeWeeklyHours,
+  getMetricHistory,
+  getSnapshot,
+  getBadge,
   getCacheStatus
 } 
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { Router } from 'express'
 import type { Request, Response } from 'express'
 import { RollupService } from '../services/RollupService.js'
+import { ActivityTagService } from '../services/ActivityTagService.js'
 import { AuthMiddleware } from '../middleware/auth.js'
 import { asyncHandler } from '../middleware/errorHandler.js'
 
@@ -15,10 +16,84 @@ const updateActivity = async (req: Request, res: Response): Promise<void> => {
   })
 }
 
+const batchUpdateActivity = async (req: Request, res: Response): Promise<void> => {
+  const result = await RollupService.batchUpdateActivity(req)
+  res.json({
+    success: true,
+    data: result,
+    message: `Processed ${result.results.length} activity updates (${result.succeeded} succeeded, ${result.failed} failed)`
+  })
+}
+
+const getActivityHistory = async (req: Request, res: Response): Promise<void> => {
+  const history = await RollupService.getActivityHistory(req)
+  res.json({
+    success: true,
+    data: history
+  })
+}
+
+const getTags = async (req: Request, res: Response): Promise<void> => {
+  const tags = await ActivityTagService.getTags(req)
+  res.json({
+    success: true,
+    data: tags
+  })
+}
+
+const createTag = async (req: Request, res: Response): Promise<void> => {
+  const tag = await ActivityTagService.createTag(req)
+  res.status(201).json({
+    success: true,
+    data: tag,
+    message: 'Tag created successfully'
+  })
+}
+
+const updateTag = async (req: Request, res: Response): Promise<void> => {
+  const tag = await ActivityTagService.updateTag(req)
+  res.json({
+    success: true,
+    data: tag,
+    message: 'Tag updated successfully'
+  })
+}
+
+const deleteTag = async (req: Request, res: Response): Promise<void> => {
+  await ActivityTagService.deleteTag(req)
+  res.json({
+    success: true,
+    message: 'Tag deleted successfully'
+  })
+}
+
+const mergeTags = async (req: Request, res: Response): Promise<void> => {
+  const result = await ActivityTagService.mergeTags(req)
+  res.json({
+    success: true,
+    data: result,
+    message: `Merged tag "${result.from}" into "${result.to}"`
+  })
+}
+
 // Initialize routes with authentication middleware and async error handling
 router.post('/update', AuthMiddleware.authenticateToken, asyncHandler(updateActivity))
+router.post('/batch', AuthMiddleware.authenticateToken, asyncHandler(batchUpdateActivity))
+router.get('/history', AuthMiddleware.authenticateToken, asyncHandler(getActivityHistory))
+router.get('/tags', AuthMiddleware.authenticateToken, asyncHandler(getTags))
+router.post('/tags', AuthMiddleware.authenticateToken, asyncHandler(createTag))
+router.post('/tags/merge', AuthMiddleware.authenticateToken, asyncHandler(mergeTags))
+router.put('/tags/:tagId', AuthMiddleware.authenticateToken, asyncHandler(updateTag))
+router.delete('/tags/:tagId', AuthMiddleware.authenticateToken, asyncHandler(deleteTag))
 
 export const RollupController = {
   router,
-  updateActivity
+  updateActivity,
+  batchUpdateActivity,
+  getActivityHistory,
+  getTags,
+  createTag,
+  updateTag,
+  deleteTag,
+  mergeTags
 } 
\ No newline at end of file
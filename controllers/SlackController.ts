@@ -3,6 +3,9 @@ import type { Request, Response } from 'express'
 import { SlackOAuthService } from '../services/SlackOAuthService.js'
 import { SlackService } from '../services/SlackService.js'
 import { SlackBotService } from '../services/SlackBotService.js'
+import { SlackFocusScheduleService } from '../services/SlackFocusScheduleService.js'
+import { SlackFocusHistoryService } from '../services/SlackFocusHistoryService.js'
+import { SlackDigestService } from '../services/SlackDigestService.js'
 import { AuthMiddleware } from '../middleware/auth.js'
 import { asyncHandler, ApiError } from '../middleware/errorHandler.js'
 
@@ -111,6 +114,19 @@ const updateSlackPreferences = async (req: Request, res: Response): Promise<void
   })
 }
 
+const updateSlackWorkspacePreferences = async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const result = await SlackService.updateWorkspacePreferences(req.user.id, req.params.workspaceId, req.body)
+
+  res.json({
+    success: true,
+    data: result
+  })
+}
+
 const startFocusSession = async (req: Request, res: Response): Promise<void> => {
   if (!req.user) {
     throw new ApiError('User authentication required', 401)
@@ -147,6 +163,53 @@ const endFocusSession = async (req: Request, res: Response): Promise<void> => {
   })
 }
 
+const extendFocusSession = async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const { minutes } = req.body
+  if (!Number.isInteger(minutes) || minutes < 1 || minutes > 240) {
+    throw new ApiError('minutes must be a whole number between 1 and 240', 400)
+  }
+
+  const result = await SlackService.extendFocusSession(req.user.id, minutes)
+
+  res.json({
+    success: true,
+    message: `Focus session extended by ${minutes} minute(s) - ${result.workspaces.length} workspace(s) processed`,
+    data: result
+  })
+}
+
+const pauseFocusSession = async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const result = await SlackService.pauseFocusSession(req.user.id)
+
+  res.json({
+    success: true,
+    message: `Focus session paused - ${result.workspaces.length} workspace(s) processed`,
+    data: result
+  })
+}
+
+const resumeFocusSession = async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const result = await SlackService.resumeFocusSession(req.user.id)
+
+  res.json({
+    success: true,
+    message: `Focus session resumed - ${result.workspaces.length} workspace(s) processed`,
+    data: result
+  })
+}
+
 const getFocusSessionStatus = async (req: Request, res: Response): Promise<void> => {
   if (!req.user) {
     throw new ApiError('User authentication required', 401)
@@ -160,6 +223,101 @@ const getFocusSessionStatus = async (req: Request, res: Response): Promise<void>
   })
 }
 
+const getFocusSessions = async (req: Request, res: Response): Promise<void> => {
+  const page = await SlackFocusHistoryService.getFocusSessions(req)
+  res.json({
+    success: true,
+    data: page
+  })
+}
+
+const getFocusAnalytics = async (req: Request, res: Response): Promise<void> => {
+  const analytics = await SlackFocusHistoryService.getFocusAnalytics(req)
+  res.json({
+    success: true,
+    data: analytics
+  })
+}
+
+const getFocusSessionDigest = async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const digest = await SlackDigestService.getDigest(req.user.id, req.params.sessionId)
+
+  res.json({
+    success: true,
+    data: digest
+  })
+}
+
+const getFocusSchedules = async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const schedules = await SlackFocusScheduleService.listSchedules(req.user.id)
+
+  res.json({
+    success: true,
+    data: schedules
+  })
+}
+
+const createFocusSchedule = async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const schedule = await SlackFocusScheduleService.createSchedule(req.user.id, req.body)
+
+  res.status(201).json({
+    success: true,
+    data: schedule
+  })
+}
+
+const updateFocusSchedule = async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const schedule = await SlackFocusScheduleService.updateSchedule(req.user.id, req.params.scheduleId as string, req.body)
+
+  res.json({
+    success: true,
+    data: schedule
+  })
+}
+
+const deleteFocusSchedule = async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  await SlackFocusScheduleService.deleteSchedule(req.user.id, req.params.scheduleId as string)
+
+  res.json({
+    success: true,
+    message: 'Focus schedule deleted'
+  })
+}
+
+const skipFocusScheduleOccurrence = async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const schedule = await SlackFocusScheduleService.skipOccurrence(req.user.id, req.params.scheduleId as string, req.body?.date)
+
+  res.json({
+    success: true,
+    message: `Skipped the occurrence on ${req.body.date}`,
+    data: schedule
+  })
+}
+
 const setSlackStatus = async (req: Request, res: Response): Promise<void> => {
   if (!req.user) {
     throw new ApiError('User authentication required', 401)
@@ -297,11 +455,26 @@ router.delete('/disconnect', AuthMiddleware.authenticateToken, asyncHandler(disc
 router.delete('/disconnect/:workspaceId', AuthMiddleware.authenticateToken, asyncHandler(disconnectSlackWorkspace))
 router.get('/status', AuthMiddleware.authenticateToken, asyncHandler(getSlackStatus))
 router.put('/preferences', AuthMiddleware.authenticateToken, asyncHandler(updateSlackPreferences))
+router.put('/preferences/:workspaceId', AuthMiddleware.authenticateToken, asyncHandler(updateSlackWorkspacePreferences))
 
 // Focus session integration routes
 router.post('/focus-session/start', AuthMiddleware.authenticateToken, asyncHandler(startFocusSession))
 router.post('/focus-session/end', AuthMiddleware.authenticateToken, asyncHandler(endFocusSession))
+router.post('/focus-session/extend', AuthMiddleware.authenticateToken, asyncHandler(extendFocusSession))
+router.post('/focus-session/pause', AuthMiddleware.authenticateToken, asyncHandler(pauseFocusSession))
+router.post('/focus-session/resume', AuthMiddleware.authenticateToken, asyncHandler(resumeFocusSession))
 router.get('/focus-session/status', AuthMiddleware.authenticateToken, asyncHandler(getFocusSessionStatus))
+router.get('/focus-sessions', AuthMiddleware.authenticateToken, asyncHandler(getFocusSessions))
+router.get('/focus-sessions/analytics', AuthMiddleware.authenticateToken, asyncHandler(getFocusAnalytics))
+router.get('/focus-sessions/:sessionId/digest', AuthMiddleware.authenticateToken, asyncHandler(getFocusSessionDigest))
+router.get('/digest', AuthMiddleware.authenticateToken, asyncHandler(getFocusSessionDigest))
+
+// Scheduled focus session routes
+router.get('/focus-schedules', AuthMiddleware.authenticateToken, asyncHandler(getFocusSchedules))
+router.post('/focus-schedules', AuthMiddleware.authenticateToken, asyncHandler(createFocusSchedule))
+router.put('/focus-schedules/:scheduleId', AuthMiddleware.authenticateToken, asyncHandler(updateFocusSchedule))
+router.delete('/focus-schedules/:scheduleId', AuthMiddleware.authenticateToken, asyncHandler(deleteFocusSchedule))
+router.post('/focus-schedules/:scheduleId/skip', AuthMiddleware.authenticateToken, asyncHandler(skipFocusScheduleOccurrence))
 
 // Manual Slack control routes
 router.post('/status/set', AuthMiddleware.authenticateToken, asyncHandler(setSlackStatus))
@@ -319,5 +492,6 @@ export const SlackController = {
   disconnectSlack,
   getSlackStatus,
   updateSlackPreferences,
+  updateSlackWorkspacePreferences,
   handleSlackEvents
 }
\ No newline at end of file
@@ -4,6 +4,7 @@ import { UserProfileService } from '../services/UserProfileService.js'
 import { AuthMiddleware } from '../middleware/auth.js'
 import { asyncHandler, ApiError } from '../middleware/errorHandler.js'
 import { LicenseService } from '../services/LicenseService.js'
+import { AchievementService } from '../services/AchievementService.js'
 
 const router = Router()
 
@@ -42,15 +43,53 @@ const getUserProfile = async (req: Request, res: Response): Promise<void> => {
   })
 }
 
+const updateUserTimeZone = async (req: Request, res: Response): Promise<void> => {
+  const result = await UserProfileService.updateUserTimeZone(req)
+  res.json({
+    success: true,
+    data: result
+  })
+}
+
+const checkIn = async (req: Request, res: Response): Promise<void> => {
+  const presence = await UserProfileService.checkIn(req)
+  res.json({
+    success: true,
+    data: presence
+  })
+}
 
+const getAchievements = async (req: Request, res: Response): Promise<void> => {
+  const achievements = await AchievementService.getUserAchievements(req)
+  res.json({
+    success: true,
+    data: achievements
+  })
+}
+
+const updateAchievementSettings = async (req: Request, res: Response): Promise<void> => {
+  const result = await AchievementService.updateAnnounceSetting(req)
+  res.json({
+    success: true,
+    data: result
+  })
+}
 
 router.get('/status-counts', AuthMiddleware.authenticateToken, asyncHandler(getStatusCounts))
 router.post('/location', AuthMiddleware.authenticateToken, asyncHandler(saveUserLocation))
 router.get('/locations', AuthMiddleware.authenticateToken, asyncHandler(getUserLocations))
 router.get('/profile/me', AuthMiddleware.authenticateToken, asyncHandler(getUserProfile))
+router.put('/timezone', AuthMiddleware.authenticateToken, asyncHandler(updateUserTimeZone))
+router.post('/presence', AuthMiddleware.authenticateToken, asyncHandler(checkIn))
+router.get('/achievements', AuthMiddleware.authenticateToken, asyncHandler(getAchievements))
+router.put('/achievements/settings', AuthMiddleware.authenticateToken, asyncHandler(updateAchievementSettings))
 
 export const UserController = {
   router,
   getStatusCounts,
   saveUserLocation,
+  updateUserTimeZone,
+  checkIn,
+  getAchievements,
+  updateAchievementSettings,
 } 
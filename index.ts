@@ -3,6 +3,8 @@ import { UserController } from './controllers/UserController'
 import { GeoLocationController } from './controllers/GeoLocationController'
 import { FriendsController } from './controllers/FriendsController'
 import { RollupController } from './controllers/RollupController'
+import { GoalsController } from './controllers/GoalsController'
+import { GroupsController } from './controllers/GroupsController'
 import { MarketingController } from './controllers/MarketingController'
 import { JobQueueController } from './controllers/JobQueueController'
 import { SlackController } from './controllers/SlackController'
@@ -13,7 +15,11 @@ import { WebhookController } from './controllers/WebhookController'
 import { GeoLocationService } from './services/GeoLocationService'
 import { jobQueueService } from './services/JobQueueService'
 import { slackCleanupQueueService } from './services/SlackCleanupQueueService'
+import { SlackFocusScheduleService } from './services/SlackFocusScheduleService'
+import { PresenceService } from './services/PresenceService'
+import { initializeCache, shutdownCache } from './utils/cache'
 import { ApiError } from './middleware/errorHandler'
+import { assertInviteSecretConfigured } from './utils/inviteToken'
 
 const app = express()
 const PORT = parseInt(process.env.PORT || '8001', 10)
@@ -52,6 +58,8 @@ app.use('/api/users', UserController.router)
 app.use('/api/geolocation', GeoLocationController.router)
 app.use('/api/friends', FriendsController.router)
 app.use('/api/rollup', RollupController.router)
+app.use('/api/goals', GoalsController.router)
+app.use('/api/groups', GroupsController.router)
 app.use('/api/jobs', JobQueueController.router)
 app.use('/api/slack', SlackController.router)
 app.use('/api/notifications', NotificationTestController.router)
@@ -141,7 +149,9 @@ async function gracefulShutdown() {
   try {
     await Promise.all([
       jobQueueService.shutdown(),
-      slackCleanupQueueService.shutdown()
+      slackCleanupQueueService.shutdown(),
+      PresenceService.shutdown(),
+      shutdownCache()
     ])
     console.log('✅ Graceful shutdown completed')
     process.exit(0)
@@ -156,6 +166,9 @@ export const startServer = async (port: number = PORT) => {
   try {
     // Initialize services
     console.log('🔧 Initializing services...')
+
+    // Required configuration, checked before anything starts
+    assertInviteSecretConfigured()
     
     // Initialize GeoLocationService (will fail gracefully if database not found)
     try {
@@ -178,11 +191,33 @@ export const startServer = async (port: number = PORT) => {
     // Initialize Slack Cleanup Queue Service (will fail gracefully if Redis not available)
     try {
       await slackCleanupQueueService.initialize()
+
+      // Schedules saved while the queue was unavailable don't have their jobs yet
+      const syncedSchedules = await SlackFocusScheduleService.syncAllSchedules()
+      console.log(`⏰ Synced ${syncedSchedules} Slack focus schedule(s)`)
     } catch (error) {
       console.warn('⚠️  Slack Cleanup Queue Service initialization failed:', error)
-      console.warn('   Slack focus session cleanup jobs will not be available.')
+      console.warn('   Slack focus session cleanup and scheduled session jobs will not be available.')
       console.warn('   To enable Slack cleanup, ensure Redis is running and properly configured.')
     }
+
+    // Initialize shared Redis cache (falls back to a per-process cache if Redis not available)
+    try {
+      await initializeCache()
+    } catch (error) {
+      console.warn('⚠️  Redis cache initialization failed:', error)
+      console.warn('   Cached data will be kept in memory per instance.')
+      console.warn('   To share the cache between instances, ensure Redis is running and properly configured.')
+    }
+
+    // Initialize Presence Service (will fail gracefully if Redis not available)
+    try {
+      await PresenceService.initialize()
+    } catch (error) {
+      console.warn('⚠️  Presence Service initialization failed:', error)
+      console.warn('   Real-time friend presence streams will not be available.')
+      console.warn('   To enable presence streams, ensure Redis is running and properly configured.')
+    }
     
     console.log('✅ Services initialized successfully')
     
@@ -192,6 +227,7 @@ export const startServer = async (port: number = PORT) => {
       console.log(`👥 Users API (auth required): http://localhost:${port}/api/users`)
       console.log(`🌍 Geolocation API (auth required): http://localhost:${port}/api/geolocation`)
       console.log(`👋 Friends API (auth required): http://localhost:${port}/api/friends`)
+      console.log(`📡 Presence stream (auth required, SSE): http://localhost:${port}/api/friends/presence/stream`)
       console.log(`🏭 Rollup API (auth required): http://localhost:${port}/api/rollup`)
       console.log(`📈 Marketing API (public): http://localhost:${port}/api/marketing`)
       console.log(`⚙️  Job Queue API (auth required): http://localhost:${port}/api/jobs`)
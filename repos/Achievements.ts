@@ -0,0 +1,199 @@
+import { getDb } from '../config/database'
+
+const db = getDb()
+
+export interface UserAchievement {
+  id: string
+  user_id: string
+  achievement_id: string
+  reference_id: string
+  data?: any
+  unlocked_at: Date
+  announced_at: Date | null
+}
+
+export type AchievementAward = Pick<UserAchievement, 'user_id' | 'achievement_id' | 'reference_id' | 'data'>
+
+export interface UserMetric {
+  userId: string
+  value: number
+}
+
+export interface WeeklyRecord {
+  userId: string
+  weekMinutes: number
+  previousBest: number | null // null when the user has no earlier weeks
+}
+
+const tableName = 'user_achievement'
+
+const toUserMetrics = (rows: any[]): UserMetric[] => {
+  return rows.map(row => ({
+    userId: row.user_id,
+    value: parseInt(row.value as string) || 0
+  }))
+}
+
+// Longest run of consecutive days with creating time per user, up to and including asOf
+const getLongestStreaks = async (asOf: string): Promise<UserMetric[]> => {
+  const query = `
+    WITH active_days AS (
+      SELECT user_id, date
+      FROM activity_day_rollup_categorized
+      WHERE category = 'creating' AND date <= ?
+      GROUP BY user_id, date
+      HAVING SUM(total_duration_minutes) > 0
+    ),
+    islands AS (
+      SELECT user_id, date - (ROW_NUMBER() OVER (PARTITION BY user_id ORDER BY date))::int AS island
+      FROM active_days
+    ),
+    streaks AS (
+      SELECT user_id, COUNT(*) AS length
+      FROM islands
+      GROUP BY user_id, island
+    )
+    SELECT user_id, MAX(length) AS value
+    FROM streaks
+    GROUP BY user_id
+  `
+
+  const result = await db.raw(query, [asOf])
+  return toUserMetrics(result.rows)
+}
+
+const getTotalCreatingMinutes = async (): Promise<UserMetric[]> => {
+  const rows = await db('activity_day_rollup_categorized')
+    .select('user_id', db.raw('SUM(total_duration_minutes) AS value'))
+    .where({ category: 'creating' })
+    .groupBy('user_id')
+
+  return toUserMetrics(rows)
+}
+
+// Creating minutes for the week starting weekStart, alongside each user's best earlier week
+const getWeeklyRecords = async (weekStart: string): Promise<WeeklyRecord[]> => {
+  const query = `
+    WITH weekly AS (
+      SELECT user_id, DATE_TRUNC('week', date)::date AS week_start, SUM(total_duration_minutes) AS minutes
+      FROM activity_day_rollup_categorized
+      WHERE category = 'creating' AND date < ?::date + 7
+      GROUP BY user_id, DATE_TRUNC('week', date)
+    )
+    SELECT
+      user_id,
+      MAX(minutes) FILTER (WHERE week_start = ?::date) AS week_minutes,
+      MAX(minutes) FILTER (WHERE week_start < ?::date) AS previous_best
+    FROM weekly
+    GROUP BY user_id
+    HAVING MAX(minutes) FILTER (WHERE week_start = ?::date) IS NOT NULL
+  `
+
+  const result = await db.raw(query, [weekStart, weekStart, weekStart, weekStart])
+  return result.rows.map((row: any) => ({
+    userId: row.user_id,
+    weekMinutes: parseInt(row.week_minutes as string) || 0,
+    previousBest: row.previous_best === null ? null : parseInt(row.previous_best as string) || 0
+  }))
+}
+
+const getFriendCounts = async (): Promise<UserMetric[]> => {
+  const query = `
+    SELECT user_id, COUNT(*) AS value
+    FROM (
+      SELECT user_id_1 AS user_id FROM friend WHERE status = 'active'
+      UNION ALL
+      SELECT user_id_2 AS user_id FROM friend WHERE status = 'active'
+    ) friendships
+    GROUP BY user_id
+  `
+
+  const result = await db.raw(query)
+  return toUserMetrics(result.rows)
+}
+
+const announcementTableName = 'user_achievement_announcement'
+// Four bind parameters per row keeps each insert far below Postgres's 65535 limit
+const RECORD_BATCH_SIZE = 1000
+
+const getAwardKey = (award: Pick<AchievementAward, 'user_id' | 'achievement_id' | 'reference_id'>): string => {
+  return `${award.user_id}|${award.achievement_id}|${award.reference_id}`
+}
+
+/**
+ * Record awards, skipping any (user, achievement, reference) that was already unlocked.
+ * Returns only the newly unlocked rows, so re-running the job never awards twice.
+ */
+const recordAchievements = async (awards: AchievementAward[]): Promise<UserAchievement[]> => {
+  if (awards.length === 0) return []
+
+  const recorded = await db(tableName)
+    .whereIn('achievement_id', [...new Set(awards.map(award => award.achievement_id))])
+    .select('user_id', 'achievement_id', 'reference_id')
+  const recordedKeys = new Set(recorded.map(getAwardKey))
+  const newAwards = awards.filter(award => !recordedKeys.has(getAwardKey(award)))
+
+  const unlocked: UserAchievement[] = []
+  for (let i = 0; i < newAwards.length; i += RECORD_BATCH_SIZE) {
+    const rows = await db(tableName)
+      .insert(newAwards.slice(i, i + RECORD_BATCH_SIZE).map(award => ({
+        ...award,
+        data: award.data ? JSON.stringify(award.data) : null
+      })))
+      .onConflict(['user_id', 'achievement_id', 'reference_id'])
+      .ignore()
+      .returning('*')
+    unlocked.push(...rows)
+  }
+  return unlocked
+}
+
+const getUserAchievements = async (userId: string): Promise<UserAchievement[]> => {
+  return db(tableName)
+    .where({ user_id: userId })
+    .orderBy('unlocked_at', 'desc')
+}
+
+// Unlocks still waiting to be announced, including ones whose announcement failed on an earlier run
+const getUnannouncedAchievements = async (unlockedSince: Date): Promise<UserAchievement[]> => {
+  return db(tableName)
+    .whereNull('announced_at')
+    .where('unlocked_at', '>=', unlockedSince)
+    .orderBy('unlocked_at', 'asc')
+}
+
+const markAnnounced = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return
+
+  await db(tableName)
+    .whereIn('id', ids)
+    .update({ announced_at: db.fn.now() })
+}
+
+// Friends who already got the email for an unlock, so a retry doesn't email them twice
+const getAnnouncedFriendIds = async (userAchievementId: string): Promise<string[]> => {
+  const rows = await db(announcementTableName)
+    .where({ user_achievement_id: userAchievementId })
+    .select('friend_id')
+  return rows.map(row => row.friend_id)
+}
+
+const recordAnnouncement = async (userAchievementId: string, friendId: string): Promise<void> => {
+  await db(announcementTableName)
+    .insert({ user_achievement_id: userAchievementId, friend_id: friendId })
+    .onConflict(['user_achievement_id', 'friend_id'])
+    .ignore()
+}
+
+export const AchievementsRepo = {
+  getLongestStreaks,
+  getTotalCreatingMinutes,
+  getWeeklyRecords,
+  getFriendCounts,
+  recordAchievements,
+  getUserAchievements,
+  getUnannouncedAchievements,
+  getAnnouncedFriendIds,
+  recordAnnouncement,
+  markAnnounced
+}
\ No newline at end of file
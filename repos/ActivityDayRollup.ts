@@ -1,4 +1,6 @@
+import type { Knex } from 'knex'
 import { getDb } from '../config/database'
+import { DEFAULT_TIME_ZONE, getDateInTimeZone, shiftDate } from '../utils/timezone'
 
 export interface ActivityDayRollup {
   id: string
@@ -10,36 +12,102 @@ export interface ActivityDayRollup {
   updated_at: string
 }
 
+export type RollupWriteMode = 'set' | 'increment'
+
 export interface ActivityUpdate {
   user_id: string
   date: string
   tag_name: string
   duration_minutes: number
+  mode?: RollupWriteMode
+  idempotency_key?: string
+}
+
+export type HistoryGroupBy = 'day' | 'week' | 'month' | 'tag' | 'category'
+
+export interface ActivityTotal {
+  key: string
+  totalMinutes: number
+}
+
+export interface ActivityStreaks {
+  current: number
+  longest: number
+}
+
+export interface ActivityWriteResult {
+  activity: ActivityDayRollup
+  applied: boolean // false when the idempotency key was already seen and the write was skipped
 }
 
 const db = getDb()
 
 const tableName = 'activity_day_rollup'
+const writeLogTableName = 'activity_rollup_write'
+// Rollup rows joined with their resolved tag category (see the activity_tag migration)
+const categorizedViewName = 'activity_day_rollup_categorized'
 
-export const ActivityDayRollupRepo = {
-  async upsertActivity(update: ActivityUpdate): Promise<ActivityDayRollup> {
-    const [activity] = await db(tableName)
+const writeActivity = async (trx: Knex.Transaction, update: ActivityUpdate): Promise<ActivityWriteResult> => {
+  if (update.idempotency_key) {
+    const [claimed] = await trx(writeLogTableName)
       .insert({
         user_id: update.user_id,
+        idempotency_key: update.idempotency_key,
         date: update.date,
         tag_name: update.tag_name,
-        total_duration_minutes: update.duration_minutes
+        duration_minutes: update.duration_minutes,
+        mode: update.mode || 'set'
       })
-      .onConflict(['user_id', 'date', 'tag_name'])
-      .merge()
-      .returning('*')
+      .onConflict(['user_id', 'idempotency_key'])
+      .ignore()
+      .returning('id')
+
+    if (!claimed) {
+      const existing = await trx(tableName)
+        .where({ user_id: update.user_id, date: update.date, tag_name: update.tag_name })
+        .first()
+      return { activity: existing, applied: false }
+    }
+  }
+
+  const mergeValues = update.mode === 'increment'
+    ? { total_duration_minutes: trx.raw('?? + EXCLUDED.total_duration_minutes', [`${tableName}.total_duration_minutes`]) }
+    : { total_duration_minutes: update.duration_minutes }
 
-    return activity
+  const [activity] = await trx(tableName)
+    .insert({
+      user_id: update.user_id,
+      date: update.date,
+      tag_name: update.tag_name,
+      total_duration_minutes: update.duration_minutes
+    })
+    .onConflict(['user_id', 'date', 'tag_name'])
+    .merge(mergeValues)
+    .returning('*')
+
+  return { activity, applied: true }
+}
+
+export const ActivityDayRollupRepo = {
+  async upsertActivity(update: ActivityUpdate): Promise<ActivityWriteResult> {
+    return db.transaction(trx => writeActivity(trx, update))
+  },
+
+  async upsertActivities(updates: ActivityUpdate[]): Promise<ActivityWriteResult[]> {
+    // Rows are written one at a time so repeated (date, tag) pairs in the same batch
+    // resolve in order instead of tripping ON CONFLICT's "affect row a second time" error
+    return db.transaction(async (trx) => {
+      const results: ActivityWriteResult[] = []
+      for (const update of updates) {
+        results.push(await writeActivity(trx, update))
+      }
+      return results
+    })
   },
 
   async getUserActivityByDate(userId: string, date: string): Promise<number> {
-    const result = await db(tableName)
-      .where({ user_id: userId, date })
+    const result = await db(categorizedViewName)
+      .where({ user_id: userId, date, category: 'creating' })
       .sum('total_duration_minutes as total')
       .first()
 
@@ -47,8 +115,14 @@ export const ActivityDayRollupRepo = {
   },
 
   async getCommunityActivityByDate(date: string): Promise<{ totalMinutes: number; userCount: number; averageMinutes: number }> {
-    const result = await db(tableName)
-      .where({ date })
+    return this.getCommunityActivityByRange(date, date)
+  },
+
+  // Creating time over an inclusive date range; the average is per active user
+  async getCommunityActivityByRange(from: string, to: string): Promise<{ totalMinutes: number; userCount: number; averageMinutes: number }> {
+    const result = await db(categorizedViewName)
+      .where({ category: 'creating' })
+      .whereBetween('date', [from, to])
       .select(
         db.raw('SUM(total_duration_minutes) as total_minutes'),
         db.raw('COUNT(DISTINCT user_id) as user_count')
@@ -66,38 +140,54 @@ export const ActivityDayRollupRepo = {
     }
   },
 
-  async getUserPercentile(userId: string, date: string): Promise<number> {
-    const userTotal = await this.getUserActivityByDate(userId, date)
-    
-    const result = await db(tableName)
-      .where({ date })
-      .select(db.raw('COUNT(DISTINCT user_id) as user_count'))
-      .andWhere(
-        db.raw('(SELECT SUM(total_duration_minutes) FROM activity_day_rollup WHERE user_id = ? AND date = ?)', [userId, date]),
-        '>=',
-        db.raw('(SELECT SUM(total_duration_minutes) FROM activity_day_rollup as inner_rollup WHERE inner_rollup.user_id = activity_day_rollup.user_id AND inner_rollup.date = ?)', [date])
+  /**
+   * Percentage of users active in the inclusive range whose creating total is at or below
+   * the user's. Totals are aggregated once per user rather than with a correlated subquery.
+   */
+  async getUserPercentileByRange(userId: string, from: string, to: string): Promise<number> {
+    const userTotal = await this.getUserCreatingMinutes(userId, from, to)
+
+    const result = await db.raw(`
+      WITH totals AS (
+        SELECT user_id, SUM(total_duration_minutes) as total
+        FROM ${categorizedViewName}
+        WHERE category = 'creating' AND date BETWEEN ? AND ?
+        GROUP BY user_id
       )
-      .first()
+      SELECT
+        COUNT(*) FILTER (WHERE total <= ?) as users_at_or_below,
+        COUNT(*) as total_users
+      FROM totals
+    `, [from, to, userTotal])
 
-    const usersWithLessActivity = parseInt(result?.user_count as string) || 0
-    
-    // Get total number of users for this date
-    const totalUsersResult = await db(tableName)
-      .where({ date })
-      .countDistinct('user_id as count')
-      .first()
+    const usersAtOrBelow = parseInt(result.rows[0]?.users_at_or_below as string) || 0
+    const totalUsers = parseInt(result.rows[0]?.total_users as string) || 0
 
-    const totalUsers = parseInt(totalUsersResult?.count as string) || 1
-    
-    return totalUsers > 0 ? Math.round((usersWithLessActivity / totalUsers) * 100) : 0
+    return totalUsers > 0 ? Math.round((usersAtOrBelow / totalUsers) * 100) : 0
   },
 
   async getFriendsActivityByDate(friendIds: string[], date: string): Promise<Array<{ userId: string; totalMinutes: number }>> {
     if (friendIds.length === 0) return []
 
-    const result = await db(tableName)
+    const result = await db(categorizedViewName)
       .whereIn('user_id', friendIds)
-      .where({ date })
+      .where({ date, category: 'creating' })
+      .select('user_id', db.raw('SUM(total_duration_minutes) as total_minutes'))
+      .groupBy('user_id')
+
+    return result.map((row: any) => ({
+      userId: row.user_id,
+      totalMinutes: parseInt(row.total_minutes as string) || 0
+    }))
+  },
+
+  async getUsersCreatingMinutes(userIds: string[], from: string, to: string): Promise<Array<{ userId: string; totalMinutes: number }>> {
+    if (userIds.length === 0) return []
+
+    const result = await db(categorizedViewName)
+      .whereIn('user_id', userIds)
+      .where({ category: 'creating' })
+      .whereBetween('date', [from, to])
       .select('user_id', db.raw('SUM(total_duration_minutes) as total_minutes'))
       .groupBy('user_id')
 
@@ -144,11 +234,11 @@ export const ActivityDayRollupRepo = {
     return totalMinutes / 60 // Convert to hours
   },
 
-  async getAverageWeeklyHoursForActiveUsers(): Promise<number> {
+  async getAverageWeeklyHoursForActiveUsers(timeZone: string = DEFAULT_TIME_ZONE): Promise<number> {
     const sevenDaysAgo = new Date()
     sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7)
     const sevenDaysAgoTimestamp = sevenDaysAgo.toISOString()
-    const sevenDaysAgoDateStr = sevenDaysAgo.toISOString().split('T')[0]
+    const sevenDaysAgoDateStr = shiftDate(getDateInTimeZone(timeZone), -7)
 
     const query = db(tableName)
       .join('user_profile', `${tableName}.user_id`, 'user_profile.id')
@@ -168,14 +258,12 @@ export const ActivityDayRollupRepo = {
     return activeUsers > 0 ? totalHours / activeUsers : 0
   },
 
-  async getDailyActivityForPeriod(days: number = 90): Promise<Array<{ date: string; total_minutes: number }>> {
-    const startDate = new Date()
-    startDate.setDate(startDate.getDate() - days)
-    const startDateStr = startDate.toISOString().split('T')[0]
+  async getDailyActivityForPeriod(days: number = 90, timeZone: string = DEFAULT_TIME_ZONE): Promise<Array<{ date: string; total_minutes: number }>> {
+    const startDateStr = shiftDate(getDateInTimeZone(timeZone), -days)
 
     const result = await db(tableName)
       .select(
-        'date',
+        db.raw('TO_CHAR(date, \'YYYY-MM-DD\') as date'),
         db.raw('SUM(total_duration_minutes) as total_minutes')
       )
       .whereRaw('date >= ?', [startDateStr])  
@@ -232,5 +320,165 @@ export const ActivityDayRollupRepo = {
     })
 
     return cumulativeData
+  },
+
+  /**
+   * Total hours and average weekly hours as they stood at the end of each day in the inclusive
+   * range, for backfilling marketing history. Past check-ins aren't kept, so a user counts as
+   * active for a day's weekly average if they have rollups in the 7 days before it.
+   */
+  async getMarketingTotalsByDate(from: string, to: string): Promise<Array<{ date: string; total_hours: number; average_weekly_hours: number }>> {
+    // Running total from everything before the range plus each day in it, and each day's
+    // trailing week from one join of the days against the rollups
+    const result = await db.raw(`
+      WITH days AS (
+        SELECT generate_series(?::date, ?::date, interval '1 day')::date as day
+      ),
+      earlier AS (
+        SELECT COALESCE(SUM(total_duration_minutes), 0) as minutes
+        FROM ${tableName}
+        WHERE date < ?
+      ),
+      daily AS (
+        SELECT date, SUM(total_duration_minutes) as minutes
+        FROM ${tableName}
+        WHERE date BETWEEN ? AND ?
+        GROUP BY date
+      ),
+      weekly AS (
+        SELECT d.day, SUM(r.total_duration_minutes) as minutes, COUNT(DISTINCT r.user_id) as users
+        FROM days d
+        JOIN ${tableName} r ON r.date BETWEEN d.day - 7 AND d.day
+        GROUP BY d.day
+      )
+      SELECT
+        TO_CHAR(d.day, 'YYYY-MM-DD') as date,
+        (earlier.minutes + SUM(COALESCE(daily.minutes, 0)) OVER (ORDER BY d.day)) / 60.0 as total_hours,
+        COALESCE(weekly.minutes / 60.0 / NULLIF(weekly.users, 0), 0) as average_weekly_hours
+      FROM days d
+      CROSS JOIN earlier
+      LEFT JOIN daily ON daily.date = d.day
+      LEFT JOIN weekly ON weekly.day = d.day
+      ORDER BY d.day
+    `, [from, to, from, from, to])
+
+    return result.rows.map((row: any) => ({
+      date: row.date,
+      total_hours: parseFloat(row.total_hours as string) || 0,
+      average_weekly_hours: parseFloat(row.average_weekly_hours as string) || 0
+    }))
+  },
+
+  async getUserActivityTotals(userId: string, from: string, to: string, groupBy: HistoryGroupBy): Promise<ActivityTotal[]> {
+    // groupBy is a closed union, so it is safe to inline (a bound parameter would make
+    // the SELECT and GROUP BY expressions differ in Postgres' eyes)
+    const isBucket = groupBy === 'tag' || groupBy === 'category'
+    const keyExpression = groupBy === 'tag'
+      ? 'tag_name'
+      : groupBy === 'category'
+        ? 'category'
+        : `TO_CHAR(DATE_TRUNC('${groupBy}', date), 'YYYY-MM-DD')`
+
+    const result = await db(groupBy === 'category' ? categorizedViewName : tableName)
+      .select(
+        db.raw(`${keyExpression} as key`),
+        db.raw('SUM(total_duration_minutes) as total_minutes')
+      )
+      .where({ user_id: userId })
+      .whereBetween('date', [from, to])
+      .groupByRaw(keyExpression)
+      .orderByRaw(isBucket ? 'SUM(total_duration_minutes) DESC' : 'key ASC')
+
+    return result.map((row: any) => ({
+      key: row.key,
+      totalMinutes: parseInt(row.total_minutes as string) || 0
+    }))
+  },
+
+  // Sums the given tags, or every creating-category tag when no tags are given
+  async getUserCreatingMinutes(userId: string, from: string, to: string, tagNames?: string[] | null): Promise<number> {
+    const query = tagNames && tagNames.length > 0
+      ? db(tableName).whereIn('tag_name', tagNames)
+      : db(categorizedViewName).where({ category: 'creating' })
+
+    const result = await query
+      .where({ user_id: userId })
+      .whereBetween('date', [from, to])
+      .sum('total_duration_minutes as total')
+      .first()
+
+    return parseInt(result?.total as string) || 0
+  },
+
+  async getUserBestDay(userId: string, from: string, to: string): Promise<{ date: string; totalMinutes: number } | null> {
+    const result = await db(tableName)
+      .select(
+        db.raw('TO_CHAR(date, \'YYYY-MM-DD\') as day'),
+        db.raw('SUM(total_duration_minutes) as total_minutes')
+      )
+      .where({ user_id: userId })
+      .whereBetween('date', [from, to])
+      .groupBy('date')
+      .orderByRaw('SUM(total_duration_minutes) DESC, date DESC')
+      .first()
+
+    if (!result) return null
+
+    return {
+      date: result.day,
+      totalMinutes: parseInt(result.total_minutes as string) || 0
+    }
+  },
+
+  // Highest creating-minutes day other than excludeDate, or null when there is none
+  async getUserBestCreatingMinutes(userId: string, excludeDate: string): Promise<number | null> {
+    const result = await db(categorizedViewName)
+      .where({ user_id: userId, category: 'creating' })
+      .whereNot('date', excludeDate)
+      .select(db.raw('SUM(total_duration_minutes) as total_minutes'))
+      .groupBy('date')
+      .orderByRaw('SUM(total_duration_minutes) DESC')
+      .first()
+
+    return result ? parseInt(result.total_minutes as string) || 0 : null
+  },
+
+  async getUserStreaks(userId: string, asOf: string): Promise<ActivityStreaks> {
+    // Gaps-and-islands: consecutive dates share the same (date - row_number) value
+    const query = `
+      WITH active_days AS (
+        SELECT date
+        FROM activity_day_rollup
+        WHERE user_id = ? AND date <= ?
+        GROUP BY date
+        HAVING SUM(total_duration_minutes) > 0
+      ),
+      islands AS (
+        SELECT date, date - (ROW_NUMBER() OVER (ORDER BY date))::int AS island
+        FROM active_days
+      )
+      SELECT
+        COUNT(*) as length,
+        TO_CHAR(MAX(date), 'YYYY-MM-DD') as end_date
+      FROM islands
+      GROUP BY island
+    `
+
+    const result = await db.raw(query, [userId, asOf])
+    const streaks: Array<{ length: number; endDate: string }> = result.rows.map((row: any) => ({
+      length: parseInt(row.length as string) || 0,
+      endDate: row.end_date
+    }))
+
+    // The current streak is still alive if it ended on asOf or the day before
+    // (today may simply not have been logged yet)
+    const dayBefore = shiftDate(asOf, -1)
+
+    const current = streaks.find(streak => streak.endDate === asOf || streak.endDate === dayBefore)
+
+    return {
+      current: current?.length || 0,
+      longest: streaks.reduce((max, streak) => Math.max(max, streak.length), 0)
+    }
   }
 } 
\ No newline at end of file
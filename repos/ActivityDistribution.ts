@@ -0,0 +1,129 @@
+import { getDb } from '../config/database'
+
+const db = getDb()
+
+// The stored row also holds every user's total (ascending), which stays in the database
+export interface ActivityDayDistribution {
+  date: string
+  user_count: number
+  p25: number
+  p50: number
+  p75: number
+  p90: number
+  computed_at: Date
+}
+
+const tableName = 'activity_day_distribution'
+const categorizedViewName = 'activity_day_rollup_categorized'
+
+/**
+ * Recompute a day's distribution from the rollups in a single aggregate and store it
+ */
+const refreshDistribution = async (date: string): Promise<ActivityDayDistribution> => {
+  const query = `
+    WITH totals AS (
+      SELECT user_id, SUM(total_duration_minutes)::int as total
+      FROM ${categorizedViewName}
+      WHERE date = ? AND category = 'creating'
+      GROUP BY user_id
+    )
+    INSERT INTO ${tableName} (date, user_count, totals, p25, p50, p75, p90, computed_at)
+    SELECT
+      ?::date,
+      COUNT(*),
+      COALESCE(ARRAY_AGG(total ORDER BY total), '{}'),
+      COALESCE(ROUND(PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY total)), 0),
+      COALESCE(ROUND(PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY total)), 0),
+      COALESCE(ROUND(PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY total)), 0),
+      COALESCE(ROUND(PERCENTILE_CONT(0.9) WITHIN GROUP (ORDER BY total)), 0),
+      NOW()
+    FROM totals
+    ON CONFLICT (date) DO UPDATE SET
+      user_count = EXCLUDED.user_count,
+      totals = EXCLUDED.totals,
+      p25 = EXCLUDED.p25,
+      p50 = EXCLUDED.p50,
+      p75 = EXCLUDED.p75,
+      p90 = EXCLUDED.p90,
+      computed_at = EXCLUDED.computed_at
+    RETURNING TO_CHAR(date, 'YYYY-MM-DD') as date, user_count, p25, p50, p75, p90, computed_at
+  `
+
+  const result = await db.raw(query, [date, date])
+  return result.rows[0]
+}
+
+const getDistribution = async (date: string): Promise<ActivityDayDistribution | null> => {
+  const distribution = await db(tableName)
+    .select(
+      db.raw('TO_CHAR(date, \'YYYY-MM-DD\') as date'),
+      'user_count',
+      'p25',
+      'p50',
+      'p75',
+      'p90',
+      'computed_at'
+    )
+    .where({ date })
+    .first()
+
+  return distribution || null
+}
+
+// Index of the first total above minutes in an ascending array, i.e. how many are at or below it
+const countAtOrBelow = (totals: number[], minutes: number): number => {
+  let low = 0
+  let high = totals.length
+  while (low < high) {
+    const mid = (low + high) >>> 1
+    if (totals[mid]! <= minutes) {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+  return low
+}
+
+// Users on a stored day whose total is at or below the given minutes, by binary search over the sorted totals
+const countUsersAtOrBelow = async (date: string, minutes: number): Promise<number> => {
+  const distribution = await db(tableName)
+    .select('totals')
+    .where({ date })
+    .first()
+
+  return distribution ? countAtOrBelow(distribution.totals, minutes) : 0
+}
+
+/**
+ * Users per bucket of bucketMinutes on a stored day; bucket n covers [n * bucketMinutes,
+ * (n + 1) * bucketMinutes) and everything from maxMinutes up shares the last bucket.
+ * Empty buckets are left out.
+ */
+const getHistogram = async (date: string, bucketMinutes: number, maxMinutes: number): Promise<Array<{ bucket: number; users: number }>> => {
+  const result = await db.raw(`
+    SELECT LEAST(total / ?::int, ?::int) as bucket, COUNT(*)::int as users
+    FROM ${tableName}, UNNEST(totals) as total
+    WHERE date = ?
+    GROUP BY 1
+    ORDER BY 1
+  `, [bucketMinutes, Math.floor(maxMinutes / bucketMinutes), date])
+
+  return result.rows
+}
+
+const deleteDistributions = async (dates: string[]): Promise<void> => {
+  if (dates.length === 0) return
+
+  await db(tableName)
+    .whereIn('date', dates)
+    .delete()
+}
+
+export const ActivityDistributionRepo = {
+  refreshDistribution,
+  getDistribution,
+  countUsersAtOrBelow,
+  getHistogram,
+  deleteDistributions
+}
\ No newline at end of file
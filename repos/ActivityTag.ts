@@ -0,0 +1,116 @@
+import { getDb } from '../config/database'
+
+const db = getDb()
+
+export type TagCategory = 'creating' | 'consuming' | 'neutral'
+
+export interface ActivityTag {
+  id: string
+  user_id: string | null // null for the global defaults
+  name: string
+  category: TagCategory
+  created_at: string
+  updated_at: string
+}
+
+export interface TagMergeResult {
+  from: string
+  to: string
+  rowsMoved: number
+}
+
+const tableName = 'activity_tag'
+const rollupTableName = 'activity_day_rollup'
+
+// Returns the global defaults plus the user's own tags; a user tag shadows the default of the same name
+const getTagsForUser = async (userId: string): Promise<ActivityTag[]> => {
+  const tags: ActivityTag[] = await db(tableName)
+    .where({ user_id: userId })
+    .orWhereNull('user_id')
+    .orderBy('name', 'asc')
+
+  const userTagNames = new Set(tags.filter(tag => tag.user_id).map(tag => tag.name))
+  return tags.filter(tag => tag.user_id || !userTagNames.has(tag.name))
+}
+
+const getUserTagById = async (userId: string, id: string): Promise<ActivityTag | null> => {
+  const tag = await db(tableName)
+    .where({ id, user_id: userId })
+    .first()
+
+  return tag || null
+}
+
+const getUserTagByName = async (userId: string, name: string): Promise<ActivityTag | null> => {
+  const tag = await db(tableName)
+    .where({ user_id: userId, name })
+    .first()
+
+  return tag || null
+}
+
+const createUserTag = async (userId: string, name: string, category: TagCategory): Promise<ActivityTag> => {
+  const [tag] = await db(tableName)
+    .insert({ user_id: userId, name, category })
+    .returning('*')
+
+  return tag
+}
+
+const updateUserTagCategory = async (userId: string, id: string, category: TagCategory): Promise<ActivityTag | null> => {
+  const [tag] = await db(tableName)
+    .where({ id, user_id: userId })
+    .update({ category })
+    .returning('*')
+
+  return tag || null
+}
+
+const deleteUserTag = async (userId: string, id: string): Promise<boolean> => {
+  const deleted = await db(tableName)
+    .where({ id, user_id: userId })
+    .delete()
+
+  return deleted > 0
+}
+
+/**
+ * Moves every rollup row tagged `from` onto `to` for a single user, summing minutes
+ * on days where both tags were recorded. With no existing `to` rows this is a rename.
+ * The user's registry entry for `from` follows the rows unless `to` already has one.
+ */
+const mergeUserTags = async (userId: string, from: string, to: string): Promise<TagMergeResult> => {
+  return db.transaction(async (trx) => {
+    const moved = await trx.raw(`
+      INSERT INTO activity_day_rollup (user_id, date, tag_name, total_duration_minutes)
+      SELECT user_id, date, ?, total_duration_minutes
+      FROM activity_day_rollup
+      WHERE user_id = ? AND tag_name = ?
+      ON CONFLICT (user_id, date, tag_name) DO UPDATE SET
+        total_duration_minutes = activity_day_rollup.total_duration_minutes + EXCLUDED.total_duration_minutes
+    `, [to, userId, from])
+
+    await trx(rollupTableName)
+      .where({ user_id: userId, tag_name: from })
+      .delete()
+
+    const targetTag = await trx(tableName).where({ user_id: userId, name: to }).first()
+    if (targetTag) {
+      await trx(tableName).where({ user_id: userId, name: from }).delete()
+    } else {
+      await trx(tableName).where({ user_id: userId, name: from }).update({ name: to })
+    }
+
+    return { from, to, rowsMoved: moved.rowCount || 0 }
+  })
+}
+
+export const ActivityTagRepo = {
+  getTagsForUser,
+  getUserTagById,
+  getUserTagByName,
+  createUserTag,
+  updateUserTagCategory,
+  deleteUserTag,
+  mergeUserTags
+}
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { getDb } from '../config/database'
+import { cursorTimestampSql, type WithCursor } from '../utils/cursor'
+
+const db = getDb()
+
+export type FeedEventType = 'focus_session_finished' | 'goal_hit' | 'personal_best' | 'friendship_accepted'
+
+export interface FeedEvent {
+  id: string
+  user_id: string
+  event_type: FeedEventType
+  reference_id: string
+  data?: any
+  created_at: Date
+}
+
+export interface FeedEventWithUser extends FeedEvent {
+  email: string
+}
+
+export type FeedEventInput = Pick<FeedEvent, 'user_id' | 'event_type' | 'reference_id' | 'data'>
+
+export interface FeedCursor {
+  createdAt: string
+  id: string
+}
+
+const eventTableName = 'friend_feed_event'
+const preferenceTableName = 'friend_feed_preference'
+
+/**
+ * Record an event once per (user, type, reference). With replaceData the stored data is
+ * refreshed instead (e.g. a personal best day that keeps growing), otherwise repeats are ignored.
+ */
+const recordEvent = async (event: FeedEventInput, replaceData: boolean = false): Promise<FeedEvent | null> => {
+  const query = db(eventTableName)
+    .insert({ ...event, data: event.data ? JSON.stringify(event.data) : null })
+    .onConflict(['user_id', 'event_type', 'reference_id'])
+
+  const [recorded] = replaceData
+    ? await query.merge(['data']).returning('*')
+    : await query.ignore().returning('*')
+
+  return recorded || null
+}
+
+const getBroadcastPreferences = async (userId: string): Promise<Array<{ event_type: FeedEventType; broadcast: boolean }>> => {
+  return db(preferenceTableName)
+    .select('event_type', 'broadcast')
+    .where({ user_id: userId })
+}
+
+const isBroadcasting = async (userId: string, eventType: FeedEventType): Promise<boolean> => {
+  const preference = await db(preferenceTableName)
+    .where({ user_id: userId, event_type: eventType })
+    .first()
+
+  return preference ? preference.broadcast : true
+}
+
+const setBroadcastPreferences = async (userId: string, preferences: Partial<Record<FeedEventType, boolean>>): Promise<void> => {
+  const rows = Object.entries(preferences).map(([eventType, broadcast]) => ({
+    user_id: userId,
+    event_type: eventType,
+    broadcast
+  }))
+  if (rows.length === 0) return
+
+  await db(preferenceTableName)
+    .insert(rows)
+    .onConflict(['user_id', 'event_type'])
+    .merge(['broadcast'])
+}
+
+/**
+ * Newest-first events from the user's active friends, paged by (created_at, id).
+ * Activity events from friends who hide their activity from the user are left out;
+ * new friendships are always shown.
+ */
+const getFeedForUser = async (userId: string, limit: number, before?: FeedCursor): Promise<WithCursor<FeedEventWithUser>[]> => {
+  const query = `
+    WITH my_friends AS (
+      SELECT CASE WHEN user_id_1 = ? THEN user_id_2 ELSE user_id_1 END AS friend_id
+      FROM friend
+      WHERE (user_id_1 = ? OR user_id_2 = ?) AND status = 'active'
+    )
+    SELECT e.*, u.email, ${cursorTimestampSql('e.created_at')}
+    FROM friend_feed_event e
+    JOIN my_friends mf ON mf.friend_id = e.user_id
+    JOIN auth.users u ON u.id = e.user_id
+    LEFT JOIN user_profile up ON up.id = e.user_id
+    LEFT JOIN friend_visibility fv ON fv.user_id = e.user_id AND fv.friend_id = ?
+    WHERE (
+      e.event_type = 'friendship_accepted'
+      OR (COALESCE(up.share_activity, true) AND COALESCE(fv.share_activity, true))
+    )
+    -- The user already knows about their own new friendships
+    AND (e.event_type <> 'friendship_accepted' OR e.data->>'friend_id' <> ?)
+    ${before ? 'AND (e.created_at, e.id) < (?::timestamptz, ?)' : ''}
+    ORDER BY e.created_at DESC, e.id DESC
+    LIMIT ?
+  `
+
+  const bindings: any[] = [userId, userId, userId, userId, userId]
+  if (before) {
+    bindings.push(before.createdAt, before.id)
+  }
+  bindings.push(limit)
+
+  return db.raw(query, bindings).then(result => result.rows)
+}
+
+export const FriendFeedRepo = {
+  recordEvent,
+  getBroadcastPreferences,
+  isBroadcasting,
+  setBroadcastPreferences,
+  getFeedForUser
+}
\ No newline at end of file
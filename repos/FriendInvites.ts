@@ -0,0 +1,147 @@
+import { getDb } from '../config/database'
+
+const db = getDb()
+
+export interface FriendInvite {
+  id: string
+  user_id: string
+  code: string
+  expires_at: Date
+  max_uses: number | null // null for unlimited
+  use_count: number
+  revoked_at: Date | null
+  created_at: Date
+  updated_at: Date
+}
+
+export interface FriendInviteRedemption {
+  id: string
+  invite_id: string
+  redeemed_by: string
+  friend_id: string | null
+  redeemed_at: Date
+}
+
+export interface FriendInviteRedemptionWithUser extends FriendInviteRedemption {
+  email: string
+}
+
+export type FriendInviteInput = Pick<FriendInvite, 'code' | 'expires_at' | 'max_uses'>
+
+const inviteTableName = 'friend_invite'
+const redemptionTableName = 'friend_invite_redemption'
+const attemptTableName = 'friend_invite_redeem_attempt'
+
+const createInvite = async (userId: string, invite: FriendInviteInput): Promise<FriendInvite> => {
+  const [created] = await db(inviteTableName)
+    .insert({ user_id: userId, ...invite })
+    .returning('*')
+
+  return created
+}
+
+const getInviteById = async (id: string): Promise<FriendInvite | null> => {
+  const invite = await db(inviteTableName)
+    .where({ id })
+    .first()
+
+  return invite || null
+}
+
+const getInviteByCode = async (code: string): Promise<FriendInvite | null> => {
+  const invite = await db(inviteTableName)
+    .where({ code })
+    .first()
+
+  return invite || null
+}
+
+const getInvitesByUser = async (userId: string): Promise<FriendInvite[]> => {
+  return db(inviteTableName)
+    .where({ user_id: userId })
+    .orderBy('created_at', 'desc')
+}
+
+const getRedemptionsForInvites = async (inviteIds: string[]): Promise<FriendInviteRedemptionWithUser[]> => {
+  if (inviteIds.length === 0) return []
+
+  return db(`${redemptionTableName} as r`)
+    .join('auth.users as u', 'u.id', 'r.redeemed_by')
+    .select('r.*', 'u.email')
+    .whereIn('r.invite_id', inviteIds)
+    .orderBy('r.redeemed_at', 'desc')
+}
+
+const revokeInvite = async (id: string, userId: string): Promise<FriendInvite | null> => {
+  const [revoked] = await db(inviteTableName)
+    .where({ id, user_id: userId })
+    .whereNull('revoked_at')
+    .update({ revoked_at: db.fn.now() })
+    .returning('*')
+
+  return revoked || null
+}
+
+/**
+ * Take one use of an invite, only while it is unrevoked, unexpired and under its usage limit.
+ * Returns false when another redemption got there first.
+ */
+const claimInviteUse = async (id: string): Promise<boolean> => {
+  const claimed = await db(inviteTableName)
+    .where({ id })
+    .whereNull('revoked_at')
+    .where('expires_at', '>', db.fn.now())
+    .where(function() {
+      this.whereNull('max_uses').orWhereRaw('use_count < max_uses')
+    })
+    .increment('use_count', 1)
+
+  return claimed > 0
+}
+
+// Give back a claimed use when the friendship could not be created
+const releaseInviteUse = async (id: string): Promise<void> => {
+  await db(inviteTableName)
+    .where({ id })
+    .where('use_count', '>', 0)
+    .decrement('use_count', 1)
+}
+
+const recordRedemption = async (inviteId: string, redeemedBy: string, friendId: string): Promise<FriendInviteRedemption> => {
+  const [redemption] = await db(redemptionTableName)
+    .insert({ invite_id: inviteId, redeemed_by: redeemedBy, friend_id: friendId })
+    // Redeeming the same invite again after unfriending keeps a single row per user
+    .onConflict(['invite_id', 'redeemed_by'])
+    .merge({ friend_id: friendId, redeemed_at: db.fn.now() })
+    .returning('*')
+
+  return redemption
+}
+
+const recordFailedRedeemAttempt = async (userId: string): Promise<void> => {
+  await db(attemptTableName).insert({ user_id: userId })
+}
+
+const countFailedRedeemAttempts = async (userId: string, since: Date): Promise<number> => {
+  const result = await db(attemptTableName)
+    .where({ user_id: userId })
+    .where('created_at', '>=', since)
+    .count('* as count')
+    .first()
+
+  return Number(result?.count ?? 0)
+}
+
+export const FriendInvitesRepo = {
+  createInvite,
+  getInviteById,
+  getInviteByCode,
+  getInvitesByUser,
+  getRedemptionsForInvites,
+  revokeInvite,
+  claimInviteUse,
+  releaseInviteUse,
+  recordRedemption,
+  recordFailedRedeemAttempt,
+  countFailedRedeemAttempts
+}
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { getDb } from '../config/database'
 import type { FriendWithDetails } from '../types/friends'
+import { getDateInTimeZone } from '../utils/timezone'
 
 const db = getDb()
 
@@ -7,9 +8,11 @@ export interface FriendRequest {
   id: string;
   from_user_id: string;
   to_email: string;
-  status: 'pending' | 'accepted' | 'rejected' | 'cancelled';
+  status: 'pending' | 'accepted' | 'rejected' | 'cancelled' | 'expired';
   message?: string;
   expires_at?: Date;
+  last_sent_at?: Date;
+  resend_count?: number;
   created_at: Date;
   updated_at: Date;
 }
@@ -20,10 +23,17 @@ export interface Friend {
   user_id_2: string;
   friend_request_id?: string;
   status: 'active' | 'blocked';
+  blocked_by?: string | null;
   created_at: Date;
   updated_at: Date;
 }
 
+export interface BlockedUser {
+  id: string;
+  email: string;
+  blocked_at: Date;
+}
+
 export interface FriendRequestWithUser extends FriendRequest {
   from_user_email?: string;
   from_user_name?: string;
@@ -34,6 +44,21 @@ export interface FriendRequestUser { id: string; email: string }
 
 const friendRequestTableName = 'friend_request'
 const friendTableName = 'friend'
+const friendVisibilityTableName = 'friend_visibility'
+
+// Matches the expires_at column default; resending a request restarts the clock
+const FRIEND_REQUEST_TTL_DAYS = 30
+const requestExpiry = () => db.raw(`CURRENT_TIMESTAMP + INTERVAL '${FRIEND_REQUEST_TTL_DAYS} days'`)
+
+// Requests with no expiry (or one still in the future) can be acted on
+const notExpired = function(this: any) {
+  this.whereNull('friend_request.expires_at').orWhere('friend_request.expires_at', '>', db.fn.now())
+}
+
+// Friend rows store the smaller user ID first (check_user_order constraint)
+const orderPair = (userId1: string, userId2: string): [string, string] => {
+  return userId1 < userId2 ? [userId1, userId2] : [userId2, userId1]
+}
 
 const createFriendRequest = async (fromUserId: string, toEmail: string, message?: string): Promise<FriendRequest> => {
   const [friendRequest] = await db(friendRequestTableName)
@@ -43,6 +68,16 @@ const createFriendRequest = async (fromUserId: string, toEmail: string, message?
       message,
       status: 'pending'
     })
+    // One row per (sender, email): inviting again after a cancel, rejection or expiry reopens it
+    .onConflict(['from_user_id', 'to_email'])
+    .merge({
+      message: message ?? null,
+      status: 'pending',
+      expires_at: requestExpiry(),
+      last_sent_at: db.fn.now(),
+      resend_count: 0,
+      created_at: db.fn.now()
+    })
     .returning('*')
   
   return friendRequest
@@ -82,11 +117,42 @@ const getPendingFriendRequestsReceived = async (userEmail: string): Promise<Frie
     .leftJoin('auth.users as auth_users', 'friend_request.from_user_id', 'auth_users.id')
     .where('friend_request.to_email', userEmail.toLowerCase())
     .where('friend_request.status', 'pending')
+    .where(notExpired)
     .orderBy('friend_request.created_at', 'desc')
   
   return requests
 }
 
+const cancelFriendRequest = async (id: string): Promise<FriendRequest | null> => {
+  const [friendRequest] = await db(friendRequestTableName)
+    .where({ id, status: 'pending' })
+    .update({ status: 'cancelled' })
+    .returning('*')
+
+  return friendRequest || null
+}
+
+const markFriendRequestResent = async (id: string): Promise<FriendRequest> => {
+  const [friendRequest] = await db(friendRequestTableName)
+    .where({ id })
+    .update({
+      last_sent_at: db.fn.now(),
+      resend_count: db.raw('resend_count + 1'),
+      expires_at: requestExpiry()
+    })
+    .returning('*')
+
+  return friendRequest
+}
+
+// Move every pending request whose expiry has passed to 'expired'; returns how many were expired
+const expireFriendRequests = async (now: Date = new Date()): Promise<number> => {
+  return db(friendRequestTableName)
+    .where('status', 'pending')
+    .where('expires_at', '<=', now)
+    .update({ status: 'expired' })
+}
+
 const createFriendship = async (userId1: string, userId2: string, friendRequestId?: string): Promise<Friend> => {
   // Ensure user_id_1 < user_id_2 for the constraint
   const [smallerId, largerId] = userId1 < userId2 ? [userId1, userId2] : [userId2, userId1]
@@ -115,7 +181,7 @@ const getFriendships = async (userId: string): Promise<Friend[]> => {
 }
 
 const getFriendsWithDetails = async (userId: string, date?: string): Promise<FriendWithDetails[]> => {
-  let queryDate = date || new Date().toISOString().split('T')[0]
+  let queryDate = date || getDateInTimeZone()
     // Use WITH statement to get friends with their activity data
     const query = `
       WITH my_friends as (
@@ -141,15 +207,140 @@ const getFriendsWithDetails = async (userId: string, date?: string): Promise<Fri
       ) 
       SELECT 
         mf.*, 
-        COALESCE(adr.total_duration_minutes, 0) as creating_time
+        CASE WHEN COALESCE(up.share_activity, true) AND COALESCE(fv.share_activity, true)
+          THEN COALESCE(adr.total_duration_minutes, 0) ELSE 0
+        END as creating_time,
+        (COALESCE(up.share_activity, true) AND COALESCE(fv.share_activity, true)) as activity_visible
       FROM my_friends mf
-      LEFT JOIN activity_day_rollup adr ON adr.user_id = mf.friend_id AND adr.date = ?
+      LEFT JOIN (
+        SELECT user_id, SUM(total_duration_minutes)::int as total_duration_minutes
+        FROM activity_day_rollup_categorized
+        WHERE date = ? AND category = 'creating'
+        GROUP BY user_id
+      ) adr ON adr.user_id = mf.friend_id
+      LEFT JOIN user_profile up ON up.id = mf.friend_id
+      LEFT JOIN friend_visibility fv ON fv.user_id = mf.friend_id AND fv.friend_id = ?
     `
     
-    return db.raw(query, [userId, userId, userId, userId, queryDate]).then(result => result.rows)
+    return db.raw(query, [userId, userId, userId, userId, queryDate, userId]).then(result => result.rows)
   
 }
 
+// Active friends who share their activity with this user, both globally (no profile
+// counts as sharing) and through their per-friend visibility setting
+const getSharingFriends = async (userId: string): Promise<FriendRequestUser[]> => {
+  const query = `
+    SELECT u.id, u.email
+    FROM friend f
+    JOIN auth.users u ON u.id = CASE WHEN f.user_id_1 = ? THEN f.user_id_2 ELSE f.user_id_1 END
+    LEFT JOIN user_profile up ON up.id = u.id
+    LEFT JOIN friend_visibility fv ON fv.user_id = u.id AND fv.friend_id = ?
+    WHERE (f.user_id_1 = ? OR f.user_id_2 = ?)
+      AND f.status = 'active'
+      AND COALESCE(up.share_activity, true)
+      AND COALESCE(fv.share_activity, true)
+  `
+
+  return db.raw(query, [userId, userId, userId, userId]).then(result => result.rows)
+}
+
+const deleteFriendship = async (userId: string, friendId: string): Promise<boolean> => {
+  const [smallerId, largerId] = orderPair(userId, friendId)
+
+  return db.transaction(async (trx) => {
+    const deleted = await trx(friendTableName)
+      .where({ user_id_1: smallerId, user_id_2: largerId, status: 'active' })
+      .delete()
+
+    if (deleted > 0) {
+      await trx(friendVisibilityTableName)
+        .where({ user_id: userId, friend_id: friendId })
+        .orWhere({ user_id: friendId, friend_id: userId })
+        .delete()
+    }
+
+    return deleted > 0
+  })
+}
+
+/**
+ * Block a user, replacing any friendship between the pair. Pending requests in either
+ * direction are closed so neither side is left with a stale invite.
+ */
+const blockUser = async (userId: string, targetId: string): Promise<Friend> => {
+  const [smallerId, largerId] = orderPair(userId, targetId)
+
+  return db.transaction(async (trx) => {
+    const [friendship] = await trx(friendTableName)
+      .insert({
+        user_id_1: smallerId,
+        user_id_2: largerId,
+        status: 'blocked',
+        blocked_by: userId
+      })
+      .onConflict(['user_id_1', 'user_id_2'])
+      .merge({ status: 'blocked', blocked_by: userId })
+      .returning('*')
+
+    const users = await trx('auth.users').select('id', 'email').whereIn('id', [userId, targetId])
+    const emailOf = (id: string) => users.find(user => user.id === id)?.email?.toLowerCase()
+
+    await trx(friendRequestTableName)
+      .where({ from_user_id: targetId, to_email: emailOf(userId), status: 'pending' })
+      .update({ status: 'rejected' })
+    await trx(friendRequestTableName)
+      .where({ from_user_id: userId, to_email: emailOf(targetId), status: 'pending' })
+      .update({ status: 'cancelled' })
+
+    await trx(friendVisibilityTableName)
+      .where({ user_id: userId, friend_id: targetId })
+      .orWhere({ user_id: targetId, friend_id: userId })
+      .delete()
+
+    return friendship
+  })
+}
+
+// Only the user who placed the block can lift it; the pair is left with no relationship
+const unblockUser = async (userId: string, targetId: string): Promise<boolean> => {
+  const [smallerId, largerId] = orderPair(userId, targetId)
+
+  const deleted = await db(friendTableName)
+    .where({ user_id_1: smallerId, user_id_2: largerId, status: 'blocked', blocked_by: userId })
+    .delete()
+
+  return deleted > 0
+}
+
+const isBlockedBy = async (blockerId: string, userId: string): Promise<boolean> => {
+  const [smallerId, largerId] = orderPair(blockerId, userId)
+
+  const block = await db(friendTableName)
+    .where({ user_id_1: smallerId, user_id_2: largerId, status: 'blocked', blocked_by: blockerId })
+    .first()
+
+  return !!block
+}
+
+const getBlockedUsers = async (userId: string): Promise<BlockedUser[]> => {
+  return db(friendTableName)
+    .join('auth.users as u', function() {
+      this.on('u.id', '=', 'friend.user_id_1').orOn('u.id', '=', 'friend.user_id_2')
+    })
+    .select('u.id', 'u.email', 'friend.updated_at as blocked_at')
+    .where('friend.status', 'blocked')
+    .where('friend.blocked_by', userId)
+    .whereNot('u.id', userId)
+    .orderBy('friend.updated_at', 'desc')
+}
+
+const setFriendVisibility = async (userId: string, friendId: string, shareActivity: boolean): Promise<void> => {
+  await db(friendVisibilityTableName)
+    .insert({ user_id: userId, friend_id: friendId, share_activity: shareActivity })
+    .onConflict(['user_id', 'friend_id'])
+    .merge({ share_activity: shareActivity })
+}
+
 const checkFriendshipExists = async (userId1: string, userId2: string): Promise<boolean> => {
   const [smallerId, largerId] = userId1 < userId2 ? [userId1, userId2] : [userId2, userId1]
   
@@ -167,6 +358,7 @@ const checkFriendRequestExists = async (fromUserId: string, toEmail: string): Pr
     .where('from_user_id', fromUserId)
     .where('to_email', toEmail.toLowerCase())
     .where('status', 'pending')
+    .where(notExpired)
     .first()
   
   return !!request
@@ -196,10 +388,21 @@ export const FriendsRepo = {
   checkFriendshipExists,
   getFriendRequestById,
   updateFriendRequestStatus,
+  cancelFriendRequest,
+  markFriendRequestResent,
+  expireFriendRequests,
   createFriendship,
   getPendingFriendRequestsSent,
   getPendingFriendRequestsReceived,
+  getFriendships,
   getFriendsWithDetails,
+  getSharingFriends,
+  deleteFriendship,
+  blockUser,
+  unblockUser,
+  isBlockedBy,
+  getBlockedUsers,
+  setFriendVisibility,
   getUserByAuthId,
   getUserByEmail
 }   
\ No newline at end of file
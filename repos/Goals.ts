@@ -0,0 +1,149 @@
+import { getDb } from '../config/database'
+
+const db = getDb()
+
+export type GoalPeriod = 'daily' | 'weekly'
+export type GoalResultStatus = 'hit' | 'missed'
+
+export interface Goal {
+  id: string
+  user_id: string
+  period: GoalPeriod
+  target_minutes: number
+  tag_names: string[] | null // null counts every creating-category tag
+  created_at: Date
+  updated_at: Date
+}
+
+export interface GoalWithUser extends Goal {
+  email: string
+  timezone: string | null
+}
+
+export interface GoalResult {
+  id: string
+  goal_id: string
+  user_id: string
+  period_start: string
+  period_end: string
+  target_minutes: number
+  achieved_minutes: number
+  status: GoalResultStatus
+  created_at: Date
+}
+
+export type GoalInput = Pick<Goal, 'period' | 'target_minutes' | 'tag_names'>
+
+const goalTableName = 'user_goal'
+const goalResultTableName = 'user_goal_result'
+
+// Period bounds are returned as plain YYYY-MM-DD strings to match rollup dates
+const goalResultColumns = [
+  'id',
+  'goal_id',
+  'user_id',
+  db.raw('TO_CHAR(period_start, \'YYYY-MM-DD\') as period_start'),
+  db.raw('TO_CHAR(period_end, \'YYYY-MM-DD\') as period_end'),
+  'target_minutes',
+  'achieved_minutes',
+  'status',
+  'created_at'
+]
+
+const createGoal = async (userId: string, goal: GoalInput): Promise<Goal> => {
+  const [created] = await db(goalTableName)
+    .insert({ user_id: userId, ...goal })
+    .returning('*')
+
+  return created
+}
+
+const getGoalsByUser = async (userId: string): Promise<Goal[]> => {
+  return db(goalTableName)
+    .where({ user_id: userId })
+    .orderBy('created_at', 'asc')
+}
+
+const getGoalById = async (userId: string, id: string): Promise<Goal | null> => {
+  const goal = await db(goalTableName)
+    .where({ id, user_id: userId })
+    .first()
+
+  return goal || null
+}
+
+const countGoalsByUser = async (userId: string): Promise<number> => {
+  const result = await db(goalTableName)
+    .where({ user_id: userId })
+    .count('* as count')
+    .first()
+
+  return parseInt(result?.count as string) || 0
+}
+
+const updateGoal = async (userId: string, id: string, updates: Partial<GoalInput>): Promise<Goal | null> => {
+  const [goal] = await db(goalTableName)
+    .where({ id, user_id: userId })
+    .update(updates)
+    .returning('*')
+
+  return goal || null
+}
+
+const deleteGoal = async (userId: string, id: string): Promise<boolean> => {
+  const deleted = await db(goalTableName)
+    .where({ id, user_id: userId })
+    .delete()
+
+  return deleted > 0
+}
+
+const getGoalsForEvaluation = async (): Promise<GoalWithUser[]> => {
+  return db(goalTableName)
+    .join('auth.users as u', 'u.id', `${goalTableName}.user_id`)
+    .leftJoin('user_profile as up', 'up.id', `${goalTableName}.user_id`)
+    .select(`${goalTableName}.*`, 'u.email', 'up.timezone')
+}
+
+const hasGoalResult = async (goalId: string, periodStart: string): Promise<boolean> => {
+  const result = await db(goalResultTableName)
+    .where({ goal_id: goalId, period_start: periodStart })
+    .first()
+
+  return !!result
+}
+
+/**
+ * Record the outcome of a completed period. Returns null when the period was already
+ * recorded, so overlapping job runs never produce duplicate hits or misses.
+ */
+const recordGoalResult = async (result: Omit<GoalResult, 'id' | 'created_at'>): Promise<GoalResult | null> => {
+  const [recorded] = await db(goalResultTableName)
+    .insert(result)
+    .onConflict(['goal_id', 'period_start'])
+    .ignore()
+    .returning(goalResultColumns)
+
+  return recorded || null
+}
+
+const getGoalResultsByUser = async (userId: string, limit: number): Promise<GoalResult[]> => {
+  return db(goalResultTableName)
+    .select(goalResultColumns)
+    .where({ user_id: userId })
+    .orderBy([{ column: `${goalResultTableName}.period_start`, order: 'desc' }, { column: 'created_at', order: 'desc' }])
+    .limit(limit)
+}
+
+export const GoalsRepo = {
+  createGoal,
+  getGoalsByUser,
+  getGoalById,
+  countGoalsByUser,
+  updateGoal,
+  deleteGoal,
+  getGoalsForEvaluation,
+  hasGoalResult,
+  recordGoalResult,
+  getGoalResultsByUser
+}
\ No newline at end of file
@@ -0,0 +1,290 @@
+import { getDb } from '../config/database'
+
+const db = getDb()
+
+export type GroupRole = 'owner' | 'admin' | 'member'
+export type GroupInvitationStatus = 'pending' | 'accepted' | 'declined' | 'cancelled'
+
+export interface Group {
+  id: string
+  name: string
+  description: string | null
+  created_by: string
+  created_at: Date
+  updated_at: Date
+}
+
+export interface GroupWithMembership extends Group {
+  role: GroupRole
+  member_count: number
+}
+
+export interface GroupMember {
+  id: string
+  group_id: string
+  user_id: string
+  role: GroupRole
+  joined_at: Date
+  updated_at: Date
+}
+
+export interface GroupMemberWithUser {
+  user_id: string
+  email: string
+  role: GroupRole
+  joined_at: Date
+  share_activity: boolean
+}
+
+export interface GroupInvitation {
+  id: string
+  group_id: string
+  invited_by: string
+  to_email: string
+  status: GroupInvitationStatus
+  created_at: Date
+  updated_at: Date
+}
+
+export interface GroupInvitationWithDetails extends GroupInvitation {
+  group_name: string
+  invited_by_email: string
+}
+
+export type GroupInput = Pick<Group, 'name' | 'description'>
+
+export type AcceptInvitationResult =
+  | { status: 'accepted'; membership: GroupMember }
+  | { status: 'not_pending' }
+  | { status: 'group_full' }
+
+const groupTableName = 'friend_group'
+const memberTableName = 'friend_group_member'
+const invitationTableName = 'friend_group_invitation'
+
+// The creator joins as the owner in the same transaction
+const createGroup = async (userId: string, group: GroupInput): Promise<Group> => {
+  return db.transaction(async (trx) => {
+    const [created] = await trx(groupTableName)
+      .insert({ ...group, created_by: userId })
+      .returning('*')
+
+    await trx(memberTableName).insert({ group_id: created.id, user_id: userId, role: 'owner' })
+
+    return created
+  })
+}
+
+const getGroupById = async (id: string): Promise<Group | null> => {
+  const group = await db(groupTableName)
+    .where({ id })
+    .first()
+
+  return group || null
+}
+
+const getGroupsForUser = async (userId: string): Promise<GroupWithMembership[]> => {
+  const groups = await db(`${groupTableName} as g`)
+    .join(`${memberTableName} as m`, 'm.group_id', 'g.id')
+    .select(
+      'g.*',
+      'm.role',
+      db.raw(`(SELECT COUNT(*) FROM ${memberTableName} gm WHERE gm.group_id = g.id)::int as member_count`)
+    )
+    .where('m.user_id', userId)
+    .orderBy('g.created_at', 'asc')
+
+  return groups
+}
+
+const updateGroup = async (id: string, updates: Partial<GroupInput>): Promise<Group | null> => {
+  const [group] = await db(groupTableName)
+    .where({ id })
+    .update(updates)
+    .returning('*')
+
+  return group || null
+}
+
+const deleteGroup = async (id: string): Promise<boolean> => {
+  const deleted = await db(groupTableName)
+    .where({ id })
+    .delete()
+
+  return deleted > 0
+}
+
+const getMembership = async (groupId: string, userId: string): Promise<GroupMember | null> => {
+  const member = await db(memberTableName)
+    .where({ group_id: groupId, user_id: userId })
+    .first()
+
+  return member || null
+}
+
+/**
+ * Owner first, then admins, then members in the order they joined. share_activity is whether
+ * the member shares with the viewer: their global setting and, for friends, their per-friend
+ * visibility (the same rule as FriendsRepo.getSharingFriends).
+ */
+const getMembers = async (groupId: string, viewerId: string): Promise<GroupMemberWithUser[]> => {
+  return db(`${memberTableName} as m`)
+    .join('auth.users as u', 'u.id', 'm.user_id')
+    .leftJoin('user_profile as up', 'up.id', 'm.user_id')
+    .leftJoin('friend_visibility as fv', function() {
+      this.on('fv.user_id', '=', 'm.user_id').andOn('fv.friend_id', '=', db.raw('?', [viewerId]))
+    })
+    .select(
+      'm.user_id',
+      'u.email',
+      'm.role',
+      'm.joined_at',
+      db.raw('(COALESCE(up.share_activity, true) AND COALESCE(fv.share_activity, true)) as share_activity')
+    )
+    .where('m.group_id', groupId)
+    .orderByRaw(`CASE m.role WHEN 'owner' THEN 0 WHEN 'admin' THEN 1 ELSE 2 END, m.joined_at ASC`)
+}
+
+const updateMemberRole = async (groupId: string, userId: string, role: Exclude<GroupRole, 'owner'>): Promise<GroupMember | null> => {
+  const [member] = await db(memberTableName)
+    .where({ group_id: groupId, user_id: userId })
+    .update({ role })
+    .returning('*')
+
+  return member || null
+}
+
+// The current owner steps down to admin before the new owner is promoted (one owner per group)
+const transferOwnership = async (groupId: string, fromUserId: string, toUserId: string): Promise<void> => {
+  await db.transaction(async (trx) => {
+    await trx(memberTableName)
+      .where({ group_id: groupId, user_id: fromUserId, role: 'owner' })
+      .update({ role: 'admin' })
+
+    await trx(memberTableName)
+      .where({ group_id: groupId, user_id: toUserId })
+      .update({ role: 'owner' })
+  })
+}
+
+const removeMember = async (groupId: string, userId: string): Promise<boolean> => {
+  const deleted = await db(memberTableName)
+    .where({ group_id: groupId, user_id: userId })
+    .delete()
+
+  return deleted > 0
+}
+
+const createInvitation = async (groupId: string, invitedBy: string, toEmail: string): Promise<GroupInvitation> => {
+  const [invitation] = await db(invitationTableName)
+    .insert({ group_id: groupId, invited_by: invitedBy, to_email: toEmail.toLowerCase() })
+    .returning('*')
+
+  return invitation
+}
+
+const getInvitationById = async (id: string): Promise<GroupInvitation | null> => {
+  const invitation = await db(invitationTableName)
+    .where({ id })
+    .first()
+
+  return invitation || null
+}
+
+const hasPendingInvitation = async (groupId: string, toEmail: string): Promise<boolean> => {
+  const invitation = await db(invitationTableName)
+    .where({ group_id: groupId, to_email: toEmail.toLowerCase(), status: 'pending' })
+    .first()
+
+  return !!invitation
+}
+
+const getPendingInvitationsForEmail = async (email: string): Promise<GroupInvitationWithDetails[]> => {
+  return db(`${invitationTableName} as i`)
+    .join(`${groupTableName} as g`, 'g.id', 'i.group_id')
+    .join('auth.users as u', 'u.id', 'i.invited_by')
+    .select('i.*', 'g.name as group_name', 'u.email as invited_by_email')
+    .where('i.to_email', email.toLowerCase())
+    .where('i.status', 'pending')
+    .orderBy('i.created_at', 'desc')
+}
+
+const getPendingInvitationsForGroup = async (groupId: string): Promise<GroupInvitation[]> => {
+  return db(invitationTableName)
+    .where({ group_id: groupId, status: 'pending' })
+    .orderBy('created_at', 'desc')
+}
+
+const updateInvitationStatus = async (id: string, status: Exclude<GroupInvitationStatus, 'pending' | 'accepted'>): Promise<GroupInvitation | null> => {
+  const [invitation] = await db(invitationTableName)
+    .where({ id, status: 'pending' })
+    .update({ status })
+    .returning('*')
+
+  return invitation || null
+}
+
+/**
+ * Mark the invitation accepted and add the user as a member, unless the invitation is no
+ * longer pending or the group already has maxMembers other members.
+ */
+const acceptInvitation = async (id: string, userId: string, maxMembers: number): Promise<AcceptInvitationResult> => {
+  return db.transaction(async (trx) => {
+    const invitation = await trx(invitationTableName)
+      .where({ id, status: 'pending' })
+      .first()
+
+    if (!invitation) return { status: 'not_pending' }
+
+    // Locking the group row serialises joins, so concurrent accepts can't go over the limit
+    await trx(groupTableName)
+      .where({ id: invitation.group_id })
+      .forUpdate()
+      .first()
+
+    const members = await trx(memberTableName)
+      .where({ group_id: invitation.group_id })
+      .whereNot({ user_id: userId })
+      .count('* as count')
+      .first()
+    if (Number(members?.count ?? 0) >= maxMembers) return { status: 'group_full' }
+
+    const [accepted] = await trx(invitationTableName)
+      .where({ id, status: 'pending' })
+      .update({ status: 'accepted' })
+      .returning('*')
+
+    if (!accepted) return { status: 'not_pending' }
+
+    await trx(memberTableName)
+      .insert({ group_id: invitation.group_id, user_id: userId, role: 'member' })
+      .onConflict(['group_id', 'user_id'])
+      .ignore()
+
+    const membership = await trx(memberTableName)
+      .where({ group_id: invitation.group_id, user_id: userId })
+      .first()
+
+    return { status: 'accepted', membership }
+  })
+}
+
+export const GroupsRepo = {
+  createGroup,
+  getGroupById,
+  getGroupsForUser,
+  updateGroup,
+  deleteGroup,
+  getMembership,
+  getMembers,
+  updateMemberRole,
+  transferOwnership,
+  removeMember,
+  createInvitation,
+  getInvitationById,
+  hasPendingInvitation,
+  getPendingInvitationsForEmail,
+  getPendingInvitationsForGroup,
+  updateInvitationStatus,
+  acceptInvitation
+}
\ No newline at end of file
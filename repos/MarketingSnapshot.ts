@@ -0,0 +1,99 @@
+import { getDb } from '../config/database'
+
+const db = getDb()
+
+export type MarketingScalarMetric = 'total_hours' | 'average_weekly_hours'
+
+// Series metrics hold the rows the matching marketing endpoint returns
+export interface MarketingSnapshotSeries {
+  weekly_activity: Array<{ week_start: string; total_hours: number }>
+  daily_activity: Array<{ date: string; total_minutes: number }>
+  top_creating_days: Array<{ date: string; total_hours: number }>
+  cumulative_weekly_hours: Array<{ week_start: string; cumulative_hours: number }>
+}
+
+export type MarketingSeriesMetric = keyof MarketingSnapshotSeries
+
+export type MarketingSnapshotInput =
+  | { metric: MarketingScalarMetric; value: number; data: null }
+  | { [Metric in MarketingSeriesMetric]: { metric: Metric; value: null; data: MarketingSnapshotSeries[Metric] } }[MarketingSeriesMetric]
+
+export type MarketingSnapshot = MarketingSnapshotInput & {
+  id: string
+  snapshot_date: string
+  created_at: Date
+  updated_at: Date
+}
+
+const tableName = 'marketing_snapshot'
+
+// Re-running the job on the same day overwrites that day's snapshot
+const upsertSnapshots = async (snapshotDate: string, snapshots: MarketingSnapshotInput[]): Promise<number> => {
+  if (snapshots.length === 0) return 0
+
+  const rows = snapshots.map(snapshot => ({
+    snapshot_date: snapshotDate,
+    metric: snapshot.metric,
+    value: snapshot.value,
+    data: snapshot.data === null ? null : JSON.stringify(snapshot.data)
+  }))
+
+  const saved = await db(tableName)
+    .insert(rows)
+    .onConflict(['metric', 'snapshot_date'])
+    .merge(['value', 'data'])
+    .returning('id')
+
+  return saved.length
+}
+
+const getMetricHistory = async (metric: string, from: string, to: string): Promise<Array<{ date: string; value: number }>> => {
+  const rows = await db(tableName)
+    .select(db.raw('TO_CHAR(snapshot_date, \'YYYY-MM-DD\') as date'), 'value')
+    .where({ metric })
+    .whereBetween('snapshot_date', [from, to])
+    .orderBy('snapshot_date', 'asc')
+
+  return rows.map((row: any) => ({
+    date: row.date,
+    value: parseFloat(row.value)
+  }))
+}
+
+const getSnapshotsForDate = async (snapshotDate: string): Promise<MarketingSnapshot[]> => {
+  const rows = await db(tableName)
+    .select('id', db.raw('TO_CHAR(snapshot_date, \'YYYY-MM-DD\') as snapshot_date'), 'metric', 'value', 'data', 'created_at', 'updated_at')
+    .where({ snapshot_date: snapshotDate })
+    .orderBy('metric', 'asc')
+
+  // NUMERIC comes back as a string
+  return rows.map((row: any) => ({
+    ...row,
+    value: row.value === null ? null : parseFloat(row.value)
+  }))
+}
+
+/**
+ * Insert history for days the snapshot job never ran on. Days that already have a
+ * snapshot keep it, since those values were taken at the time. Returns how many were added.
+ */
+const insertMissingSnapshots = async (
+  snapshots: Array<{ snapshot_date: string; metric: MarketingScalarMetric; value: number }>
+): Promise<number> => {
+  if (snapshots.length === 0) return 0
+
+  const inserted = await db(tableName)
+    .insert(snapshots)
+    .onConflict(['metric', 'snapshot_date'])
+    .ignore()
+    .returning('id')
+
+  return inserted.length
+}
+
+export const MarketingSnapshotRepo = {
+  upsertSnapshots,
+  getMetricHistory,
+  getSnapshotsForDate,
+  insertMissingSnapshots
+}
\ No newline at end of file
@@ -31,19 +31,50 @@ export interface SlackPreferences {
   urgent_keywords: string
 }
 
+// Settings a workspace can override; everything else (like the master switch) is user-level only
+export const WORKSPACE_PREFERENCE_FIELDS = [
+  'auto_status_update',
+  'auto_dnd',
+  'custom_status_text',
+  'custom_status_emoji',
+  'auto_reply_enabled',
+  'auto_reply_message',
+  'urgent_keywords'
+] as const
+
+export type WorkspacePreferenceField = typeof WORKSPACE_PREFERENCE_FIELDS[number]
+
+// Null means the workspace follows the user-level preference
+export type SlackWorkspacePreferenceOverride = {
+  user_id: string
+  workspace_id: string
+} & { [K in WorkspacePreferenceField]: SlackPreferences[K] | null }
+
+export interface SlackWorkspaceConnectionPreferences {
+  slack_user_id: string
+  preferences: SlackPreferences
+  override: SlackWorkspacePreferenceOverride
+}
+
+export type SlackWorkspacePreferenceUpdates = Partial<{
+  [K in WorkspacePreferenceField]: (K extends 'urgent_keywords' ? string[] : SlackPreferences[K]) | null
+}>
+
 export interface SlackFocusSession {
-  id: number
+  id: string
   user_id: string
   session_id: string
   duration_minutes?: number
   is_active: boolean
   start_time: Date
   end_time?: Date
+  paused_at?: Date | null
+  paused_seconds: number
 }
 
 export interface SlackFocusSessionWorkspace {
-  id: number
-  session_id: number
+  id: string
+  session_id: string
   workspace_id: string
   status_updated: boolean
   dnd_enabled: boolean
@@ -88,31 +119,25 @@ const DEFAULT_PREFERENCES = {
   urgent_keywords: '["urgent", "emergency", "asap", "help"]'
 } as const
 
+// Merge stored preferences with defaults for any missing fields; no row means all defaults
+const toPreferences = (userId: string, userPrefs?: Record<string, any>): SlackPreferences => ({
+  user_id: userId,
+  enabled: userPrefs?.enabled ?? DEFAULT_PREFERENCES.enabled,
+  auto_status_update: userPrefs?.auto_status_update ?? DEFAULT_PREFERENCES.auto_status_update,
+  auto_dnd: userPrefs?.auto_dnd ?? DEFAULT_PREFERENCES.auto_dnd,
+  auto_reply_enabled: userPrefs?.auto_reply_enabled ?? DEFAULT_PREFERENCES.auto_reply_enabled,
+  custom_status_text: userPrefs?.custom_status_text ?? DEFAULT_PREFERENCES.custom_status_text,
+  custom_status_emoji: userPrefs?.custom_status_emoji ?? DEFAULT_PREFERENCES.custom_status_emoji,
+  auto_reply_message: userPrefs?.auto_reply_message ?? DEFAULT_PREFERENCES.auto_reply_message,
+  urgent_keywords: userPrefs?.urgent_keywords ?? DEFAULT_PREFERENCES.urgent_keywords
+})
+
 const getUserPreferences = async (userId: string): Promise<SlackPreferences> => {
   const userPrefs = await db('slack_preferences')
     .where({ user_id: userId })
     .first()
 
-  // If no preferences exist, return runtime defaults
-  if (!userPrefs) {
-    return {
-      user_id: userId,
-      ...DEFAULT_PREFERENCES
-    }
-  }
-
-  // Merge user preferences with defaults for any missing fields
-  return {
-    user_id: userId,
-    enabled: userPrefs.enabled ?? DEFAULT_PREFERENCES.enabled,
-    auto_status_update: userPrefs.auto_status_update ?? DEFAULT_PREFERENCES.auto_status_update,
-    auto_dnd: userPrefs.auto_dnd ?? DEFAULT_PREFERENCES.auto_dnd,
-    auto_reply_enabled: userPrefs.auto_reply_enabled ?? DEFAULT_PREFERENCES.auto_reply_enabled,
-    custom_status_text: userPrefs.custom_status_text ?? DEFAULT_PREFERENCES.custom_status_text,
-    custom_status_emoji: userPrefs.custom_status_emoji ?? DEFAULT_PREFERENCES.custom_status_emoji,
-    auto_reply_message: userPrefs.auto_reply_message ?? DEFAULT_PREFERENCES.auto_reply_message,
-    urgent_keywords: userPrefs.urgent_keywords ?? DEFAULT_PREFERENCES.urgent_keywords
-  }
+  return toPreferences(userId, userPrefs)
 }
 
 const getActiveUserConnection = async (userId: string): Promise<SlackUserConnection | undefined> => {
@@ -135,17 +160,61 @@ const getAllActiveUserConnections = async (userId: string): Promise<SlackUserCon
     )
 }
 
-const getUserConnectionWithPreferences = async (workspaceId: string): Promise<any> => {
-  return await db('slack_user_connections as suc')
-    .join('slack_preferences as sp', 'suc.user_id', 'sp.user_id')
-    .where({
-      'suc.workspace_id': workspaceId,
-      'suc.is_active': true,
-      'sp.enabled': true,
-      'sp.auto_reply_enabled': true
+/**
+ * Every active connection in a workspace, oldest first, with its owner's user-level preferences
+ * and their override for this workspace, in one query
+ */
+const getWorkspaceConnectionPreferences = async (workspaceId: string): Promise<SlackWorkspaceConnectionPreferences[]> => {
+  const rows = await db('slack_user_connections as suc')
+    .leftJoin('slack_preferences as sp', 'sp.user_id', 'suc.user_id')
+    .leftJoin('slack_workspace_preferences as swp', function () {
+      this.on('swp.user_id', '=', 'suc.user_id').andOn('swp.workspace_id', '=', 'suc.workspace_id')
     })
-    .select('suc.*', 'sp.*')
-    .first()
+    .where({ 'suc.workspace_id': workspaceId, 'suc.is_active': true })
+    .orderBy('suc.created_at', 'asc')
+    .select(
+      'suc.user_id',
+      'suc.slack_user_id',
+      'sp.enabled',
+      ...WORKSPACE_PREFERENCE_FIELDS.map(field => `sp.${field}`),
+      ...WORKSPACE_PREFERENCE_FIELDS.map(field => `swp.${field} as override_${field}`)
+    )
+
+  return rows.map((row: any) => ({
+    slack_user_id: row.slack_user_id,
+    preferences: toPreferences(row.user_id, row),
+    override: {
+      user_id: row.user_id,
+      workspace_id: workspaceId,
+      ...Object.fromEntries(WORKSPACE_PREFERENCE_FIELDS.map(field => [field, row[`override_${field}`]]))
+    } as SlackWorkspacePreferenceOverride
+  }))
+}
+
+const getWorkspacePreferenceOverrides = async (userId: string): Promise<SlackWorkspacePreferenceOverride[]> => {
+  return await db('slack_workspace_preferences')
+    .where({ user_id: userId })
+    .select('user_id', 'workspace_id', ...WORKSPACE_PREFERENCE_FIELDS)
+}
+
+const upsertWorkspacePreferenceOverride = async (
+  userId: string,
+  workspaceId: string,
+  updates: SlackWorkspacePreferenceUpdates
+): Promise<SlackWorkspacePreferenceOverride> => {
+  const values = {
+    ...updates,
+    ...(updates.urgent_keywords !== undefined && {
+      urgent_keywords: updates.urgent_keywords === null ? null : JSON.stringify(updates.urgent_keywords)
+    })
+  }
+
+  const [override] = await db('slack_workspace_preferences')
+    .insert({ user_id: userId, workspace_id: workspaceId, ...values })
+    .onConflict(['user_id', 'workspace_id'])
+    .merge(values)
+    .returning(['user_id', 'workspace_id', ...WORKSPACE_PREFERENCE_FIELDS])
+  return override
 }
 
 const createFocusSession = async (sessionData: {
@@ -161,7 +230,7 @@ const createFocusSession = async (sessionData: {
 }
 
 const createFocusSessionWorkspace = async (workspaceData: {
-  session_id: number
+  session_id: string
   workspace_id: string
   status_updated: boolean
   dnd_enabled: boolean
@@ -184,7 +253,7 @@ const getFocusSessionById = async (userId: string, sessionId: string): Promise<S
     .first()
 }
 
-const getFocusSessionWorkspaces = async (sessionId: number, userId: string): Promise<any[]> => {
+const getFocusSessionWorkspaces = async (sessionId: string, userId: string): Promise<any[]> => {
   return await db('slack_focus_session_workspaces as sfw')
     .join('slack_workspaces as sw', 'sfw.workspace_id', 'sw.id')
     .join('slack_user_connections as suc', 'sfw.workspace_id', 'suc.workspace_id')
@@ -201,13 +270,34 @@ const getFocusSessionWorkspaces = async (sessionId: number, userId: string): Pro
     )
 }
 
-const updateFocusSession = async (sessionId: number, updates: {
-  is_active?: boolean
-  end_time?: Date
-}): Promise<void> => {
-  await db('slack_focus_sessions')
-    .where({ id: sessionId })
-    .update(updates)
+const extendFocusSession = async (sessionId: string, minutes: number): Promise<SlackFocusSession | undefined> => {
+  const [session] = await db('slack_focus_sessions')
+    .where({ id: sessionId, is_active: true })
+    .update({ duration_minutes: db.raw('duration_minutes + ?', [minutes]) })
+    .returning('*')
+  return session
+}
+
+// Only a running session can be paused, and only a paused one resumed
+const pauseFocusSession = async (sessionId: string, pausedAt: Date): Promise<SlackFocusSession | undefined> => {
+  const [session] = await db('slack_focus_sessions')
+    .where({ id: sessionId, is_active: true })
+    .whereNull('paused_at')
+    .update({ paused_at: pausedAt })
+    .returning('*')
+  return session
+}
+
+const resumeFocusSession = async (sessionId: string, resumedAt: Date): Promise<SlackFocusSession | undefined> => {
+  const [session] = await db('slack_focus_sessions')
+    .where({ id: sessionId, is_active: true })
+    .whereNotNull('paused_at')
+    .update({
+      paused_seconds: db.raw('paused_seconds + GREATEST(ROUND(EXTRACT(EPOCH FROM (?::timestamptz - paused_at))), 0)::int', [resumedAt]),
+      paused_at: null
+    })
+    .returning('*')
+  return session
 }
 
 const getAllActiveFocusSessions = async (userId: string): Promise<SlackFocusSession[]> => {
@@ -216,22 +306,18 @@ const getAllActiveFocusSessions = async (userId: string): Promise<SlackFocusSess
     .orderBy('start_time', 'desc')
 }
 
-const endAllActiveFocusSessions = async (userId: string): Promise<void> => {
-  await db('slack_focus_sessions')
-    .where({ user_id: userId, is_active: true })
-    .update({ 
-      is_active: false, 
-      end_time: new Date() 
-    })
-}
+// Returns only the sessions this call ended, so each ending is handled once
+const endFocusSessions = async (userId: string, sessionIds: string[]): Promise<SlackFocusSession[]> => {
+  if (sessionIds.length === 0) return []
 
-const updateExpiredFocusSession = async (sessionId: number): Promise<void> => {
-  await db('slack_focus_sessions')
-    .where({ id: sessionId })
-    .update({ 
-      is_active: false, 
-      end_time: new Date() 
+  return await db('slack_focus_sessions')
+    .where({ user_id: userId, is_active: true })
+    .whereIn('id', sessionIds)
+    .update({
+      is_active: false,
+      end_time: new Date()
     })
+    .returning('*')
 }
 
 const getFocusSessionStatus = async (userId: string): Promise<any> => {
@@ -269,6 +355,8 @@ const getFocusSessionStatus = async (userId: string): Promise<any> => {
     session_id: activeSession.session_id,
     start_time: activeSession.start_time,
     duration_minutes: activeSession.duration_minutes,
+    paused_at: activeSession.paused_at,
+    paused_seconds: activeSession.paused_seconds,
     workspaces
   }
 }
@@ -411,16 +499,19 @@ export const SlackRepo = {
   getUserPreferences,
   getActiveUserConnection,
   getAllActiveUserConnections,
-  getUserConnectionWithPreferences,
+  getWorkspaceConnectionPreferences,
+  getWorkspacePreferenceOverrides,
+  upsertWorkspacePreferenceOverride,
   createFocusSession,
   createFocusSessionWorkspace,
   getActiveFocusSession,
   getAllActiveFocusSessions,
   getFocusSessionById,
   getFocusSessionWorkspaces,
-  updateFocusSession,
-  endAllActiveFocusSessions,
-  updateExpiredFocusSession,
+  extendFocusSession,
+  pauseFocusSession,
+  resumeFocusSession,
+  endFocusSessions,
   getFocusSessionStatus,
   createSessionActivity,
   createOAuthState,
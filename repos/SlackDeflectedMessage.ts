@@ -0,0 +1,121 @@
+import { getDb } from '../config/database.js'
+
+const db = getDb()
+
+export interface SlackDeflectedMessage {
+  id: string
+  user_id: string
+  focus_session_id: string
+  workspace_id: string
+  sender_slack_id: string
+  sender_name: string | null
+  channel_id: string
+  is_direct_message: boolean
+  message_ts: string
+  permalink: string | null
+  snippet: string
+  urgent: boolean
+  created_at: Date
+}
+
+export type SlackDeflectedMessageInput = Omit<SlackDeflectedMessage, 'id' | 'created_at'>
+
+export interface SlackDeflectedMessageWithWorkspace extends SlackDeflectedMessage {
+  team_name: string
+}
+
+export interface DigestSession {
+  id: string
+  session_id: string
+  start_time: Date
+  end_time: Date | null
+  is_active: boolean
+  digest_sent_at: Date | null
+}
+
+export interface DigestRecipient {
+  workspace_id: string
+  slack_user_id: string
+  bot_token: string
+}
+
+const tableName = 'slack_deflected_messages'
+const sessionColumns = ['id', 'session_id', 'start_time', 'end_time', 'is_active', 'digest_sent_at']
+
+const recordMessage = async (message: SlackDeflectedMessageInput): Promise<void> => {
+  await db(tableName)
+    .insert(message)
+    .onConflict(['focus_session_id', 'channel_id', 'message_ts'])
+    .ignore()
+}
+
+const getSessionMessages = async (focusSessionId: string): Promise<SlackDeflectedMessageWithWorkspace[]> => {
+  return await db(`${tableName} as sdm`)
+    .join('slack_workspaces as sw', 'sw.id', 'sdm.workspace_id')
+    .where('sdm.focus_session_id', focusSessionId)
+    .orderBy('sdm.created_at', 'asc')
+    .select('sdm.*', 'sw.team_name')
+}
+
+const getUserSession = async (userId: string, focusSessionId: string): Promise<DigestSession | undefined> => {
+  return await db('slack_focus_sessions')
+    .where({ id: focusSessionId, user_id: userId })
+    .select(sessionColumns)
+    .first()
+}
+
+const getLatestSession = async (userId: string): Promise<DigestSession | undefined> => {
+  return await db('slack_focus_sessions')
+    .where({ user_id: userId })
+    .orderBy('start_time', 'desc')
+    .select(sessionColumns)
+    .first()
+}
+
+/**
+ * Mark an ended session's digest as sent. Only the first caller gets true, so the digest goes
+ * out once even when ending the session and the cleanup job race.
+ */
+const claimDigest = async (userId: string, focusSessionId: string): Promise<boolean> => {
+  const claimed = await db('slack_focus_sessions')
+    .where({ id: focusSessionId, user_id: userId, is_active: false })
+    .whereNull('digest_sent_at')
+    .update({ digest_sent_at: new Date() })
+  return claimed > 0
+}
+
+// Give the claim back when the digest didn't go out, so it isn't recorded as sent
+const releaseDigest = async (userId: string, focusSessionId: string): Promise<void> => {
+  await db('slack_focus_sessions')
+    .where({ id: focusSessionId, user_id: userId })
+    .update({ digest_sent_at: null })
+}
+
+// Permalinks are looked up when the digest is built, off the auto-reply path
+const setPermalink = async (messageId: string, permalink: string): Promise<void> => {
+  await db(tableName)
+    .where({ id: messageId })
+    .update({ permalink })
+}
+
+// Where the bot can DM the user in each workspace
+const getDigestRecipients = async (userId: string, workspaceIds: string[]): Promise<DigestRecipient[]> => {
+  if (workspaceIds.length === 0) return []
+
+  return await db('slack_user_connections as suc')
+    .join('slack_workspaces as sw', 'sw.id', 'suc.workspace_id')
+    .where({ 'suc.user_id': userId, 'suc.is_active': true })
+    .whereIn('suc.workspace_id', workspaceIds)
+    .select('suc.workspace_id', 'suc.slack_user_id', 'sw.bot_token')
+}
+
+export const SlackDeflectedMessageRepo = {
+  recordMessage,
+  getSessionMessages,
+  getUserSession,
+  getLatestSession,
+  claimDigest,
+  releaseDigest,
+  setPermalink,
+  getDigestRecipients
+}
\ No newline at end of file
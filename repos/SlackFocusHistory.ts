@@ -0,0 +1,177 @@
+import { getDb } from '../config/database.js'
+import { cursorTimestampSql, type WithCursor } from '../utils/cursor.js'
+
+const db = getDb()
+
+export interface FocusSessionCursor {
+  startTime: string
+  id: string
+}
+
+export interface FocusSessionHistoryEntry {
+  id: string
+  session_id: string
+  start_time: Date
+  end_time: Date | null
+  duration_minutes: number | null
+  is_active: boolean
+  paused_at: Date | null
+  paused_seconds: number
+  focused_minutes: number
+  interruptions_blocked: number
+  urgent_breakthroughs: number
+  workspaces: Array<{
+    workspace_id: string
+    team_name: string
+    status_updated: boolean
+    dnd_enabled: boolean
+    error_type: string | null
+  }>
+}
+
+export interface WeeklyFocusRow {
+  week_start: string
+  sessions: number
+  focus_minutes: number
+}
+
+export interface WeeklyReplyRow {
+  week_start: string
+  interruptions_blocked: number
+  urgent_breakthroughs: number
+}
+
+export interface WorkspaceActivityRow {
+  workspace_id: string
+  team_name: string
+  actions: number
+  errors: number
+}
+
+// Seconds actually spent focusing: the session so far (or in total once ended) minus time spent
+// paused, including a pause that is still running or that the session ended in
+const FOCUSED_SECONDS_SQL = `
+  GREATEST(
+    EXTRACT(EPOCH FROM (COALESCE(s.end_time, NOW()) - s.start_time))
+    - s.paused_seconds
+    - CASE WHEN s.paused_at IS NOT NULL THEN EXTRACT(EPOCH FROM (COALESCE(s.end_time, NOW()) - s.paused_at)) ELSE 0 END,
+    0
+  )
+`
+
+// Auto-replies carry urgent: true when the sender's message matched an urgent keyword
+const URGENT_REPLY_SQL = `a.details->>'urgent' = 'true'`
+
+/**
+ * Newest-first sessions, paged by (start_time, id), with the auto-replies sent while each ran
+ */
+const getFocusSessionsPage = async (userId: string, limit: number, before?: FocusSessionCursor): Promise<WithCursor<FocusSessionHistoryEntry>[]> => {
+  const query = `
+    SELECT
+      s.id,
+      s.session_id,
+      s.start_time,
+      s.end_time,
+      s.duration_minutes,
+      s.is_active,
+      s.paused_at,
+      s.paused_seconds,
+      ROUND(${FOCUSED_SECONDS_SQL} / 60)::int AS focused_minutes,
+      replies.interruptions_blocked,
+      replies.urgent_breakthroughs,
+      COALESCE(workspaces.list, '[]'::json) AS workspaces,
+      ${cursorTimestampSql('s.start_time')}
+    FROM slack_focus_sessions s
+    LEFT JOIN LATERAL (
+      SELECT
+        COUNT(*) FILTER (WHERE NOT COALESCE(${URGENT_REPLY_SQL}, false))::int AS interruptions_blocked,
+        COUNT(*) FILTER (WHERE ${URGENT_REPLY_SQL})::int AS urgent_breakthroughs
+      FROM slack_session_activities a
+      WHERE a.user_id = s.user_id
+        AND a.activity_type = 'auto_reply_sent'
+        AND a.created_at >= s.start_time
+        AND a.created_at < COALESCE(s.end_time, NOW())
+    ) replies ON true
+    LEFT JOIN LATERAL (
+      SELECT json_agg(json_build_object(
+        'workspace_id', sw.id,
+        'team_name', sw.team_name,
+        'status_updated', sfw.status_updated,
+        'dnd_enabled', sfw.dnd_enabled,
+        'error_type', sfw.error_type
+      ) ORDER BY sw.team_name) AS list
+      FROM slack_focus_session_workspaces sfw
+      JOIN slack_workspaces sw ON sw.id = sfw.workspace_id
+      WHERE sfw.session_id = s.id
+    ) workspaces ON true
+    WHERE s.user_id = ?
+    ${before ? 'AND (s.start_time, s.id) < (?::timestamptz, ?)' : ''}
+    ORDER BY s.start_time DESC, s.id DESC
+    LIMIT ?
+  `
+
+  const bindings: any[] = [userId]
+  if (before) {
+    bindings.push(before.startTime, before.id)
+  }
+  bindings.push(limit)
+
+  return db.raw(query, bindings).then(result => result.rows)
+}
+
+/**
+ * Sessions and focused minutes per week (weeks start on Monday in the given timezone),
+ * for sessions started at or after `since`
+ */
+const getWeeklyFocus = async (userId: string, since: Date, timeZone: string): Promise<WeeklyFocusRow[]> => {
+  const query = `
+    SELECT
+      TO_CHAR(DATE_TRUNC('week', s.start_time AT TIME ZONE ?), 'YYYY-MM-DD') AS week_start,
+      COUNT(*)::int AS sessions,
+      ROUND(SUM(${FOCUSED_SECONDS_SQL}) / 60)::int AS focus_minutes
+    FROM slack_focus_sessions s
+    WHERE s.user_id = ? AND s.start_time >= ?
+    GROUP BY 1
+    ORDER BY 1
+  `
+
+  return db.raw(query, [timeZone, userId, since]).then(result => result.rows)
+}
+
+const getWeeklyReplies = async (userId: string, since: Date, timeZone: string): Promise<WeeklyReplyRow[]> => {
+  const query = `
+    SELECT
+      TO_CHAR(DATE_TRUNC('week', a.created_at AT TIME ZONE ?), 'YYYY-MM-DD') AS week_start,
+      COUNT(*) FILTER (WHERE NOT COALESCE(${URGENT_REPLY_SQL}, false))::int AS interruptions_blocked,
+      COUNT(*) FILTER (WHERE ${URGENT_REPLY_SQL})::int AS urgent_breakthroughs
+    FROM slack_session_activities a
+    WHERE a.user_id = ? AND a.activity_type = 'auto_reply_sent' AND a.created_at >= ?
+    GROUP BY 1
+    ORDER BY 1
+  `
+
+  return db.raw(query, [timeZone, userId, since]).then(result => result.rows)
+}
+
+// Every recorded Slack action per workspace, and how many of them failed
+const getWorkspaceActivity = async (userId: string, since: Date): Promise<WorkspaceActivityRow[]> => {
+  return db('slack_session_activities as a')
+    .join('slack_workspaces as sw', 'sw.id', 'a.slack_workspace_id')
+    .where('a.user_id', userId)
+    .where('a.created_at', '>=', since)
+    .groupBy('sw.id', 'sw.team_name')
+    .orderBy('sw.team_name', 'asc')
+    .select(
+      'sw.id as workspace_id',
+      'sw.team_name',
+      db.raw('COUNT(*)::int as actions'),
+      db.raw('COUNT(*) FILTER (WHERE a.activity_type = \'error\' OR a.success = false)::int as errors')
+    )
+}
+
+export const SlackFocusHistoryRepo = {
+  getFocusSessionsPage,
+  getWeeklyFocus,
+  getWeeklyReplies,
+  getWorkspaceActivity
+}
\ No newline at end of file
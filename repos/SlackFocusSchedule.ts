@@ -0,0 +1,118 @@
+import { getDb } from '../config/database.js'
+
+const db = getDb()
+
+export type ScheduleRunStatus = 'started' | 'skipped' | 'conflict' | 'failed'
+
+export interface SlackFocusSchedule {
+  id: string
+  user_id: string
+  title: string | null
+  duration_minutes: number
+  start_at: Date | null
+  days_of_week: number[] | null
+  start_time: string | null // HH:MM:SS, local to time_zone
+  time_zone: string
+  is_active: boolean
+  last_run_at: Date | null
+  last_run_status: ScheduleRunStatus | null
+  created_at: Date
+  updated_at: Date
+}
+
+export type SlackFocusScheduleInput = Pick<SlackFocusSchedule, 'title' | 'duration_minutes' | 'start_at' | 'days_of_week' | 'start_time' | 'time_zone'>
+
+const tableName = 'slack_focus_schedules'
+const skipTableName = 'slack_focus_schedule_skips'
+
+const createSchedule = async (userId: string, schedule: SlackFocusScheduleInput): Promise<SlackFocusSchedule> => {
+  const [created] = await db(tableName)
+    .insert({ user_id: userId, ...schedule })
+    .returning('*')
+  return created
+}
+
+const getScheduleById = async (scheduleId: string): Promise<SlackFocusSchedule | undefined> => {
+  return await db(tableName)
+    .where({ id: scheduleId })
+    .first()
+}
+
+const getUserSchedule = async (userId: string, scheduleId: string): Promise<SlackFocusSchedule | undefined> => {
+  return await db(tableName)
+    .where({ id: scheduleId, user_id: userId })
+    .first()
+}
+
+const getActiveSchedulesForUser = async (userId: string): Promise<SlackFocusSchedule[]> => {
+  return await db(tableName)
+    .where({ user_id: userId, is_active: true })
+    .orderBy('created_at', 'asc')
+}
+
+const getAllActiveSchedules = async (): Promise<SlackFocusSchedule[]> => {
+  return await db(tableName)
+    .where({ is_active: true })
+}
+
+const updateSchedule = async (scheduleId: string, updates: Partial<SlackFocusScheduleInput>): Promise<SlackFocusSchedule> => {
+  const [updated] = await db(tableName)
+    .where({ id: scheduleId })
+    .update(updates)
+    .returning('*')
+  return updated
+}
+
+const recordRun = async (scheduleId: string, status: ScheduleRunStatus, deactivate: boolean = false): Promise<void> => {
+  await db(tableName)
+    .where({ id: scheduleId })
+    .update({
+      last_run_at: new Date(),
+      last_run_status: status,
+      ...(deactivate && { is_active: false })
+    })
+}
+
+const deleteSchedule = async (scheduleId: string): Promise<void> => {
+  await db(tableName)
+    .where({ id: scheduleId })
+    .del()
+}
+
+const addSkip = async (scheduleId: string, occurrenceDate: string): Promise<void> => {
+  await db(skipTableName)
+    .insert({ schedule_id: scheduleId, occurrence_date: occurrenceDate })
+    .onConflict(['schedule_id', 'occurrence_date'])
+    .ignore()
+}
+
+const isSkipped = async (scheduleId: string, occurrenceDate: string): Promise<boolean> => {
+  const skip = await db(skipTableName)
+    .where({ schedule_id: scheduleId, occurrence_date: occurrenceDate })
+    .first()
+  return !!skip
+}
+
+const getUpcomingSkips = async (scheduleIds: string[], fromDate: string): Promise<Array<{ schedule_id: string; occurrence_date: string }>> => {
+  if (scheduleIds.length === 0) return []
+
+  return await db(skipTableName)
+    .select('schedule_id', db.raw('TO_CHAR(occurrence_date, \'YYYY-MM-DD\') as occurrence_date'))
+    .whereIn('schedule_id', scheduleIds)
+    .where('occurrence_date', '>=', fromDate)
+    .orderBy('occurrence_date', 'asc')
+}
+
+export const SlackFocusScheduleRepo = {
+  createSchedule,
+  getScheduleById,
+  getUserSchedule,
+  getActiveSchedulesForUser,
+  getAllActiveSchedules,
+  updateSchedule,
+  recordRun,
+  deleteSchedule,
+  addSkip,
+  isSkipped,
+  getUpcomingSkips
+}
\ No newline at end of file
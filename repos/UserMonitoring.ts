@@ -152,9 +152,11 @@ const getUserActivitySummary = async (days: number = 7) => {
 }
 
 /**
- * Update users to offline status if they haven't checked in for 5+ minutes
+ * Update users to offline status if they haven't checked in for 5+ minutes.
+ * Clients check in through POST /api/users/presence, which bumps last_check_in.
+ * Returns who went offline and their previous status so the change can be broadcast.
  */
-const updateOfflineUsers = async (): Promise<{ affectedRows: number }> => {
+const updateOfflineUsers = async (): Promise<{ affectedRows: number; users: Array<{ id: string; previous_status: string }> }> => {
   try {
     console.log('🔄 Updating users to offline status...')
     
@@ -162,13 +164,20 @@ const updateOfflineUsers = async (): Promise<{ affectedRows: number }> => {
     cutoffTime.setMinutes(cutoffTime.getMinutes() - 5) // 5 minutes ago
 
     const query = `
-      UPDATE user_profile 
+      UPDATE user_profile up
       SET 
         online_status = 'offline',
         updated_at = NOW()
-      WHERE 
-        last_check_in < ? 
-        AND online_status != 'offline'
+      FROM (
+        SELECT id, online_status
+        FROM user_profile
+        WHERE 
+          last_check_in < ? 
+          AND online_status != 'offline'
+        FOR UPDATE
+      ) previous
+      WHERE up.id = previous.id
+      RETURNING up.id, previous.online_status AS previous_status
     `
     
     const result = await db.raw(query, [cutoffTime.toISOString()])
@@ -176,10 +185,10 @@ const updateOfflineUsers = async (): Promise<{ affectedRows: number }> => {
     
     console.log(`📊 Updated ${affectedRows} users to offline status`)
     
-    return { affectedRows }
+    return { affectedRows, users: result.rows }
   } catch (error) {
     console.error('Error updating offline users:', error)
-    return { affectedRows: 0 }
+    return { affectedRows: 0, users: [] }
   }
 }
 
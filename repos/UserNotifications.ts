@@ -5,7 +5,7 @@ const db = getDb()
 export interface UserNotification {
   id: string
   user_id: string
-  notification_type: 'paid_user' | 'new_user' | 'inactive_user' | 'weekly_report'
+  notification_type: 'paid_user' | 'new_user' | 'inactive_user' | 'weekly_report' | 'goal_hit' | 'goal_missed'
   reference_id: string // Unique identifier for this notification instance
   sent_at: Date
   data?: any // Store additional notification data if needed
@@ -9,8 +9,13 @@ export interface UserProfile {
   id: number;
   user_id: string;
   online_status: OnlineStatus;
+  last_check_in: Date;
+  version: string | null; // app version reported with the last presence check-in
   latitude: number; // rounded to nearest integer (within 111km accuracy)
   longitude: number; // rounded to nearest integer (within 111km accuracy)
+  timezone: string | null; // IANA timezone, seeded from geolocation
+  announce_achievements: boolean; // share newly unlocked badges with friends
+  share_activity: boolean; // false hides the user from friend leaderboards
   created_at: Date;
   updated_at: Date;
 }
@@ -54,7 +59,11 @@ const saveUserLocation = async (userId: string, userLocation: GeoLocationData):
   await db(tableName).update({
     latitude: Math.round(userLocation.location.latitude),
     longitude: Math.round(userLocation.location.longitude),
-    online_status: 'online'
+    online_status: 'online',
+    // Only seed the timezone - never overwrite one the user already has
+    ...(userLocation.location.timeZone && {
+      timezone: db.raw('COALESCE(timezone, ?)', [userLocation.location.timeZone])
+    })
   }).where('id', userId)
 }
 
@@ -68,9 +77,85 @@ const getUserProfile = async (userId: string) => {
   return result
 }
 
+const getUserTimeZone = async (userId: string): Promise<string | null> => {
+  const result = await db(tableName).select('timezone').where('id', userId).first()
+  return result?.timezone || null
+}
+
+const updateUserTimeZone = async (userId: string, timeZone: string): Promise<void> => {
+  await db(tableName).update({ timezone: timeZone }).where('id', userId)
+}
+
+const updateAnnounceAchievements = async (userId: string, enabled: boolean): Promise<boolean> => {
+  const updated = await db(tableName).update({ announce_achievements: enabled }).where('id', userId)
+  return updated > 0
+}
+
+const getUsersAnnouncingAchievements = async (userIds: string[]): Promise<string[]> => {
+  if (userIds.length === 0) return []
+
+  const rows = await db(tableName)
+    .select('id')
+    .whereIn('id', userIds)
+    .where('announce_achievements', true)
+
+  return rows.map(row => row.id)
+}
+
+const updateShareActivity = async (userId: string, enabled: boolean): Promise<boolean> => {
+  const updated = await db(tableName).update({ share_activity: enabled }).where('id', userId)
+  return updated > 0
+}
+
+/**
+ * Record a presence check-in. The update only applies while the stored status is still
+ * expectedStatus (null when the user has no profile yet, which creates one), so concurrent
+ * check-ins can't skip the transition rules. Returns null when another write got there first.
+ */
+const updatePresence = async (
+  userId: string,
+  presence: { online_status: OnlineStatus; version?: string },
+  expectedStatus: OnlineStatus | null
+): Promise<UserProfile | null> => {
+  const updates = {
+    ...presence,
+    last_check_in: db.fn.now()
+  }
+
+  if (expectedStatus === null) {
+    const [created] = await db(tableName)
+      .insert({ id: userId, ...updates })
+      .onConflict('id')
+      .ignore()
+      .returning('*')
+    return created || null
+  }
+
+  const [updated] = await db(tableName)
+    .update(updates)
+    .where({ id: userId, online_status: expectedStatus })
+    .returning('*')
+  return updated || null
+}
+
+const getOnlineStatuses = async (userIds: string[]): Promise<Array<{ id: string; online_status: OnlineStatus }>> => {
+  if (userIds.length === 0) return []
+
+  return db(tableName)
+    .select('id', 'online_status')
+    .whereIn('id', userIds)
+}
+
 export const UserProfileRepo = {
   getUserStatusCounts,
   saveUserLocation,
   getUserLocations,
-  getUserProfile
+  getUserProfile,
+  getUserTimeZone,
+  updateUserTimeZone,
+  updateAnnounceAchievements,
+  getUsersAnnouncingAchievements,
+  updateShareActivity,
+  getOnlineStatuses,
+  updatePresence
 }
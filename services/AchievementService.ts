@@ -0,0 +1,184 @@
+import { AchievementsRepo, type AchievementAward, type UserAchievement, type UserMetric } from '../repos/Achievements.js'
+import { FriendsRepo } from '../repos/Friends.js'
+import { UserProfileRepo } from '../repos/UserProfile.js'
+import { ACHIEVEMENTS, getAchievementDefinition, type AchievementDefinition } from '../config/achievements.js'
+import { ApiError } from '../middleware/errorHandler.js'
+import { EmailService } from './EmailService.js'
+import { getDateInTimeZone, getWeekStart, shiftDate } from '../utils/timezone.js'
+import type { Request } from 'express'
+
+export interface UnlockedAchievement {
+  id: string
+  name: string
+  description: string
+  reference_id: string
+  data?: any
+  unlocked_at: Date
+}
+
+// One-off badges: every user whose metric reaches the threshold, keyed by the badge ID
+const awardThreshold = (definition: AchievementDefinition, metrics: UserMetric[], scale: number = 1): AchievementAward[] => {
+  return metrics
+    .filter(metric => metric.value >= definition.threshold * scale)
+    .map(metric => ({
+      user_id: metric.userId,
+      achievement_id: definition.id,
+      reference_id: definition.id,
+      data: { value: metric.value }
+    }))
+}
+
+// Failed announcements are retried on later runs, but stale unlocks are never sent
+const ANNOUNCE_RETRY_DAYS = 7
+
+/**
+ * Announce unlocked badges to the friends of users who opted in. Works from the stored unlocks
+ * that haven't been announced yet, so a failed announcement is retried on the next run. Each
+ * delivered email is recorded, so retries only email the friends who didn't get one, and an
+ * unlock counts as announced once every friend has it.
+ */
+const announceAchievements = async (): Promise<number> => {
+  const pending = await AchievementsRepo.getUnannouncedAchievements(new Date(Date.now() - ANNOUNCE_RETRY_DAYS * 24 * 60 * 60 * 1000))
+  const userIds = [...new Set(pending.map(achievement => achievement.user_id))]
+  const announcingUserIds = await UserProfileRepo.getUsersAnnouncingAchievements(userIds)
+  const toAnnounce = pending.filter(achievement => announcingUserIds.includes(achievement.user_id))
+
+  let announced = 0
+  for (const achievement of toAnnounce) {
+    const definition = getAchievementDefinition(achievement.achievement_id)
+    const user = await FriendsRepo.getUserByAuthId(achievement.user_id)
+    if (!definition || !user) continue
+
+    try {
+      const [friends, announcedFriendIds] = await Promise.all([
+        FriendsRepo.getFriendsWithDetails(achievement.user_id),
+        AchievementsRepo.getAnnouncedFriendIds(achievement.id)
+      ])
+
+      let delivered = true
+      for (const friend of friends.filter(friend => !announcedFriendIds.includes(friend.friend_id))) {
+        const sent = await EmailService.sendAchievementEmail({
+          toEmail: friend.friend_email,
+          fromEmail: user.email,
+          achievementName: definition.name,
+          achievementDescription: definition.description
+        })
+        if (sent) {
+          await AchievementsRepo.recordAnnouncement(achievement.id, friend.friend_id)
+        } else {
+          delivered = false
+        }
+      }
+
+      if (delivered) {
+        await AchievementsRepo.markAnnounced([achievement.id])
+        announced++
+      }
+    } catch (error) {
+      console.error(`Failed to announce achievement ${achievement.id}:`, error)
+    }
+  }
+
+  return announced
+}
+
+/**
+ * Award every badge users currently qualify for. Awards are keyed by
+ * (user, badge, reference ID) so re-running only returns badges unlocked by this run.
+ * Best week compares the last completed Monday-to-Sunday week against all earlier weeks.
+ */
+const evaluateAchievements = async (today: string = getDateInTimeZone()): Promise<{ unlocked: UserAchievement[]; announced: number }> => {
+  const lastWeekStart = shiftDate(getWeekStart(today), -7)
+
+  const [streaks, totals, weeklyRecords, friendCounts] = await Promise.all([
+    AchievementsRepo.getLongestStreaks(today),
+    AchievementsRepo.getTotalCreatingMinutes(),
+    AchievementsRepo.getWeeklyRecords(lastWeekStart),
+    AchievementsRepo.getFriendCounts()
+  ])
+
+  const awards: AchievementAward[] = ACHIEVEMENTS.flatMap((definition): AchievementAward[] => {
+    switch (definition.metric) {
+      case 'streak':
+        return awardThreshold(definition, streaks)
+      case 'total_hours':
+        return awardThreshold(definition, totals, 60)
+      case 'friends':
+        return awardThreshold(definition, friendCounts)
+      case 'best_week':
+        return weeklyRecords
+          .filter(record => record.previousBest !== null
+            && record.weekMinutes >= definition.threshold
+            && record.weekMinutes > record.previousBest)
+          .map(record => ({
+            user_id: record.userId,
+            achievement_id: definition.id,
+            reference_id: `${definition.id}_${lastWeekStart}`,
+            data: { week_start: lastWeekStart, minutes: record.weekMinutes, previous_best: record.previousBest }
+          }))
+    }
+  })
+
+  const unlocked = await AchievementsRepo.recordAchievements(awards)
+  const announced = await announceAchievements()
+
+  return { unlocked, announced }
+}
+
+const getUserAchievements = async (req: Request): Promise<UnlockedAchievement[]> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  try {
+    const achievements = await AchievementsRepo.getUserAchievements(req.user.id)
+
+    // Badges removed from the catalogue are hidden rather than deleted
+    return achievements.flatMap(achievement => {
+      const definition = getAchievementDefinition(achievement.achievement_id)
+      if (!definition) return []
+
+      return [{
+        id: definition.id,
+        name: definition.name,
+        description: definition.description,
+        reference_id: achievement.reference_id,
+        data: achievement.data,
+        unlocked_at: achievement.unlocked_at
+      }]
+    })
+  } catch (error) {
+    console.error('Service error fetching achievements:', error)
+    throw new ApiError('Failed to fetch achievements', 500)
+  }
+}
+
+const updateAnnounceSetting = async (req: Request): Promise<{ announce_to_friends: boolean }> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const { announce_to_friends } = req.body || {}
+  if (typeof announce_to_friends !== 'boolean') {
+    throw new ApiError('announce_to_friends must be a boolean', 400)
+  }
+
+  let updated: boolean
+  try {
+    updated = await UserProfileRepo.updateAnnounceAchievements(req.user.id, announce_to_friends)
+  } catch (error) {
+    console.error('Service error updating achievement settings:', error)
+    throw new ApiError('Failed to update achievement settings', 500)
+  }
+
+  if (!updated) {
+    throw new ApiError('User profile not found', 404)
+  }
+  return { announce_to_friends }
+}
+
+export const AchievementService = {
+  evaluateAchievements,
+  getUserAchievements,
+  updateAnnounceSetting
+}
\ No newline at end of file
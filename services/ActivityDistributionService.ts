@@ -0,0 +1,174 @@
+import { ActivityDistributionRepo, type ActivityDayDistribution } from '../repos/ActivityDistribution.js'
+import { ActivityDayRollupRepo } from '../repos/ActivityDayRollup.js'
+import { ApiError } from '../middleware/errorHandler.js'
+import { UserProfileService } from './UserProfileService.js'
+import { getDateInTimeZone, shiftDate } from '../utils/timezone.js'
+import type { Request } from 'express'
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
+// Histogram buckets for the distribution chart; everything past the last edge shares one bucket
+const HISTOGRAM_BUCKET_MINUTES = 30
+const HISTOGRAM_MAX_MINUTES = 12 * 60
+
+export interface DistributionPercentiles {
+  p25: number
+  p50: number
+  p75: number
+  p90: number
+  userCount: number
+  computedAt: Date
+}
+
+export interface UserDistributionPercentile {
+  userMinutes: number
+  percentile: number
+  distribution: DistributionPercentiles
+}
+
+export interface DistributionChart extends UserDistributionPercentile {
+  date: string
+  histogram: Array<{ fromMinutes: number; toMinutes: number | null; users: number }>
+}
+
+// Every date that is "today" somewhere in the world, which the refresh job keeps up to date
+const getRecentDates = (now: Date = new Date()): string[] => {
+  const today = getDateInTimeZone('UTC', now)
+  return [shiftDate(today, -1), today, shiftDate(today, 1)]
+}
+
+const toPercentiles = (distribution: ActivityDayDistribution): DistributionPercentiles => ({
+  p25: distribution.p25,
+  p50: distribution.p50,
+  p75: distribution.p75,
+  p90: distribution.p90,
+  userCount: distribution.user_count,
+  computedAt: distribution.computed_at
+})
+
+const buildHistogram = async (date: string): Promise<DistributionChart['histogram']> => {
+  const counts = await ActivityDistributionRepo.getHistogram(date, HISTOGRAM_BUCKET_MINUTES, HISTOGRAM_MAX_MINUTES)
+  const usersByBucket = new Map(counts.map(row => [row.bucket, row.users]))
+  const histogram: DistributionChart['histogram'] = []
+
+  for (let from = 0; from < HISTOGRAM_MAX_MINUTES; from += HISTOGRAM_BUCKET_MINUTES) {
+    histogram.push({
+      fromMinutes: from,
+      toMinutes: from + HISTOGRAM_BUCKET_MINUTES,
+      users: usersByBucket.get(from / HISTOGRAM_BUCKET_MINUTES) || 0
+    })
+  }
+  histogram.push({
+    fromMinutes: HISTOGRAM_MAX_MINUTES,
+    toMinutes: null,
+    users: usersByBucket.get(HISTOGRAM_MAX_MINUTES / HISTOGRAM_BUCKET_MINUTES) || 0
+  })
+
+  return histogram
+}
+
+// The rank lookup runs in the database so the day's totals never leave it
+const placeUser = async (distribution: ActivityDayDistribution, userMinutes: number): Promise<UserDistributionPercentile> => {
+  const totalUsers = distribution.user_count
+  const usersAtOrBelow = totalUsers > 0 ? await ActivityDistributionRepo.countUsersAtOrBelow(distribution.date, userMinutes) : 0
+
+  return {
+    userMinutes,
+    percentile: totalUsers > 0 ? Math.round((usersAtOrBelow / totalUsers) * 100) : 0,
+    distribution: toPercentiles(distribution)
+  }
+}
+
+/**
+ * The stored distribution for a day. Days the refresh job hasn't reached yet (e.g. older
+ * dates) are computed once on first request and stored. Days that haven't started anywhere
+ * yet have nothing to compute.
+ */
+const getDistribution = async (date: string): Promise<ActivityDayDistribution> => {
+  if (date > getRecentDates().at(-1)!) {
+    throw new ApiError('Date cannot be in the future', 400)
+  }
+
+  const stored = await ActivityDistributionRepo.getDistribution(date)
+  return stored || ActivityDistributionRepo.refreshDistribution(date)
+}
+
+/**
+ * The user's percentile for a day from the precomputed distribution: the share of active
+ * users whose total is at or below the user's current total
+ */
+const getUserPercentile = async (userId: string, date: string): Promise<UserDistributionPercentile> => {
+  const [distribution, userMinutes] = await Promise.all([
+    getDistribution(date),
+    ActivityDayRollupRepo.getUserActivityByDate(userId, date)
+  ])
+
+  return placeUser(distribution, userMinutes)
+}
+
+/**
+ * Refresh the distributions for every date that is "today" somewhere in the world
+ */
+const refreshRecentDistributions = async (now: Date = new Date()): Promise<string[]> => {
+  const dates = getRecentDates(now)
+
+  for (const date of dates) {
+    await ActivityDistributionRepo.refreshDistribution(date)
+  }
+
+  return dates
+}
+
+/**
+ * Drop the stored distributions for older days whose rollups just changed (e.g. a backfill),
+ * so they are recomputed on the next request. Recent days are left to the refresh job.
+ * Failures are logged so they never fail the rollup write.
+ */
+const invalidateDistributions = async (dates: string[]): Promise<void> => {
+  const oldestRecent = getRecentDates()[0]!
+  try {
+    await ActivityDistributionRepo.deleteDistributions(dates.filter(date => date < oldestRecent))
+  } catch (error) {
+    console.error('Failed to invalidate activity distributions:', error)
+  }
+}
+
+const getDistributionChart = async (req: Request): Promise<DistributionChart> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const userId = req.user.id
+  const { date: dateParam } = req.query
+  if (dateParam !== undefined && (typeof dateParam !== 'string' || !DATE_REGEX.test(dateParam) || isNaN(Date.parse(dateParam)))) {
+    throw new ApiError('Date must be in YYYY-MM-DD format', 400)
+  }
+
+  try {
+    const date = (dateParam as string | undefined) || await UserProfileService.getUserToday(userId)
+    const [distribution, userMinutes] = await Promise.all([
+      getDistribution(date),
+      ActivityDayRollupRepo.getUserActivityByDate(userId, date)
+    ])
+
+    const [placement, histogram] = await Promise.all([
+      placeUser(distribution, userMinutes),
+      buildHistogram(date)
+    ])
+
+    return { date, ...placement, histogram }
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error
+    }
+    console.error('Service error getting activity distribution:', error)
+    throw new ApiError('Failed to get activity distribution', 500)
+  }
+}
+
+export const ActivityDistributionService = {
+  getUserPercentile,
+  refreshRecentDistributions,
+  invalidateDistributions,
+  getDistributionChart
+}
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { ActivityTagRepo, type ActivityTag, type TagCategory, type TagMergeResult } from '../repos/ActivityTag.js'
+import { ApiError } from '../middleware/errorHandler.js'
+import type { Request } from 'express'
+
+const TAG_CATEGORIES: TagCategory[] = ['creating', 'consuming', 'neutral']
+const MAX_TAG_NAME_LENGTH = 100
+
+const parseTagName = (value: unknown, field: string = 'name'): string => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new ApiError(`Valid tag ${field} is required`, 400)
+  }
+  const name = value.trim()
+  if (name.length > MAX_TAG_NAME_LENGTH) {
+    throw new ApiError(`Tag ${field} must be at most ${MAX_TAG_NAME_LENGTH} characters`, 400)
+  }
+  return name
+}
+
+const parseCategory = (value: unknown): TagCategory => {
+  if (!TAG_CATEGORIES.includes(value as TagCategory)) {
+    throw new ApiError('Category must be one of creating, consuming or neutral', 400)
+  }
+  return value as TagCategory
+}
+
+const getTags = async (req: Request): Promise<ActivityTag[]> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  try {
+    return await ActivityTagRepo.getTagsForUser(req.user.id)
+  } catch (error) {
+    console.error('Service error fetching activity tags:', error)
+    throw new ApiError('Failed to fetch activity tags', 500)
+  }
+}
+
+// A user tag may reuse a default tag's name to override its category
+const createTag = async (req: Request): Promise<ActivityTag> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const name = parseTagName(req.body?.name)
+  const category = parseCategory(req.body?.category)
+  const userId = req.user.id
+
+  const existing = await ActivityTagRepo.getUserTagByName(userId, name)
+  if (existing) {
+    throw new ApiError('A tag with this name already exists', 409)
+  }
+
+  try {
+    return await ActivityTagRepo.createUserTag(userId, name, category)
+  } catch (error) {
+    console.error('Service error creating activity tag:', error)
+    throw new ApiError('Failed to create activity tag', 500)
+  }
+}
+
+const updateTag = async (req: Request): Promise<ActivityTag> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const { tagId } = req.params
+  if (!tagId) {
+    throw new ApiError('Tag ID is required', 400)
+  }
+  const category = parseCategory(req.body?.category)
+
+  let tag: ActivityTag | null
+  try {
+    tag = await ActivityTagRepo.updateUserTagCategory(req.user.id, tagId, category)
+  } catch (error) {
+    console.error('Service error updating activity tag:', error)
+    throw new ApiError('Failed to update activity tag', 500)
+  }
+
+  if (!tag) {
+    throw new ApiError('Tag not found', 404)
+  }
+  return tag
+}
+
+const deleteTag = async (req: Request): Promise<void> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const { tagId } = req.params
+  if (!tagId) {
+    throw new ApiError('Tag ID is required', 400)
+  }
+
+  let deleted: boolean
+  try {
+    deleted = await ActivityTagRepo.deleteUserTag(req.user.id, tagId)
+  } catch (error) {
+    console.error('Service error deleting activity tag:', error)
+    throw new ApiError('Failed to delete activity tag', 500)
+  }
+
+  if (!deleted) {
+    throw new ApiError('Tag not found', 404)
+  }
+}
+
+const mergeTags = async (req: Request): Promise<TagMergeResult> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const from = parseTagName(req.body?.from, 'from')
+  const to = parseTagName(req.body?.to, 'to')
+  if (from === to) {
+    throw new ApiError('Source and target tags must differ', 400)
+  }
+
+  try {
+    return await ActivityTagRepo.mergeUserTags(req.user.id, from, to)
+  } catch (error) {
+    console.error('Service error merging activity tags:', error)
+    throw new ApiError('Failed to merge activity tags', 500)
+  }
+}
+
+export const ActivityTagService = {
+  getTags,
+  createTag,
+  updateTag,
+  deleteTag,
+  mergeTags
+}
\ No newline at end of file
@@ -18,12 +18,20 @@ interface FriendRequestEmailData {
   existingUser?: boolean
 }
 
-const sendLoopsEmail = async (payload: LoopsEmailPayload): Promise<void> => {
+interface AchievementEmailData {
+  toEmail: string
+  fromEmail: string
+  achievementName: string
+  achievementDescription: string
+}
+
+// Resolves to whether the email was handed to Loops; failures are logged, never thrown
+const sendLoopsEmail = async (payload: LoopsEmailPayload): Promise<boolean> => {
   try {
     const loopsApiKey = process.env.LOOPS_API_KEY
     if (!loopsApiKey) {
       console.error('LOOPS_API_KEY not configured, skipping email send')
-      return
+      return false
     }
 
     const response = await fetch('https://app.loops.so/api/v1/transactional', {
@@ -38,15 +46,16 @@ const sendLoopsEmail = async (payload: LoopsEmailPayload): Promise<void> => {
     if (!response.ok) {
       const errorText = await response.text()
       console.error('Failed to send email via Loops:', response.status, errorText)
-      return
+      return false
     }
 
     const result = await response.json()
     console.log('Email sent successfully via Loops:', result)
-    
+    return true
   } catch (error) {
     console.error('Failed to send email:', error)
     // Don't throw here - we don't want email failures to prevent other operations
+    return false
   }
 }
 
@@ -78,7 +87,29 @@ const sendFriendRequestEmail = async (data: FriendRequestEmailData): Promise<voi
   await sendLoopsEmail(payload)
 }
 
+const sendAchievementEmail = async (data: AchievementEmailData): Promise<boolean> => {
+  const transactionalId = process.env.LOOPS_ACHIEVEMENT_TEMPLATE_ID
+  if (!transactionalId) {
+    console.error('LOOPS_ACHIEVEMENT_TEMPLATE_ID not configured, skipping achievement email')
+    return false
+  }
+
+  const payload: LoopsEmailPayload = {
+    transactionalId,
+    email: data.toEmail,
+    dataVariables: {
+      to_email: data.toEmail,
+      from_email: data.fromEmail,
+      achievement_name: data.achievementName,
+      achievement_description: data.achievementDescription
+    }
+  }
+
+  return await sendLoopsEmail(payload)
+}
+
 export const EmailService = {
   sendFriendRequestEmail,
+  sendAchievementEmail,
   sendLoopsEmail
 }
\ No newline at end of file
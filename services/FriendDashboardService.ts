@@ -1,8 +1,23 @@
 import { ActivityDayRollupRepo } from '../repos/ActivityDayRollup.js'
 import { FriendsRepo } from '../repos/Friends.js'
+import { GroupsRepo, type GroupRole } from '../repos/Groups.js'
 import { ApiError } from '../middleware/errorHandler.js'
+import { UserProfileService } from './UserProfileService.js'
+import { GroupService } from './GroupService.js'
+import { ActivityDistributionService, type DistributionPercentiles } from './ActivityDistributionService.js'
+import { getWeekStart, shiftDate } from '../utils/timezone.js'
 import type { Request } from 'express'
 
+type LeaderboardPeriod = 'day' | 'week' | 'month'
+
+const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['day', 'week', 'month']
+
+type InsightsRange = 'week' | 'month' | 'custom'
+
+const INSIGHTS_RANGES: InsightsRange[] = ['week', 'month', 'custom']
+const MAX_INSIGHTS_RANGE_DAYS = 366
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
 interface DashboardInsights {
   userActivity: {
     totalMinutes: number
@@ -17,6 +32,7 @@ interface DashboardInsights {
   userPercentile: {
     percentile: number
     betterThanPercent: number
+    distribution?: DistributionPercentiles // community quartiles and p90 for single-day insights
   }
   communityComparison: {
     userMinutes: number
@@ -34,6 +50,79 @@ interface DashboardInsights {
   }
 }
 
+interface DateRange {
+  from: string
+  to: string
+}
+
+interface InsightsTrend {
+  previousMinutes: number
+  previousFormatted: string
+  differenceMinutes: number
+  differenceFormatted: string
+  changePercent: number | null // null when there was no activity in the previous range
+  direction: 'up' | 'down' | 'flat'
+}
+
+interface RangeDashboardInsights extends DashboardInsights {
+  range: InsightsRange
+  current: DateRange
+  previous: DateRange
+  trend: InsightsTrend
+}
+
+interface LeaderboardEntry {
+  userId: string
+  email: string
+  isCurrentUser: boolean
+  totalMinutes: number
+  minutesFormatted: string
+  rank: number
+  previousRank: number
+  rankChange: number // positive when the user moved up since the previous period
+}
+
+interface Leaderboard {
+  period: LeaderboardPeriod
+  current: DateRange
+  previous: DateRange
+  entries: LeaderboardEntry[]
+}
+
+interface GroupDashboardMember {
+  userId: string
+  email: string
+  role: GroupRole
+  isCurrentUser: boolean
+  activityVisible: boolean
+  totalMinutes: number | null // null when the member doesn't share their activity
+  minutesFormatted: string | null
+  shareOfGroupPercent: number | null
+}
+
+interface GroupDashboard {
+  group: {
+    id: string
+    name: string
+  }
+  period: LeaderboardPeriod
+  range: DateRange
+  totalMinutes: number
+  totalFormatted: string
+  memberCount: number
+  sharingMemberCount: number
+  members: GroupDashboardMember[]
+  communityComparison: {
+    groupAverage: number
+    groupAverageFormatted: string
+    communityAverage: number
+    communityAverageFormatted: string
+    differenceMinutes: number
+    differenceFormatted: string
+    isAboveAverage: boolean
+  }
+}
+
 const formatMinutes = (minutes: number): string => {
   const hours = Math.floor(minutes / 60)
   const mins = minutes % 60
@@ -45,22 +134,235 @@ const formatMinutes = (minutes: number): string => {
   return `${hours}h ${mins}m`
 }
 
-const getDashboardInsights = async (req: Request): Promise<DashboardInsights> => {
+const parseInsightsDate = (value: unknown, name: string): string => {
+  if (!value || typeof value !== 'string') {
+    throw new ApiError(`${name} is required`, 400)
+  }
+  if (!DATE_REGEX.test(value) || isNaN(Date.parse(value))) {
+    throw new ApiError(`${name} must be in YYYY-MM-DD format`, 400)
+  }
+  return value
+}
+
+/**
+ * The user is the top friend unless a friend who shares with them was more active
+ */
+const pickTopFriend = (
+  hasFriends: boolean,
+  visibleFriends: Array<{ email: string; minutes: number }>,
+  userEmail: string | undefined,
+  userMinutes: number
+): DashboardInsights['topFriend'] => {
+  const topFriend = {
+    hasFriends,
+    topFriendEmail: undefined as string | undefined,
+    topFriendMinutes: undefined as number | undefined,
+    topFriendFormatted: undefined as string | undefined
+  }
+
+  if (!hasFriends) {
+    return topFriend
+  }
+
+  // Find the friend with the most activity
+  let topFriendActivity = null
+  if (visibleFriends.length > 0) {
+    topFriendActivity = visibleFriends.reduce((prev, current) => current.minutes > prev.minutes ? current : prev)
+  }
+
+  const topFriendMinutes = topFriendActivity?.minutes || 0
+
+  // Compare user's activity with top friend's activity
+  if (!topFriendActivity || userMinutes >= topFriendMinutes) {
+    // User has the most activity (or tied for most)
+    topFriend.topFriendEmail = userEmail
+    topFriend.topFriendMinutes = userMinutes
+    topFriend.topFriendFormatted = formatMinutes(userMinutes)
+  } else {
+    // A friend has more activity than the user
+    topFriend.topFriendEmail = topFriendActivity.email
+    topFriend.topFriendMinutes = topFriendMinutes
+    topFriend.topFriendFormatted = formatMinutes(topFriendMinutes)
+  }
+
+  return topFriend
+}
+
+const buildInsights = (
+  userMinutes: number,
+  topFriend: DashboardInsights['topFriend'],
+  percentile: number,
+  communityStats: { totalMinutes: number; userCount: number; averageMinutes: number },
+  distribution?: DistributionPercentiles
+): DashboardInsights => {
+  // Calculate differences
+  const differenceMinutes = userMinutes - communityStats.averageMinutes
+  const isAboveAverage = differenceMinutes > 0
+
+  return {
+    userActivity: {
+      totalMinutes: userMinutes,
+      minutesFormatted: formatMinutes(userMinutes)
+    },
+    topFriend,
+    userPercentile: {
+      percentile,
+      betterThanPercent: percentile,
+      ...(distribution && { distribution })
+    },
+    communityComparison: {
+      userMinutes,
+      userFormatted: formatMinutes(userMinutes),
+      communityAverage: communityStats.averageMinutes,
+      communityAverageFormatted: formatMinutes(communityStats.averageMinutes),
+      differenceMinutes: Math.abs(differenceMinutes),
+      differenceFormatted: (isAboveAverage ? '+' : '-') + formatMinutes(Math.abs(differenceMinutes)),
+      isAboveAverage
+    },
+    communityStats: {
+      totalCommunityMinutes: communityStats.totalMinutes,
+      totalCommunityFormatted: formatMinutes(communityStats.totalMinutes),
+      activeUsers: communityStats.userCount
+    }
+  }
+}
+
+/**
+ * Week and month ranges run from the start of the period to the anchor date and are compared
+ * with the same stretch of the previous period; a custom range is compared with the equally
+ * long range right before it.
+ */
+const getInsightsRanges = (range: InsightsRange, anchor: string, customFrom?: string): { current: DateRange; previous: DateRange } => {
+  switch (range) {
+    case 'week': {
+      const weekStart = getWeekStart(anchor)
+      return {
+        current: { from: weekStart, to: anchor },
+        previous: { from: shiftDate(weekStart, -7), to: shiftDate(anchor, -7) }
+      }
+    }
+    case 'month': {
+      const monthStart = `${anchor.slice(0, 7)}-01`
+      const previousMonthEnd = shiftDate(monthStart, -1)
+      // Day 31 of a 30-day previous month clamps to its last day
+      const sameDayLastMonth = `${previousMonthEnd.slice(0, 7)}-${anchor.slice(8)}`
+      return {
+        current: { from: monthStart, to: anchor },
+        previous: {
+          from: `${previousMonthEnd.slice(0, 7)}-01`,
+          to: sameDayLastMonth < previousMonthEnd ? sameDayLastMonth : previousMonthEnd
+        }
+      }
+    }
+    case 'custom': {
+      const from = customFrom!
+      const days = Math.round((Date.parse(anchor) - Date.parse(from)) / (24 * 60 * 60 * 1000)) + 1
+      return {
+        current: { from, to: anchor },
+        previous: { from: shiftDate(from, -days), to: shiftDate(from, -1) }
+      }
+    }
+  }
+}
+
+const buildTrend = (currentMinutes: number, previousMinutes: number): InsightsTrend => {
+  const difference = currentMinutes - previousMinutes
+
+  return {
+    previousMinutes,
+    previousFormatted: formatMinutes(previousMinutes),
+    differenceMinutes: Math.abs(difference),
+    differenceFormatted: (difference >= 0 ? '+' : '-') + formatMinutes(Math.abs(difference)),
+    changePercent: previousMinutes > 0 ? Math.round((difference / previousMinutes) * 100) : null,
+    direction: difference > 0 ? 'up' : difference < 0 ? 'down' : 'flat'
+  }
+}
+
+const getRangeDashboardInsights = async (req: Request, range: InsightsRange): Promise<RangeDashboardInsights> => {
+  const userId = req.user!.id
+  const userEmail = req.user!.email
+
+  let anchor: string
+  let customFrom: string | undefined
+  if (range === 'custom') {
+    customFrom = parseInsightsDate(req.query.from, 'from')
+    anchor = parseInsightsDate(req.query.to, 'to')
+    if (customFrom > anchor) {
+      throw new ApiError('from must not be after to', 400)
+    }
+    if (customFrom < shiftDate(anchor, -(MAX_INSIGHTS_RANGE_DAYS - 1))) {
+      throw new ApiError(`Range cannot exceed ${MAX_INSIGHTS_RANGE_DAYS} days`, 400)
+    }
+  } else {
+    anchor = req.query.date === undefined
+      ? await UserProfileService.getUserToday(userId)
+      : parseInsightsDate(req.query.date, 'Date')
+  }
+
+  const { current, previous } = getInsightsRanges(range, anchor, customFrom)
+
+  try {
+    const [userMinutes, previousMinutes, communityStats, percentile, friendships, sharingFriends] = await Promise.all([
+      ActivityDayRollupRepo.getUserCreatingMinutes(userId, current.from, current.to),
+      ActivityDayRollupRepo.getUserCreatingMinutes(userId, previous.from, previous.to),
+      ActivityDayRollupRepo.getCommunityActivityByRange(current.from, current.to),
+      ActivityDayRollupRepo.getUserPercentileByRange(userId, current.from, current.to),
+      FriendsRepo.getFriendships(userId),
+      FriendsRepo.getSharingFriends(userId)
+    ])
+
+    const friendMinutes = await ActivityDayRollupRepo.getUsersCreatingMinutes(
+      sharingFriends.map(friend => friend.id),
+      current.from,
+      current.to
+    )
+    const minutesByFriend = new Map(friendMinutes.map(row => [row.userId, row.totalMinutes]))
+    const visibleFriends = sharingFriends.map(friend => ({
+      email: friend.email,
+      minutes: minutesByFriend.get(friend.id) || 0
+    }))
+
+    const topFriend = pickTopFriend(friendships.length > 0, visibleFriends, userEmail, userMinutes)
+
+    return {
+      ...buildInsights(userMinutes, topFriend, percentile, communityStats),
+      range,
+      current,
+      previous,
+      trend: buildTrend(userMinutes, previousMinutes)
+    }
+  } catch (error) {
+    console.error('Service error getting range dashboard insights:', error)
+    throw new ApiError('Failed to get dashboard insights', 500)
+  }
+}
+
+/**
+ * Insights for a single `date`, or aggregated over `range=week|month|custom` with a trend
+ * versus the previous range
+ */
+const getDashboardInsights = async (req: Request): Promise<DashboardInsights | RangeDashboardInsights> => {
   if (!req.user) {
     throw new ApiError('User authentication required', 401)
   }
 
-  const { date } = req.query
+  const { date, range } = req.query
   const userId = req.user.id
   const userEmail = req.user.email
 
+  if (range !== undefined) {
+    if (!INSIGHTS_RANGES.includes(range as InsightsRange)) {
+      throw new ApiError('Range must be one of week, month or custom', 400)
+    }
+    return getRangeDashboardInsights(req, range as InsightsRange)
+  }
+
   if (!date || typeof date !== 'string') {
     throw new ApiError('Date is required', 400)
   }
 
   // Validate date format (YYYY-MM-DD)
-  const dateRegex = /^\d{4}-\d{2}-\d{2}$/
-  if (!dateRegex.test(date)) {
+  if (!DATE_REGEX.test(date)) {
     throw new ApiError('Date must be in YYYY-MM-DD format', 400)
   }
 
@@ -69,79 +371,218 @@ const getDashboardInsights = async (req: Request): Promise<DashboardInsights> =>
     
     const communityStats = await ActivityDayRollupRepo.getCommunityActivityByDate(date)
     
-    const percentile = await ActivityDayRollupRepo.getUserPercentile(userId, date)
+    const { percentile, distribution } = await ActivityDistributionService.getUserPercentile(userId, date)
     
     const friends = await FriendsRepo.getFriendsWithDetails(userId, date)
-    
-    let topFriend = {
-      hasFriends: friends.length > 0,
-      topFriendEmail: undefined as string | undefined,
-      topFriendMinutes: undefined as number | undefined,
-      topFriendFormatted: undefined as string | undefined
+
+    // Friends who hide their activity from this user can't be the top friend
+    const visibleFriends = friends
+      .filter(friend => friend.activity_visible)
+      .map(friend => ({ email: friend.friend_email, minutes: friend.creating_time || 0 }))
+
+    const topFriend = pickTopFriend(friends.length > 0, visibleFriends, userEmail, userMinutes)
+
+    return buildInsights(userMinutes, topFriend, percentile, communityStats, distribution)
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error
     }
+    console.error('Service error getting dashboard insights:', error)
+    throw new ApiError('Failed to get dashboard insights', 500)
+  }
+}
 
-    if (friends.length > 0) {
-      // Find the friend with the most activity
-      let topFriendActivity = null
-      if (friends.length > 0) {
-        topFriendActivity = friends.reduce((prev, current) => {
-          const prevMinutes = prev.creating_time || 0
-          const currentMinutes = current.creating_time || 0
-          return currentMinutes > prevMinutes ? current : prev
-        })
+/**
+ * The period containing today (to date) and the complete period before it.
+ * Weeks run Monday to Sunday.
+ */
+const getLeaderboardRanges = (period: LeaderboardPeriod, today: string): { current: DateRange; previous: DateRange } => {
+  switch (period) {
+    case 'day':
+      return {
+        current: { from: today, to: today },
+        previous: { from: shiftDate(today, -1), to: shiftDate(today, -1) }
       }
-
-      const topFriendMinutes = topFriendActivity?.creating_time || 0
-
-      // Compare user's activity with top friend's activity
-      if (!topFriendActivity || userMinutes >= topFriendMinutes) {
-        // User has the most activity (or tied for most)
-        topFriend.topFriendEmail = userEmail
-        topFriend.topFriendMinutes = userMinutes
-        topFriend.topFriendFormatted = formatMinutes(userMinutes)
-      } else {
-        // A friend has more activity than the user
-        topFriend.topFriendEmail = topFriendActivity.friend_email
-        topFriend.topFriendMinutes = topFriendMinutes
-        topFriend.topFriendFormatted = formatMinutes(topFriendMinutes)
+    case 'week': {
+      const weekStart = getWeekStart(today)
+      return {
+        current: { from: weekStart, to: today },
+        previous: { from: shiftDate(weekStart, -7), to: shiftDate(weekStart, -1) }
       }
     }
+    case 'month': {
+      const monthStart = `${today.slice(0, 7)}-01`
+      const previousMonthEnd = shiftDate(monthStart, -1)
+      return {
+        current: { from: monthStart, to: today },
+        previous: { from: `${previousMonthEnd.slice(0, 7)}-01`, to: previousMonthEnd }
+      }
+    }
+  }
+}
+
+// Standard competition ranking: ties share a rank and the next rank is skipped ("1, 2, 2, 4")
+const rankByMinutes = (userIds: string[], minutesByUser: Map<string, number>): Map<string, number> => {
+  const sorted = [...userIds].sort((a, b) => (minutesByUser.get(b) || 0) - (minutesByUser.get(a) || 0))
+  const ranks = new Map<string, number>()
+
+  sorted.forEach((userId, index) => {
+    const previousUserId = sorted[index - 1]
+    const tiedWithPrevious = previousUserId !== undefined && minutesByUser.get(previousUserId) === minutesByUser.get(userId)
+    ranks.set(userId, tiedWithPrevious ? ranks.get(previousUserId)! : index + 1)
+  })
+
+  return ranks
+}
+
+const getLeaderboard = async (req: Request): Promise<Leaderboard> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
 
-    // Calculate differences
-    const differenceMinutes = userMinutes - communityStats.averageMinutes
+  const period = (req.query.period || 'week') as LeaderboardPeriod
+  if (!LEADERBOARD_PERIODS.includes(period)) {
+    throw new ApiError('Period must be one of day, week or month', 400)
+  }
+
+  const userId = req.user.id
+  const userEmail = req.user.email
+
+  try {
+    const today = await UserProfileService.getUserToday(userId)
+    const { current, previous } = getLeaderboardRanges(period, today)
+
+    // Friends who opted out of sharing are left off entirely; the caller always sees themselves
+    const friends = await FriendsRepo.getSharingFriends(userId)
+    const participants = [{ id: userId, email: userEmail || '' }, ...friends]
+    const participantIds = participants.map(participant => participant.id)
+
+    const [currentMinutes, previousMinutes] = await Promise.all([
+      ActivityDayRollupRepo.getUsersCreatingMinutes(participantIds, current.from, current.to),
+      ActivityDayRollupRepo.getUsersCreatingMinutes(participantIds, previous.from, previous.to)
+    ])
+
+    const currentByUser = new Map(currentMinutes.map(row => [row.userId, row.totalMinutes]))
+    const previousByUser = new Map(previousMinutes.map(row => [row.userId, row.totalMinutes]))
+    const currentRanks = rankByMinutes(participantIds, currentByUser)
+    const previousRanks = rankByMinutes(participantIds, previousByUser)
+
+    const entries = participants
+      .map(participant => {
+        const totalMinutes = currentByUser.get(participant.id) || 0
+        const rank = currentRanks.get(participant.id)!
+        const previousRank = previousRanks.get(participant.id)!
+
+        return {
+          userId: participant.id,
+          email: participant.email,
+          isCurrentUser: participant.id === userId,
+          totalMinutes,
+          minutesFormatted: formatMinutes(totalMinutes),
+          rank,
+          previousRank,
+          rankChange: previousRank - rank
+        }
+      })
+      .sort((a, b) => a.rank - b.rank || a.email.localeCompare(b.email))
+
+    return { period, current, previous, entries }
+  } catch (error) {
+    console.error('Service error getting friend leaderboard:', error)
+    throw new ApiError('Failed to get friend leaderboard', 500)
+  }
+}
+
+/**
+ * Aggregate creating time for a group over the current day, week or month.
+ * Members who don't share with the caller (globally or per friend) are listed but left out of
+ * the totals, and the group average (per sharing member) is compared with the community average
+ * per active user.
+ */
+const getGroupDashboard = async (req: Request): Promise<GroupDashboard> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const groupId = GroupService.parseGroupId(req)
+  const period = (req.query.period || 'week') as LeaderboardPeriod
+  if (!LEADERBOARD_PERIODS.includes(period)) {
+    throw new ApiError('Period must be one of day, week or month', 400)
+  }
+
+  const userId = req.user.id
+  await GroupService.requireMembership(groupId, userId)
+
+  try {
+    const today = await UserProfileService.getUserToday(userId)
+    const { current: range } = getLeaderboardRanges(period, today)
+
+    const [group, members] = await Promise.all([
+      GroupsRepo.getGroupById(groupId),
+      GroupsRepo.getMembers(groupId, userId)
+    ])
+    if (!group) {
+      throw new ApiError('Group not found', 404)
+    }
+
+    const sharingIds = members.filter(member => member.share_activity).map(member => member.user_id)
+    const [memberMinutes, communityStats] = await Promise.all([
+      ActivityDayRollupRepo.getUsersCreatingMinutes(sharingIds, range.from, range.to),
+      ActivityDayRollupRepo.getCommunityActivityByRange(range.from, range.to)
+    ])
+
+    const minutesByUser = new Map(memberMinutes.map(row => [row.userId, row.totalMinutes]))
+    const totalMinutes = sharingIds.reduce((sum, id) => sum + (minutesByUser.get(id) || 0), 0)
+    const groupAverage = sharingIds.length > 0 ? Math.round(totalMinutes / sharingIds.length) : 0
+    const differenceMinutes = groupAverage - communityStats.averageMinutes
     const isAboveAverage = differenceMinutes > 0
 
+    const breakdown = members
+      .map(member => {
+        const minutes = member.share_activity ? minutesByUser.get(member.user_id) || 0 : null
+        return {
+          userId: member.user_id,
+          email: member.email,
+          role: member.role,
+          isCurrentUser: member.user_id === userId,
+          activityVisible: member.share_activity,
+          totalMinutes: minutes,
+          minutesFormatted: minutes === null ? null : formatMinutes(minutes),
+          shareOfGroupPercent: minutes === null ? null : totalMinutes > 0 ? Math.round((minutes / totalMinutes) * 100) : 0
+        }
+      })
+      .sort((a, b) => (b.totalMinutes ?? -1) - (a.totalMinutes ?? -1) || a.email.localeCompare(b.email))
+
     return {
-      userActivity: {
-        totalMinutes: userMinutes,
-        minutesFormatted: formatMinutes(userMinutes)
-      },
-      topFriend,
-      userPercentile: {
-        percentile,
-        betterThanPercent: percentile
-      },
+      group: { id: group.id, name: group.name },
+      period,
+      range,
+      totalMinutes,
+      totalFormatted: formatMinutes(totalMinutes),
+      memberCount: members.length,
+      sharingMemberCount: sharingIds.length,
+      members: breakdown,
       communityComparison: {
-        userMinutes,
-        userFormatted: formatMinutes(userMinutes),
+        groupAverage,
+        groupAverageFormatted: formatMinutes(groupAverage),
         communityAverage: communityStats.averageMinutes,
         communityAverageFormatted: formatMinutes(communityStats.averageMinutes),
         differenceMinutes: Math.abs(differenceMinutes),
         differenceFormatted: (isAboveAverage ? '+' : '-') + formatMinutes(Math.abs(differenceMinutes)),
         isAboveAverage
-      },
-      communityStats: {
-        totalCommunityMinutes: communityStats.totalMinutes,
-        totalCommunityFormatted: formatMinutes(communityStats.totalMinutes),
-        activeUsers: communityStats.userCount
       }
     }
   } catch (error) {
-    console.error('Service error getting dashboard insights:', error)
-    throw new ApiError('Failed to get dashboard insights', 500)
+    if (error instanceof ApiError) {
+      throw error
+    }
+    console.error('Service error getting group dashboard:', error)
+    throw new ApiError('Failed to get group dashboard', 500)
   }
 }
 
 export const FriendDashboardService = {
-  getDashboardInsights
+  getDashboardInsights,
+  getLeaderboard,
+  getGroupDashboard
 } 
\ No newline at end of file
@@ -0,0 +1,196 @@
+import { FriendFeedRepo, type FeedEventInput, type FeedEventType, type FeedEventWithUser } from '../repos/FriendFeed.js'
+import { ActivityDayRollupRepo } from '../repos/ActivityDayRollup.js'
+import { ApiError } from '../middleware/errorHandler.js'
+import { encodeCursor, decodeCursor } from '../utils/cursor.js'
+import { GoalService } from './GoalService.js'
+import type { Request } from 'express'
+
+export const FEED_EVENT_TYPES: FeedEventType[] = ['focus_session_finished', 'goal_hit', 'personal_best', 'friendship_accepted']
+
+const DEFAULT_FEED_LIMIT = 20
+const MAX_FEED_LIMIT = 100
+// Tiny days shouldn't be announced as records while a user is just getting started
+const PERSONAL_BEST_MIN_MINUTES = 60
+
+export interface FeedPage {
+  events: FeedEventWithUser[]
+  next_cursor: string | null
+}
+
+export type FeedSettings = Record<FeedEventType, boolean>
+
+/**
+ * Record an event unless the user has turned off broadcasting for its type.
+ * Feed writes ride along on other write paths, so failures are logged rather than thrown.
+ */
+const recordEvent = async (event: FeedEventInput, replaceData: boolean = false): Promise<void> => {
+  try {
+    if (!await FriendFeedRepo.isBroadcasting(event.user_id, event.event_type)) return
+    await FriendFeedRepo.recordEvent(event, replaceData)
+  } catch (error) {
+    console.error(`Failed to record ${event.event_type} feed event:`, error)
+  }
+}
+
+/**
+ * Check a day the user just wrote activity for: a new best creating day, and any goal
+ * whose period containing that day has now been hit
+ */
+const recordActivityEvents = async (userId: string, date: string): Promise<void> => {
+  try {
+    const [dayMinutes, previousBest, achievedGoals] = await Promise.all([
+      ActivityDayRollupRepo.getUserActivityByDate(userId, date),
+      ActivityDayRollupRepo.getUserBestCreatingMinutes(userId, date),
+      GoalService.getAchievedGoals(userId, date)
+    ])
+
+    if (previousBest !== null && dayMinutes >= PERSONAL_BEST_MIN_MINUTES && dayMinutes > previousBest) {
+      await recordEvent({
+        user_id: userId,
+        event_type: 'personal_best',
+        reference_id: date,
+        data: { date, minutes: dayMinutes, previous_best: previousBest }
+      }, true)
+    }
+
+    for (const goal of achievedGoals) {
+      await recordEvent({
+        user_id: userId,
+        event_type: 'goal_hit',
+        reference_id: `${goal.id}_${goal.period_start}`,
+        data: {
+          goal_id: goal.id,
+          period: goal.period,
+          period_start: goal.period_start,
+          period_end: goal.period_end,
+          target_minutes: goal.target_minutes,
+          achieved_minutes: goal.progress_minutes
+        }
+      })
+    }
+  } catch (error) {
+    console.error('Failed to record activity feed events:', error)
+  }
+}
+
+// Time spent paused (including a pause still running when the session ended) doesn't count
+const recordFocusSessionFinished = async (
+  userId: string,
+  session: { id: string; start_time: Date; duration_minutes?: number; paused_at?: Date | null; paused_seconds?: number },
+  endedAt: Date = new Date()
+): Promise<void> => {
+  const pausedMs = (session.paused_seconds || 0) * 1000 +
+    (session.paused_at ? Math.max(endedAt.getTime() - new Date(session.paused_at).getTime(), 0) : 0)
+  const minutes = Math.max(Math.round((endedAt.getTime() - new Date(session.start_time).getTime() - pausedMs) / 60000), 0)
+
+  await recordEvent({
+    user_id: userId,
+    event_type: 'focus_session_finished',
+    reference_id: session.id,
+    data: { minutes, planned_minutes: session.duration_minutes ?? null }
+  })
+}
+
+// Each side of the new friendship gets its own event, shown to their other friends
+const recordFriendshipAccepted = async (friendshipId: string, users: Array<{ id: string; email: string }>): Promise<void> => {
+  for (const user of users) {
+    const friend = users.find(other => other.id !== user.id)
+    if (!friend) continue
+
+    await recordEvent({
+      user_id: user.id,
+      event_type: 'friendship_accepted',
+      reference_id: friendshipId,
+      data: { friend_id: friend.id, friend_email: friend.email }
+    })
+  }
+}
+
+const getFeed = async (req: Request): Promise<FeedPage> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const limit = req.query.limit === undefined ? DEFAULT_FEED_LIMIT : Number(req.query.limit)
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_FEED_LIMIT) {
+    throw new ApiError(`limit must be a whole number between 1 and ${MAX_FEED_LIMIT}`, 400)
+  }
+
+  const cursor = req.query.cursor
+  if (cursor !== undefined && typeof cursor !== 'string') {
+    throw new ApiError('Invalid cursor', 400)
+  }
+  const position = cursor ? decodeCursor(cursor) : undefined
+  const before = position && { createdAt: position.at, id: position.id }
+
+  try {
+    // One extra row tells us whether there is another page
+    const rows = await FriendFeedRepo.getFeedForUser(req.user.id, limit + 1, before)
+    const page = rows.slice(0, limit)
+    const lastEvent = page[page.length - 1]
+
+    return {
+      events: page.map(({ cursor_at, ...event }) => event),
+      next_cursor: rows.length > limit && lastEvent ? encodeCursor(lastEvent.cursor_at, lastEvent.id) : null
+    }
+  } catch (error) {
+    console.error('Service error fetching friend feed:', error)
+    throw new ApiError('Failed to fetch friend feed', 500)
+  }
+}
+
+const getSettings = async (req: Request): Promise<FeedSettings> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  try {
+    const preferences = await FriendFeedRepo.getBroadcastPreferences(req.user.id)
+    return Object.fromEntries(FEED_EVENT_TYPES.map(eventType => [
+      eventType,
+      preferences.find(preference => preference.event_type === eventType)?.broadcast ?? true
+    ])) as FeedSettings
+  } catch (error) {
+    console.error('Service error fetching feed settings:', error)
+    throw new ApiError('Failed to fetch feed settings', 500)
+  }
+}
+
+const updateSettings = async (req: Request): Promise<FeedSettings> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const body = req.body || {}
+  const updates: Partial<FeedSettings> = {}
+  for (const [eventType, broadcast] of Object.entries(body)) {
+    if (!FEED_EVENT_TYPES.includes(eventType as FeedEventType)) {
+      throw new ApiError(`Unknown event type: ${eventType}`, 400)
+    }
+    if (typeof broadcast !== 'boolean') {
+      throw new ApiError(`${eventType} must be a boolean`, 400)
+    }
+    updates[eventType as FeedEventType] = broadcast
+  }
+
+  if (Object.keys(updates).length === 0) {
+    throw new ApiError('At least one event type setting is required', 400)
+  }
+
+  try {
+    await FriendFeedRepo.setBroadcastPreferences(req.user.id, updates)
+  } catch (error) {
+    console.error('Service error updating feed settings:', error)
+    throw new ApiError('Failed to update feed settings', 500)
+  }
+  return getSettings(req)
+}
+
+export const FriendFeedService = {
+  recordActivityEvents,
+  recordFocusSessionFinished,
+  recordFriendshipAccepted,
+  getFeed,
+  getSettings,
+  updateSettings
+}
\ No newline at end of file
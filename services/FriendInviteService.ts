@@ -0,0 +1,259 @@
+import { FriendInvitesRepo, type FriendInvite, type FriendInviteRedemptionWithUser } from '../repos/FriendInvites.js'
+import { FriendsRepo, type Friend, type FriendRequestUser } from '../repos/Friends.js'
+import { ApiError } from '../middleware/errorHandler.js'
+import { UUID_REGEX } from '../utils/validation.js'
+import { FriendFeedService } from './FriendFeedService.js'
+import { generateInviteCode, normalizeInviteCode, signInviteToken, verifyInviteToken } from '../utils/inviteToken.js'
+import type { Request } from 'express'
+
+const DEFAULT_EXPIRY_HOURS = 7 * 24
+const MAX_EXPIRY_HOURS = 30 * 24
+const MAX_USES_LIMIT = 1000
+const MAX_ACTIVE_INVITES = 20
+const MAX_FAILED_REDEEMS = 10
+const FAILED_REDEEM_WINDOW_MINUTES = 15
+
+export type FriendInviteStatus = 'active' | 'expired' | 'revoked' | 'used_up'
+
+export interface FriendInviteDetails {
+  id: string
+  code: string
+  url: string | null // null once the invite can no longer be redeemed
+  status: FriendInviteStatus
+  expires_at: Date
+  max_uses: number | null
+  use_count: number
+  revoked_at: Date | null
+  created_at: Date
+  redemptions: { user_id: string; email: string; redeemed_at: Date }[]
+}
+
+export interface RedeemedInvite {
+  friendship: Friend
+  friend: FriendRequestUser
+}
+
+const getInviteStatus = (invite: FriendInvite, now: Date = new Date()): FriendInviteStatus => {
+  if (invite.revoked_at) return 'revoked'
+  if (new Date(invite.expires_at) <= now) return 'expired'
+  if (invite.max_uses !== null && invite.use_count >= invite.max_uses) return 'used_up'
+  return 'active'
+}
+
+const buildInviteUrl = (invite: FriendInvite): string => {
+  const baseUrl = process.env.FRONTEND_URL || 'https://ebb.cool'
+  return `${baseUrl}/friends/invite/${signInviteToken(invite.code, new Date(invite.expires_at))}`
+}
+
+const toInviteDetails = (invite: FriendInvite, redemptions: FriendInviteRedemptionWithUser[]): FriendInviteDetails => {
+  const status = getInviteStatus(invite)
+  return {
+    id: invite.id,
+    code: invite.code,
+    url: status === 'active' ? buildInviteUrl(invite) : null,
+    status,
+    expires_at: invite.expires_at,
+    max_uses: invite.max_uses,
+    use_count: invite.use_count,
+    revoked_at: invite.revoked_at,
+    created_at: invite.created_at,
+    redemptions: redemptions
+      .filter(redemption => redemption.invite_id === invite.id)
+      .map(redemption => ({
+        user_id: redemption.redeemed_by,
+        email: redemption.email,
+        redeemed_at: redemption.redeemed_at
+      }))
+  }
+}
+
+const parseExpiresInHours = (value: unknown): number => {
+  if (value === undefined) return DEFAULT_EXPIRY_HOURS
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_EXPIRY_HOURS) {
+    throw new ApiError(`expires_in_hours must be a whole number between 1 and ${MAX_EXPIRY_HOURS}`, 400)
+  }
+  return value
+}
+
+const parseMaxUses = (value: unknown): number | null => {
+  if (value === undefined || value === null) return null
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_USES_LIMIT) {
+    throw new ApiError(`max_uses must be a whole number between 1 and ${MAX_USES_LIMIT}`, 400)
+  }
+  return value
+}
+
+const createInvite = async (req: Request): Promise<FriendInviteDetails> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const userId = req.user.id
+  const expiresInHours = parseExpiresInHours(req.body?.expires_in_hours)
+  const maxUses = parseMaxUses(req.body?.max_uses)
+
+  try {
+    const invites = await FriendInvitesRepo.getInvitesByUser(userId)
+    if (invites.filter(invite => getInviteStatus(invite) === 'active').length >= MAX_ACTIVE_INVITES) {
+      throw new ApiError(`You can have at most ${MAX_ACTIVE_INVITES} active invites`, 400)
+    }
+
+    const invite = await FriendInvitesRepo.createInvite(userId, {
+      code: generateInviteCode(),
+      expires_at: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+      max_uses: maxUses
+    })
+    return toInviteDetails(invite, [])
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error
+    }
+    console.error('Service error creating friend invite:', error)
+    throw new ApiError('Failed to create friend invite', 500)
+  }
+}
+
+const getInvites = async (req: Request): Promise<FriendInviteDetails[]> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  try {
+    const invites = await FriendInvitesRepo.getInvitesByUser(req.user.id)
+    const redemptions = await FriendInvitesRepo.getRedemptionsForInvites(invites.map(invite => invite.id))
+    return invites.map(invite => toInviteDetails(invite, redemptions))
+  } catch (error) {
+    console.error('Service error fetching friend invites:', error)
+    throw new ApiError('Failed to fetch friend invites', 500)
+  }
+}
+
+const revokeInvite = async (req: Request): Promise<FriendInviteDetails> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const { inviteId } = req.params
+  if (!inviteId || !UUID_REGEX.test(inviteId)) {
+    throw new ApiError('Valid invite ID is required', 400)
+  }
+
+  let revoked: FriendInvite | null
+  try {
+    revoked = await FriendInvitesRepo.revokeInvite(inviteId, req.user.id)
+  } catch (error) {
+    console.error('Service error revoking friend invite:', error)
+    throw new ApiError('Failed to revoke friend invite', 500)
+  }
+
+  if (!revoked) {
+    throw new ApiError('Invite not found', 404)
+  }
+  return toInviteDetails(revoked, [])
+}
+
+// Accepts either a full link token or a short code typed by hand; null for a bad link
+const resolveInviteCode = (value: string): string | null => {
+  if (!value.includes('.')) {
+    return normalizeInviteCode(value)
+  }
+
+  try {
+    return verifyInviteToken(value.trim())
+  } catch (error) {
+    console.error('Service error verifying friend invite:', error)
+    throw new ApiError('Failed to redeem invite', 500)
+  }
+}
+
+/**
+ * Redeem an invite link or code, making the caller friends with its owner straight away.
+ * A use is claimed before the friendship is created so max_uses holds under concurrent redemptions.
+ * Bad links and unknown codes count towards a per-user limit so codes can't be guessed.
+ */
+const redeemInvite = async (req: Request): Promise<RedeemedInvite> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const userId = req.user.id
+  const value = req.body?.code
+  if (!value || typeof value !== 'string') {
+    throw new ApiError('Invite code is required', 400)
+  }
+
+  const since = new Date(Date.now() - FAILED_REDEEM_WINDOW_MINUTES * 60 * 1000)
+  if (await FriendInvitesRepo.countFailedRedeemAttempts(userId, since) >= MAX_FAILED_REDEEMS) {
+    throw new ApiError('Too many invalid invite codes, please try again later', 429)
+  }
+
+  const code = resolveInviteCode(value)
+  if (!code) {
+    await FriendInvitesRepo.recordFailedRedeemAttempt(userId)
+    throw new ApiError('This invite link is invalid or has expired', 400)
+  }
+
+  const invite = await FriendInvitesRepo.getInviteByCode(code)
+  if (!invite) {
+    await FriendInvitesRepo.recordFailedRedeemAttempt(userId)
+    throw new ApiError('Invite not found', 404)
+  }
+
+  const status = getInviteStatus(invite)
+  if (status === 'revoked') {
+    throw new ApiError('This invite has been revoked', 410)
+  }
+  if (status === 'expired') {
+    throw new ApiError('This invite has expired', 410)
+  }
+  if (status === 'used_up') {
+    throw new ApiError('This invite has reached its usage limit', 410)
+  }
+
+  if (invite.user_id === userId) {
+    throw new ApiError('You cannot redeem your own invite', 400)
+  }
+
+  const owner = await FriendsRepo.getUserByAuthId(invite.user_id)
+  if (!owner) {
+    throw new ApiError('Invite not found', 404)
+  }
+
+  // Same response whichever side placed the block, so a block is never revealed
+  const blocked = await FriendsRepo.isBlockedBy(invite.user_id, userId) || await FriendsRepo.isBlockedBy(userId, invite.user_id)
+  if (blocked) {
+    throw new ApiError('This invite cannot be redeemed', 403)
+  }
+
+  if (await FriendsRepo.checkFriendshipExists(userId, invite.user_id)) {
+    throw new ApiError('You are already friends with this user', 400)
+  }
+
+  const claimed = await FriendInvitesRepo.claimInviteUse(invite.id)
+  if (!claimed) {
+    throw new ApiError('This invite is no longer available', 410)
+  }
+
+  let friendship: Friend
+  try {
+    friendship = await FriendsRepo.createFriendship(invite.user_id, userId)
+    await FriendInvitesRepo.recordRedemption(invite.id, userId, friendship.id)
+  } catch (error) {
+    await FriendInvitesRepo.releaseInviteUse(invite.id)
+    console.error('Service error redeeming friend invite:', error)
+    throw new ApiError('Failed to redeem invite', 500)
+  }
+
+  await FriendFeedService.recordFriendshipAccepted(friendship.id, [
+    { id: owner.id, email: owner.email },
+    { id: userId, email: req.user.email || '' }
+  ])
+  return { friendship, friend: owner }
+}
+
+export const FriendInviteService = {
+  createInvite,
+  getInvites,
+  revokeInvite,
+  redeemInvite
+}
\ No newline at end of file
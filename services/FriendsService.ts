@@ -1,11 +1,20 @@
-import { FriendsRepo, type FriendRequest, type Friend, type FriendRequestWithUser } from '../repos/Friends.js'
+import { randomUUID } from 'crypto'
+import { FriendsRepo, type BlockedUser, type FriendRequest, type Friend, type FriendRequestWithUser } from '../repos/Friends.js'
 import { ApiError } from '../middleware/errorHandler.js'
+import { UUID_REGEX } from '../utils/validation.js'
 import { getDb } from '../config/database.js'
 import { EmailService } from './EmailService.js'
+import { UserProfileService } from './UserProfileService.js'
+import { UserProfileRepo } from '../repos/UserProfile.js'
+import { FriendFeedService } from './FriendFeedService.js'
 import type { Request } from 'express'
 
 const db = getDb()
 
+// Resending an invite email is limited to once per cooldown, and a few times per request
+const RESEND_COOLDOWN_MS = 24 * 60 * 60 * 1000
+const MAX_RESENDS = 3
+
 interface InviteFriendRequest {
   to_email: string;
   message?: string;
@@ -24,6 +33,20 @@ const sendFriendRequestEmail = async (toEmail: string, fromUserEmail: string, fr
   })
 }
 
+// What a blocked sender gets back: indistinguishable from a real invite, but never stored or emailed
+const buildDroppedFriendRequest = (fromUserId: string, toEmail: string, message?: string): FriendRequest => {
+  const now = new Date()
+  return {
+    id: randomUUID(),
+    from_user_id: fromUserId,
+    to_email: toEmail.toLowerCase(),
+    status: 'pending',
+    message,
+    created_at: now,
+    updated_at: now
+  }
+}
+
 const inviteFriend = async (req: Request): Promise<FriendRequest> => {
   if (!req.user) {
     throw new ApiError('User authentication required', 401)
@@ -59,6 +82,15 @@ const inviteFriend = async (req: Request): Promise<FriendRequest> => {
     // User might not exist yet, which is fine - they can still receive an invite
   }
 
+  if (userToInvite) {
+    if (await FriendsRepo.isBlockedBy(fromUserId, userToInvite.id)) {
+      throw new ApiError('You must unblock this user before sending them a friend request', 400)
+    }
+    if (await FriendsRepo.isBlockedBy(userToInvite.id, fromUserId)) {
+      return buildDroppedFriendRequest(fromUserId, to_email, message)
+    }
+  }
+
   try {
     const friendRequest = await FriendsRepo.createFriendRequest(fromUserId, to_email, message)
 
@@ -110,6 +142,10 @@ const respondToFriendRequest = async (req: Request): Promise<{ friendRequest: Fr
       throw new ApiError('This friend request has already been responded to', 400)
     }
 
+    if (friendRequest.expires_at && new Date(friendRequest.expires_at) <= new Date()) {
+      throw new ApiError('This friend request has expired', 400)
+    }
+
     // Use a transaction to ensure atomicity
     const result = await db.transaction(async (trx) => {
       // Update the friend request status
@@ -123,10 +159,11 @@ const respondToFriendRequest = async (req: Request): Promise<{ friendRequest: Fr
         .then(rows => rows[0])
 
       let friendship: Friend | undefined
+      let fromUser: { id: string; email: string } | undefined
 
       // If accepted, create a friendship
       if (action === 'accept') {
-        const fromUser = await trx('auth.users')
+        fromUser = await trx('auth.users')
           .select('id', 'email')
           .where('id', friendRequest.from_user_id)
           .first()
@@ -149,10 +186,18 @@ const respondToFriendRequest = async (req: Request): Promise<{ friendRequest: Fr
           .then(rows => rows[0])
       }
 
-      return { friendRequest: updatedFriendRequest, friendship }
+      return { friendRequest: updatedFriendRequest, friendship, fromUser }
     })
 
-    return result
+    const { fromUser, ...response } = result
+    if (response.friendship && fromUser) {
+      await FriendFeedService.recordFriendshipAccepted(response.friendship.id, [
+        { id: fromUser.id, email: fromUser.email },
+        { id: userId, email: userEmail || '' }
+      ])
+    }
+
+    return response
   } catch (error) {
     if (error instanceof ApiError) {
       throw error
@@ -162,6 +207,86 @@ const respondToFriendRequest = async (req: Request): Promise<{ friendRequest: Fr
   }
 }
 
+// Load a pending request the caller sent, for the sender-side actions (cancel, resend)
+const getOwnPendingRequest = async (req: Request, action: 'cancel' | 'resend'): Promise<FriendRequest> => {
+  const { requestId } = req.params
+  if (!requestId || !UUID_REGEX.test(requestId)) {
+    throw new ApiError('Valid friend request ID is required', 400)
+  }
+
+  let friendRequest: FriendRequest | null
+  try {
+    friendRequest = await FriendsRepo.getFriendRequestById(requestId)
+  } catch (error) {
+    console.error('Service error fetching friend request:', error)
+    throw new ApiError('Failed to fetch friend request', 500)
+  }
+
+  if (!friendRequest) {
+    throw new ApiError('Friend request not found', 404)
+  }
+  if (friendRequest.from_user_id !== req.user?.id) {
+    throw new ApiError(`You are not authorized to ${action} this friend request`, 403)
+  }
+  if (friendRequest.status !== 'pending') {
+    throw new ApiError(`Only pending friend requests can be ${action === 'cancel' ? 'cancelled' : 'resent'}`, 400)
+  }
+  return friendRequest
+}
+
+const cancelFriendRequest = async (req: Request): Promise<FriendRequest> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const friendRequest = await getOwnPendingRequest(req, 'cancel')
+
+  let cancelled: FriendRequest | null
+  try {
+    cancelled = await FriendsRepo.cancelFriendRequest(friendRequest.id)
+  } catch (error) {
+    console.error('Service error cancelling friend request:', error)
+    throw new ApiError('Failed to cancel friend request', 500)
+  }
+
+  // Accepted or rejected between the lookup and the update
+  if (!cancelled) {
+    throw new ApiError('Only pending friend requests can be cancelled', 400)
+  }
+  return cancelled
+}
+
+/**
+ * Send the invite email again and restart the request's expiry.
+ * Also revives a pending request that has passed its expiry but not yet been swept by the expiry job.
+ */
+const resendFriendRequest = async (req: Request): Promise<FriendRequest> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const friendRequest = await getOwnPendingRequest(req, 'resend')
+
+  if ((friendRequest.resend_count ?? 0) >= MAX_RESENDS) {
+    throw new ApiError(`A friend request can only be resent ${MAX_RESENDS} times`, 429)
+  }
+  const lastSentAt = new Date(friendRequest.last_sent_at ?? friendRequest.created_at)
+  if (Date.now() - lastSentAt.getTime() < RESEND_COOLDOWN_MS) {
+    throw new ApiError('This friend request was sent recently, please try again later', 429)
+  }
+
+  try {
+    const recipient = await FriendsRepo.getUserByEmail(friendRequest.to_email)
+    if (req.user.email) {
+      await sendFriendRequestEmail(friendRequest.to_email, req.user.email, friendRequest.id, Boolean(recipient))
+    }
+    return await FriendsRepo.markFriendRequestResent(friendRequest.id)
+  } catch (error) {
+    console.error('Service error resending friend request:', error)
+    throw new ApiError('Failed to resend friend request', 500)
+  }
+}
+
 const getPendingRequestsSent = async (req: Request): Promise<FriendRequestWithUser[]> => {
   if (!req.user) {
     throw new ApiError('User authentication required', 401)
@@ -201,9 +326,10 @@ const getFriends = async (req: Request): Promise<any[]> => {
   }
 
   const userId = req.user.id
-  const date = req.query.date as string
 
   try {
+    // Default to "today" in the caller's timezone rather than the server's UTC day
+    const date = (req.query.date as string) || await UserProfileService.getUserToday(userId)
     return FriendsRepo.getFriendsWithDetails(userId, date)
   } catch (error) {
     console.error('Service error fetching friends:', error)
@@ -211,10 +337,159 @@ const getFriends = async (req: Request): Promise<any[]> => {
   }
 }
 
+const parseFriendId = (req: Request): string => {
+  const { friendId } = req.params
+  if (!friendId || !UUID_REGEX.test(friendId)) {
+    throw new ApiError('Valid friend ID is required', 400)
+  }
+  if (friendId === req.user?.id) {
+    throw new ApiError('You cannot perform this action on yourself', 400)
+  }
+  return friendId
+}
+
+const removeFriend = async (req: Request): Promise<void> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const friendId = parseFriendId(req)
+
+  let removed: boolean
+  try {
+    removed = await FriendsRepo.deleteFriendship(req.user.id, friendId)
+  } catch (error) {
+    console.error('Service error removing friend:', error)
+    throw new ApiError('Failed to remove friend', 500)
+  }
+
+  if (!removed) {
+    throw new ApiError('Friendship not found', 404)
+  }
+}
+
+const blockUser = async (req: Request): Promise<void> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const userId = req.user.id
+  const targetId = parseFriendId(req)
+
+  const target = await FriendsRepo.getUserByAuthId(targetId)
+  if (!target) {
+    throw new ApiError('User not found', 404)
+  }
+
+  // The pair is already cut off by the other user's block; report success rather
+  // than revealing that block (the friend row can only hold one blocker)
+  if (await FriendsRepo.isBlockedBy(targetId, userId)) {
+    return
+  }
+
+  try {
+    await FriendsRepo.blockUser(userId, targetId)
+  } catch (error) {
+    console.error('Service error blocking user:', error)
+    throw new ApiError('Failed to block user', 500)
+  }
+}
+
+const unblockUser = async (req: Request): Promise<void> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const targetId = parseFriendId(req)
+
+  let unblocked: boolean
+  try {
+    unblocked = await FriendsRepo.unblockUser(req.user.id, targetId)
+  } catch (error) {
+    console.error('Service error unblocking user:', error)
+    throw new ApiError('Failed to unblock user', 500)
+  }
+
+  if (!unblocked) {
+    throw new ApiError('Blocked user not found', 404)
+  }
+}
+
+const getBlockedUsers = async (req: Request): Promise<BlockedUser[]> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  try {
+    return await FriendsRepo.getBlockedUsers(req.user.id)
+  } catch (error) {
+    console.error('Service error fetching blocked users:', error)
+    throw new ApiError('Failed to fetch blocked users', 500)
+  }
+}
+
+const updateFriendVisibility = async (req: Request): Promise<{ friend_id: string; share_activity: boolean }> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const userId = req.user.id
+  const friendId = parseFriendId(req)
+  const { share_activity } = req.body || {}
+  if (typeof share_activity !== 'boolean') {
+    throw new ApiError('share_activity must be a boolean', 400)
+  }
+
+  const isFriend = await FriendsRepo.checkFriendshipExists(userId, friendId)
+  if (!isFriend) {
+    throw new ApiError('Friendship not found', 404)
+  }
+
+  try {
+    await FriendsRepo.setFriendVisibility(userId, friendId, share_activity)
+    return { friend_id: friendId, share_activity }
+  } catch (error) {
+    console.error('Service error updating friend visibility:', error)
+    throw new ApiError('Failed to update friend visibility', 500)
+  }
+}
+
+const updateSharingSettings = async (req: Request): Promise<{ share_activity: boolean }> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const { share_activity } = req.body || {}
+  if (typeof share_activity !== 'boolean') {
+    throw new ApiError('share_activity must be a boolean', 400)
+  }
+
+  let updated: boolean
+  try {
+    updated = await UserProfileRepo.updateShareActivity(req.user.id, share_activity)
+  } catch (error) {
+    console.error('Service error updating sharing settings:', error)
+    throw new ApiError('Failed to update sharing settings', 500)
+  }
+
+  if (!updated) {
+    throw new ApiError('User profile not found', 404)
+  }
+  return { share_activity }
+}
+
 export const FriendsService = {
   inviteFriend,
   respondToFriendRequest,
+  cancelFriendRequest,
+  resendFriendRequest,
   getPendingRequestsSent,
   getPendingRequestsReceived,
-  getFriends
+  getFriends,
+  updateSharingSettings,
+  removeFriend,
+  blockUser,
+  unblockUser,
+  getBlockedUsers,
+  updateFriendVisibility
 } 
\ No newline at end of file
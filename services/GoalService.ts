@@ -0,0 +1,275 @@
+import { GoalsRepo, type Goal, type GoalInput, type GoalPeriod, type GoalResult } from '../repos/Goals.js'
+import { ActivityDayRollupRepo } from '../repos/ActivityDayRollup.js'
+import { ApiError } from '../middleware/errorHandler.js'
+import { UUID_REGEX } from '../utils/validation.js'
+import { UserProfileService } from './UserProfileService.js'
+import { getDateInTimeZone, getWeekStart, shiftDate } from '../utils/timezone.js'
+import type { GoalResultRecord } from '../types/jobs.js'
+import type { Request } from 'express'
+
+const GOAL_PERIODS: GoalPeriod[] = ['daily', 'weekly']
+const MAX_TARGET_MINUTES: Record<GoalPeriod, number> = {
+  daily: 24 * 60,
+  weekly: 7 * 24 * 60
+}
+const MAX_GOALS_PER_USER = 20
+const MAX_GOAL_TAGS = 50
+const DEFAULT_RESULTS_LIMIT = 30
+const MAX_RESULTS_LIMIT = 100
+
+export interface GoalProgress extends Goal {
+  period_start: string
+  period_end: string
+  progress_minutes: number
+  remaining_minutes: number
+  percent_complete: number
+  achieved: boolean
+}
+
+interface PeriodRange {
+  start: string
+  end: string
+}
+
+// Weekly goals run Monday through Sunday
+const getPeriodRange = (period: GoalPeriod, date: string): PeriodRange => {
+  if (period === 'daily') {
+    return { start: date, end: date }
+  }
+  const start = getWeekStart(date)
+  return { start, end: shiftDate(start, 6) }
+}
+
+const getPreviousPeriodRange = (period: GoalPeriod, today: string): PeriodRange => {
+  return getPeriodRange(period, shiftDate(today, period === 'daily' ? -1 : -7))
+}
+
+const parseTagNames = (value: unknown): string[] | null => {
+  if (value === undefined || value === null) {
+    return null
+  }
+  if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string' || !tag.trim())) {
+    throw new ApiError('tag_names must be an array of tag names', 400)
+  }
+  if (value.length > MAX_GOAL_TAGS) {
+    throw new ApiError(`A goal can track at most ${MAX_GOAL_TAGS} tags`, 400)
+  }
+  const tagNames = [...new Set(value.map((tag: string) => tag.trim()))]
+  return tagNames.length > 0 ? tagNames : null
+}
+
+const parseGoalInput = (body: any, existing?: Goal): GoalInput => {
+  const period = body?.period ?? existing?.period
+  if (!GOAL_PERIODS.includes(period)) {
+    throw new ApiError('Period must be either "daily" or "weekly"', 400)
+  }
+
+  const target_minutes = body?.target_minutes ?? existing?.target_minutes
+  if (!Number.isInteger(target_minutes) || target_minutes <= 0 || target_minutes > MAX_TARGET_MINUTES[period as GoalPeriod]) {
+    throw new ApiError(`target_minutes must be a whole number between 1 and ${MAX_TARGET_MINUTES[period as GoalPeriod]} for a ${period} goal`, 400)
+  }
+
+  const tag_names = body && 'tag_names' in body ? parseTagNames(body.tag_names) : existing?.tag_names ?? null
+
+  return { period, target_minutes, tag_names }
+}
+
+const toGoalProgress = async (goal: Goal, today: string): Promise<GoalProgress> => {
+  const { start, end } = getPeriodRange(goal.period, today)
+  const progressMinutes = await ActivityDayRollupRepo.getUserCreatingMinutes(goal.user_id, start, end, goal.tag_names)
+
+  return {
+    ...goal,
+    period_start: start,
+    period_end: end,
+    progress_minutes: progressMinutes,
+    remaining_minutes: Math.max(goal.target_minutes - progressMinutes, 0),
+    percent_complete: Math.min(Math.round((progressMinutes / goal.target_minutes) * 100), 100),
+    achieved: progressMinutes >= goal.target_minutes
+  }
+}
+
+const getGoals = async (req: Request): Promise<GoalProgress[]> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const userId = req.user.id
+
+  try {
+    const today = await UserProfileService.getUserToday(userId)
+    const goals = await GoalsRepo.getGoalsByUser(userId)
+    return await Promise.all(goals.map(goal => toGoalProgress(goal, today)))
+  } catch (error) {
+    console.error('Service error fetching goals:', error)
+    throw new ApiError('Failed to fetch goals', 500)
+  }
+}
+
+const createGoal = async (req: Request): Promise<Goal> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const userId = req.user.id
+  const goal = parseGoalInput(req.body)
+
+  const goalCount = await GoalsRepo.countGoalsByUser(userId)
+  if (goalCount >= MAX_GOALS_PER_USER) {
+    throw new ApiError(`Cannot have more than ${MAX_GOALS_PER_USER} goals`, 400)
+  }
+
+  try {
+    return await GoalsRepo.createGoal(userId, goal)
+  } catch (error) {
+    console.error('Service error creating goal:', error)
+    throw new ApiError('Failed to create goal', 500)
+  }
+}
+
+const updateGoal = async (req: Request): Promise<Goal> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const { goalId } = req.params
+  if (!goalId || !UUID_REGEX.test(goalId)) {
+    throw new ApiError('Valid goal ID is required', 400)
+  }
+
+  const userId = req.user.id
+  let existing: Goal | null
+  try {
+    existing = await GoalsRepo.getGoalById(userId, goalId)
+  } catch (error) {
+    console.error('Service error fetching goal:', error)
+    throw new ApiError('Failed to update goal', 500)
+  }
+  if (!existing) {
+    throw new ApiError('Goal not found', 404)
+  }
+
+  const updates = parseGoalInput(req.body, existing)
+
+  let goal: Goal | null
+  try {
+    goal = await GoalsRepo.updateGoal(userId, goalId, updates)
+  } catch (error) {
+    console.error('Service error updating goal:', error)
+    throw new ApiError('Failed to update goal', 500)
+  }
+
+  if (!goal) {
+    throw new ApiError('Goal not found', 404)
+  }
+  return goal
+}
+
+const deleteGoal = async (req: Request): Promise<void> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const { goalId } = req.params
+  if (!goalId || !UUID_REGEX.test(goalId)) {
+    throw new ApiError('Valid goal ID is required', 400)
+  }
+
+  let deleted: boolean
+  try {
+    deleted = await GoalsRepo.deleteGoal(req.user.id, goalId)
+  } catch (error) {
+    console.error('Service error deleting goal:', error)
+    throw new ApiError('Failed to delete goal', 500)
+  }
+
+  if (!deleted) {
+    throw new ApiError('Goal not found', 404)
+  }
+}
+
+const getGoalResults = async (req: Request): Promise<GoalResult[]> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const limit = req.query.limit === undefined ? DEFAULT_RESULTS_LIMIT : Number(req.query.limit)
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_RESULTS_LIMIT) {
+    throw new ApiError(`limit must be a whole number between 1 and ${MAX_RESULTS_LIMIT}`, 400)
+  }
+
+  try {
+    return await GoalsRepo.getGoalResultsByUser(req.user.id, limit)
+  } catch (error) {
+    console.error('Service error fetching goal results:', error)
+    throw new ApiError('Failed to fetch goal results', 500)
+  }
+}
+
+/**
+ * Record a hit or miss for every goal whose most recent period has finished in the
+ * owner's timezone. Periods that are already recorded, or that ended before the goal
+ * was created, are skipped, so this is safe to run as often as the scheduler likes.
+ * Returns only the results recorded by this run.
+ */
+const evaluateCompletedGoals = async (now: Date = new Date()): Promise<GoalResultRecord[]> => {
+  const goals = await GoalsRepo.getGoalsForEvaluation()
+  const recorded: GoalResultRecord[] = []
+
+  for (const goal of goals) {
+    const timeZone = goal.timezone || undefined
+    const today = getDateInTimeZone(timeZone, now)
+    const { start, end } = getPreviousPeriodRange(goal.period, today)
+
+    if (getDateInTimeZone(timeZone, new Date(goal.created_at)) > end) {
+      continue
+    }
+    if (await GoalsRepo.hasGoalResult(goal.id, start)) {
+      continue
+    }
+
+    const achievedMinutes = await ActivityDayRollupRepo.getUserCreatingMinutes(goal.user_id, start, end, goal.tag_names)
+    const result = await GoalsRepo.recordGoalResult({
+      goal_id: goal.id,
+      user_id: goal.user_id,
+      period_start: start,
+      period_end: end,
+      target_minutes: goal.target_minutes,
+      achieved_minutes: achievedMinutes,
+      status: achievedMinutes >= goal.target_minutes ? 'hit' : 'missed'
+    })
+
+    if (result) {
+      recorded.push({
+        id: goal.user_id,
+        email: goal.email,
+        goal_id: goal.id,
+        period: goal.period,
+        period_start: result.period_start,
+        period_end: result.period_end,
+        target_minutes: result.target_minutes,
+        achieved_minutes: result.achieved_minutes,
+        status: result.status
+      })
+    }
+  }
+
+  return recorded
+}
+
+// Goals whose period containing `date` has already reached its target
+const getAchievedGoals = async (userId: string, date: string): Promise<GoalProgress[]> => {
+  const goals = await GoalsRepo.getGoalsByUser(userId)
+  const progress = await Promise.all(goals.map(goal => toGoalProgress(goal, date)))
+  return progress.filter(goal => goal.achieved)
+}
+
+export const GoalService = {
+  getGoals,
+  createGoal,
+  updateGoal,
+  deleteGoal,
+  getGoalResults,
+  evaluateCompletedGoals,
+  getAchievedGoals
+}
\ No newline at end of file
@@ -0,0 +1,405 @@
+import {
+  GroupsRepo,
+  type Group,
+  type GroupInvitation,
+  type GroupInvitationWithDetails,
+  type GroupMember,
+  type GroupMemberWithUser,
+  type GroupRole,
+  type GroupWithMembership
+} from '../repos/Groups.js'
+import { ApiError } from '../middleware/errorHandler.js'
+import { UUID_REGEX } from '../utils/validation.js'
+import type { Request } from 'express'
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const MAX_NAME_LENGTH = 100
+const MAX_DESCRIPTION_LENGTH = 500
+const MAX_GROUP_MEMBERS = 50
+
+const ROLE_RANK: Record<GroupRole, number> = {
+  owner: 3,
+  admin: 2,
+  member: 1
+}
+
+export interface GroupDetails extends Group {
+  role: GroupRole
+  members: GroupMemberWithUser[]
+  pending_invitations?: GroupInvitation[] // only shown to owners and admins
+}
+
+const parseId = (value: string | undefined, label: string): string => {
+  if (!value || !UUID_REGEX.test(value)) {
+    throw new ApiError(`Valid ${label} ID is required`, 400)
+  }
+  return value
+}
+
+const parseGroupId = (req: Request): string => parseId(req.params.groupId, 'group')
+
+/**
+ * Load the caller's membership, requiring at least the given role.
+ * Non-members get a 404 so group IDs can't be probed.
+ */
+const requireMembership = async (groupId: string, userId: string, minimumRole: GroupRole = 'member'): Promise<GroupMember> => {
+  let membership: GroupMember | null
+  try {
+    membership = await GroupsRepo.getMembership(groupId, userId)
+  } catch (error) {
+    console.error('Service error fetching group membership:', error)
+    throw new ApiError('Failed to fetch group', 500)
+  }
+
+  if (!membership) {
+    throw new ApiError('Group not found', 404)
+  }
+  if (ROLE_RANK[membership.role] < ROLE_RANK[minimumRole]) {
+    throw new ApiError('You do not have permission to manage this group', 403)
+  }
+  return membership
+}
+
+const parseGroupInput = (body: any, partial: boolean = false): { name?: string; description?: string | null } => {
+  const { name, description } = body || {}
+  const input: { name?: string; description?: string | null } = {}
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== 'string' || name.trim().length === 0 || name.trim().length > MAX_NAME_LENGTH) {
+      throw new ApiError(`Group name must be between 1 and ${MAX_NAME_LENGTH} characters`, 400)
+    }
+    input.name = name.trim()
+  }
+
+  if (description !== undefined) {
+    if (description !== null && (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH)) {
+      throw new ApiError(`Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`, 400)
+    }
+    input.description = description ? description.trim() : null
+  }
+
+  if (partial && Object.keys(input).length === 0) {
+    throw new ApiError('Nothing to update', 400)
+  }
+  return input
+}
+
+const createGroup = async (req: Request): Promise<Group> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const input = parseGroupInput(req.body)
+
+  try {
+    return await GroupsRepo.createGroup(req.user.id, {
+      name: input.name!,
+      description: input.description ?? null
+    })
+  } catch (error) {
+    console.error('Service error creating group:', error)
+    throw new ApiError('Failed to create group', 500)
+  }
+}
+
+const getGroups = async (req: Request): Promise<GroupWithMembership[]> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  try {
+    return await GroupsRepo.getGroupsForUser(req.user.id)
+  } catch (error) {
+    console.error('Service error fetching groups:', error)
+    throw new ApiError('Failed to fetch groups', 500)
+  }
+}
+
+const getGroup = async (req: Request): Promise<GroupDetails> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const groupId = parseGroupId(req)
+  const membership = await requireMembership(groupId, req.user.id)
+
+  try {
+    const [group, members] = await Promise.all([
+      GroupsRepo.getGroupById(groupId),
+      GroupsRepo.getMembers(groupId, req.user.id)
+    ])
+    if (!group) {
+      throw new ApiError('Group not found', 404)
+    }
+
+    const details: GroupDetails = { ...group, role: membership.role, members }
+    if (ROLE_RANK[membership.role] >= ROLE_RANK.admin) {
+      details.pending_invitations = await GroupsRepo.getPendingInvitationsForGroup(groupId)
+    }
+    return details
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error
+    }
+    console.error('Service error fetching group:', error)
+    throw new ApiError('Failed to fetch group', 500)
+  }
+}
+
+const updateGroup = async (req: Request): Promise<Group> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const groupId = parseGroupId(req)
+  const updates = parseGroupInput(req.body, true)
+  await requireMembership(groupId, req.user.id, 'admin')
+
+  let group: Group | null
+  try {
+    group = await GroupsRepo.updateGroup(groupId, updates)
+  } catch (error) {
+    console.error('Service error updating group:', error)
+    throw new ApiError('Failed to update group', 500)
+  }
+
+  if (!group) {
+    throw new ApiError('Group not found', 404)
+  }
+  return group
+}
+
+const deleteGroup = async (req: Request): Promise<void> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const groupId = parseGroupId(req)
+  await requireMembership(groupId, req.user.id, 'owner')
+
+  try {
+    await GroupsRepo.deleteGroup(groupId)
+  } catch (error) {
+    console.error('Service error deleting group:', error)
+    throw new ApiError('Failed to delete group', 500)
+  }
+}
+
+const inviteMember = async (req: Request): Promise<GroupInvitation> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const groupId = parseGroupId(req)
+  const { email } = req.body || {}
+  if (!email || typeof email !== 'string' || !EMAIL_REGEX.test(email.trim())) {
+    throw new ApiError('Valid email address is required', 400)
+  }
+  const toEmail = email.trim().toLowerCase()
+
+  await requireMembership(groupId, req.user.id, 'admin')
+
+  try {
+    const members = await GroupsRepo.getMembers(groupId, req.user.id)
+    if (members.some(member => member.email.toLowerCase() === toEmail)) {
+      throw new ApiError('This user is already a member of the group', 409)
+    }
+    if (members.length >= MAX_GROUP_MEMBERS) {
+      throw new ApiError(`Groups can have at most ${MAX_GROUP_MEMBERS} members`, 400)
+    }
+    if (await GroupsRepo.hasPendingInvitation(groupId, toEmail)) {
+      throw new ApiError('An invitation has already been sent to this email', 400)
+    }
+
+    return await GroupsRepo.createInvitation(groupId, req.user.id, toEmail)
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error
+    }
+    console.error('Service error inviting group member:', error)
+    throw new ApiError('Failed to invite group member', 500)
+  }
+}
+
+const cancelInvitation = async (req: Request): Promise<GroupInvitation> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const groupId = parseGroupId(req)
+  const invitationId = parseId(req.params.invitationId, 'invitation')
+  await requireMembership(groupId, req.user.id, 'admin')
+
+  const invitation = await GroupsRepo.getInvitationById(invitationId)
+  if (!invitation || invitation.group_id !== groupId) {
+    throw new ApiError('Invitation not found', 404)
+  }
+
+  let cancelled: GroupInvitation | null
+  try {
+    cancelled = await GroupsRepo.updateInvitationStatus(invitationId, 'cancelled')
+  } catch (error) {
+    console.error('Service error cancelling group invitation:', error)
+    throw new ApiError('Failed to cancel invitation', 500)
+  }
+
+  if (!cancelled) {
+    throw new ApiError('Only pending invitations can be cancelled', 400)
+  }
+  return cancelled
+}
+
+const getInvitations = async (req: Request): Promise<GroupInvitationWithDetails[]> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const userEmail = req.user.email
+  if (!userEmail) {
+    throw new ApiError('User email is required', 400)
+  }
+
+  try {
+    return await GroupsRepo.getPendingInvitationsForEmail(userEmail)
+  } catch (error) {
+    console.error('Service error fetching group invitations:', error)
+    throw new ApiError('Failed to fetch group invitations', 500)
+  }
+}
+
+const respondToInvitation = async (req: Request): Promise<{ invitation: GroupInvitation; membership?: GroupMember }> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const invitationId = parseId(req.params.invitationId, 'invitation')
+  const { action } = req.body || {}
+  if (!action || !['accept', 'decline'].includes(action)) {
+    throw new ApiError('Action must be either "accept" or "decline"', 400)
+  }
+
+  const invitation = await GroupsRepo.getInvitationById(invitationId)
+  if (!invitation) {
+    throw new ApiError('Invitation not found', 404)
+  }
+  if (invitation.to_email.toLowerCase() !== req.user.email?.toLowerCase()) {
+    throw new ApiError('You are not authorized to respond to this invitation', 403)
+  }
+  if (invitation.status !== 'pending') {
+    throw new ApiError('This invitation has already been responded to', 400)
+  }
+
+  try {
+    if (action === 'decline') {
+      const declined = await GroupsRepo.updateInvitationStatus(invitationId, 'declined')
+      if (!declined) {
+        throw new ApiError('This invitation has already been responded to', 400)
+      }
+      return { invitation: declined }
+    }
+
+    const result = await GroupsRepo.acceptInvitation(invitationId, req.user.id, MAX_GROUP_MEMBERS)
+    if (result.status === 'group_full') {
+      throw new ApiError(`Groups can have at most ${MAX_GROUP_MEMBERS} members`, 400)
+    }
+    if (result.status === 'not_pending') {
+      throw new ApiError('This invitation has already been responded to', 400)
+    }
+    return { invitation: { ...invitation, status: 'accepted' }, membership: result.membership }
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error
+    }
+    console.error('Service error responding to group invitation:', error)
+    throw new ApiError('Failed to respond to invitation', 500)
+  }
+}
+
+/**
+ * Owners can promote members to admin, demote admins, or hand the group over by
+ * giving someone the owner role (the previous owner becomes an admin).
+ */
+const updateMemberRole = async (req: Request): Promise<{ user_id: string; role: GroupRole }> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const userId = req.user.id
+  const groupId = parseGroupId(req)
+  const memberId = parseId(req.params.userId, 'user')
+  const { role } = req.body || {}
+  if (!role || !Object.keys(ROLE_RANK).includes(role)) {
+    throw new ApiError('Role must be one of owner, admin or member', 400)
+  }
+  if (memberId === userId) {
+    throw new ApiError('You cannot change your own role', 400)
+  }
+
+  await requireMembership(groupId, userId, 'owner')
+  const target = await GroupsRepo.getMembership(groupId, memberId)
+  if (!target) {
+    throw new ApiError('Member not found', 404)
+  }
+
+  try {
+    if (role === 'owner') {
+      await GroupsRepo.transferOwnership(groupId, userId, memberId)
+    } else {
+      await GroupsRepo.updateMemberRole(groupId, memberId, role)
+    }
+    return { user_id: memberId, role }
+  } catch (error) {
+    console.error('Service error updating group member role:', error)
+    throw new ApiError('Failed to update member role', 500)
+  }
+}
+
+// Members can leave; owners and admins can remove anyone ranked below them
+const removeMember = async (req: Request): Promise<void> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const userId = req.user.id
+  const groupId = parseGroupId(req)
+  const memberId = parseId(req.params.userId, 'user')
+  const membership = await requireMembership(groupId, userId)
+
+  if (memberId === userId) {
+    if (membership.role === 'owner') {
+      throw new ApiError('Transfer ownership before leaving the group', 400)
+    }
+  } else {
+    const target = await GroupsRepo.getMembership(groupId, memberId)
+    if (!target) {
+      throw new ApiError('Member not found', 404)
+    }
+    if (ROLE_RANK[membership.role] < ROLE_RANK.admin || ROLE_RANK[membership.role] <= ROLE_RANK[target.role]) {
+      throw new ApiError('You do not have permission to remove this member', 403)
+    }
+  }
+
+  try {
+    await GroupsRepo.removeMember(groupId, memberId)
+  } catch (error) {
+    console.error('Service error removing group member:', error)
+    throw new ApiError('Failed to remove group member', 500)
+  }
+}
+
+export const GroupService = {
+  parseGroupId,
+  requireMembership,
+  createGroup,
+  getGroups,
+  getGroup,
+  updateGroup,
+  deleteGroup,
+  inviteMember,
+  cancelInvitation,
+  getInvitations,
+  respondToInvitation,
+  updateMemberRole,
+  removeMember
+}
\ No newline at end of file
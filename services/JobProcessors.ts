@@ -1,7 +1,17 @@
 import { Job } from 'bullmq'
 import { UserMonitoringRepo } from '../repos/UserMonitoring'
 import { SlackService } from './SlackService.js'
+import { SlackFocusScheduleService } from './SlackFocusScheduleService.js'
+import { SlackDigestService } from './SlackDigestService.js'
+import { GoalService } from './GoalService.js'
+import { AchievementService } from './AchievementService.js'
 import { UserNotificationsRepo } from '../repos/UserNotifications'
+import { FriendsRepo } from '../repos/Friends'
+import { PresenceService } from './PresenceService.js'
+import { ActivityDistributionService } from './ActivityDistributionService.js'
+import { MarketingService } from './MarketingService.js'
+import type { OnlineStatus } from '../repos/UserProfile'
+import type { ScheduleRunStatus } from '../repos/SlackFocusSchedule'
 import { NotificationEngine } from './NotificationEngine'
 import { getNotificationConfig } from '../config/notifications'
 import type {
@@ -11,13 +21,21 @@ import type {
   OfflineUserCheckJobData,
   TestJobData,
   SlackCleanupJobData,
+  SlackScheduledFocusJobData,
+  SlackSessionDigestJobData,
   WeeklyEmailReminderJobData,
+  GoalCheckJobData,
+  AchievementCheckJobData,
+  FriendRequestExpiryJobData,
+  ActivityDistributionRefreshJobData,
+  MarketingSnapshotJobData,
+  GoalResultRecord,
   JobResult,
   PaidUserRecord,
   NewUserRecord,
   InactiveUserRecord
 } from '../types/jobs'
-import type { NotificationChannel } from '../types/notifications'
+import type { NotificationChannel, NotificationPayload } from '../types/notifications'
 
 /**
  * Process job to check for new users (runs every 10 minutes)
@@ -286,6 +304,10 @@ export const processOfflineUserCheck = async (job: Job<OfflineUserCheckJobData>)
     // Update users who haven't checked in for 5+ minutes to offline status
     const result = await UserMonitoringRepo.updateOfflineUsers()
     console.log(`📊 Updated ${result.affectedRows} users to offline status`)
+
+    for (const user of result.users) {
+      await PresenceService.publishPresenceChange(user.id, 'offline', user.previous_status as OnlineStatus)
+    }
     
     return {
       success: true,
@@ -356,6 +378,63 @@ export const processSlackCleanup = async (job: Job<SlackCleanupJobData>): Promis
   }
 }
 
+/**
+ * Process the digest DM for a focus session that just ended
+ */
+export const processSlackSessionDigest = async (job: Job<SlackSessionDigestJobData>): Promise<JobResult> => {
+  const { userId, focusSessionId } = job.data
+  console.log(`📨 Processing Slack digest for focus session ${focusSessionId}...`)
+
+  // A failed digest releases its claim; throwing hands the retry to BullMQ's backoff
+  const sent = await SlackDigestService.sendSessionDigest(userId, focusSessionId)
+  if (!sent) {
+    throw new Error(`Failed to send Slack digest for focus session ${focusSessionId}`)
+  }
+
+  return {
+    success: true,
+    message: `Slack digest handled for focus session ${focusSessionId}`,
+    data: { userId, focusSessionId },
+    processedAt: new Date()
+  }
+}
+
+/**
+ * Process a scheduled focus session start (one-off or recurring focus schedule)
+ */
+export const processScheduledFocusStart = async (job: Job<SlackScheduledFocusJobData>): Promise<JobResult> => {
+  const { scheduleId, userId, occurrenceDate, version } = job.data
+  let status: ScheduleRunStatus | null | undefined
+
+  try {
+    console.log(`⏰ Processing scheduled focus session for schedule ${scheduleId} on ${occurrenceDate}...`)
+
+    status = await SlackFocusScheduleService.runScheduledOccurrence(scheduleId, occurrenceDate, version)
+
+    return {
+      success: status !== 'failed',
+      message: status
+        ? `Scheduled focus session ${status} for schedule ${scheduleId}`
+        : `Focus schedule ${scheduleId} was changed or removed since this occurrence was queued`,
+      data: { scheduleId, userId, occurrenceDate, status },
+      processedAt: new Date()
+    }
+  } catch (error) {
+    console.error('❌ Error processing scheduled focus session:', error)
+    return {
+      success: false,
+      message: `Failed to start scheduled focus session: ${error}`,
+      processedAt: new Date()
+    }
+  } finally {
+    // Keep the chain going even when this occurrence failed; an outdated job leaves it to the
+    // job that replaced it
+    if (status !== null) {
+      await SlackFocusScheduleService.queueNextOccurrence(scheduleId, occurrenceDate)
+    }
+  }
+}
+
 /**
  * Process weekly email reminder job (runs Mondays at 8:00 AM UTC)
  */
@@ -416,6 +495,219 @@ export const processWeeklyEmailReminder = async (job: Job<WeeklyEmailReminderJob
   }
 }
 
+/**
+ * Send goal hits and misses through the channels configured for goal_hit / goal_missed
+ * Uses one reference ID per goal period so a result is never announced twice on a channel
+ * Exported for testing purposes
+ */
+export const notifyGoalResults = async (results: GoalResultRecord[]): Promise<{ sent: number; failed: number }> => {
+  if (results.length === 0) {
+    return { sent: 0, failed: 0 }
+  }
+
+  const notificationEngine = getNotificationEngine()
+  let sent = 0
+  let failed = 0
+
+  for (const result of results) {
+    const notificationType = result.status === 'hit' ? 'goal_hit' : 'goal_missed'
+    const targetChannels = notificationEngine.getConfig().events[notificationType] || []
+    const payload: NotificationPayload = {
+      type: notificationType,
+      user: { id: result.id, email: result.email },
+      referenceId: `goal_${result.goal_id}_${result.period_start}`,
+      data: result
+    }
+
+    for (const channel of targetChannels) {
+      const alreadySent = await UserNotificationsRepo.hasChannelNotificationBeenSent(
+        result.id,
+        notificationType,
+        payload.referenceId,
+        channel
+      )
+      if (alreadySent) continue
+
+      const [notificationResult] = await notificationEngine.sendNotification(payload, [channel])
+      if (notificationResult?.success) {
+        await UserNotificationsRepo.recordChannelNotification(
+          result.id,
+          notificationType,
+          payload.referenceId,
+          channel,
+          notificationResult,
+          {
+            notificationId: notificationResult.notificationId,
+            sentAt: notificationResult.timestamp.toISOString()
+          }
+        )
+        sent++
+      } else {
+        failed++
+      }
+    }
+  }
+
+  return { sent, failed }
+}
+
+/**
+ * Process goal check job (runs hourly so every timezone's day boundary is covered)
+ */
+export const processGoalCheck = async (job: Job<GoalCheckJobData>): Promise<JobResult> => {
+  try {
+    console.log('🎯 Processing goal check job...')
+
+    const results = await GoalService.evaluateCompletedGoals()
+    const hits = results.filter(result => result.status === 'hit').length
+    console.log(`📊 Recorded ${results.length} goal results (${hits} hit, ${results.length - hits} missed)`)
+
+    const notifications = await notifyGoalResults(results)
+
+    return {
+      success: true,
+      message: `Goal check completed - recorded ${results.length} results, sent ${notifications.sent} notifications`,
+      data: {
+        recorded: results.length,
+        hits,
+        misses: results.length - hits,
+        notifications
+      },
+      processedAt: new Date()
+    }
+  } catch (error) {
+    console.error('❌ Error processing goal check:', error)
+    return {
+      success: false,
+      message: `Failed to check goals: ${error}`,
+      processedAt: new Date()
+    }
+  }
+}
+
+/**
+ * Process achievement check job (runs daily)
+ * Awards are idempotent per (user, badge, reference ID), so reruns only report new unlocks
+ */
+export const processAchievementCheck = async (job: Job<AchievementCheckJobData>): Promise<JobResult> => {
+  try {
+    console.log('🏆 Processing achievement check job...')
+
+    const { unlocked, announced } = await AchievementService.evaluateAchievements()
+    console.log(`📊 Unlocked ${unlocked.length} achievements, announced ${announced} to friends`)
+
+    return {
+      success: true,
+      message: `Achievement check completed - unlocked ${unlocked.length} achievements`,
+      data: {
+        count: unlocked.length,
+        announced
+      },
+      processedAt: new Date()
+    }
+  } catch (error) {
+    console.error('❌ Error processing achievement check:', error)
+    return {
+      success: false,
+      message: `Failed to check achievements: ${error}`,
+      processedAt: new Date()
+    }
+  }
+}
+
+/**
+ * Process friend request expiry job (runs hourly)
+ */
+export const processFriendRequestExpiry = async (job: Job<FriendRequestExpiryJobData>): Promise<JobResult> => {
+  try {
+    console.log('⌛ Processing friend request expiry job...')
+
+    const expired = await FriendsRepo.expireFriendRequests()
+    console.log(`📊 Expired ${expired} friend requests`)
+
+    return {
+      success: true,
+      message: `Friend request expiry completed - expired ${expired} requests`,
+      data: {
+        count: expired
+      },
+      processedAt: new Date()
+    }
+  } catch (error) {
+    console.error('❌ Error processing friend request expiry:', error)
+    return {
+      success: false,
+      message: `Failed to expire friend requests: ${error}`,
+      processedAt: new Date()
+    }
+  }
+}
+
+/**
+ * Process activity distribution refresh job (runs every 15 minutes)
+ */
+export const processActivityDistributionRefresh = async (job: Job<ActivityDistributionRefreshJobData>): Promise<JobResult> => {
+  try {
+    console.log('📊 Processing activity distribution refresh job...')
+
+    const dates = await ActivityDistributionService.refreshRecentDistributions()
+    console.log(`📊 Refreshed activity distributions for ${dates.join(', ')}`)
+
+    return {
+      success: true,
+      message: `Activity distribution refresh completed - refreshed ${dates.length} days`,
+      data: {
+        count: dates.length,
+        dates
+      },
+      processedAt: new Date()
+    }
+  } catch (error) {
+    console.error('❌ Error processing activity distribution refresh:', error)
+    return {
+      success: false,
+      message: `Failed to refresh activity distributions: ${error}`,
+      processedAt: new Date()
+    }
+  }
+}
+
+/**
+ * Process marketing snapshot job (runs every hour)
+ */
+export const processMarketingSnapshot = async (job: Job<MarketingSnapshotJobData>): Promise<JobResult> => {
+  try {
+    console.log('📈 Processing marketing snapshot job...')
+
+    const { backfill } = job.data
+    const backfilled = backfill ? await MarketingService.backfillSnapshots(backfill.from, backfill.to) : null
+    if (backfilled) {
+      console.log(`📈 Backfilled ${backfilled.inserted} marketing snapshots for ${backfilled.from} to ${backfilled.to}`)
+    }
+
+    const { snapshotDate, metrics } = await MarketingService.snapshotMarketingStats()
+    console.log(`📈 Stored marketing snapshot for ${snapshotDate} (${metrics.length} metrics)`)
+
+    return {
+      success: true,
+      message: `Marketing snapshot completed - stored ${metrics.length} metrics`,
+      data: {
+        snapshotDate,
+        metrics,
+        backfilled
+      },
+      processedAt: new Date()
+    }
+  } catch (error) {
+    console.error('❌ Error processing marketing snapshot:', error)
+    return {
+      success: false,
+      message: `Failed to snapshot marketing stats: ${error}`,
+      processedAt: new Date()
+    }
+  }
+}
+
 /**
  * Job processor registry
  */
@@ -427,5 +719,12 @@ export const jobProcessors = {
   'test-job': processTestJob,
   'slack-cleanup-dnd': processSlackCleanup,
   'slack-cleanup-status': processSlackCleanup,
+  'slack-scheduled-focus-start': processScheduledFocusStart,
+  'slack-session-digest': processSlackSessionDigest,
   'weekly-email-reminder': processWeeklyEmailReminder,
+  'check-goals': processGoalCheck,
+  'check-achievements': processAchievementCheck,
+  'expire-friend-requests': processFriendRequestExpiry,
+  'refresh-activity-distribution': processActivityDistributionRefresh,
+  'snapshot-marketing-stats': processMarketingSnapshot,
 } 
\ No newline at end of file
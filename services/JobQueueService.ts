@@ -1,7 +1,7 @@
 import { Queue, Worker } from 'bullmq'
 import { redisConfig } from '../config/redis'
 import { jobProcessors } from './JobProcessors'
-import { JOB_QUEUES, JOB_TYPES, JOB_PRIORITIES } from '../types/jobs'
+import { JOB_QUEUES, JOB_TYPES, JOB_PRIORITIES, type MarketingSnapshotJobData } from '../types/jobs'
 
 class JobQueueService {
   private queue: Queue | null = null
@@ -187,6 +187,71 @@ class JobQueueService {
       }
     )
 
+    // Schedule goal check hourly so each timezone's completed day is picked up soon after midnight
+    await this.queue.add(
+      JOB_TYPES.CHECK_GOALS,
+      {},
+      {
+        repeat: {
+          pattern: '5 * * * *', // Every hour at :05
+        },
+        priority: JOB_PRIORITIES.NORMAL,
+        jobId: 'recurring-goal-check',
+      }
+    )
+
+    // Schedule achievement check daily at 2:00 AM UTC
+    await this.queue.add(
+      JOB_TYPES.CHECK_ACHIEVEMENTS,
+      {},
+      {
+        repeat: {
+          pattern: '0 2 * * *', // Daily at 2:00 AM UTC
+        },
+        priority: JOB_PRIORITIES.NORMAL,
+        jobId: 'recurring-achievement-check',
+      }
+    )
+
+    // Schedule friend request expiry hourly
+    await this.queue.add(
+      JOB_TYPES.EXPIRE_FRIEND_REQUESTS,
+      {},
+      {
+        repeat: {
+          pattern: '30 * * * *', // Every hour at :30
+        },
+        priority: JOB_PRIORITIES.LOW,
+        jobId: 'recurring-friend-request-expiry',
+      }
+    )
+
+    // Schedule activity distribution refresh every 15 minutes
+    await this.queue.add(
+      JOB_TYPES.REFRESH_ACTIVITY_DISTRIBUTION,
+      {},
+      {
+        repeat: {
+          pattern: '*/15 * * * *', // Every 15 minutes
+        },
+        priority: JOB_PRIORITIES.LOW,
+        jobId: 'recurring-activity-distribution-refresh',
+      }
+    )
+
+    // Snapshot marketing stats (and warm their cache) every hour
+    await this.queue.add(
+      JOB_TYPES.SNAPSHOT_MARKETING_STATS,
+      {},
+      {
+        repeat: {
+          pattern: '15 * * * *', // Every hour at :15
+        },
+        priority: JOB_PRIORITIES.LOW,
+        jobId: 'recurring-marketing-snapshot',
+      }
+    )
+
     console.log('✅ Recurring jobs scheduled successfully')
     console.log('   🧪 Test job: Every minute')
     console.log('   📋 New user check: Every 10 minutes')
@@ -194,6 +259,11 @@ class JobQueueService {
     console.log('   😴 Inactive user check: Daily at 9:00 AM')
     console.log('   🔄 Offline user check: Every 5 minutes')
     console.log('   📧 Weekly email reminder: Mondays at 8:00 AM UTC')
+    console.log('   🎯 Goal check: Every hour at :05')
+    console.log('   🏆 Achievement check: Daily at 2:00 AM UTC')
+    console.log('   ⌛ Friend request expiry: Every hour at :30')
+    console.log('   📊 Activity distribution refresh: Every 15 minutes')
+    console.log('   📈 Marketing snapshot: Every hour at :15')
   }
 
   // Manual job triggers (for testing or one-off runs)
@@ -251,6 +321,51 @@ class JobQueueService {
     })
   }
 
+  async triggerGoalCheck() {
+    if (!this.queue) {
+      throw new Error('Queue not initialized')
+    }
+    return this.queue.add(JOB_TYPES.CHECK_GOALS, {}, {
+      priority: JOB_PRIORITIES.HIGH,
+    })
+  }
+
+  async triggerAchievementCheck() {
+    if (!this.queue) {
+      throw new Error('Queue not initialized')
+    }
+    return this.queue.add(JOB_TYPES.CHECK_ACHIEVEMENTS, {}, {
+      priority: JOB_PRIORITIES.HIGH,
+    })
+  }
+
+  async triggerFriendRequestExpiry() {
+    if (!this.queue) {
+      throw new Error('Queue not initialized')
+    }
+    return this.queue.add(JOB_TYPES.EXPIRE_FRIEND_REQUESTS, {}, {
+      priority: JOB_PRIORITIES.HIGH,
+    })
+  }
+
+  async triggerActivityDistributionRefresh() {
+    if (!this.queue) {
+      throw new Error('Queue not initialized')
+    }
+    return this.queue.add(JOB_TYPES.REFRESH_ACTIVITY_DISTRIBUTION, {}, {
+      priority: JOB_PRIORITIES.HIGH,
+    })
+  }
+
+  async triggerMarketingSnapshot(data: MarketingSnapshotJobData = {}) {
+    if (!this.queue) {
+      throw new Error('Queue not initialized')
+    }
+    return this.queue.add(JOB_TYPES.SNAPSHOT_MARKETING_STATS, data, {
+      priority: JOB_PRIORITIES.HIGH,
+    })
+  }
+
   // Get queue stats
   async getQueueStats() {
     if (!this.queue) {
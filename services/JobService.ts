@@ -57,6 +57,17 @@ const addJob = async (options: AddJobOptions) => {
   return queueInstance.add(jobType, data, jobOptions)
 }
 
+const removeJob = async (queue: string, jobId: string): Promise<void> => {
+  const job = await getQueue(queue).getJob(jobId)
+  if (job) {
+    await job.remove()
+  }
+}
+
+const removeJobScheduler = async (queue: string, schedulerId: string): Promise<void> => {
+  await getQueue(queue).removeJobScheduler(schedulerId)
+}
+
 const shutdown = async () => {
   console.log('🛑 Shutting down JobService...')
   
@@ -69,5 +80,7 @@ const shutdown = async () => {
 
 export const JobService = {
   addJob,
+  removeJob,
+  removeJobScheduler,
   shutdown
 }
\ No newline at end of file
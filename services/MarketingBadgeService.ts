@@ -0,0 +1,140 @@
+import { createHash } from 'crypto'
+import { MarketingService } from './MarketingService.js'
+import { ApiError } from '../middleware/errorHandler.js'
+import { parseColor, renderBadge, renderSparkline, type BadgeStyle, type SparklineTheme } from '../utils/badge.js'
+import { getDateInTimeZone, shiftDate } from '../utils/timezone.js'
+import type { Request } from 'express'
+
+export const BADGE_METRICS = ['total-hours', 'average-weekly-hours', 'weekly-activity', 'daily-activity', 'cumulative-weekly-hours'] as const
+
+export type BadgeMetric = typeof BADGE_METRICS[number]
+export type BadgeType = 'badge' | 'sparkline'
+
+export interface RenderedBadge {
+  svg: string
+  etag: string
+}
+
+interface MetricReading {
+  label: string
+  value: number
+  unit: string
+  // Present for metrics that can be drawn as a sparkline
+  points?: number[]
+}
+
+const STYLES: BadgeStyle[] = ['flat', 'flat-square']
+const THEMES: SparklineTheme[] = ['light', 'dark']
+const MAX_LABEL_LENGTH = 40
+const DEFAULT_BADGE_DAYS = 30
+const MAX_BADGE_DAYS = 365
+const DEFAULT_SPARKLINE_WIDTH = 240
+const DEFAULT_SPARKLINE_HEIGHT = 64
+
+const formatHours = (hours: number): string => {
+  return hours.toLocaleString('en-US', { maximumFractionDigits: hours >= 100 ? 0 : 1 })
+}
+
+const parseIntegerParam = (value: unknown, name: string, min: number, max: number, fallback: number): number => {
+  if (value === undefined) return fallback
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new ApiError(`${name} must be a whole number between ${min} and ${max}`, 400)
+  }
+  return parsed
+}
+
+const parseColorParam = (value: unknown, name: string, fallback: string): string => {
+  if (value === undefined) return fallback
+  const color = typeof value === 'string' ? parseColor(value) : null
+  if (!color) {
+    throw new ApiError(`${name} must be a named color or a hex color without #`, 400)
+  }
+  return color
+}
+
+const parseChoiceParam = <T extends string>(value: unknown, name: string, choices: readonly T[], fallback: T): T => {
+  if (value === undefined) return fallback
+  if (!choices.includes(value as T)) {
+    throw new ApiError(`${name} must be one of ${choices.join(', ')}`, 400)
+  }
+  return value as T
+}
+
+const readMetric = async (metric: BadgeMetric, days: number): Promise<MetricReading> => {
+  switch (metric) {
+    case 'total-hours':
+      return { label: 'hours creating', value: await MarketingService.getTotalHoursCreating(), unit: 'hrs' }
+    case 'average-weekly-hours':
+      return { label: 'avg weekly hours', value: await MarketingService.getAverageWeeklyHours(), unit: 'hrs' }
+    case 'weekly-activity': {
+      const weeks = await MarketingService.getWeeklyActivityData()
+      const points = weeks.map(week => Number(week.total_hours))
+      // Weeks with fewer than 5 active days are left out, so the latest point isn't necessarily this week
+      return { label: 'hours, latest week', value: points[points.length - 1] ?? 0, unit: 'hrs', points }
+    }
+    case 'daily-activity': {
+      const daily = await MarketingService.getDailyActivityData(days)
+      // Rows come newest first and skip days without activity, so walk the window oldest first
+      const minutesByDate = new Map(daily.map(day => [day.date, Number(day.total_minutes)]))
+      const firstDate = shiftDate(getDateInTimeZone(), -(days - 1))
+      const points = Array.from({ length: days }, (_, i) => (minutesByDate.get(shiftDate(firstDate, i)) ?? 0) / 60)
+      return { label: `hours, last ${days} days`, value: points.reduce((sum, hours) => sum + hours, 0), unit: 'hrs', points }
+    }
+    case 'cumulative-weekly-hours': {
+      const weeks = await MarketingService.getCumulativeWeeklyHours()
+      const points = weeks.map(week => Number(week.cumulative_hours))
+      return { label: 'hours creating', value: points[points.length - 1] ?? 0, unit: 'hrs', points }
+    }
+  }
+}
+
+/**
+ * Render a public stats badge or sparkline for a marketing metric. Scalar metrics only render
+ * as badges; series metrics default to a sparkline. The ETag is a hash of the rendered SVG, so it
+ * changes exactly when the numbers or the theming do.
+ *
+ * Query params: type (badge|sparkline), label, color, labelColor, style (flat|flat-square),
+ * theme (light|dark), width, height and days (daily-activity only).
+ */
+const getBadge = async (metric: string, query: Request['query']): Promise<RenderedBadge> => {
+  if (!BADGE_METRICS.includes(metric as BadgeMetric)) {
+    throw new ApiError(`Unknown badge metric: ${metric}`, 404)
+  }
+
+  const label = query.label
+  if (label !== undefined && (typeof label !== 'string' || label.trim() === '' || label.length > MAX_LABEL_LENGTH)) {
+    throw new ApiError(`label must be between 1 and ${MAX_LABEL_LENGTH} characters`, 400)
+  }
+
+  const days = parseIntegerParam(query.days, 'days', 1, MAX_BADGE_DAYS, DEFAULT_BADGE_DAYS)
+  const color = parseColorParam(query.color, 'color', parseColor('blue')!)
+  const labelColor = parseColorParam(query.labelColor, 'labelColor', parseColor('grey')!)
+  const style = parseChoiceParam(query.style, 'style', STYLES, 'flat')
+  const theme = parseChoiceParam(query.theme, 'theme', THEMES, 'light')
+  const width = parseIntegerParam(query.width, 'width', 80, 1200, DEFAULT_SPARKLINE_WIDTH)
+  const height = parseIntegerParam(query.height, 'height', 40, 400, DEFAULT_SPARKLINE_HEIGHT)
+
+  const reading = await readMetric(metric as BadgeMetric, days)
+  const type = parseChoiceParam<BadgeType>(query.type, 'type', ['badge', 'sparkline'], reading.points ? 'sparkline' : 'badge')
+  if (type === 'sparkline' && !reading.points) {
+    throw new ApiError(`${metric} can only be rendered as a badge`, 400)
+  }
+
+  const options = {
+    label: (label as string | undefined) ?? reading.label,
+    value: `${formatHours(reading.value)} ${reading.unit}`
+  }
+  const svg = type === 'sparkline'
+    ? renderSparkline({ ...options, points: reading.points!, color, theme, width, height })
+    : renderBadge({ ...options, color, labelColor, style })
+
+  return {
+    svg,
+    etag: `"${createHash('sha1').update(svg).digest('base64url')}"`
+  }
+}
+
+export const MarketingBadgeService = {
+  getBadge
+}
\ No newline at end of file
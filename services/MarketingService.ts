@@ -1,6 +1,24 @@
 import { ActivityDayRollupRepo } from '../repos/ActivityDayRollup'
+import {
+  MarketingSnapshotRepo,
+  type MarketingScalarMetric,
+  type MarketingSnapshotInput,
+  type MarketingSnapshotSeries
+} from '../repos/MarketingSnapshot'
 import { ApiError } from '../middleware/errorHandler'
-import { getCachedOrFetch, getCacheKey, MARKETING_CACHE_KEYS } from '../utils/cache'
+import { getCachedOrFetch, getCacheKey, MARKETING_CACHE_KEYS, primeCache } from '../utils/cache'
+import { DEFAULT_TIME_ZONE, getDateInTimeZone, shiftDate } from '../utils/timezone'
+
+export const DEFAULT_DAILY_ACTIVITY_DAYS = 90
+export const DEFAULT_TOP_CREATING_DAYS_LIMIT = 10
+
+// Snapshot metrics with a single number per day, which can be charted as a history
+export const MARKETING_HISTORY_METRICS: MarketingScalarMetric[] = ['total_hours', 'average_weekly_hours']
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
+const DEFAULT_HISTORY_DAYS = 90
+const MAX_HISTORY_DAYS = 366
+const MAX_BACKFILL_DAYS = 5 * 366
 
 export interface WeeklyActivity {
   week_start: string
@@ -22,6 +40,30 @@ export interface CumulativeWeeklyHours {
   cumulative_hours: number
 }
 
+export interface MarketingHistory {
+  metric: MarketingScalarMetric
+  from: string
+  to: string
+  points: Array<{ date: string; value: number }>
+}
+
+export interface MarketingSnapshotSummary {
+  date: string
+  metrics: Partial<Record<MarketingScalarMetric, number> & MarketingSnapshotSeries>
+}
+
+const getAverageWeeklyHoursCacheKey = (timeZone: string): string => {
+  return timeZone === DEFAULT_TIME_ZONE
+    ? MARKETING_CACHE_KEYS.AVERAGE_WEEKLY_HOURS
+    : getCacheKey(MARKETING_CACHE_KEYS.AVERAGE_WEEKLY_HOURS, { timeZone })
+}
+
+const getDailyActivityCacheKey = (days: number, timeZone: string): string => {
+  return timeZone === DEFAULT_TIME_ZONE
+    ? getCacheKey(MARKETING_CACHE_KEYS.DAILY_ACTIVITY, { days })
+    : getCacheKey(MARKETING_CACHE_KEYS.DAILY_ACTIVITY, { days, timeZone })
+}
+
 const getWeeklyActivityData = async (): Promise<WeeklyActivity[]> => {
   try {
     const weeklyData = await getCachedOrFetch(
@@ -48,11 +90,12 @@ const getTotalHoursCreating = async (): Promise<number> => {
   }
 }
 
-const getAverageWeeklyHours = async (): Promise<number> => {
+const getAverageWeeklyHours = async (timeZone: string = DEFAULT_TIME_ZONE): Promise<number> => {
   try {
+    const cacheKey = getAverageWeeklyHoursCacheKey(timeZone)
     const averageHours = await getCachedOrFetch(
-      MARKETING_CACHE_KEYS.AVERAGE_WEEKLY_HOURS,
-      () => ActivityDayRollupRepo.getAverageWeeklyHoursForActiveUsers()
+      cacheKey,
+      () => ActivityDayRollupRepo.getAverageWeeklyHoursForActiveUsers(timeZone)
     )
     return averageHours
   } catch (error) {
@@ -61,12 +104,12 @@ const getAverageWeeklyHours = async (): Promise<number> => {
   }
 }
 
-const getDailyActivityData = async (days: number = 90): Promise<DailyActivity[]> => {
+const getDailyActivityData = async (days: number = DEFAULT_DAILY_ACTIVITY_DAYS, timeZone: string = DEFAULT_TIME_ZONE): Promise<DailyActivity[]> => {
   try {
-    const cacheKey = getCacheKey(MARKETING_CACHE_KEYS.DAILY_ACTIVITY, { days })
+    const cacheKey = getDailyActivityCacheKey(days, timeZone)
     const dailyData = await getCachedOrFetch(
       cacheKey,
-      () => ActivityDayRollupRepo.getDailyActivityForPeriod(days)
+      () => ActivityDayRollupRepo.getDailyActivityForPeriod(days, timeZone)
     )
     return dailyData
   } catch (error) {
@@ -75,7 +118,7 @@ const getDailyActivityData = async (days: number = 90): Promise<DailyActivity[]>
   }
 }
 
-const getTopCreatingDays = async (limit: number = 10): Promise<TopCreatingDay[]> => {
+const getTopCreatingDays = async (limit: number = DEFAULT_TOP_CREATING_DAYS_LIMIT): Promise<TopCreatingDay[]> => {
   try {
     const cacheKey = getCacheKey(MARKETING_CACHE_KEYS.TOP_CREATING_DAYS, { limit })
     const topDays = await getCachedOrFetch(
@@ -102,11 +145,137 @@ const getCumulativeWeeklyHours = async (): Promise<CumulativeWeeklyHours[]> => {
   }
 }
 
+/**
+ * Compute every metric with its default parameters, warm the cache with the results and
+ * store them as the snapshot for the given (UTC) date. Later runs on the same date overwrite it.
+ */
+const snapshotMarketingStats = async (snapshotDate: string = getDateInTimeZone()): Promise<{ snapshotDate: string; metrics: string[] }> => {
+  const [weeklyActivity, totalHours, averageWeeklyHours, dailyActivity, topCreatingDays, cumulativeWeeklyHours] = await Promise.all([
+    ActivityDayRollupRepo.getWeeklyActivityAggregation(),
+    ActivityDayRollupRepo.getTotalHoursCreating(),
+    ActivityDayRollupRepo.getAverageWeeklyHoursForActiveUsers(DEFAULT_TIME_ZONE),
+    ActivityDayRollupRepo.getDailyActivityForPeriod(DEFAULT_DAILY_ACTIVITY_DAYS, DEFAULT_TIME_ZONE),
+    ActivityDayRollupRepo.getTopCreatingDays(DEFAULT_TOP_CREATING_DAYS_LIMIT),
+    ActivityDayRollupRepo.getCumulativeWeeklyHours()
+  ])
+
+  await Promise.all([
+    primeCache(MARKETING_CACHE_KEYS.WEEKLY_ACTIVITY, weeklyActivity),
+    primeCache(MARKETING_CACHE_KEYS.TOTAL_HOURS, totalHours),
+    primeCache(getAverageWeeklyHoursCacheKey(DEFAULT_TIME_ZONE), averageWeeklyHours),
+    primeCache(getDailyActivityCacheKey(DEFAULT_DAILY_ACTIVITY_DAYS, DEFAULT_TIME_ZONE), dailyActivity),
+    primeCache(getCacheKey(MARKETING_CACHE_KEYS.TOP_CREATING_DAYS, { limit: DEFAULT_TOP_CREATING_DAYS_LIMIT }), topCreatingDays),
+    primeCache(MARKETING_CACHE_KEYS.CUMULATIVE_WEEKLY_HOURS, cumulativeWeeklyHours)
+  ])
+
+  const snapshots: MarketingSnapshotInput[] = [
+    { metric: 'total_hours', value: totalHours, data: null },
+    { metric: 'average_weekly_hours', value: averageWeeklyHours, data: null },
+    { metric: 'weekly_activity', value: null, data: weeklyActivity },
+    { metric: 'daily_activity', value: null, data: dailyActivity },
+    { metric: 'top_creating_days', value: null, data: topCreatingDays },
+    { metric: 'cumulative_weekly_hours', value: null, data: cumulativeWeeklyHours }
+  ]
+  await MarketingSnapshotRepo.upsertSnapshots(snapshotDate, snapshots)
+
+  return { snapshotDate, metrics: snapshots.map(snapshot => snapshot.metric) }
+}
+
+const parseSnapshotDate = (value: unknown, name: string): string | undefined => {
+  if (value === undefined) return undefined
+  if (typeof value !== 'string' || !DATE_REGEX.test(value) || isNaN(Date.parse(value))) {
+    throw new ApiError(`${name} must be in YYYY-MM-DD format`, 400)
+  }
+  return value
+}
+
+const getMetricHistory = async (metric: string, fromParam?: unknown, toParam?: unknown): Promise<MarketingHistory> => {
+  if (!MARKETING_HISTORY_METRICS.includes(metric as MarketingScalarMetric)) {
+    throw new ApiError(`Metric must be one of ${MARKETING_HISTORY_METRICS.join(', ')}`, 400)
+  }
+
+  const to = parseSnapshotDate(toParam, 'to') || getDateInTimeZone()
+  const from = parseSnapshotDate(fromParam, 'from') || shiftDate(to, -(DEFAULT_HISTORY_DAYS - 1))
+  if (from > to) {
+    throw new ApiError('from must not be after to', 400)
+  }
+  if (from < shiftDate(to, -(MAX_HISTORY_DAYS - 1))) {
+    throw new ApiError(`History range cannot exceed ${MAX_HISTORY_DAYS} days`, 400)
+  }
+
+  try {
+    const points = await MarketingSnapshotRepo.getMetricHistory(metric, from, to)
+    return { metric: metric as MarketingScalarMetric, from, to, points }
+  } catch (error) {
+    console.error('Service error fetching marketing history:', error)
+    throw new ApiError('Failed to fetch marketing history', 500)
+  }
+}
+
+const getSnapshot = async (dateParam: unknown): Promise<MarketingSnapshotSummary> => {
+  const date = parseSnapshotDate(dateParam, 'Date')!
+
+  let snapshots
+  try {
+    snapshots = await MarketingSnapshotRepo.getSnapshotsForDate(date)
+  } catch (error) {
+    console.error('Service error fetching marketing snapshot:', error)
+    throw new ApiError('Failed to fetch marketing snapshot', 500)
+  }
+
+  if (snapshots.length === 0) {
+    throw new ApiError('No snapshot for this date', 404)
+  }
+
+  return {
+    date,
+    metrics: Object.fromEntries(snapshots.map(snapshot => [snapshot.metric, snapshot.value ?? snapshot.data]))
+  }
+}
+
+/**
+ * Validate a backfill range. `to` defaults to yesterday (UTC), since today's snapshot
+ * belongs to the scheduled job.
+ */
+const parseBackfillRange = (fromParam: unknown, toParam: unknown): { from: string; to: string } => {
+  const from = parseSnapshotDate(fromParam, 'from')
+  if (!from) {
+    throw new ApiError('from is required', 400)
+  }
+  const to = parseSnapshotDate(toParam, 'to') || shiftDate(getDateInTimeZone(), -1)
+  if (from > to) {
+    throw new ApiError('from must not be after to', 400)
+  }
+  if (from < shiftDate(to, -(MAX_BACKFILL_DAYS - 1))) {
+    throw new ApiError(`Backfill range cannot exceed ${MAX_BACKFILL_DAYS} days`, 400)
+  }
+  return { from, to }
+}
+
+/**
+ * Fill in total_hours and average_weekly_hours history from the rollups for days before
+ * snapshots were taken. Existing snapshots are left as they are.
+ */
+const backfillSnapshots = async (from: string, to: string): Promise<{ from: string; to: string; inserted: number }> => {
+  const totals = await ActivityDayRollupRepo.getMarketingTotalsByDate(from, to)
+  const inserted = await MarketingSnapshotRepo.insertMissingSnapshots(totals.flatMap(day => [
+    { snapshot_date: day.date, metric: 'total_hours' as const, value: day.total_hours },
+    { snapshot_date: day.date, metric: 'average_weekly_hours' as const, value: day.average_weekly_hours }
+  ]))
+
+  return { from, to, inserted }
+}
+
 export const MarketingService = {
   getWeeklyActivityData,
   getTotalHoursCreating,
   getAverageWeeklyHours,
   getDailyActivityData,
   getTopCreatingDays,
-  getCumulativeWeeklyHours
+  getCumulativeWeeklyHours,
+  snapshotMarketingStats,
+  getMetricHistory,
+  getSnapshot,
+  parseBackfillRange,
+  backfillSnapshots
 } 
\ No newline at end of file
@@ -0,0 +1,208 @@
+import type Redis from 'ioredis'
+import { createRedisConnection } from '../config/redis.js'
+import { FriendsRepo } from '../repos/Friends.js'
+import { UserProfileRepo, type OnlineStatus } from '../repos/UserProfile.js'
+
+// Every API instance publishes presence changes here and relays them to its own stream clients
+export const PRESENCE_CHANNEL = 'presence:changes'
+
+// Friendships and visibility settings can change while a stream is open
+const FRIEND_REFRESH_INTERVAL_MS = 5 * 60 * 1000
+
+export interface PresenceChange {
+  user_id: string
+  status: OnlineStatus
+  previous_status: OnlineStatus | null
+  changed_at: string
+}
+
+export type PresenceStreamEvent =
+  | { event: 'snapshot'; data: { friends: Array<{ user_id: string; email: string; status: OnlineStatus }> } }
+  | { event: 'presence'; data: PresenceChange }
+  | { event: 'flowing_started'; data: PresenceChange }
+
+export type PresenceStreamSender = (event: PresenceStreamEvent) => void
+
+interface PresenceConnection {
+  viewerId: string
+  friendIds: Set<string>
+  send: PresenceStreamSender
+  refreshTimer: ReturnType<typeof setInterval>
+}
+
+let publisher: Redis | null = null
+let subscriber: Redis | null = null
+let isInitialized = false
+const connections: Set<PresenceConnection> = new Set()
+
+const isAvailable = (): boolean => isInitialized
+
+const toStreamEvents = (change: PresenceChange): PresenceStreamEvent[] => {
+  const events: PresenceStreamEvent[] = [{ event: 'presence', data: change }]
+  if (change.status === 'flowing' && change.previous_status !== 'flowing') {
+    events.push({ event: 'flowing_started', data: change })
+  }
+  return events
+}
+
+/**
+ * Relay a change received from Redis to every local stream watching that user
+ */
+const deliverChange = (change: PresenceChange): number => {
+  let delivered = 0
+  const events = toStreamEvents(change)
+
+  for (const connection of connections) {
+    if (!connection.friendIds.has(change.user_id)) continue
+
+    for (const event of events) {
+      try {
+        connection.send(event)
+      } catch (error) {
+        console.error('Failed to write presence event to stream:', error)
+      }
+    }
+    delivered++
+  }
+
+  return delivered
+}
+
+const handleMessage = (channel: string, message: string) => {
+  if (channel !== PRESENCE_CHANNEL) return
+
+  try {
+    deliverChange(JSON.parse(message))
+  } catch (error) {
+    console.error('Failed to handle presence message:', error)
+  }
+}
+
+const initialize = async () => {
+  if (isInitialized) {
+    return
+  }
+
+  try {
+    console.log('🚀 Initializing Presence Service...')
+
+    // A subscribed connection can't publish, so each instance keeps one of each
+    publisher = createRedisConnection()
+    subscriber = createRedisConnection()
+    await Promise.all([publisher.connect(), subscriber.connect()])
+
+    subscriber.on('message', handleMessage)
+    await subscriber.subscribe(PRESENCE_CHANNEL)
+
+    console.log('✅ Presence Service initialized successfully')
+    isInitialized = true
+  } catch (error) {
+    console.error('❌ Failed to initialize Presence Service:', error)
+    publisher?.disconnect()
+    subscriber?.disconnect()
+    publisher = null
+    subscriber = null
+    throw error
+  }
+}
+
+/**
+ * Broadcast a status change to friends on every API instance. No-op when the status didn't
+ * change; failures are logged since presence pushes ride along on other write paths.
+ */
+const publishPresenceChange = async (
+  userId: string,
+  status: OnlineStatus,
+  previousStatus: OnlineStatus | null
+): Promise<void> => {
+  if (status === previousStatus || !publisher) return
+
+  const change: PresenceChange = {
+    user_id: userId,
+    status,
+    previous_status: previousStatus,
+    changed_at: new Date().toISOString()
+  }
+
+  try {
+    await publisher.publish(PRESENCE_CHANNEL, JSON.stringify(change))
+  } catch (error) {
+    console.error('Failed to publish presence change:', error)
+  }
+}
+
+/**
+ * Open a presence stream for a user. The sender immediately gets a snapshot of their friends'
+ * current statuses, then live changes from friends who share their activity with them.
+ * Returns a function that closes the stream.
+ */
+const openStream = async (viewerId: string, send: PresenceStreamSender): Promise<() => void> => {
+  const friends = await FriendsRepo.getSharingFriends(viewerId)
+  const statuses = await UserProfileRepo.getOnlineStatuses(friends.map(friend => friend.id))
+
+  const refreshFriends = async () => {
+    try {
+      const current = await FriendsRepo.getSharingFriends(viewerId)
+      connection.friendIds = new Set(current.map(friend => friend.id))
+    } catch (error) {
+      console.error('Failed to refresh presence stream friends:', error)
+    }
+  }
+
+  const connection: PresenceConnection = {
+    viewerId,
+    friendIds: new Set(friends.map(friend => friend.id)),
+    send,
+    refreshTimer: setInterval(refreshFriends, FRIEND_REFRESH_INTERVAL_MS)
+  }
+  connections.add(connection)
+
+  send({
+    event: 'snapshot',
+    data: {
+      friends: friends.map(friend => ({
+        user_id: friend.id,
+        email: friend.email,
+        status: statuses.find(status => status.id === friend.id)?.online_status ?? 'offline'
+      }))
+    }
+  })
+
+  return () => {
+    clearInterval(connection.refreshTimer)
+    connections.delete(connection)
+  }
+}
+
+const getConnectionCount = (): number => connections.size
+
+const shutdown = async () => {
+  console.log('🛑 Shutting down Presence Service...')
+
+  for (const connection of connections) {
+    clearInterval(connection.refreshTimer)
+  }
+  connections.clear()
+
+  if (subscriber) {
+    await subscriber.quit()
+    subscriber = null
+  }
+  if (publisher) {
+    await publisher.quit()
+    publisher = null
+  }
+
+  isInitialized = false
+  console.log('✅ Presence Service shut down successfully')
+}
+
+export const PresenceService = {
+  initialize,
+  isAvailable,
+  publishPresenceChange,
+  deliverChange,
+  openStream,
+  getConnectionCount,
+  shutdown
+}
\ No newline at end of file
@@ -1,15 +1,58 @@
-import { ActivityDayRollupRepo, type ActivityUpdate } from '../repos/ActivityDayRollup.js'
+import {
+  ActivityDayRollupRepo,
+  type ActivityStreaks,
+  type ActivityTotal,
+  type ActivityUpdate,
+  type ActivityWriteResult,
+  type HistoryGroupBy,
+  type RollupWriteMode
+} from '../repos/ActivityDayRollup.js'
 import { ApiError } from '../middleware/errorHandler.js'
+import { UserProfileService } from './UserProfileService.js'
+import { FriendFeedService } from './FriendFeedService.js'
+import { ActivityDistributionService } from './ActivityDistributionService.js'
+import { shiftDate } from '../utils/timezone.js'
 import type { Request } from 'express'
 
-const updateActivity = async (req: Request): Promise<ActivityUpdate> => {
-  if (!req.user) {
-    throw new ApiError('User authentication required', 401)
-  }
+const MAX_BATCH_SIZE = 500
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255
+const WRITE_MODES: RollupWriteMode[] = ['set', 'increment']
+const HISTORY_GROUP_BY: HistoryGroupBy[] = ['day', 'week', 'month', 'tag', 'category']
+const DEFAULT_HISTORY_DAYS = 7
+const MAX_HISTORY_DAYS = 366
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
 
-  
-  const { tag_name, duration_minutes, date } = req.body
-  const userId = req.user.id
+export interface ActivityUpdateResult extends ActivityUpdate {
+  total_duration_minutes: number
+  applied: boolean
+}
+
+export interface BatchItemResult {
+  index: number
+  success: boolean
+  data?: ActivityUpdateResult
+  error?: string
+}
+
+export interface BatchUpdateResult {
+  results: BatchItemResult[]
+  succeeded: number
+  failed: number
+}
+
+export interface ActivityHistory {
+  from: string
+  to: string
+  groupBy: HistoryGroupBy
+  totalMinutes: number
+  groups: ActivityTotal[]
+  tags: ActivityTotal[]
+  bestDay: { date: string; totalMinutes: number } | null
+  streak: ActivityStreaks
+}
+
+const parseActivityUpdate = (userId: string, body: any): ActivityUpdate => {
+  const { tag_name, duration_minutes, date, mode = 'set', idempotency_key } = body || {}
 
   if (!tag_name || typeof tag_name !== 'string') {
     throw new ApiError('Valid tag name is required', 400)
@@ -24,27 +67,184 @@ const updateActivity = async (req: Request): Promise<ActivityUpdate> => {
   }
 
   // Validate date format (YYYY-MM-DD)
-  const dateRegex = /^\d{4}-\d{2}-\d{2}$/
-  if (!dateRegex.test(date)) {
+  if (!DATE_REGEX.test(date)) {
     throw new ApiError('Date must be in YYYY-MM-DD format', 400)
   }
 
+  if (!WRITE_MODES.includes(mode)) {
+    throw new ApiError('Mode must be either "set" or "increment"', 400)
+  }
+
+  if (idempotency_key !== undefined && (
+    typeof idempotency_key !== 'string' ||
+    idempotency_key.length === 0 ||
+    idempotency_key.length > MAX_IDEMPOTENCY_KEY_LENGTH
+  )) {
+    throw new ApiError(`Idempotency key must be a non-empty string of at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`, 400)
+  }
+
+  return {
+    user_id: userId,
+    date,
+    tag_name,
+    duration_minutes,
+    mode,
+    idempotency_key
+  }
+}
+
+const toUpdateResult = (update: ActivityUpdate, result: ActivityWriteResult): ActivityUpdateResult => ({
+  ...update,
+  total_duration_minutes: result.activity?.total_duration_minutes ?? 0,
+  applied: result.applied
+})
+
+const updateActivity = async (req: Request): Promise<ActivityUpdateResult> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const update = parseActivityUpdate(req.user.id, req.body)
+
   try {
-    const update: ActivityUpdate = {
-      user_id: userId,
-      date,
-      tag_name,
-      duration_minutes
+    const result = await ActivityDayRollupRepo.upsertActivity(update)
+    if (result.applied) {
+      // Feed events log their own failures and shouldn't hold up the write
+      void FriendFeedService.recordActivityEvents(update.user_id, update.date)
+      await ActivityDistributionService.invalidateDistributions([update.date])
     }
-
-    await ActivityDayRollupRepo.upsertActivity(update)
-    return update
+    return toUpdateResult(update, result)
   } catch (error) {
     console.error('Service error updating activity:', error)
     throw new ApiError('Failed to update activity', 500)
   }
 }
 
+const batchUpdateActivity = async (req: Request): Promise<BatchUpdateResult> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const { updates } = req.body
+
+  if (!Array.isArray(updates) || updates.length === 0) {
+    throw new ApiError('Updates must be a non-empty array', 400)
+  }
+
+  if (updates.length > MAX_BATCH_SIZE) {
+    throw new ApiError(`A batch may contain at most ${MAX_BATCH_SIZE} updates`, 400)
+  }
+
+  const userId = req.user.id
+  const results: BatchItemResult[] = []
+  const validUpdates: Array<{ index: number; update: ActivityUpdate }> = []
+
+  // Validate every item up front so one bad entry doesn't sink the rest of the batch
+  updates.forEach((item: any, index: number) => {
+    try {
+      validUpdates.push({ index, update: parseActivityUpdate(userId, item) })
+    } catch (error) {
+      results.push({
+        index,
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid update'
+      })
+    }
+  })
+
+  if (validUpdates.length > 0) {
+    let writeResults: ActivityWriteResult[]
+    try {
+      writeResults = await ActivityDayRollupRepo.upsertActivities(validUpdates.map(({ update }) => update))
+    } catch (error) {
+      console.error('Service error batch updating activity:', error)
+      throw new ApiError('Failed to update activity batch', 500)
+    }
+
+    validUpdates.forEach(({ index, update }, i) => {
+      results.push({ index, success: true, data: toUpdateResult(update, writeResults[i]!) })
+    })
+
+    const changedDates = new Set(validUpdates.filter((_, i) => writeResults[i]!.applied).map(({ update }) => update.date))
+    void (async () => {
+      for (const date of changedDates) {
+        await FriendFeedService.recordActivityEvents(userId, date)
+      }
+    })()
+    if (changedDates.size > 0) {
+      await ActivityDistributionService.invalidateDistributions([...changedDates])
+    }
+  }
+
+  results.sort((a, b) => a.index - b.index)
+
+  return {
+    results,
+    succeeded: validUpdates.length,
+    failed: results.length - validUpdates.length
+  }
+}
+
+const parseHistoryDate = (value: unknown, name: string): string | undefined => {
+  if (value === undefined) return undefined
+  if (typeof value !== 'string' || !DATE_REGEX.test(value) || isNaN(Date.parse(value))) {
+    throw new ApiError(`${name} must be in YYYY-MM-DD format`, 400)
+  }
+  return value
+}
+
+const getActivityHistory = async (req: Request): Promise<ActivityHistory> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const groupBy = (req.query.groupBy || 'day') as HistoryGroupBy
+  if (!HISTORY_GROUP_BY.includes(groupBy)) {
+    throw new ApiError('groupBy must be one of day, week, month, tag or category', 400)
+  }
+
+  const userId = req.user.id
+  const to = parseHistoryDate(req.query.to, 'to') || await UserProfileService.getUserToday(userId)
+  const from = parseHistoryDate(req.query.from, 'from') || shiftDate(to, -(DEFAULT_HISTORY_DAYS - 1))
+
+  if (from > to) {
+    throw new ApiError('from must be on or before to', 400)
+  }
+
+  if (from < shiftDate(to, -(MAX_HISTORY_DAYS - 1))) {
+    throw new ApiError(`History range cannot exceed ${MAX_HISTORY_DAYS} days`, 400)
+  }
+
+  try {
+    const [groups, tags, bestDay, streak] = await Promise.all([
+      ActivityDayRollupRepo.getUserActivityTotals(userId, from, to, groupBy),
+      groupBy === 'tag'
+        ? Promise.resolve(null)
+        : ActivityDayRollupRepo.getUserActivityTotals(userId, from, to, 'tag'),
+      ActivityDayRollupRepo.getUserBestDay(userId, from, to),
+      ActivityDayRollupRepo.getUserStreaks(userId, to)
+    ])
+
+    const tagTotals = tags || groups
+
+    return {
+      from,
+      to,
+      groupBy,
+      totalMinutes: tagTotals.reduce((sum, tag) => sum + tag.totalMinutes, 0),
+      groups,
+      tags: tagTotals,
+      bestDay,
+      streak
+    }
+  } catch (error) {
+    console.error('Service error fetching activity history:', error)
+    throw new ApiError('Failed to fetch activity history', 500)
+  }
+}
+
 export const RollupService = {
-  updateActivity
-} 
\ No newline at end of file
+  updateActivity,
+  batchUpdateActivity,
+  getActivityHistory
+} 
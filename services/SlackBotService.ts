@@ -1,5 +1,7 @@
-import { SlackRepo } from '../repos/Slack.js'
+import { SlackRepo, type SlackFocusSession, type SlackPreferences, type SlackWorkspace } from '../repos/Slack.js'
 import { SlackOAuthService } from './SlackOAuthService.js'
+import { SlackService } from './SlackService.js'
+import { SlackDigestService, type DeflectedMessageEvent } from './SlackDigestService.js'
 import { ApiError } from '../middleware/errorHandler.js'
 
 interface SlackEvent {
@@ -30,6 +32,9 @@ interface SlackChatResponse {
   error?: string
 }
 
+// The user a workspace's messages are deflected for, with their preferences for that workspace
+type AutoReplyConnection = SlackPreferences & { slack_user_id: string }
+
 interface SlackUserInfo {
   ok: boolean
   user?: {
@@ -58,27 +63,32 @@ const handleMessage = async (teamId: string, event: SlackEvent): Promise<void> =
     return
   }
 
-  // Find the user in our system who might be in a focus session
-  const userConnection = await SlackRepo.getUserConnectionWithPreferences(workspace.id)
+  // Find the user in our system who might be in a focus session, using their preferences
+  // for this workspace so a per-workspace override can switch auto-replies on or off
+  const userConnection = await findAutoReplyConnection(workspace.id)
 
   if (!userConnection) {
     return // No user with auto-reply enabled
   }
 
   // Check if the user is currently in a focus session
-  const isInFocusSession = await checkIfUserInFocusSession(userConnection.user_id)
-  if (!isInFocusSession) {
+  const focusSession = await getCurrentFocusSession(userConnection.user_id)
+  if (!focusSession) {
     return // User not in focus session
   }
 
   // Check if message contains urgent keywords (enhanced with case-insensitive partial matching)
   const messageText = event.text?.toLowerCase() || ''
-  const urgentKeywords = userConnection.urgent_keywords ? 
-    JSON.parse(userConnection.urgent_keywords) : 
-    ['urgent', 'emergency', 'asap', 'important']
+  const urgentKeywords = parseUrgentKeywords(userConnection.urgent_keywords)
 
   const isUrgent = checkForUrgentKeywords(messageText, urgentKeywords)
 
+  // Keep the message for the end-of-session digest, unless it's the user talking. Slack wants the
+  // event acked within 3 seconds, so looking up the sender doesn't hold up the reply
+  if (event.user !== userConnection.slack_user_id) {
+    void recordDeflectedMessage(workspace, event, userConnection.user_id, focusSession.id, isUrgent)
+  }
+
   if (isUrgent) {
     await sendUrgentMessageNotification(workspace, event, userConnection)
     return
@@ -88,6 +98,47 @@ const handleMessage = async (teamId: string, event: SlackEvent): Promise<void> =
   await sendAutoReply(workspace, event, userConnection)
 }
 
+const recordDeflectedMessage = async (
+  workspace: SlackWorkspace,
+  event: SlackEvent,
+  userId: string,
+  focusSessionId: string,
+  urgent: boolean
+): Promise<void> => {
+  try {
+    const sender = await getUserInfo(SlackOAuthService.getDecryptedToken(workspace.bot_token), event.user!)
+    await SlackDigestService.recordDeflectedMessage({
+      userId,
+      focusSessionId,
+      workspace,
+      event: event as DeflectedMessageEvent,
+      senderName: sender?.real_name || sender?.name || null,
+      urgent
+    })
+  } catch (error) {
+    console.error('Failed to record deflected Slack message:', error)
+  }
+}
+
+const findAutoReplyConnection = async (workspaceId: string): Promise<AutoReplyConnection | undefined> => {
+  const connections = await SlackService.getWorkspaceConnectionPreferences(workspaceId)
+  return connections.find(connection => connection.enabled && connection.auto_reply_enabled)
+}
+
+// Keywords come back from JSONB as an array, but the runtime defaults hold them as a JSON string
+const parseUrgentKeywords = (urgentKeywords: unknown): string[] => {
+  if (Array.isArray(urgentKeywords)) return urgentKeywords
+  if (typeof urgentKeywords === 'string') {
+    try {
+      const parsed = JSON.parse(urgentKeywords)
+      if (Array.isArray(parsed)) return parsed
+    } catch {
+      // Fall through to the defaults
+    }
+  }
+  return ['urgent', 'emergency', 'asap', 'important']
+}
+
 const checkForUrgentKeywords = (messageText: string, urgentKeywords: string[]): boolean => {
   // Enhanced urgent keyword matching with:
   // 1. Case-insensitive matching
@@ -146,7 +197,7 @@ const escapeRegex = (string: string): string => {
   return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
 }
 
-const sendAutoReply = async (workspace: any, event: SlackEvent, userConnection: any): Promise<void> => {
+const sendAutoReply = async (workspace: SlackWorkspace, event: SlackEvent, userConnection: AutoReplyConnection): Promise<void> => {
   const botToken = SlackOAuthService.getDecryptedToken(workspace.bot_token)
   
   const autoReplyMessage = userConnection.auto_reply_message || 
@@ -202,7 +253,7 @@ const sendAutoReply = async (workspace: any, event: SlackEvent, userConnection:
   }
 }
 
-const sendUrgentMessageNotification = async (workspace: any, event: SlackEvent, userConnection: any): Promise<void> => {
+const sendUrgentMessageNotification = async (workspace: SlackWorkspace, event: SlackEvent, userConnection: AutoReplyConnection): Promise<void> => {
   // For urgent messages, we might want to send a different type of notification
   // or break through the focus session. For now, we'll log it and potentially 
   // send a modified auto-reply acknowledging the urgency
@@ -258,28 +309,28 @@ const sendUrgentMessageNotification = async (workspace: any, event: SlackEvent,
   }
 }
 
-const checkIfUserInFocusSession = async (userId: string): Promise<boolean> => {
+const getCurrentFocusSession = async (userId: string): Promise<SlackFocusSession | null> => {
   // Check if user has an active focus session using our focus session tracking
   const activeFocusSession = await SlackRepo.getActiveFocusSession(userId)
 
   if (!activeFocusSession) {
-    return false
+    return null
   }
 
-  // Check if session has expired
-  if (activeFocusSession.duration_minutes) {
-    const sessionStart = new Date(activeFocusSession.start_time).getTime()
-    const durationMs = activeFocusSession.duration_minutes * 60 * 1000
-    const now = Date.now()
-    
-    if (now > sessionStart + durationMs) {
-      // Session has expired, mark as inactive
-      await SlackRepo.updateExpiredFocusSession(activeFocusSession.id)
-      return false
-    }
+  // A paused session has lifted DND, so messages get through without an auto-reply
+  if (activeFocusSession.paused_at) {
+    return null
+  }
+
+  // Check if session has expired (time spent paused pushes the end back)
+  const plannedEnd = SlackService.getPlannedEnd(activeFocusSession)
+  if (plannedEnd && Date.now() > plannedEnd.getTime()) {
+    // Session has expired, mark as inactive
+    await SlackService.finishFocusSessions(userId, [activeFocusSession])
+    return null
   }
 
-  return true
+  return activeFocusSession
 }
 
 const getUserInfo = async (botToken: string, userId: string): Promise<any> => {
@@ -27,6 +27,8 @@ const setupEventListeners = (workerInstance: Worker) => {
   })
 }
 
+const isAvailable = (): boolean => isInitialized
+
 const initialize = async () => {
   if (isInitialized) {
     return
@@ -77,5 +79,6 @@ const shutdown = async () => {
 
 export const slackCleanupQueueService = {
   initialize,
+  isAvailable,
   shutdown
 }
\ No newline at end of file
@@ -0,0 +1,241 @@
+import {
+  SlackDeflectedMessageRepo,
+  type DigestSession,
+  type SlackDeflectedMessageWithWorkspace
+} from '../repos/SlackDeflectedMessage.js'
+import { SlackRepo } from '../repos/Slack.js'
+import { SlackOAuthService } from './SlackOAuthService.js'
+import { ApiError } from '../middleware/errorHandler.js'
+import { UUID_REGEX } from '../utils/validation.js'
+
+interface SlackPermalinkResponse {
+  ok: boolean
+  permalink?: string
+  error?: string
+}
+
+interface SlackChatResponse {
+  ok: boolean
+  error?: string
+}
+
+export interface DeflectedMessageEvent {
+  user: string
+  text: string
+  channel: string
+  ts?: string
+  channel_type?: string
+}
+
+export interface FocusSessionDigest {
+  session: DigestSession
+  total: number
+  urgent: number
+  messages: Array<Omit<SlackDeflectedMessageWithWorkspace, 'user_id' | 'focus_session_id'>>
+}
+
+const SNIPPET_LENGTH = 200
+// Slack truncates long messages, so very busy sessions link to the rest instead of listing it
+const MAX_DIGEST_LINES = 20
+
+const toSnippet = (text: string): string => {
+  const collapsed = text.replace(/\s+/g, ' ').trim()
+  return collapsed.length > SNIPPET_LENGTH ? `${collapsed.slice(0, SNIPPET_LENGTH - 1)}…` : collapsed
+}
+
+// Slack's mrkdwn treats &, < and > as control characters
+const escapeMrkdwn = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+const getPermalink = async (botToken: string, channel: string, messageTs: string): Promise<string | null> => {
+  try {
+    const params = new URLSearchParams({ channel, message_ts: messageTs })
+    const response = await fetch(`https://slack.com/api/chat.getPermalink?${params}`, {
+      headers: {
+        'Authorization': `Bearer ${botToken}`
+      }
+    })
+
+    const data = await response.json() as SlackPermalinkResponse
+    if (!data.ok) {
+      throw new Error(data.error || 'Unknown error')
+    }
+    return data.permalink ?? null
+  } catch (error) {
+    console.error('Failed to get Slack message permalink:', error)
+    return null
+  }
+}
+
+/**
+ * Keep a message the bot deflected during a focus session for the end-of-session digest.
+ * This rides along on the auto-reply path, so it makes no Slack calls and failures are logged
+ * rather than thrown.
+ */
+const recordDeflectedMessage = async (params: {
+  userId: string
+  focusSessionId: string
+  workspace: { id: string }
+  event: DeflectedMessageEvent
+  senderName: string | null
+  urgent: boolean
+}): Promise<void> => {
+  const { userId, focusSessionId, workspace, event, senderName, urgent } = params
+  if (!event.ts) return
+
+  try {
+    await SlackDeflectedMessageRepo.recordMessage({
+      user_id: userId,
+      focus_session_id: focusSessionId,
+      workspace_id: workspace.id,
+      sender_slack_id: event.user,
+      sender_name: senderName,
+      channel_id: event.channel,
+      is_direct_message: event.channel_type === 'im',
+      message_ts: event.ts,
+      permalink: null,
+      snippet: toSnippet(event.text),
+      urgent
+    })
+  } catch (error) {
+    console.error('Failed to record deflected Slack message:', error)
+  }
+}
+
+// Only the messages the digest lists need a link. Links are saved so the digest endpoint has them too.
+const addPermalinks = async (botToken: string, messages: SlackDeflectedMessageWithWorkspace[]): Promise<SlackDeflectedMessageWithWorkspace[]> => {
+  const listed = await Promise.all(messages.slice(0, MAX_DIGEST_LINES).map(async message => {
+    if (message.permalink) return message
+
+    const permalink = await getPermalink(botToken, message.channel_id, message.message_ts)
+    if (permalink) {
+      await SlackDeflectedMessageRepo.setPermalink(message.id, permalink)
+        .catch(error => console.error('Failed to save Slack message permalink:', error))
+    }
+    return { ...message, permalink }
+  }))
+
+  return [...listed, ...messages.slice(MAX_DIGEST_LINES)]
+}
+
+const formatDigestMessage = (messages: SlackDeflectedMessageWithWorkspace[]): string => {
+  const count = messages.length === 1 ? '1 message' : `${messages.length} messages`
+  const lines = messages.slice(0, MAX_DIGEST_LINES).map(message => {
+    const sender = `*${escapeMrkdwn(message.sender_name || 'Someone')}*`
+    const where = message.is_direct_message ? 'sent you a DM' : `in <#${message.channel_id}>`
+    const link = message.permalink ? ` <${message.permalink}|Open>` : ''
+    return `• ${message.urgent ? ':rotating_light: ' : ''}${sender} ${where}: "${escapeMrkdwn(message.snippet)}"${link}`
+  })
+
+  if (messages.length > MAX_DIGEST_LINES) {
+    lines.push(`…and ${messages.length - MAX_DIGEST_LINES} more`)
+  }
+
+  return [`While you were focusing, ${count} came in:`, ...lines].join('\n')
+}
+
+/**
+ * DM the user a digest of the messages deflected during an ended session, one DM per workspace
+ * from that workspace's bot. Sent at most once per session; sessions without deflected messages
+ * are claimed without sending anything. If a DM fails the claim is released, so the session isn't
+ * marked as having had its digest, and resolves to false so the caller can retry. Failures are
+ * logged, never thrown.
+ */
+const sendSessionDigest = async (userId: string, focusSessionId: string): Promise<boolean> => {
+  let claimed = false
+  let failed = false
+
+  try {
+    claimed = await SlackDeflectedMessageRepo.claimDigest(userId, focusSessionId)
+    if (!claimed) return true
+
+    const messages = await SlackDeflectedMessageRepo.getSessionMessages(focusSessionId)
+    if (messages.length === 0) return true
+
+    const workspaceIds = [...new Set(messages.map(message => message.workspace_id))]
+    const recipients = await SlackDeflectedMessageRepo.getDigestRecipients(userId, workspaceIds)
+
+    for (const recipient of recipients) {
+      try {
+        const botToken = SlackOAuthService.getDecryptedToken(recipient.bot_token)
+        const workspaceMessages = await addPermalinks(
+          botToken,
+          messages.filter(message => message.workspace_id === recipient.workspace_id)
+        )
+
+        const response = await fetch('https://slack.com/api/chat.postMessage', {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${botToken}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            channel: recipient.slack_user_id,
+            text: formatDigestMessage(workspaceMessages),
+            unfurl_links: false,
+            username: 'Ebb Focus Assistant',
+            icon_emoji: ':brain:'
+          })
+        })
+
+        const data = await response.json() as SlackChatResponse
+        if (!data.ok) {
+          throw new Error(data.error || 'Unknown error')
+        }
+      } catch (error) {
+        failed = true
+        await SlackRepo.createSessionActivity({
+          user_id: userId,
+          activity_type: 'error',
+          slack_workspace_id: recipient.workspace_id,
+          details: JSON.stringify({ action: 'send_digest', focus_session_id: focusSessionId }),
+          success: false,
+          error_message: error instanceof Error ? error.message : 'Unknown error'
+        })
+      }
+    }
+  } catch (error) {
+    failed = true
+    console.error(`Failed to send Slack digest for focus session ${focusSessionId}:`, error)
+  }
+
+  if (claimed && failed) {
+    await SlackDeflectedMessageRepo.releaseDigest(userId, focusSessionId)
+      .catch(error => console.error(`Failed to release Slack digest for focus session ${focusSessionId}:`, error))
+  }
+  return !failed
+}
+
+/**
+ * The messages deflected during a focus session, oldest first. Defaults to the user's most
+ * recent session, so a client can show the digest right after ending one.
+ */
+const getDigest = async (userId: string, focusSessionId?: string): Promise<FocusSessionDigest> => {
+  if (focusSessionId !== undefined && !UUID_REGEX.test(focusSessionId)) {
+    throw new ApiError('Valid focus session ID is required', 400)
+  }
+
+  const session = focusSessionId
+    ? await SlackDeflectedMessageRepo.getUserSession(userId, focusSessionId)
+    : await SlackDeflectedMessageRepo.getLatestSession(userId)
+  if (!session) {
+    throw new ApiError('Focus session not found', 404)
+  }
+
+  const messages = (await SlackDeflectedMessageRepo.getSessionMessages(session.id))
+    .map(({ user_id, focus_session_id, ...message }) => message)
+
+  return {
+    session,
+    total: messages.length,
+    urgent: messages.filter(message => message.urgent).length,
+    messages
+  }
+}
+
+export const SlackDigestService = {
+  recordDeflectedMessage,
+  sendSessionDigest,
+  getDigest
+}
\ No newline at end of file
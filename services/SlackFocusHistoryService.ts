@@ -0,0 +1,145 @@
+import { SlackFocusHistoryRepo, type FocusSessionHistoryEntry } from '../repos/SlackFocusHistory.js'
+import { UserProfileService } from './UserProfileService.js'
+import { ApiError } from '../middleware/errorHandler.js'
+import { encodeCursor, decodeCursor } from '../utils/cursor.js'
+import { getDateInTimeZone, getWeekStart, isValidTimeZone, shiftDate, zonedTimeToUtc } from '../utils/timezone.js'
+import type { Request } from 'express'
+
+const DEFAULT_HISTORY_LIMIT = 20
+const MAX_HISTORY_LIMIT = 100
+const DEFAULT_ANALYTICS_WEEKS = 8
+const MAX_ANALYTICS_WEEKS = 52
+
+export interface FocusSessionPage {
+  sessions: FocusSessionHistoryEntry[]
+  next_cursor: string | null
+}
+
+export interface FocusWeek {
+  week_start: string
+  sessions: number
+  focus_minutes: number
+  interruptions_blocked: number
+  urgent_breakthroughs: number
+}
+
+export interface WorkspaceErrorRate {
+  workspace_id: string
+  team_name: string
+  actions: number
+  errors: number
+  error_rate: number
+}
+
+export interface FocusAnalytics {
+  time_zone: string
+  weeks: FocusWeek[]
+  totals: Omit<FocusWeek, 'week_start'>
+  workspaces: WorkspaceErrorRate[]
+}
+
+const getFocusSessions = async (req: Request): Promise<FocusSessionPage> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const limit = req.query.limit === undefined ? DEFAULT_HISTORY_LIMIT : Number(req.query.limit)
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+    throw new ApiError(`limit must be a whole number between 1 and ${MAX_HISTORY_LIMIT}`, 400)
+  }
+
+  const cursor = req.query.cursor
+  if (cursor !== undefined && typeof cursor !== 'string') {
+    throw new ApiError('Invalid cursor', 400)
+  }
+  const position = cursor ? decodeCursor(cursor) : undefined
+  const before = position && { startTime: position.at, id: position.id }
+
+  try {
+    // One extra row tells us whether there is another page
+    const rows = await SlackFocusHistoryRepo.getFocusSessionsPage(req.user.id, limit + 1, before)
+    const page = rows.slice(0, limit)
+    const lastSession = page[page.length - 1]
+
+    return {
+      sessions: page.map(({ cursor_at, ...session }) => session),
+      next_cursor: rows.length > limit && lastSession ? encodeCursor(lastSession.cursor_at, lastSession.id) : null
+    }
+  } catch (error) {
+    console.error('Service error fetching focus session history:', error)
+    throw new ApiError('Failed to fetch focus session history', 500)
+  }
+}
+
+/**
+ * Weekly focus analytics for the last `weeks` weeks, including the current one. Weeks start on
+ * Monday in the user's timezone (or the `timeZone` query param) and weeks without sessions are
+ * returned as zeros so charts don't need to fill gaps. Error rates cover every Slack action
+ * recorded for a workspace in the same window.
+ */
+const getFocusAnalytics = async (req: Request): Promise<FocusAnalytics> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const weekCount = req.query.weeks === undefined ? DEFAULT_ANALYTICS_WEEKS : Number(req.query.weeks)
+  if (!Number.isInteger(weekCount) || weekCount < 1 || weekCount > MAX_ANALYTICS_WEEKS) {
+    throw new ApiError(`weeks must be a whole number between 1 and ${MAX_ANALYTICS_WEEKS}`, 400)
+  }
+
+  const requestedZone = req.query.timeZone
+  if (requestedZone !== undefined && (typeof requestedZone !== 'string' || !isValidTimeZone(requestedZone))) {
+    throw new ApiError('timeZone must be a valid IANA timezone', 400)
+  }
+
+  try {
+    const timeZone = (requestedZone as string | undefined) ?? await UserProfileService.getUserTimeZone(req.user.id)
+    const firstWeek = shiftDate(getWeekStart(getDateInTimeZone(timeZone)), -7 * (weekCount - 1))
+    const since = zonedTimeToUtc(firstWeek, '00:00', timeZone)
+
+    const [focusRows, replyRows, workspaceRows] = await Promise.all([
+      SlackFocusHistoryRepo.getWeeklyFocus(req.user.id, since, timeZone),
+      SlackFocusHistoryRepo.getWeeklyReplies(req.user.id, since, timeZone),
+      SlackFocusHistoryRepo.getWorkspaceActivity(req.user.id, since)
+    ])
+
+    const focusByWeek = new Map(focusRows.map(row => [row.week_start, row]))
+    const repliesByWeek = new Map(replyRows.map(row => [row.week_start, row]))
+
+    const weeks: FocusWeek[] = []
+    for (let i = 0; i < weekCount; i++) {
+      const weekStart = shiftDate(firstWeek, 7 * i)
+      const focus = focusByWeek.get(weekStart)
+      const replies = repliesByWeek.get(weekStart)
+      weeks.push({
+        week_start: weekStart,
+        sessions: focus?.sessions ?? 0,
+        focus_minutes: focus?.focus_minutes ?? 0,
+        interruptions_blocked: replies?.interruptions_blocked ?? 0,
+        urgent_breakthroughs: replies?.urgent_breakthroughs ?? 0
+      })
+    }
+
+    const totals = weeks.reduce((sum, week) => ({
+      sessions: sum.sessions + week.sessions,
+      focus_minutes: sum.focus_minutes + week.focus_minutes,
+      interruptions_blocked: sum.interruptions_blocked + week.interruptions_blocked,
+      urgent_breakthroughs: sum.urgent_breakthroughs + week.urgent_breakthroughs
+    }), { sessions: 0, focus_minutes: 0, interruptions_blocked: 0, urgent_breakthroughs: 0 })
+
+    const workspaces = workspaceRows.map(row => ({
+      ...row,
+      error_rate: row.actions > 0 ? Math.round((row.errors / row.actions) * 1000) / 1000 : 0
+    }))
+
+    return { time_zone: timeZone, weeks, totals, workspaces }
+  } catch (error) {
+    console.error('Service error fetching focus analytics:', error)
+    throw new ApiError('Failed to fetch focus analytics', 500)
+  }
+}
+
+export const SlackFocusHistoryService = {
+  getFocusSessions,
+  getFocusAnalytics
+}
\ No newline at end of file
@@ -0,0 +1,467 @@
+import { SlackFocusScheduleRepo, type ScheduleRunStatus, type SlackFocusSchedule, type SlackFocusScheduleInput } from '../repos/SlackFocusSchedule.js'
+import { SlackRepo } from '../repos/Slack.js'
+import { SlackService } from './SlackService.js'
+import { JobService } from './JobService.js'
+import { slackCleanupQueueService } from './SlackCleanupQueueService.js'
+import { ApiError } from '../middleware/errorHandler.js'
+import { UUID_REGEX } from '../utils/validation.js'
+import { DEFAULT_TIME_ZONE, getDateInTimeZone, isValidTimeZone, shiftDate, zonedTimeToUtc } from '../utils/timezone.js'
+import { JOB_QUEUES, JOB_TYPES, JOB_PRIORITIES, type SlackScheduledFocusJobData } from '../types/jobs.js'
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/
+const MIN_DURATION_MINUTES = 5
+const MAX_DURATION_MINUTES = 720
+const MAX_TITLE_LENGTH = 100
+// A weekly pattern repeats after 7 days, so a little over a week catches every overlap between two of them
+const CONFLICT_WINDOW_DAYS = 8
+const UPCOMING_OCCURRENCES = 5
+
+export interface ScheduleOccurrence {
+  date: string // local date in the schedule's timezone
+  start: Date
+  end: Date
+}
+
+export interface FocusScheduleWithOccurrences extends SlackFocusSchedule {
+  next_occurrences: ScheduleOccurrence[]
+  skipped_dates: string[]
+}
+
+interface FocusScheduleBody {
+  title?: unknown
+  durationMinutes?: unknown
+  startAt?: unknown
+  daysOfWeek?: unknown
+  startTime?: unknown
+  timeZone?: unknown
+}
+
+// Jobs for a schedule's occurrences are named after it, and so are the sessions they start
+const getScheduleJobId = (scheduleId: string): string => `focus-schedule-${scheduleId}`
+
+const isRecurring = (schedule: Pick<SlackFocusSchedule, 'days_of_week'>): boolean => !!schedule.days_of_week
+
+const toBody = (schedule: SlackFocusSchedule): FocusScheduleBody => ({
+  title: schedule.title,
+  durationMinutes: schedule.duration_minutes,
+  startAt: schedule.start_at ? new Date(schedule.start_at).toISOString() : undefined,
+  daysOfWeek: schedule.days_of_week ?? undefined,
+  startTime: schedule.start_time ? schedule.start_time.slice(0, 5) : undefined,
+  timeZone: schedule.time_zone
+})
+
+const parseScheduleBody = (body: FocusScheduleBody, now: Date): SlackFocusScheduleInput => {
+  const { title, durationMinutes, startAt, daysOfWeek, startTime, timeZone } = body
+
+  if (title !== undefined && title !== null && (typeof title !== 'string' || title.length > MAX_TITLE_LENGTH)) {
+    throw new ApiError(`title must be a string of at most ${MAX_TITLE_LENGTH} characters`, 400)
+  }
+
+  if (!Number.isInteger(durationMinutes) || (durationMinutes as number) < MIN_DURATION_MINUTES || (durationMinutes as number) > MAX_DURATION_MINUTES) {
+    throw new ApiError(`durationMinutes must be a whole number between ${MIN_DURATION_MINUTES} and ${MAX_DURATION_MINUTES}`, 400)
+  }
+
+  const zone = timeZone === undefined ? DEFAULT_TIME_ZONE : timeZone
+  if (typeof zone !== 'string' || !isValidTimeZone(zone)) {
+    throw new ApiError('timeZone must be a valid IANA timezone', 400)
+  }
+
+  const hasPattern = daysOfWeek !== undefined || startTime !== undefined
+  if ((startAt === undefined) === !hasPattern) {
+    throw new ApiError('Provide either startAt for a one-off session or daysOfWeek and startTime for a recurring one', 400)
+  }
+
+  const input = {
+    title: (title as string | null | undefined) ?? null,
+    duration_minutes: durationMinutes as number,
+    time_zone: zone
+  }
+
+  if (startAt !== undefined) {
+    const start = typeof startAt === 'string' ? new Date(startAt) : null
+    if (!start || isNaN(start.getTime())) {
+      throw new ApiError('startAt must be an ISO 8601 timestamp', 400)
+    }
+    if (start <= now) {
+      throw new ApiError('startAt must be in the future', 400)
+    }
+    return { ...input, start_at: start, days_of_week: null, start_time: null }
+  }
+
+  if (!Array.isArray(daysOfWeek) || daysOfWeek.length === 0 || !daysOfWeek.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+    throw new ApiError('daysOfWeek must be a non-empty list of weekdays from 0 (Sunday) to 6 (Saturday)', 400)
+  }
+  if (typeof startTime !== 'string' || !TIME_REGEX.test(startTime)) {
+    throw new ApiError('startTime must be in HH:MM format', 400)
+  }
+
+  return {
+    ...input,
+    start_at: null,
+    days_of_week: [...new Set(daysOfWeek as number[])].sort((a, b) => a - b),
+    start_time: startTime
+  }
+}
+
+/**
+ * Occurrences of a schedule starting in [from, to), leaving out skipped local dates
+ */
+const getOccurrences = (
+  schedule: Pick<SlackFocusSchedule, 'duration_minutes' | 'start_at' | 'days_of_week' | 'start_time' | 'time_zone'>,
+  from: Date,
+  to: Date,
+  skippedDates: Set<string> = new Set()
+): ScheduleOccurrence[] => {
+  const durationMs = schedule.duration_minutes * 60000
+
+  if (!schedule.days_of_week || !schedule.start_time) {
+    const start = new Date(schedule.start_at!)
+    return start >= from && start < to
+      ? [{ date: getDateInTimeZone(schedule.time_zone, start), start, end: new Date(start.getTime() + durationMs) }]
+      : []
+  }
+
+  const occurrences: ScheduleOccurrence[] = []
+  const lastDate = getDateInTimeZone(schedule.time_zone, to)
+  for (let date = shiftDate(getDateInTimeZone(schedule.time_zone, from), -1); date <= lastDate; date = shiftDate(date, 1)) {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay()
+    if (!schedule.days_of_week.includes(weekday) || skippedDates.has(date)) continue
+
+    const start = zonedTimeToUtc(date, schedule.start_time, schedule.time_zone)
+    if (start >= from && start < to) {
+      occurrences.push({ date, start, end: new Date(start.getTime() + durationMs) })
+    }
+  }
+  return occurrences
+}
+
+/**
+ * Find one of the user's other active schedules whose blocks overlap the candidate's
+ */
+const findConflictingSchedule = async (
+  userId: string,
+  candidate: SlackFocusScheduleInput,
+  now: Date,
+  excludeScheduleId?: string
+): Promise<SlackFocusSchedule | undefined> => {
+  const schedules = (await SlackFocusScheduleRepo.getActiveSchedulesForUser(userId))
+    .filter(schedule => schedule.id !== excludeScheduleId)
+
+  for (const schedule of schedules) {
+    // One-off blocks can be far out, so make sure the window reaches them
+    const oneOffStarts = [candidate.start_at, schedule.start_at].filter((start): start is Date => !!start)
+    const windowEnd = new Date(Math.max(
+      now.getTime() + CONFLICT_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+      ...oneOffStarts.map(start => new Date(start).getTime() + 24 * 60 * 60 * 1000)
+    ))
+
+    const existing = getOccurrences(schedule, now, windowEnd)
+    const overlaps = getOccurrences(candidate, now, windowEnd).some(occurrence =>
+      existing.some(other => occurrence.start < other.end && other.start < occurrence.end)
+    )
+    if (overlaps) {
+      return schedule
+    }
+  }
+
+  return undefined
+}
+
+const getOccurrenceJobId = (scheduleId: string, occurrenceDate: string): string => `${getScheduleJobId(scheduleId)}-${occurrenceDate}`
+
+// Every change to a schedule (including a recorded run) bumps updated_at through a trigger
+const getScheduleVersion = (schedule: Pick<SlackFocusSchedule, 'updated_at'>): number => new Date(schedule.updated_at).getTime()
+
+/**
+ * The job for a schedule's next occurrence after now (and after the given local date, if any).
+ * Its id carries the schedule version, so re-queueing never collides with a job the queue kept
+ * from before a change, and the queued job can always be found again from the stored schedule.
+ */
+const getNextOccurrenceJob = (
+  schedule: SlackFocusSchedule,
+  now: Date,
+  afterDate?: string
+): { jobId: string; start: Date; data: SlackScheduledFocusJobData } | null => {
+  // Every weekly pattern has an occurrence within a week; a one-off block only has its own start
+  const windowEnd = isRecurring(schedule)
+    ? new Date(now.getTime() + CONFLICT_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+    : new Date(new Date(schedule.start_at!).getTime() + 1)
+  const next = getOccurrences(schedule, now, windowEnd).find(occurrence => !afterDate || occurrence.date > afterDate)
+  if (!next) return null
+
+  const version = getScheduleVersion(schedule)
+  return {
+    jobId: `${getOccurrenceJobId(schedule.id, next.date)}-${version}`,
+    start: next.start,
+    data: { scheduleId: schedule.id, userId: schedule.user_id, occurrenceDate: next.date, version }
+  }
+}
+
+/**
+ * Remove the job queued for a schedule as it is stored. A job that slips through (e.g. queued
+ * before the schedule changed while the queue was down) is ignored when it runs, see runScheduledOccurrence.
+ */
+const removeScheduleJobs = async (schedule: SlackFocusSchedule, now: Date = new Date()): Promise<void> => {
+  if (!slackCleanupQueueService.isAvailable()) return
+
+  const next = getNextOccurrenceJob(schedule, now)
+  try {
+    await Promise.all([
+      next ? JobService.removeJob(JOB_QUEUES.SLACK_CLEANUP, next.jobId) : Promise.resolve(),
+      // Recurring schedules used to be queued as job schedulers
+      JobService.removeJobScheduler(JOB_QUEUES.SLACK_CLEANUP, getScheduleJobId(schedule.id))
+    ])
+  } catch (error) {
+    console.error(`Failed to remove jobs for focus schedule ${schedule.id}:`, error)
+  }
+}
+
+/**
+ * Make the queue match a schedule: one delayed job for its next occurrence, carrying the
+ * occurrence's local date. Recurring schedules queue the following occurrence each time one
+ * runs. Scheduled starts run on the Slack worker alongside the session cleanups.
+ * Without a running worker this is a no-op and failures are only logged: every schedule is
+ * re-synced when the worker starts.
+ */
+const syncScheduleJobs = async (schedule: SlackFocusSchedule, now: Date = new Date(), afterDate?: string): Promise<void> => {
+  if (!slackCleanupQueueService.isAvailable()) {
+    console.warn(`Slack worker unavailable - focus schedule ${schedule.id} will be queued when it starts`)
+    return
+  }
+
+  // A delayed job can't be moved, so a re-synced schedule replaces it
+  await removeScheduleJobs(schedule, now)
+  if (!schedule.is_active) return
+
+  const next = getNextOccurrenceJob(schedule, now, afterDate)
+  if (!next) return
+
+  try {
+    await JobService.addJob({
+      queue: JOB_QUEUES.SLACK_CLEANUP,
+      jobType: JOB_TYPES.SLACK_SCHEDULED_FOCUS_START,
+      data: next.data,
+      delay: Math.max(next.start.getTime() - now.getTime(), 0),
+      priority: JOB_PRIORITIES.NORMAL,
+      jobId: next.jobId
+    })
+  } catch (error) {
+    console.error(`Failed to schedule jobs for focus schedule ${schedule.id}:`, error)
+  }
+}
+
+/**
+ * Queue the occurrence after the one that just ran, for schedules that are still active.
+ * Failures are only logged, so the job that ran isn't retried because of them.
+ */
+const queueNextOccurrence = async (scheduleId: string, occurrenceDate: string, now: Date = new Date()): Promise<void> => {
+  try {
+    const schedule = await SlackFocusScheduleRepo.getScheduleById(scheduleId)
+    if (schedule && schedule.is_active && isRecurring(schedule)) {
+      await syncScheduleJobs(schedule, now, occurrenceDate)
+    }
+  } catch (error) {
+    console.error(`Failed to queue the next occurrence of focus schedule ${scheduleId}:`, error)
+  }
+}
+
+/**
+ * Re-create the jobs for every active schedule, e.g. after schedules were saved while the
+ * queue was unavailable. One-off blocks whose start has passed are left alone.
+ */
+const syncAllSchedules = async (now: Date = new Date()): Promise<number> => {
+  const schedules = await SlackFocusScheduleRepo.getAllActiveSchedules()
+  const pending = schedules.filter(schedule => isRecurring(schedule) || new Date(schedule.start_at!) > now)
+
+  for (const schedule of pending) {
+    await syncScheduleJobs(schedule)
+  }
+  return pending.length
+}
+
+const withOccurrences = async (schedules: SlackFocusSchedule[], now: Date): Promise<FocusScheduleWithOccurrences[]> => {
+  const skips = await SlackFocusScheduleRepo.getUpcomingSkips(
+    schedules.map(schedule => schedule.id),
+    shiftDate(getDateInTimeZone(DEFAULT_TIME_ZONE, now), -1)
+  )
+
+  return schedules.map(schedule => {
+    const skippedDates = skips
+      .filter(skip => skip.schedule_id === schedule.id)
+      .map(skip => skip.occurrence_date)
+    const horizon = new Date(now.getTime() + 5 * 7 * 24 * 60 * 60 * 1000)
+
+    return {
+      ...schedule,
+      next_occurrences: getOccurrences(schedule, now, horizon, new Set(skippedDates)).slice(0, UPCOMING_OCCURRENCES),
+      skipped_dates: skippedDates
+    }
+  })
+}
+
+const getUserScheduleOrThrow = async (userId: string, scheduleId: string): Promise<SlackFocusSchedule> => {
+  if (!scheduleId || !UUID_REGEX.test(scheduleId)) {
+    throw new ApiError('Valid schedule ID is required', 400)
+  }
+
+  const schedule = await SlackFocusScheduleRepo.getUserSchedule(userId, scheduleId)
+  if (!schedule || !schedule.is_active) {
+    throw new ApiError('Focus schedule not found', 404)
+  }
+  return schedule
+}
+
+const throwIfConflicting = async (userId: string, candidate: SlackFocusScheduleInput, now: Date, excludeScheduleId?: string) => {
+  const conflict = await findConflictingSchedule(userId, candidate, now, excludeScheduleId)
+  if (conflict) {
+    throw new ApiError(`Overlaps with focus schedule ${conflict.title ? `"${conflict.title}"` : conflict.id}`, 409)
+  }
+}
+
+const listSchedules = async (userId: string): Promise<FocusScheduleWithOccurrences[]> => {
+  const schedules = await SlackFocusScheduleRepo.getActiveSchedulesForUser(userId)
+  return withOccurrences(schedules, new Date())
+}
+
+const createSchedule = async (userId: string, body: FocusScheduleBody): Promise<FocusScheduleWithOccurrences> => {
+  const now = new Date()
+  const input = parseScheduleBody(body || {}, now)
+  await throwIfConflicting(userId, input, now)
+
+  const schedule = await SlackFocusScheduleRepo.createSchedule(userId, input)
+  await syncScheduleJobs(schedule)
+
+  const [created] = await withOccurrences([schedule], now)
+  return created!
+}
+
+/**
+ * Update a schedule. Fields left out keep their current values; switching between a one-off
+ * and a recurring block only needs the new timing fields.
+ */
+const updateSchedule = async (userId: string, scheduleId: string, body: FocusScheduleBody): Promise<FocusScheduleWithOccurrences> => {
+  const now = new Date()
+  const existing = await getUserScheduleOrThrow(userId, scheduleId)
+
+  const updates = body || {}
+  const merged: FocusScheduleBody = { ...toBody(existing), ...updates }
+  if (updates.startAt !== undefined) {
+    delete merged.daysOfWeek
+    delete merged.startTime
+  } else if (updates.daysOfWeek !== undefined || updates.startTime !== undefined) {
+    delete merged.startAt
+  }
+
+  const input = parseScheduleBody(merged, now)
+  await throwIfConflicting(userId, input, now, scheduleId)
+
+  // The stored version finds the job queued for the schedule before this change
+  await removeScheduleJobs(existing, now)
+  const schedule = await SlackFocusScheduleRepo.updateSchedule(scheduleId, input)
+  await syncScheduleJobs(schedule)
+
+  const [updated] = await withOccurrences([schedule], now)
+  return updated!
+}
+
+const deleteSchedule = async (userId: string, scheduleId: string): Promise<void> => {
+  const schedule = await getUserScheduleOrThrow(userId, scheduleId)
+  await removeScheduleJobs(schedule)
+  await SlackFocusScheduleRepo.deleteSchedule(scheduleId)
+}
+
+/**
+ * Skip a single upcoming occurrence of a recurring schedule, by its local date
+ */
+const skipOccurrence = async (userId: string, scheduleId: string, date: unknown): Promise<FocusScheduleWithOccurrences> => {
+  if (typeof date !== 'string' || !DATE_REGEX.test(date) || isNaN(Date.parse(date))) {
+    throw new ApiError('date must be in YYYY-MM-DD format', 400)
+  }
+
+  const schedule = await getUserScheduleOrThrow(userId, scheduleId)
+  if (!isRecurring(schedule)) {
+    throw new ApiError('Only recurring schedules can skip an occurrence; delete a one-off schedule instead', 400)
+  }
+
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay()
+  if (!schedule.days_of_week!.includes(weekday)) {
+    throw new ApiError('The schedule has no occurrence on that date', 400)
+  }
+  if (date < getDateInTimeZone(schedule.time_zone)) {
+    throw new ApiError('Cannot skip a past occurrence', 400)
+  }
+
+  await SlackFocusScheduleRepo.addSkip(scheduleId, date)
+
+  const [updated] = await withOccurrences([schedule], new Date())
+  return updated!
+}
+
+/**
+ * Start the focus session for one occurrence of a schedule, by its local date. Skipped occurrences,
+ * disabled Slack preferences and overlaps with a session that is still running are recorded and
+ * left alone. Returns null for a job queued for an older version of the schedule, or for a
+ * schedule that was removed.
+ */
+const runScheduledOccurrence = async (
+  scheduleId: string,
+  occurrenceDate: string,
+  version: number,
+  now: Date = new Date()
+): Promise<ScheduleRunStatus | null> => {
+  const schedule = await SlackFocusScheduleRepo.getScheduleById(scheduleId)
+  if (!schedule || !schedule.is_active || getScheduleVersion(schedule) !== version) {
+    return null
+  }
+
+  const deactivate = !isRecurring(schedule)
+
+  const record = async (status: ScheduleRunStatus): Promise<ScheduleRunStatus> => {
+    await SlackFocusScheduleRepo.recordRun(schedule.id, status, deactivate)
+    return status
+  }
+
+  if (await SlackFocusScheduleRepo.isSkipped(schedule.id, occurrenceDate)) {
+    return record('skipped')
+  }
+
+  const preferences = await SlackRepo.getUserPreferences(schedule.user_id)
+  if (!preferences.enabled) {
+    return record('skipped')
+  }
+
+  // Sessions whose planned end has passed are only waiting on their cleanup job; open-ended
+  // and paused sessions are still running
+  const activeSession = await SlackRepo.getActiveFocusSession(schedule.user_id)
+  const plannedEnd = activeSession ? SlackService.getPlannedEnd(activeSession) : null
+  if (activeSession && (!plannedEnd || plannedEnd > now)) {
+    return record('conflict')
+  }
+
+  try {
+    const result = await SlackService.startFocusSession(
+      schedule.user_id,
+      getOccurrenceJobId(schedule.id, occurrenceDate),
+      schedule.duration_minutes
+    )
+    return record(result.overall_success ? 'started' : 'failed')
+  } catch (error) {
+    console.error(`Failed to start scheduled focus session for schedule ${schedule.id}:`, error)
+    return record('failed')
+  }
+}
+
+export const SlackFocusScheduleService = {
+  getOccurrences,
+  findConflictingSchedule,
+  syncScheduleJobs,
+  syncAllSchedules,
+  listSchedules,
+  createSchedule,
+  updateSchedule,
+  deleteSchedule,
+  skipOccurrence,
+  runScheduledOccurrence,
+  queueNextOccurrence
+}
\ No newline at end of file
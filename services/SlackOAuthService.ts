@@ -182,14 +182,16 @@ const disconnectUserWorkspace = async (userId: string, workspaceId: string): Pro
   await SlackRepo.disconnectUserWorkspace(userId, workspaceId)
 }
 
-const getUserSlackStatus = async (userId: string): Promise<{ connected: boolean, workspaces: any[], preferences: any }> => {
+const getUserSlackStatus = async (userId: string): Promise<{ connected: boolean, workspaces: any[], preferences: any, workspace_preferences: any[] }> => {
   const connections = await SlackRepo.getUserSlackConnections(userId)
   const preferences = await SlackRepo.getUserPreferences(userId)
+  const workspacePreferences = await SlackRepo.getWorkspacePreferenceOverrides(userId)
 
   return {
     connected: connections.length > 0,
     workspaces: connections,
-    preferences
+    preferences,
+    workspace_preferences: workspacePreferences
   }
 }
 
@@ -1,9 +1,21 @@
-import { SlackRepo } from '../repos/Slack.js'
+import {
+  SlackRepo,
+  WORKSPACE_PREFERENCE_FIELDS,
+  type SlackFocusSession,
+  type SlackPreferences,
+  type SlackWorkspacePreferenceOverride,
+  type SlackWorkspacePreferenceUpdates,
+  type WorkspacePreferenceField
+} from '../repos/Slack.js'
 import { SlackOAuthService } from './SlackOAuthService.js'
 import { ApiError } from '../middleware/errorHandler.js'
+import { UUID_REGEX } from '../utils/validation.js'
 import { mapSlackError, shouldRetryError, getRetryDelay, type SlackErrorDetails } from '../utils/slackErrorMapper.js'
 import { JobService } from './JobService.js'
-import { JOB_QUEUES, JOB_TYPES, JOB_PRIORITIES, type SlackCleanupJobData } from '../types/jobs.js'
+import { FriendFeedService } from './FriendFeedService.js'
+import { SlackDigestService } from './SlackDigestService.js'
+import { slackCleanupQueueService } from './SlackCleanupQueueService.js'
+import { JOB_QUEUES, JOB_TYPES, JOB_PRIORITIES, type SlackCleanupJobData, type SlackSessionDigestJobData } from '../types/jobs.js'
 
 interface SlackUserProfile {
   ok: boolean
@@ -44,6 +56,160 @@ interface MultiWorkspaceResponse {
   workspaces: WorkspaceResult[]
 }
 
+interface FocusSessionAdjustment extends MultiWorkspaceResponse {
+  session_id: string
+  duration_minutes?: number
+  paused_at: Date | null
+  paused_seconds: number
+  ends_at: Date | null
+}
+
+type SessionAdjustment = 'extend' | 'pause' | 'resume'
+
+// Each session has at most one pending cleanup job, so extending or pausing can replace it
+const getCleanupJobId = (focusSessionId: string): string => `slack-cleanup-${focusSessionId}`
+// and at most one digest job, so a session ending twice can't queue a second digest
+const getDigestJobId = (focusSessionId: string): string => `slack-digest-${focusSessionId}`
+
+/**
+ * Layer a workspace's overrides over the user's preferences. Fields left null follow the
+ * user-level value.
+ */
+const applyWorkspaceOverride = (preferences: SlackPreferences, override?: SlackWorkspacePreferenceOverride): SlackPreferences => {
+  if (!override) return preferences
+
+  const overridden = WORKSPACE_PREFERENCE_FIELDS
+    .filter(field => override[field] !== null && override[field] !== undefined)
+    .map(field => [field, override[field]])
+  return { ...preferences, ...Object.fromEntries(overridden) }
+}
+
+// Resolves the effective preferences for each of a user's workspaces from a single lookup
+const getWorkspacePreferenceResolver = async (userId: string): Promise<{
+  preferences: SlackPreferences
+  forWorkspace: (workspaceId: string) => SlackPreferences
+}> => {
+  const [preferences, overrides] = await Promise.all([
+    SlackRepo.getUserPreferences(userId),
+    SlackRepo.getWorkspacePreferenceOverrides(userId)
+  ])
+  const overridesByWorkspace = new Map(overrides.map(override => [override.workspace_id, override]))
+
+  return {
+    preferences,
+    forWorkspace: (workspaceId: string) => applyWorkspaceOverride(preferences, overridesByWorkspace.get(workspaceId))
+  }
+}
+
+// Effective preferences for each active connection in a workspace, oldest connection first
+const getWorkspaceConnectionPreferences = async (workspaceId: string): Promise<Array<SlackPreferences & { slack_user_id: string }>> => {
+  const connections = await SlackRepo.getWorkspaceConnectionPreferences(workspaceId)
+  return connections.map(({ slack_user_id, preferences, override }) => ({
+    ...applyWorkspaceOverride(preferences, override),
+    slack_user_id
+  }))
+}
+
+const MAX_STATUS_TEXT_LENGTH = 100
+const MAX_AUTO_REPLY_LENGTH = 1000
+const MAX_URGENT_KEYWORDS = 50
+
+const BOOLEAN_PREFERENCE_FIELDS = ['auto_status_update', 'auto_dnd', 'auto_reply_enabled'] as const
+const TEXT_PREFERENCE_LIMITS = {
+  custom_status_text: MAX_STATUS_TEXT_LENGTH,
+  custom_status_emoji: MAX_STATUS_TEXT_LENGTH,
+  auto_reply_message: MAX_AUTO_REPLY_LENGTH
+} as const
+
+// Every field is optional and null clears the override so the workspace follows the user default
+const parseWorkspacePreferenceUpdates = (body: Record<string, unknown>): SlackWorkspacePreferenceUpdates => {
+  const unknownFields = Object.keys(body).filter(field => !WORKSPACE_PREFERENCE_FIELDS.includes(field as WorkspacePreferenceField))
+  if (unknownFields.length > 0) {
+    throw new ApiError(`Unknown preference fields: ${unknownFields.join(', ')}`, 400)
+  }
+  if (Object.keys(body).length === 0) {
+    throw new ApiError(`Provide at least one of ${WORKSPACE_PREFERENCE_FIELDS.join(', ')}`, 400)
+  }
+
+  const updates: SlackWorkspacePreferenceUpdates = {}
+
+  for (const field of BOOLEAN_PREFERENCE_FIELDS) {
+    const value = body[field]
+    if (value === undefined) continue
+    if (value !== null && typeof value !== 'boolean') {
+      throw new ApiError(`${field} must be a boolean or null`, 400)
+    }
+    updates[field] = value
+  }
+
+  for (const [field, maxLength] of Object.entries(TEXT_PREFERENCE_LIMITS) as Array<[keyof typeof TEXT_PREFERENCE_LIMITS, number]>) {
+    const value = body[field]
+    if (value === undefined) continue
+    if (value !== null && (typeof value !== 'string' || value.trim() === '' || value.length > maxLength)) {
+      throw new ApiError(`${field} must be between 1 and ${maxLength} characters, or null`, 400)
+    }
+    updates[field] = value
+  }
+
+  const keywords = body.urgent_keywords
+  if (keywords !== undefined) {
+    const isKeywordList = Array.isArray(keywords)
+      && keywords.length <= MAX_URGENT_KEYWORDS
+      && keywords.every(keyword => typeof keyword === 'string' && keyword.trim() !== '')
+    if (keywords !== null && !isKeywordList) {
+      throw new ApiError(`urgent_keywords must be a list of at most ${MAX_URGENT_KEYWORDS} non-empty strings, or null`, 400)
+    }
+    updates.urgent_keywords = keywords as string[] | null
+  }
+
+  return updates
+}
+
+/**
+ * Set or clear a user's preference overrides for one of their connected workspaces.
+ * Returns the stored overrides alongside the preferences that now apply in that workspace.
+ */
+const updateWorkspacePreferences = async (
+  userId: string,
+  workspaceId: string | undefined,
+  body: Record<string, unknown>
+): Promise<{ workspace_id: string; overrides: SlackWorkspacePreferenceOverride; preferences: SlackPreferences }> => {
+  if (!workspaceId || !UUID_REGEX.test(workspaceId)) {
+    throw new ApiError('Valid workspace ID is required', 400)
+  }
+
+  const updates = parseWorkspacePreferenceUpdates(body ?? {})
+
+  const connections = await SlackRepo.getAllActiveUserConnections(userId)
+  if (!connections.some(connection => connection.workspace_id === workspaceId)) {
+    throw new ApiError('Slack workspace not connected', 404)
+  }
+
+  const [overrides, userPreferences] = await Promise.all([
+    SlackRepo.upsertWorkspacePreferenceOverride(userId, workspaceId, updates),
+    SlackRepo.getUserPreferences(userId)
+  ])
+
+  return {
+    workspace_id: workspaceId,
+    overrides,
+    preferences: applyWorkspaceOverride(userPreferences, overrides)
+  }
+}
+
+/**
+ * When a session is due to end: its start plus duration, pushed back by the time spent paused.
+ * Null for open-ended sessions and while paused, since a paused session has no end yet.
+ */
+const getPlannedEnd = (
+  session: Pick<SlackFocusSession, 'start_time' | 'duration_minutes' | 'paused_at'> & { paused_seconds?: number }
+): Date | null => {
+  if (!session.duration_minutes || session.paused_at) {
+    return null
+  }
+  return new Date(new Date(session.start_time).getTime() + session.duration_minutes * 60000 + (session.paused_seconds || 0) * 1000)
+}
+
 const setUserStatus = async (userId: string, statusText: string, statusEmoji: string, expiration?: number): Promise<MultiWorkspaceResponse> => {
   const preferences = await SlackRepo.getUserPreferences(userId)
   
@@ -461,7 +627,7 @@ const getDndInfo = async (userId: string): Promise<any> => {
 }
 
 const startFocusSession = async (userId: string, sessionId?: string, durationMinutes?: number): Promise<MultiWorkspaceResponse> => {
-  const preferences = await SlackRepo.getUserPreferences(userId)
+  const { forWorkspace } = await getWorkspacePreferenceResolver(userId)
   
   const connections = await SlackRepo.getAllActiveUserConnections(userId)
   
@@ -492,6 +658,8 @@ const startFocusSession = async (userId: string, sessionId?: string, durationMin
       dnd_enabled: false
     }
 
+    const preferences = forWorkspace(connection.workspace_id)
+
     try {
       const token = SlackOAuthService.getDecryptedToken(connection.access_token)
 
@@ -619,7 +787,8 @@ const startFocusSession = async (userId: string, sessionId?: string, durationMin
             userId
           } as SlackCleanupJobData,
           delay: cleanupDelay,
-          priority: JOB_PRIORITIES.NORMAL
+          priority: JOB_PRIORITIES.NORMAL,
+          jobId: getCleanupJobId(focusSession.id)
         })
       } catch (error) {
         console.error('Failed to schedule Slack cleanup job:', error)
@@ -634,8 +803,46 @@ const startFocusSession = async (userId: string, sessionId?: string, durationMin
   }
 }
 
+/**
+ * Send a session's digest from the Slack worker, which retries it if a DM fails. This runs
+ * while handling requests and Slack events, so the digest's Slack calls never hold them up.
+ * Without a running worker the digest is sent in the background instead, without retries.
+ */
+const queueSessionDigest = async (userId: string, focusSessionId: string): Promise<void> => {
+  if (slackCleanupQueueService.isAvailable()) {
+    try {
+      await JobService.addJob({
+        queue: JOB_QUEUES.SLACK_CLEANUP,
+        jobType: JOB_TYPES.SLACK_SESSION_DIGEST,
+        data: { userId, focusSessionId } as SlackSessionDigestJobData,
+        priority: JOB_PRIORITIES.NORMAL,
+        jobId: getDigestJobId(focusSessionId)
+      })
+      return
+    } catch (error) {
+      console.error(`Failed to queue Slack digest for focus session ${focusSessionId}:`, error)
+    }
+  }
+
+  void SlackDigestService.sendSessionDigest(userId, focusSessionId)
+}
+
+/**
+ * Mark focus sessions as ended. Every way a session ends (ending it by hand, the cleanup job,
+ * the bot noticing it expired) comes through here, so each ended session gets its feed event
+ * and digest exactly once.
+ */
+const finishFocusSessions = async (userId: string, sessions: SlackFocusSession[]): Promise<void> => {
+  const ended = await SlackRepo.endFocusSessions(userId, sessions.map(session => session.id))
+
+  for (const session of ended) {
+    await FriendFeedService.recordFocusSessionFinished(userId, session, new Date(session.end_time!))
+    await queueSessionDigest(userId, session.id)
+  }
+}
+
 const endFocusSession = async (userId: string): Promise<MultiWorkspaceResponse> => {
-  const preferences = await SlackRepo.getUserPreferences(userId)
+  const { preferences, forWorkspace } = await getWorkspacePreferenceResolver(userId)
   
   if (!preferences.enabled) {
     return {
@@ -667,12 +874,13 @@ const endFocusSession = async (userId: string): Promise<MultiWorkspaceResponse>
         status_updated: false,
         dnd_enabled: false
       }
+      const workspacePreferences = forWorkspace(sessionWorkspace.workspace_id)
 
       try {
         const token = SlackOAuthService.getDecryptedToken(sessionWorkspace.access_token)
 
         // Clear status if it was set during session
-        if (sessionWorkspace.status_updated && preferences.auto_status_update) {
+        if (sessionWorkspace.status_updated && workspacePreferences.auto_status_update) {
           await executeWithRetry(async () => {
             const response = await fetch('https://slack.com/api/users.profile.set', {
               method: 'POST',
@@ -700,7 +908,7 @@ const endFocusSession = async (userId: string): Promise<MultiWorkspaceResponse>
         }
 
         // Disable DND if it was enabled during session
-        if (sessionWorkspace.dnd_enabled && preferences.auto_dnd) {
+        if (sessionWorkspace.dnd_enabled && workspacePreferences.auto_dnd) {
           await executeWithRetry(async () => {
             const response = await fetch('https://slack.com/api/dnd.endSnooze', {
               method: 'POST',
@@ -764,7 +972,7 @@ const endFocusSession = async (userId: string): Promise<MultiWorkspaceResponse>
   }
 
   // Mark all sessions as ended
-  await SlackRepo.endAllActiveFocusSessions(userId)
+  await finishFocusSessions(userId, activeSessions)
 
   const overallSuccess = workspaceResults.length === 0 || workspaceResults.some(w => w.success)
 
@@ -875,6 +1083,253 @@ const executeWithRetry = async <T>(
   throw lastError!
 }
 
+const setWorkspaceStatus = async (token: string, statusText: string, statusEmoji: string, expiration: number): Promise<void> => {
+  await executeWithRetry(async () => {
+    const response = await fetch('https://slack.com/api/users.profile.set', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        profile: {
+          status_text: statusText,
+          status_emoji: statusEmoji,
+          status_expiration: expiration
+        }
+      })
+    })
+
+    const data = await response.json() as SlackUserProfile
+    if (!data.ok) {
+      throw new Error(data.error || 'Unknown error')
+    }
+  })
+}
+
+const setWorkspaceSnooze = async (token: string, minutes: number): Promise<void> => {
+  await executeWithRetry(async () => {
+    const response = await fetch('https://slack.com/api/dnd.setSnooze', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({
+        num_minutes: minutes.toString()
+      })
+    })
+
+    const data = await response.json() as SlackDndResponse
+    if (!data.ok) {
+      throw new Error(data.error || 'Unknown error')
+    }
+  })
+}
+
+const endWorkspaceSnooze = async (token: string): Promise<void> => {
+  await executeWithRetry(async () => {
+    const response = await fetch('https://slack.com/api/dnd.endSnooze', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      }
+    })
+
+    const data = await response.json() as SlackDndResponse
+    if (!data.ok) {
+      throw new Error(data.error || 'Unknown error')
+    }
+  })
+}
+
+/**
+ * Bring the status and DND snooze the session set in each workspace in line with its new
+ * timing: lifted while paused, otherwise running until the planned end
+ */
+const adjustSessionWorkspaces = async (
+  userId: string,
+  session: SlackFocusSession,
+  action: SessionAdjustment,
+  remainingMinutes: number | null
+): Promise<WorkspaceResult[]> => {
+  const { forWorkspace } = await getWorkspacePreferenceResolver(userId)
+  const sessionWorkspaces = await SlackRepo.getFocusSessionWorkspaces(session.id, userId)
+  const expiration = remainingMinutes ? Math.floor(Date.now() / 1000) + remainingMinutes * 60 : 0
+
+  const workspaceResults: WorkspaceResult[] = []
+
+  for (const sessionWorkspace of sessionWorkspaces) {
+    const workspaceResult: WorkspaceResult = {
+      team_name: sessionWorkspace.team_name,
+      workspace_id: sessionWorkspace.workspace_id,
+      success: true,
+      status_updated: false,
+      dnd_enabled: false
+    }
+    const preferences = forWorkspace(sessionWorkspace.workspace_id)
+
+    try {
+      const token = SlackOAuthService.getDecryptedToken(sessionWorkspace.access_token)
+
+      if (sessionWorkspace.status_updated && preferences.auto_status_update) {
+        if (action === 'pause') {
+          await setWorkspaceStatus(token, '', '', 0)
+        } else {
+          const statusText = preferences.custom_status_text || 'Focusing with Ebb'
+          const statusEmoji = preferences.custom_status_emoji || ':brain:'
+          await setWorkspaceStatus(token, statusText, statusEmoji, expiration)
+        }
+        workspaceResult.status_updated = true
+
+        await logActivity(userId, action === 'pause' ? 'status_cleared' : 'status_set', sessionWorkspace.workspace_id, {
+          session_id: session.session_id,
+          action,
+          expiration
+        })
+      }
+
+      if (sessionWorkspace.dnd_enabled && preferences.auto_dnd && (action === 'pause' || remainingMinutes)) {
+        if (action === 'pause') {
+          await endWorkspaceSnooze(token)
+        } else {
+          await setWorkspaceSnooze(token, remainingMinutes!)
+        }
+        workspaceResult.dnd_enabled = true
+
+        await logActivity(userId, action === 'pause' ? 'dnd_disabled' : 'dnd_enabled', sessionWorkspace.workspace_id, {
+          session_id: session.session_id,
+          action,
+          duration_minutes: remainingMinutes
+        })
+      }
+    } catch (error) {
+      workspaceResult.success = false
+      const slackError = error instanceof Error ? error.message : 'Unknown error'
+      workspaceResult.error = mapSlackError(slackError)
+
+      await logActivity(
+        userId,
+        'error',
+        sessionWorkspace.workspace_id,
+        { session_id: session.session_id, action: `${action}_focus_session` },
+        false,
+        slackError
+      )
+    }
+
+    workspaceResults.push(workspaceResult)
+  }
+
+  return workspaceResults
+}
+
+/**
+ * Replace the session's pending cleanup job: due at the planned end, or none while paused.
+ * Like at session start, a queue failure doesn't fail the request.
+ */
+const rescheduleCleanup = async (userId: string, session: SlackFocusSession, plannedEnd: Date | null): Promise<void> => {
+  const jobId = getCleanupJobId(session.id)
+
+  try {
+    await JobService.removeJob(JOB_QUEUES.SLACK_CLEANUP, jobId)
+
+    if (plannedEnd) {
+      await JobService.addJob({
+        queue: JOB_QUEUES.SLACK_CLEANUP,
+        jobType: JOB_TYPES.SLACK_CLEANUP_DND,
+        data: {
+          sessionId: session.session_id,
+          userId
+        } as SlackCleanupJobData,
+        delay: Math.max(plannedEnd.getTime() - Date.now(), 0),
+        priority: JOB_PRIORITIES.NORMAL,
+        jobId
+      })
+    }
+  } catch (error) {
+    console.error('Failed to reschedule Slack cleanup job:', error)
+  }
+}
+
+const toAdjustment = (session: SlackFocusSession, workspaces: WorkspaceResult[]): FocusSessionAdjustment => ({
+  overall_success: workspaces.length === 0 || workspaces.some(w => w.success),
+  workspaces,
+  session_id: session.session_id,
+  duration_minutes: session.duration_minutes,
+  paused_at: session.paused_at ?? null,
+  paused_seconds: session.paused_seconds,
+  ends_at: getPlannedEnd(session)
+})
+
+const getActiveSessionOrThrow = async (userId: string): Promise<SlackFocusSession> => {
+  const session = await SlackRepo.getActiveFocusSession(userId)
+  if (!session) {
+    throw new ApiError('No active focus sessions found', 404)
+  }
+  return session
+}
+
+// Minutes left until the planned end, rounded up so Slack never lifts DND early
+const getRemainingMinutes = (plannedEnd: Date | null): number | null => {
+  return plannedEnd ? Math.max(Math.ceil((plannedEnd.getTime() - Date.now()) / 60000), 1) : null
+}
+
+/**
+ * Add minutes to the active session. A paused session only has its duration changed;
+ * Slack catches up when it resumes.
+ */
+const extendFocusSession = async (userId: string, minutes: number): Promise<FocusSessionAdjustment> => {
+  const session = await getActiveSessionOrThrow(userId)
+  if (!session.duration_minutes) {
+    throw new ApiError('Focus session has no planned end to extend', 400)
+  }
+
+  const extended = await SlackRepo.extendFocusSession(session.id, minutes)
+  if (!extended) {
+    throw new ApiError('No active focus sessions found', 404)
+  }
+  if (extended.paused_at) {
+    return toAdjustment(extended, [])
+  }
+
+  const plannedEnd = getPlannedEnd(extended)
+  const workspaces = await adjustSessionWorkspaces(userId, extended, 'extend', getRemainingMinutes(plannedEnd))
+  await rescheduleCleanup(userId, extended, plannedEnd)
+
+  return toAdjustment(extended, workspaces)
+}
+
+const pauseFocusSession = async (userId: string): Promise<FocusSessionAdjustment> => {
+  const session = await getActiveSessionOrThrow(userId)
+
+  const paused = await SlackRepo.pauseFocusSession(session.id, new Date())
+  if (!paused) {
+    throw new ApiError('Focus session is already paused', 409)
+  }
+
+  const workspaces = await adjustSessionWorkspaces(userId, paused, 'pause', null)
+  await rescheduleCleanup(userId, paused, null)
+
+  return toAdjustment(paused, workspaces)
+}
+
+const resumeFocusSession = async (userId: string): Promise<FocusSessionAdjustment> => {
+  const session = await getActiveSessionOrThrow(userId)
+
+  const resumed = await SlackRepo.resumeFocusSession(session.id, new Date())
+  if (!resumed) {
+    throw new ApiError('Focus session is not paused', 409)
+  }
+
+  const plannedEnd = getPlannedEnd(resumed)
+  const workspaces = await adjustSessionWorkspaces(userId, resumed, 'resume', getRemainingMinutes(plannedEnd))
+  await rescheduleCleanup(userId, resumed, plannedEnd)
+
+  return toAdjustment(resumed, workspaces)
+}
+
 const cleanupExpiredFocusSession = async (sessionId: string, userId: string): Promise<void> => {
   try {
     // Find the focus session
@@ -885,11 +1340,15 @@ const cleanupExpiredFocusSession = async (sessionId: string, userId: string): Pr
       return
     }
 
-    // Check if session has expired (duration + some buffer)
-    const sessionStart = new Date(focusSession.start_time).getTime()
-    const durationMs = (focusSession.duration_minutes || 0) * 60 * 1000
+    // Paused sessions have their cleanup rescheduled on resume
+    if (focusSession.paused_at) {
+      console.log(`Focus session ${sessionId} is paused`)
+      return
+    }
+
+    // Check if session has expired (duration + time spent paused + some buffer)
+    const expiredTime = getPlannedEnd(focusSession)?.getTime() ?? new Date(focusSession.start_time).getTime()
     const now = Date.now()
-    const expiredTime = sessionStart + durationMs
 
     if (now < expiredTime - 60000) { // 1 minute buffer
       console.log(`Focus session ${sessionId} has not expired yet`)
@@ -902,7 +1361,7 @@ const cleanupExpiredFocusSession = async (sessionId: string, userId: string): Pr
     const sessionWorkspaces = await SlackRepo.getFocusSessionWorkspaces(focusSession.id, userId)
 
     // Get user preferences
-    const preferences = await SlackRepo.getUserPreferences(userId)
+    const { preferences, forWorkspace } = await getWorkspacePreferenceResolver(userId)
     
     if (!preferences.enabled) {
       return
@@ -910,11 +1369,13 @@ const cleanupExpiredFocusSession = async (sessionId: string, userId: string): Pr
 
     // Clean up each workspace
     for (const sessionWorkspace of sessionWorkspaces) {
+      const workspacePreferences = forWorkspace(sessionWorkspace.workspace_id)
+
       try {
         const token = SlackOAuthService.getDecryptedToken(sessionWorkspace.access_token)
 
         // Clear status if it was set during session
-        if (sessionWorkspace.status_updated && preferences.auto_status_update) {
+        if (sessionWorkspace.status_updated && workspacePreferences.auto_status_update) {
           await executeWithRetry(async () => {
             const response = await fetch('https://slack.com/api/users.profile.set', {
               method: 'POST',
@@ -945,7 +1406,7 @@ const cleanupExpiredFocusSession = async (sessionId: string, userId: string): Pr
         }
 
         // Disable DND if it was enabled during session
-        if (sessionWorkspace.dnd_enabled && preferences.auto_dnd) {
+        if (sessionWorkspace.dnd_enabled && workspacePreferences.auto_dnd) {
           await executeWithRetry(async () => {
             const response = await fetch('https://slack.com/api/dnd.endSnooze', {
               method: 'POST',
@@ -985,10 +1446,7 @@ const cleanupExpiredFocusSession = async (sessionId: string, userId: string): Pr
     }
 
     // Mark session as ended
-    await SlackRepo.updateFocusSession(focusSession.id, {
-      is_active: false,
-      end_time: new Date()
-    })
+    await finishFocusSessions(userId, [focusSession])
 
     console.log(`Successfully cleaned up expired focus session ${sessionId}`)
 
@@ -1006,6 +1464,13 @@ export const SlackService = {
   getDndInfo,
   startFocusSession,
   endFocusSession,
+  finishFocusSessions,
   getFocusSessionStatus,
+  extendFocusSession,
+  pauseFocusSession,
+  resumeFocusSession,
+  getPlannedEnd,
+  getWorkspaceConnectionPreferences,
+  updateWorkspacePreferences,
   cleanupExpiredFocusSession
 }
\ No newline at end of file
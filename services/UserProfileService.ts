@@ -1,13 +1,35 @@
 import { UserProfileRepo } from '../repos/UserProfile'
-import type { Location, StatusCount, UserProfile } from '../repos/UserProfile'
+import type { Location, OnlineStatus, StatusCount, UserProfile } from '../repos/UserProfile'
 import { ApiError } from '../middleware/errorHandler'
 import { GeoLocationService } from './GeoLocationService'
+import { PresenceService } from './PresenceService'
+import { DEFAULT_TIME_ZONE, getDateInTimeZone, isValidTimeZone } from '../utils/timezone'
 import type { Request } from 'express'
 
 type StatusCountsObject = {
   [key: string]: number
 }
 
+export const ONLINE_STATUSES: OnlineStatus[] = ['online', 'active', 'flowing', 'offline']
+
+const MAX_APP_VERSION_LENGTH = 50
+
+// A user coming back from offline has to check in before they can be flowing,
+// so friends never see someone jump straight from offline into a flow
+const ALLOWED_TRANSITIONS: Record<OnlineStatus, OnlineStatus[]> = {
+  offline: ['offline', 'online', 'active'],
+  online: ONLINE_STATUSES,
+  active: ONLINE_STATUSES,
+  flowing: ONLINE_STATUSES
+}
+
+export interface PresenceCheckIn {
+  status: OnlineStatus
+  previous_status: OnlineStatus | null
+  last_check_in: Date
+  app_version: string | null
+}
+
 const getUserStatusCounts = async (): Promise<StatusCountsObject> => {
   try {
     const statusCounts = await UserProfileRepo.getUserStatusCounts()
@@ -37,7 +59,13 @@ const saveUserLocation = async (req: Request): Promise<void> => {
   const userId = req.user.id
   const clientIP = GeoLocationService.getClientIP(req)
   const userLocation = await GeoLocationService.getLocationByIP(clientIP)
+  const previousProfile = await UserProfileRepo.getUserProfile(userId)
   await UserProfileRepo.saveUserLocation(userId, userLocation)
+
+  // Saving a location marks the user online
+  if (previousProfile) {
+    await PresenceService.publishPresenceChange(userId, 'online', previousProfile.online_status)
+  }
 }
 
 const getUserLocations = async (): Promise<Location[]> => {
@@ -50,9 +78,97 @@ const getUserProfile = async (userId: string): Promise<UserProfile | undefined>
   return userProfile
 }
 
+const getUserTimeZone = async (userId: string): Promise<string> => {
+  const timeZone = await UserProfileRepo.getUserTimeZone(userId)
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in the user's stored timezone, falling back to UTC
+ */
+const getUserToday = async (userId: string): Promise<string> => {
+  const timeZone = await getUserTimeZone(userId)
+  return getDateInTimeZone(timeZone)
+}
+
+const updateUserTimeZone = async (req: Request): Promise<{ timezone: string }> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const { timezone } = req.body
+  if (!timezone || typeof timezone !== 'string' || !isValidTimeZone(timezone)) {
+    throw new ApiError('A valid IANA timezone is required', 400)
+  }
+
+  await UserProfileRepo.updateUserTimeZone(req.user.id, timezone)
+  return { timezone }
+}
+
+/**
+ * Client heartbeat: records the user's status, check-in time and app version, and
+ * broadcasts status changes to friends' presence streams
+ */
+const checkIn = async (req: Request): Promise<PresenceCheckIn> => {
+  if (!req.user) {
+    throw new ApiError('User authentication required', 401)
+  }
+
+  const { status, app_version: appVersion } = req.body || {}
+  if (!ONLINE_STATUSES.includes(status)) {
+    throw new ApiError(`status must be one of ${ONLINE_STATUSES.join(', ')}`, 400)
+  }
+  if (appVersion !== undefined && (typeof appVersion !== 'string' || !appVersion.trim() || appVersion.length > MAX_APP_VERSION_LENGTH)) {
+    throw new ApiError(`app_version must be a non-empty string of at most ${MAX_APP_VERSION_LENGTH} characters`, 400)
+  }
+
+  const userId = req.user.id
+  let profile: UserProfile | null
+  let previousStatus: OnlineStatus | null
+  try {
+    const current = await UserProfileRepo.getUserProfile(userId)
+    previousStatus = current?.online_status ?? null
+
+    // A user without a profile hasn't checked in yet, so they start out offline
+    const fromStatus = previousStatus ?? 'offline'
+    if (!ALLOWED_TRANSITIONS[fromStatus].includes(status)) {
+      throw new ApiError(`Cannot change status from ${fromStatus} to ${status}`, 409)
+    }
+
+    profile = await UserProfileRepo.updatePresence(
+      userId,
+      { online_status: status, ...(appVersion !== undefined && { version: appVersion.trim() }) },
+      previousStatus
+    )
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error
+    }
+    console.error('Service error recording presence check-in:', error)
+    throw new ApiError('Failed to record presence', 500)
+  }
+
+  if (!profile) {
+    throw new ApiError('Status changed during check-in, please retry', 409)
+  }
+
+  await PresenceService.publishPresenceChange(userId, status, previousStatus)
+
+  return {
+    status: profile.online_status,
+    previous_status: previousStatus,
+    last_check_in: profile.last_check_in,
+    app_version: profile.version
+  }
+}
+
 export const UserProfileService = {
   getUserStatusCounts,
   saveUserLocation,
   getUserLocations,
-  getUserProfile
+  getUserProfile,
+  getUserTimeZone,
+  getUserToday,
+  updateUserTimeZone,
+  checkIn
 } 
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { PresenceService, type PresenceStreamEvent } from '../PresenceService'
+import { FriendsRepo } from '../../repos/Friends'
+import { UserProfileRepo, type OnlineStatus } from '../../repos/UserProfile'
+
+describe('PresenceService', () => {
+  let originalGetSharingFriends: typeof FriendsRepo.getSharingFriends
+  let originalGetOnlineStatuses: typeof UserProfileRepo.getOnlineStatuses
+  let closeStream: (() => void) | null = null
+
+  const change = (userId: string, status: OnlineStatus, previousStatus: OnlineStatus | null) => ({
+    user_id: userId,
+    status,
+    previous_status: previousStatus,
+    changed_at: new Date().toISOString()
+  })
+
+  beforeEach(() => {
+    originalGetSharingFriends = FriendsRepo.getSharingFriends
+    originalGetOnlineStatuses = UserProfileRepo.getOnlineStatuses
+
+    FriendsRepo.getSharingFriends = async () => [
+      { id: 'friend-1', email: 'friend1@example.com' },
+      { id: 'friend-2', email: 'friend2@example.com' }
+    ]
+    UserProfileRepo.getOnlineStatuses = async () => [
+      { id: 'friend-1', online_status: 'active' }
+    ]
+  })
+
+  afterEach(() => {
+    closeStream?.()
+    closeStream = null
+    FriendsRepo.getSharingFriends = originalGetSharingFriends
+    UserProfileRepo.getOnlineStatuses = originalGetOnlineStatuses
+  })
+
+  it('should send a snapshot of friends\' statuses when a stream opens', async () => {
+    const events: PresenceStreamEvent[] = []
+    closeStream = await PresenceService.openStream('viewer', event => events.push(event))
+
+    expect(events).toEqual([{
+      event: 'snapshot',
+      data: {
+        friends: [
+          { user_id: 'friend-1', email: 'friend1@example.com', status: 'active' },
+          { user_id: 'friend-2', email: 'friend2@example.com', status: 'offline' }
+        ]
+      }
+    }])
+  })
+
+  it('should only deliver changes from the viewer\'s friends', async () => {
+    const events: PresenceStreamEvent[] = []
+    closeStream = await PresenceService.openStream('viewer', event => events.push(event))
+    events.length = 0
+
+    expect(PresenceService.deliverChange(change('stranger', 'online', 'offline'))).toBe(0)
+    expect(PresenceService.deliverChange(change('friend-2', 'online', 'offline'))).toBe(1)
+
+    expect(events.map(event => event.event)).toEqual(['presence'])
+    expect(events[0]!.data).toMatchObject({ user_id: 'friend-2', status: 'online' })
+  })
+
+  it('should add a flowing_started event when a friend starts flowing', async () => {
+    const events: PresenceStreamEvent[] = []
+    closeStream = await PresenceService.openStream('viewer', event => events.push(event))
+    events.length = 0
+
+    PresenceService.deliverChange(change('friend-1', 'flowing', 'active'))
+
+    expect(events.map(event => event.event)).toEqual(['presence', 'flowing_started'])
+  })
+
+  it('should stop delivering once the stream is closed', async () => {
+    const events: PresenceStreamEvent[] = []
+    const close = await PresenceService.openStream('viewer', event => events.push(event))
+    expect(PresenceService.getConnectionCount()).toBe(1)
+
+    close()
+
+    expect(PresenceService.getConnectionCount()).toBe(0)
+    expect(PresenceService.deliverChange(change('friend-1', 'online', 'offline'))).toBe(0)
+  })
+})
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { SlackDigestService } from '../SlackDigestService'
+import { SlackDeflectedMessageRepo, type SlackDeflectedMessageInput, type SlackDeflectedMessageWithWorkspace } from '../../repos/SlackDeflectedMessage'
+import { SlackRepo } from '../../repos/Slack'
+import { SlackOAuthService } from '../SlackOAuthService'
+
+describe('SlackDigestService', () => {
+  let originals: any
+  let slackCalls: Array<{ method: string; token: string; body: any }>
+  let recorded: SlackDeflectedMessageInput[]
+  let messages: SlackDeflectedMessageWithWorkspace[]
+  let claimed: boolean
+  let released: string[]
+  let savedPermalinks: Array<{ messageId: string; permalink: string }>
+  let activities: any[]
+
+  const message = (overrides: Partial<SlackDeflectedMessageWithWorkspace>): SlackDeflectedMessageWithWorkspace => ({
+    id: 'message-1',
+    user_id: 'user-1',
+    focus_session_id: 'session-1',
+    workspace_id: 'workspace-1',
+    team_name: 'Acme',
+    sender_slack_id: 'U1',
+    sender_name: 'Jane Doe',
+    channel_id: 'D1',
+    is_direct_message: true,
+    message_ts: '1700000000.000100',
+    permalink: 'https://acme.slack.com/archives/D1/p1700000000000100',
+    snippet: 'Got a minute?',
+    urgent: false,
+    created_at: new Date(),
+    ...overrides
+  })
+
+  beforeEach(() => {
+    originals = {
+      fetch: globalThis.fetch,
+      recordMessage: SlackDeflectedMessageRepo.recordMessage,
+      claimDigest: SlackDeflectedMessageRepo.claimDigest,
+      releaseDigest: SlackDeflectedMessageRepo.releaseDigest,
+      setPermalink: SlackDeflectedMessageRepo.setPermalink,
+      getSessionMessages: SlackDeflectedMessageRepo.getSessionMessages,
+      getDigestRecipients: SlackDeflectedMessageRepo.getDigestRecipients,
+      createSessionActivity: SlackRepo.createSessionActivity,
+      getDecryptedToken: SlackOAuthService.getDecryptedToken
+    }
+    slackCalls = []
+    recorded = []
+    messages = []
+    claimed = true
+    released = []
+    savedPermalinks = []
+    activities = []
+
+    globalThis.fetch = (async (url: string, init: any) => {
+      const method = url.split('/').pop()!.split('?')[0]!
+      slackCalls.push({ method, token: init.headers.Authorization, body: init.body ? JSON.parse(init.body) : undefined })
+      if (method === 'chat.getPermalink') {
+        return new Response(JSON.stringify({ ok: true, permalink: 'https://acme.slack.com/archives/C1/p1' }))
+      }
+      return new Response(JSON.stringify({ ok: true }))
+    }) as any
+
+    SlackDeflectedMessageRepo.recordMessage = async (input) => {
+      recorded.push(input)
+    }
+    SlackDeflectedMessageRepo.claimDigest = async () => claimed
+    SlackDeflectedMessageRepo.releaseDigest = async (_userId, focusSessionId) => {
+      released.push(focusSessionId)
+    }
+    SlackDeflectedMessageRepo.setPermalink = async (messageId, permalink) => {
+      savedPermalinks.push({ messageId, permalink })
+    }
+    SlackDeflectedMessageRepo.getSessionMessages = async () => messages
+    SlackDeflectedMessageRepo.getDigestRecipients = async (_userId, workspaceIds) => workspaceIds.map(workspaceId => ({
+      workspace_id: workspaceId,
+      slack_user_id: `U-me-${workspaceId}`,
+      bot_token: `bot-${workspaceId}`
+    }))
+    SlackRepo.createSessionActivity = async (activity: any) => {
+      activities.push(activity)
+    }
+    SlackOAuthService.getDecryptedToken = (token: string) => `decrypted-${token}`
+  })
+
+  afterEach(() => {
+    globalThis.fetch = originals.fetch
+    SlackDeflectedMessageRepo.recordMessage = originals.recordMessage
+    SlackDeflectedMessageRepo.claimDigest = originals.claimDigest
+    SlackDeflectedMessageRepo.releaseDigest = originals.releaseDigest
+    SlackDeflectedMessageRepo.setPermalink = originals.setPermalink
+    SlackDeflectedMessageRepo.getSessionMessages = originals.getSessionMessages
+    SlackDeflectedMessageRepo.getDigestRecipients = originals.getDigestRecipients
+    SlackRepo.createSessionActivity = originals.createSessionActivity
+    SlackOAuthService.getDecryptedToken = originals.getDecryptedToken
+  })
+
+  it('should record a deflected message with a trimmed snippet without calling Slack', async () => {
+    await SlackDigestService.recordDeflectedMessage({
+      userId: 'user-1',
+      focusSessionId: 'session-1',
+      workspace: { id: 'workspace-1' },
+      event: { user: 'U1', text: `Can you   look at\nthis? ${'x'.repeat(300)}`, channel: 'C1', ts: '1.2', channel_type: 'channel' },
+      senderName: 'Jane Doe',
+      urgent: true
+    })
+
+    expect(slackCalls).toHaveLength(0)
+    expect(recorded).toHaveLength(1)
+    expect(recorded[0]).toMatchObject({
+      sender_slack_id: 'U1',
+      sender_name: 'Jane Doe',
+      is_direct_message: false,
+      permalink: null,
+      urgent: true
+    })
+    expect(recorded[0]!.snippet.startsWith('Can you look at this? ')).toBe(true)
+    expect(recorded[0]!.snippet).toHaveLength(200)
+  })
+
+  it('should DM one digest per workspace from that workspace bot', async () => {
+    messages = [
+      message({ sender_name: 'Jane <admin>', snippet: 'Q&A later?' }),
+      message({ id: 'message-2', channel_id: 'C9', is_direct_message: false, urgent: true, permalink: null }),
+      message({ id: 'message-3', workspace_id: 'workspace-2', team_name: 'Community' })
+    ]
+
+    await SlackDigestService.sendSessionDigest('user-1', 'session-1')
+
+    const posts = slackCalls.filter(call => call.method === 'chat.postMessage')
+    expect(posts).toHaveLength(2)
+    expect(posts[0]!.token).toBe('Bearer decrypted-bot-workspace-1')
+    expect(posts[0]!.body.channel).toBe('U-me-workspace-1')
+    expect(posts[0]!.body.text).toBe([
+      'While you were focusing, 2 messages came in:',
+      '• *Jane &lt;admin&gt;* sent you a DM: "Q&amp;A later?" <https://acme.slack.com/archives/D1/p1700000000000100|Open>',
+      '• :rotating_light: *Jane Doe* in <#C9>: "Got a minute?" <https://acme.slack.com/archives/C1/p1|Open>'
+    ].join('\n'))
+    expect(posts[1]!.body.text.startsWith('While you were focusing, 1 message came in:')).toBe(true)
+    expect(released).toHaveLength(0)
+  })
+
+  it('should look up missing permalinks when building the digest', async () => {
+    messages = [message({ id: 'message-2', channel_id: 'C1', permalink: null })]
+
+    await SlackDigestService.sendSessionDigest('user-1', 'session-1')
+
+    expect(slackCalls.map(call => call.method)).toEqual(['chat.getPermalink', 'chat.postMessage'])
+    expect(slackCalls[1]!.body.text).toContain('<https://acme.slack.com/archives/C1/p1|Open>')
+    expect(savedPermalinks).toEqual([{ messageId: 'message-2', permalink: 'https://acme.slack.com/archives/C1/p1' }])
+  })
+
+  it('should not send a digest someone else already claimed', async () => {
+    claimed = false
+    messages = [message({})]
+
+    await SlackDigestService.sendSessionDigest('user-1', 'session-1')
+
+    expect(slackCalls).toHaveLength(0)
+  })
+
+  it('should log a failed DM without throwing and release the claim', async () => {
+    messages = [message({})]
+    globalThis.fetch = (async () => new Response(JSON.stringify({ ok: false, error: 'channel_not_found' }))) as any
+
+    expect(await SlackDigestService.sendSessionDigest('user-1', 'session-1')).toBe(false)
+
+    expect(activities).toHaveLength(1)
+    expect(activities[0]).toMatchObject({ activity_type: 'error', success: false, error_message: 'channel_not_found' })
+    expect(released).toEqual(['session-1'])
+  })
+})
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { SlackFocusScheduleService } from '../SlackFocusScheduleService'
+import { SlackFocusScheduleRepo, type SlackFocusSchedule } from '../../repos/SlackFocusSchedule'
+import { SlackRepo } from '../../repos/Slack'
+import { SlackService } from '../SlackService'
+
+const weekdayMornings = {
+  duration_minutes: 120,
+  start_at: null,
+  days_of_week: [1, 2, 3, 4, 5],
+  start_time: '09:00:00',
+  time_zone: 'America/New_York'
+}
+
+describe('SlackFocusScheduleService', () => {
+  describe('getOccurrences', () => {
+    it('should resolve recurring blocks in the schedule timezone across a DST change', () => {
+      // US clocks go back on Sunday 2026-11-01
+      const occurrences = SlackFocusScheduleService.getOccurrences(
+        weekdayMornings,
+        new Date('2026-10-29T00:00:00Z'),
+        new Date('2026-11-03T00:00:00Z')
+      )
+
+      expect(occurrences.map(occurrence => occurrence.date)).toEqual(['2026-10-29', '2026-10-30', '2026-11-02'])
+      expect(occurrences[1]!.start.toISOString()).toBe('2026-10-30T13:00:00.000Z')
+      expect(occurrences[2]!.start.toISOString()).toBe('2026-11-02T14:00:00.000Z')
+      expect(occurrences[2]!.end.toISOString()).toBe('2026-11-02T16:00:00.000Z')
+    })
+
+    it('should leave out skipped dates', () => {
+      const occurrences = SlackFocusScheduleService.getOccurrences(
+        weekdayMornings,
+        new Date('2026-10-29T00:00:00Z'),
+        new Date('2026-11-03T00:00:00Z'),
+        new Set(['2026-10-30'])
+      )
+
+      expect(occurrences.map(occurrence => occurrence.date)).toEqual(['2026-10-29', '2026-11-02'])
+    })
+
+    it('should return a one-off block only when it starts inside the window', () => {
+      const oneOff = { ...weekdayMornings, start_at: new Date('2026-10-30T15:00:00Z'), days_of_week: null, start_time: null }
+
+      expect(SlackFocusScheduleService.getOccurrences(oneOff, new Date('2026-10-30T00:00:00Z'), new Date('2026-10-31T00:00:00Z'))).toHaveLength(1)
+      expect(SlackFocusScheduleService.getOccurrences(oneOff, new Date('2026-10-31T00:00:00Z'), new Date('2026-11-01T00:00:00Z'))).toHaveLength(0)
+    })
+  })
+
+  describe('runScheduledOccurrence', () => {
+    const schedule: SlackFocusSchedule = {
+      id: 'schedule-1',
+      user_id: 'user-1',
+      title: null,
+      ...weekdayMornings,
+      is_active: true,
+      last_run_at: null,
+      last_run_status: null,
+      created_at: new Date(),
+      updated_at: new Date()
+    }
+    const runAt = new Date('2026-10-30T13:00:00Z')
+    const version = schedule.updated_at.getTime()
+
+    let originals: any
+    let recorded: Array<{ status: string; deactivate: boolean }>
+    let startedSessions: Array<{ sessionId?: string; durationMinutes?: number }>
+    let skipped: boolean
+    let activeSession: any
+
+    beforeEach(() => {
+      originals = {
+        getScheduleById: SlackFocusScheduleRepo.getScheduleById,
+        isSkipped: SlackFocusScheduleRepo.isSkipped,
+        recordRun: SlackFocusScheduleRepo.recordRun,
+        getUserPreferences: SlackRepo.getUserPreferences,
+        getActiveFocusSession: SlackRepo.getActiveFocusSession,
+        startFocusSession: SlackService.startFocusSession
+      }
+      recorded = []
+      startedSessions = []
+      skipped = false
+      activeSession = undefined
+
+      SlackFocusScheduleRepo.getScheduleById = async () => schedule
+      SlackFocusScheduleRepo.isSkipped = async () => skipped
+      SlackFocusScheduleRepo.recordRun = async (_id, status, deactivate = false) => {
+        recorded.push({ status, deactivate })
+      }
+      SlackRepo.getUserPreferences = async (userId: string) => ({ user_id: userId, enabled: true } as any)
+      SlackRepo.getActiveFocusSession = async () => activeSession
+      SlackService.startFocusSession = async (_userId, sessionId, durationMinutes) => {
+        startedSessions.push({ sessionId, durationMinutes })
+        return { overall_success: true, workspaces: [] }
+      }
+    })
+
+    afterEach(() => {
+      SlackFocusScheduleRepo.getScheduleById = originals.getScheduleById
+      SlackFocusScheduleRepo.isSkipped = originals.isSkipped
+      SlackFocusScheduleRepo.recordRun = originals.recordRun
+      SlackRepo.getUserPreferences = originals.getUserPreferences
+      SlackRepo.getActiveFocusSession = originals.getActiveFocusSession
+      SlackService.startFocusSession = originals.startFocusSession
+    })
+
+    it('should start a session for the occurrence', async () => {
+      const status = await SlackFocusScheduleService.runScheduledOccurrence(schedule.id, '2026-10-30', version, runAt)
+
+      expect(status).toBe('started')
+      expect(startedSessions).toEqual([{ sessionId: 'focus-schedule-schedule-1-2026-10-30', durationMinutes: 120 }])
+      expect(recorded).toEqual([{ status: 'started', deactivate: false }])
+    })
+
+    it('should name the session after the queued occurrence even when the job runs late', async () => {
+      const nextDay = new Date('2026-10-31T01:00:00Z')
+
+      expect(await SlackFocusScheduleService.runScheduledOccurrence(schedule.id, '2026-10-30', version, nextDay)).toBe('started')
+      expect(startedSessions[0]!.sessionId).toBe('focus-schedule-schedule-1-2026-10-30')
+    })
+
+    it('should not start a skipped occurrence', async () => {
+      skipped = true
+
+      expect(await SlackFocusScheduleService.runScheduledOccurrence(schedule.id, '2026-10-30', version, runAt)).toBe('skipped')
+      expect(startedSessions).toHaveLength(0)
+    })
+
+    it('should not start over a session that is still running', async () => {
+      activeSession = { start_time: new Date(runAt.getTime() - 10 * 60000), duration_minutes: 25 }
+
+      expect(await SlackFocusScheduleService.runScheduledOccurrence(schedule.id, '2026-10-30', version, runAt)).toBe('conflict')
+      expect(startedSessions).toHaveLength(0)
+    })
+
+    it('should start when the active session is past its planned end', async () => {
+      activeSession = { start_time: new Date(runAt.getTime() - 60 * 60000), duration_minutes: 25 }
+
+      expect(await SlackFocusScheduleService.runScheduledOccurrence(schedule.id, '2026-10-30', version, runAt)).toBe('started')
+    })
+
+    it('should ignore a job queued before the schedule last changed', async () => {
+      expect(await SlackFocusScheduleService.runScheduledOccurrence(schedule.id, '2026-10-30', version - 1, runAt)).toBeNull()
+      expect(startedSessions).toHaveLength(0)
+      expect(recorded).toHaveLength(0)
+    })
+  })
+})
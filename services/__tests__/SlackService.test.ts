@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { SlackService } from '../SlackService'
+import { SlackRepo, type SlackFocusSession, type SlackWorkspacePreferenceOverride } from '../../repos/Slack'
+import { SlackOAuthService } from '../SlackOAuthService'
+import { JobService } from '../JobService'
+import { FriendFeedService } from '../FriendFeedService'
+import { SlackDigestService } from '../SlackDigestService'
+import { slackCleanupQueueService } from '../SlackCleanupQueueService'
+
+describe('SlackService focus session adjustments', () => {
+  let originals: any
+  let session: SlackFocusSession
+  let slackCalls: Array<{ method: string; body: any }>
+  let removedJobs: string[]
+  let addedJobs: Array<{ jobId?: string; delay?: number }>
+  let workspaceOverrides: SlackWorkspacePreferenceOverride[]
+
+  const lastCall = (method: string) => slackCalls.filter(call => call.method === method).pop()
+
+  beforeEach(() => {
+    originals = {
+      fetch: globalThis.fetch,
+      getActiveFocusSession: SlackRepo.getActiveFocusSession,
+      extendFocusSession: SlackRepo.extendFocusSession,
+      pauseFocusSession: SlackRepo.pauseFocusSession,
+      resumeFocusSession: SlackRepo.resumeFocusSession,
+      getUserPreferences: SlackRepo.getUserPreferences,
+      getWorkspacePreferenceOverrides: SlackRepo.getWorkspacePreferenceOverrides,
+      getFocusSessionWorkspaces: SlackRepo.getFocusSessionWorkspaces,
+      createSessionActivity: SlackRepo.createSessionActivity,
+      getDecryptedToken: SlackOAuthService.getDecryptedToken,
+      removeJob: JobService.removeJob,
+      addJob: JobService.addJob
+    }
+
+    session = {
+      id: 'session-1',
+      user_id: 'user-1',
+      session_id: 'focus-session-1',
+      duration_minutes: 25,
+      is_active: true,
+      start_time: new Date(Date.now() - 10 * 60000),
+      paused_at: null,
+      paused_seconds: 0
+    }
+    slackCalls = []
+    removedJobs = []
+    addedJobs = []
+    workspaceOverrides = []
+
+    globalThis.fetch = (async (url: string, init: any) => {
+      const body = typeof init.body === 'string' ? JSON.parse(init.body) : Object.fromEntries(init.body ?? [])
+      slackCalls.push({ method: url.split('/').pop()!, body })
+      return new Response(JSON.stringify({ ok: true }))
+    }) as any
+
+    SlackRepo.getActiveFocusSession = async () => session
+    SlackRepo.extendFocusSession = async (_id, minutes) => {
+      session = { ...session, duration_minutes: session.duration_minutes! + minutes }
+      return session
+    }
+    SlackRepo.pauseFocusSession = async (_id, pausedAt) => {
+      if (session.paused_at) return undefined
+      session = { ...session, paused_at: pausedAt }
+      return session
+    }
+    SlackRepo.resumeFocusSession = async (_id, resumedAt) => {
+      if (!session.paused_at) return undefined
+      const pausedSeconds = Math.round((resumedAt.getTime() - session.paused_at.getTime()) / 1000)
+      session = { ...session, paused_at: null, paused_seconds: session.paused_seconds + pausedSeconds }
+      return session
+    }
+    SlackRepo.getUserPreferences = async (userId: string) => ({
+      user_id: userId,
+      enabled: true,
+      auto_status_update: true,
+      auto_dnd: true,
+      custom_status_text: 'Deep work',
+      custom_status_emoji: ':brain:'
+    } as any)
+    SlackRepo.getWorkspacePreferenceOverrides = async () => workspaceOverrides
+    SlackRepo.getFocusSessionWorkspaces = async () => [{
+      team_name: 'Acme',
+      workspace_id: 'workspace-1',
+      access_token: 'encrypted',
+      status_updated: true,
+      dnd_enabled: true
+    }]
+    SlackRepo.createSessionActivity = async () => {}
+    SlackOAuthService.getDecryptedToken = () => 'token'
+    JobService.removeJob = async (_queue, jobId) => {
+      removedJobs.push(jobId)
+    }
+    JobService.addJob = (async (options: any) => {
+      addedJobs.push({ jobId: options.jobId, delay: options.delay })
+      return {} as any
+    }) as any
+  })
+
+  afterEach(() => {
+    globalThis.fetch = originals.fetch
+    SlackRepo.getActiveFocusSession = originals.getActiveFocusSession
+    SlackRepo.extendFocusSession = originals.extendFocusSession
+    SlackRepo.pauseFocusSession = originals.pauseFocusSession
+    SlackRepo.resumeFocusSession = originals.resumeFocusSession
+    SlackRepo.getUserPreferences = originals.getUserPreferences
+    SlackRepo.getWorkspacePreferenceOverrides = originals.getWorkspacePreferenceOverrides
+    SlackRepo.getFocusSessionWorkspaces = originals.getFocusSessionWorkspaces
+    SlackRepo.createSessionActivity = originals.createSessionActivity
+    SlackOAuthService.getDecryptedToken = originals.getDecryptedToken
+    JobService.removeJob = originals.removeJob
+    JobService.addJob = originals.addJob
+  })
+
+  it('should move the snooze, status expiration and cleanup job when extending', async () => {
+    const result = await SlackService.extendFocusSession('user-1', 15)
+
+    expect(result.duration_minutes).toBe(40)
+    expect(result.workspaces[0]).toMatchObject({ success: true, status_updated: true, dnd_enabled: true })
+    // 40 minute session started 10 minutes ago
+    expect(lastCall('dnd.setSnooze')!.body.num_minutes).toBe('30')
+    expect(lastCall('users.profile.set')!.body.profile.status_text).toBe('Deep work')
+    expect(removedJobs).toEqual(['slack-cleanup-session-1'])
+    expect(addedJobs[0]!.jobId).toBe('slack-cleanup-session-1')
+    expect(Math.round(addedJobs[0]!.delay! / 60000)).toBe(30)
+  })
+
+  it('should lift DND and the status and cancel the cleanup while paused', async () => {
+    const result = await SlackService.pauseFocusSession('user-1')
+
+    expect(result.paused_at).toBeInstanceOf(Date)
+    expect(result.ends_at).toBeNull()
+    expect(lastCall('dnd.endSnooze')).toBeDefined()
+    expect(lastCall('users.profile.set')!.body.profile.status_text).toBe('')
+    expect(removedJobs).toEqual(['slack-cleanup-session-1'])
+    expect(addedJobs).toHaveLength(0)
+
+    await expect(SlackService.pauseFocusSession('user-1')).rejects.toThrow('Focus session is already paused')
+  })
+
+  it('should push the planned end back by the time spent paused on resume', async () => {
+    session = { ...session, paused_at: new Date(Date.now() - 5 * 60000) }
+
+    const result = await SlackService.resumeFocusSession('user-1')
+
+    expect(result.paused_seconds).toBe(300)
+    // 25 minutes planned, 10 elapsed of which 5 paused, so 20 left
+    expect(lastCall('dnd.setSnooze')!.body.num_minutes).toBe('20')
+    expect(Math.round(addedJobs[0]!.delay! / 60000)).toBe(20)
+
+    await expect(SlackService.resumeFocusSession('user-1')).rejects.toThrow('Focus session is not paused')
+  })
+
+  it('should only change the duration when extending a paused session', async () => {
+    session = { ...session, paused_at: new Date() }
+
+    const result = await SlackService.extendFocusSession('user-1', 5)
+
+    expect(result.duration_minutes).toBe(30)
+    expect(slackCalls).toHaveLength(0)
+    expect(addedJobs).toHaveLength(0)
+  })
+
+  it('should use the workspace overrides when restoring the status and snooze', async () => {
+    workspaceOverrides = [{
+      user_id: 'user-1',
+      workspace_id: 'workspace-1',
+      auto_status_update: null,
+      auto_dnd: false,
+      custom_status_text: 'Community hours off',
+      custom_status_emoji: null,
+      auto_reply_enabled: null,
+      auto_reply_message: null,
+      urgent_keywords: null
+    }]
+
+    await SlackService.extendFocusSession('user-1', 15)
+
+    expect(lastCall('users.profile.set')!.body.profile.status_text).toBe('Community hours off')
+    expect(lastCall('users.profile.set')!.body.profile.status_emoji).toBe(':brain:')
+    expect(lastCall('dnd.setSnooze')).toBeUndefined()
+  })
+})
+
+describe('SlackService finishing focus sessions', () => {
+  const session: SlackFocusSession = {
+    id: 'session-1',
+    user_id: 'user-1',
+    session_id: 'focus-session-1',
+    duration_minutes: 25,
+    is_active: true,
+    start_time: new Date(Date.now() - 30 * 60000),
+    end_time: new Date(),
+    paused_at: null,
+    paused_seconds: 0
+  }
+
+  let originals: any
+  let queueAvailable: boolean
+  let addedJobs: Array<{ jobType: string; jobId?: string; data: any }>
+  let sentDigests: string[]
+
+  beforeEach(() => {
+    originals = {
+      endFocusSessions: SlackRepo.endFocusSessions,
+      recordFocusSessionFinished: FriendFeedService.recordFocusSessionFinished,
+      sendSessionDigest: SlackDigestService.sendSessionDigest,
+      isAvailable: slackCleanupQueueService.isAvailable,
+      addJob: JobService.addJob
+    }
+    queueAvailable = true
+    addedJobs = []
+    sentDigests = []
+
+    SlackRepo.endFocusSessions = async () => [session]
+    FriendFeedService.recordFocusSessionFinished = async () => {}
+    SlackDigestService.sendSessionDigest = async (_userId, focusSessionId) => {
+      sentDigests.push(focusSessionId)
+      return true
+    }
+    slackCleanupQueueService.isAvailable = () => queueAvailable
+    JobService.addJob = (async (options: any) => {
+      addedJobs.push({ jobType: options.jobType, jobId: options.jobId, data: options.data })
+      return {} as any
+    }) as any
+  })
+
+  afterEach(() => {
+    SlackRepo.endFocusSessions = originals.endFocusSessions
+    FriendFeedService.recordFocusSessionFinished = originals.recordFocusSessionFinished
+    SlackDigestService.sendSessionDigest = originals.sendSessionDigest
+    slackCleanupQueueService.isAvailable = originals.isAvailable
+    JobService.addJob = originals.addJob
+  })
+
+  it('should queue the digest instead of sending it while ending the session', async () => {
+    await SlackService.finishFocusSessions('user-1', [session])
+
+    expect(addedJobs).toEqual([{
+      jobType: 'slack-session-digest',
+      jobId: 'slack-digest-session-1',
+      data: { userId: 'user-1', focusSessionId: 'session-1' }
+    }])
+    expect(sentDigests).toHaveLength(0)
+  })
+
+  it('should send the digest in the background without a running worker', async () => {
+    queueAvailable = false
+
+    await SlackService.finishFocusSessions('user-1', [session])
+
+    expect(addedJobs).toHaveLength(0)
+    expect(sentDigests).toEqual(['session-1'])
+  })
+})
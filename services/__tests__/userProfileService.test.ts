@@ -121,4 +121,34 @@ describe('UserProfileService', () => {
       })
     })
   })
+
+  describe('getUserTimeZone', () => {
+    let originalGetUserTimeZone: typeof UserProfileRepo.getUserTimeZone
+
+    beforeEach(() => {
+      originalGetUserTimeZone = UserProfileRepo.getUserTimeZone
+    })
+
+    afterEach(() => {
+      UserProfileRepo.getUserTimeZone = originalGetUserTimeZone
+    })
+
+    it('should return the stored timezone', async () => {
+      UserProfileRepo.getUserTimeZone = async () => 'America/Denver'
+
+      expect(await UserProfileService.getUserTimeZone('user-1')).toBe('America/Denver')
+    })
+
+    it('should fall back to UTC when no timezone is stored', async () => {
+      UserProfileRepo.getUserTimeZone = async () => null
+
+      expect(await UserProfileService.getUserTimeZone('user-1')).toBe('UTC')
+    })
+
+    it('should fall back to UTC when the stored timezone is invalid', async () => {
+      UserProfileRepo.getUserTimeZone = async () => 'Not/AZone'
+
+      expect(await UserProfileService.getUserTimeZone('user-1')).toBe('UTC')
+    })
+  })
 }) 
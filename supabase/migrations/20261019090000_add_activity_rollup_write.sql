@@ -0,0 +1,21 @@
+-- Log of idempotent rollup writes so retried increments are only counted once
+CREATE TABLE activity_rollup_write (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    idempotency_key TEXT NOT NULL,
+    date DATE NOT NULL,
+    tag_name TEXT NOT NULL,
+    duration_minutes INTEGER NOT NULL,
+    mode TEXT NOT NULL DEFAULT 'set' CHECK (mode IN ('set', 'increment')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(user_id, idempotency_key)
+);
+
+ALTER TABLE activity_rollup_write ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_activity_rollup_write_created_at ON activity_rollup_write(created_at);
+
+-- ROLLBACK
+-- DROP INDEX IF EXISTS idx_activity_rollup_write_created_at;
+-- DROP TABLE IF EXISTS activity_rollup_write;
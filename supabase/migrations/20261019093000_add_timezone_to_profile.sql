@@ -0,0 +1,5 @@
+-- IANA timezone used to resolve "today" for rollups, friends and insights
+ALTER TABLE public.user_profile ADD COLUMN timezone TEXT;
+
+-- ROLLBACK:
+-- ALTER TABLE public.user_profile DROP COLUMN timezone;
@@ -0,0 +1,50 @@
+-- Tag registry mapping rollup tag names to an activity category.
+-- Rows with a NULL user_id are the global defaults; a user's own row with the same
+-- name overrides the default for that user.
+CREATE TABLE activity_tag (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    category TEXT NOT NULL CHECK (category IN ('creating', 'consuming', 'neutral')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE activity_tag ENABLE ROW LEVEL SECURITY;
+
+CREATE UNIQUE INDEX idx_activity_tag_default_name ON activity_tag(name) WHERE user_id IS NULL;
+CREATE UNIQUE INDEX idx_activity_tag_user_name ON activity_tag(user_id, name) WHERE user_id IS NOT NULL;
+
+CREATE TRIGGER set_activity_tag_updated_at
+    BEFORE UPDATE ON activity_tag
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+INSERT INTO activity_tag (name, category) VALUES
+    ('coding', 'creating'),
+    ('design', 'creating'),
+    ('writing', 'creating'),
+    ('music', 'creating'),
+    ('video-editing', 'creating'),
+    ('social-media', 'consuming'),
+    ('entertainment', 'consuming'),
+    ('news', 'consuming'),
+    ('shopping', 'consuming'),
+    ('communication', 'neutral'),
+    ('meetings', 'neutral'),
+    ('email', 'neutral');
+
+-- Rollup rows with their resolved category. Tags missing from the registry count as
+-- creating time, which is how every tag was treated before the registry existed.
+CREATE VIEW activity_day_rollup_categorized AS
+SELECT
+    adr.*,
+    COALESCE(user_tag.category, default_tag.category, 'creating') AS category
+FROM activity_day_rollup adr
+LEFT JOIN activity_tag user_tag ON user_tag.user_id = adr.user_id AND user_tag.name = adr.tag_name
+LEFT JOIN activity_tag default_tag ON default_tag.user_id IS NULL AND default_tag.name = adr.tag_name;
+
+-- ROLLBACK
+-- DROP VIEW IF EXISTS activity_day_rollup_categorized;
+-- DROP TRIGGER IF EXISTS set_activity_tag_updated_at ON activity_tag;
+-- DROP TABLE IF EXISTS activity_tag;
@@ -0,0 +1,49 @@
+-- Daily/weekly creating-time targets, optionally limited to specific tags
+CREATE TABLE user_goal (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    period TEXT NOT NULL CHECK (period IN ('daily', 'weekly')),
+    target_minutes INTEGER NOT NULL CHECK (target_minutes > 0),
+    tag_names TEXT[],
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One recorded outcome per goal per completed period
+CREATE TABLE user_goal_result (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    goal_id UUID NOT NULL REFERENCES user_goal(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    target_minutes INTEGER NOT NULL,
+    achieved_minutes INTEGER NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('hit', 'missed')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(goal_id, period_start)
+);
+
+ALTER TABLE user_goal ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_goal_result ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_user_goal_user_id ON user_goal(user_id);
+CREATE INDEX idx_user_goal_result_user_id ON user_goal_result(user_id, period_start DESC);
+
+CREATE TRIGGER set_user_goal_updated_at
+    BEFORE UPDATE ON user_goal
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+-- Goal outcomes can be routed through the notification engine
+ALTER TABLE user_notification DROP CONSTRAINT IF EXISTS user_notification_notification_type_check;
+ALTER TABLE user_notification ADD CONSTRAINT user_notification_notification_type_check
+    CHECK (notification_type IN ('paid_user', 'new_user', 'inactive_user', 'weekly_report', 'goal_hit', 'goal_missed'));
+
+-- ROLLBACK
+-- ALTER TABLE user_notification DROP CONSTRAINT IF EXISTS user_notification_notification_type_check;
+-- ALTER TABLE user_notification ADD CONSTRAINT user_notification_notification_type_check
+--     CHECK (notification_type IN ('paid_user', 'new_user', 'inactive_user', 'weekly_report'));
+-- DROP TRIGGER IF EXISTS set_user_goal_updated_at ON user_goal;
+-- DROP TABLE IF EXISTS user_goal_result;
+-- DROP TABLE IF EXISTS user_goal;
@@ -0,0 +1,26 @@
+-- Badges unlocked by users. Badge definitions live in code (config/achievements.ts);
+-- reference_id identifies the occurrence, so one-off badges use the badge ID and
+-- repeatable badges (e.g. best week) use the period they were earned for.
+CREATE TABLE user_achievement (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    achievement_id TEXT NOT NULL,
+    reference_id TEXT NOT NULL,
+    data JSONB,
+    unlocked_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    announced_at TIMESTAMP WITH TIME ZONE,
+
+    UNIQUE(user_id, achievement_id, reference_id)
+);
+
+ALTER TABLE user_achievement ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_user_achievement_user_id ON user_achievement(user_id, unlocked_at DESC);
+
+-- Opt-in for telling friends about newly unlocked badges
+ALTER TABLE public.user_profile ADD COLUMN announce_achievements BOOLEAN NOT NULL DEFAULT false;
+
+-- ROLLBACK
+-- ALTER TABLE public.user_profile DROP COLUMN IF EXISTS announce_achievements;
+-- DROP INDEX IF EXISTS idx_user_achievement_user_id;
+-- DROP TABLE IF EXISTS user_achievement;
@@ -0,0 +1,5 @@
+-- Lets a user hide their creating time from friend leaderboards
+ALTER TABLE public.user_profile ADD COLUMN share_activity BOOLEAN NOT NULL DEFAULT true;
+
+-- ROLLBACK:
+-- ALTER TABLE public.user_profile DROP COLUMN share_activity;
@@ -0,0 +1,40 @@
+-- Track which side of a blocked friendship row did the blocking
+ALTER TABLE friend ADD COLUMN blocked_by UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+
+-- Nothing wrote 'blocked' before this migration, so any such rows were set by hand and have no
+-- recorded blocker. Attribute them to user_id_1 so the constraint holds and one side can unblock.
+UPDATE friend SET blocked_by = user_id_1 WHERE status = 'blocked' AND blocked_by IS NULL;
+
+ALTER TABLE friend ADD CONSTRAINT check_blocked_by CHECK (
+    (status = 'blocked' AND blocked_by IN (user_id_1, user_id_2))
+    OR (status = 'active' AND blocked_by IS NULL)
+);
+
+-- Per-friend activity visibility: a row with share_activity = false hides
+-- user_id's creating time from friend_id
+CREATE TABLE friend_visibility (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    friend_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    share_activity BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(user_id, friend_id)
+);
+
+CREATE TRIGGER set_updated_at_friend_visibility
+    BEFORE UPDATE ON friend_visibility
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE friend_visibility ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_friend_visibility_friend_id ON friend_visibility(friend_id);
+
+-- ROLLBACK
+-- DROP INDEX IF EXISTS idx_friend_visibility_friend_id;
+-- DROP TRIGGER IF EXISTS set_updated_at_friend_visibility ON friend_visibility;
+-- DROP TABLE IF EXISTS friend_visibility;
+-- ALTER TABLE friend DROP CONSTRAINT IF EXISTS check_blocked_by;
+-- ALTER TABLE friend DROP COLUMN IF EXISTS blocked_by;
@@ -0,0 +1,29 @@
+-- Pending requests past expires_at are moved to 'expired' by the expire-friend-requests job
+ALTER TABLE friend_request DROP CONSTRAINT IF EXISTS friend_request_status_check;
+ALTER TABLE friend_request ADD CONSTRAINT friend_request_status_check
+    CHECK (status IN ('pending', 'accepted', 'rejected', 'cancelled', 'expired'));
+
+-- Resend bookkeeping, used to rate-limit resending the invite email
+ALTER TABLE friend_request ADD COLUMN last_sent_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE friend_request ADD COLUMN resend_count INTEGER NOT NULL DEFAULT 0;
+
+UPDATE friend_request SET last_sent_at = created_at;
+
+-- Requests live for 30 days unless resent; existing pending requests get the same lifetime
+ALTER TABLE friend_request ALTER COLUMN expires_at SET DEFAULT CURRENT_TIMESTAMP + INTERVAL '30 days';
+
+UPDATE friend_request
+SET expires_at = created_at + INTERVAL '30 days'
+WHERE status = 'pending' AND expires_at IS NULL;
+
+CREATE INDEX idx_friend_request_pending_expiry ON friend_request(expires_at) WHERE status = 'pending';
+
+-- ROLLBACK
+-- DROP INDEX IF EXISTS idx_friend_request_pending_expiry;
+-- ALTER TABLE friend_request DROP COLUMN IF EXISTS resend_count;
+-- ALTER TABLE friend_request DROP COLUMN IF EXISTS last_sent_at;
+-- ALTER TABLE friend_request ALTER COLUMN expires_at DROP DEFAULT;
+-- UPDATE friend_request SET status = 'cancelled' WHERE status = 'expired';
+-- ALTER TABLE friend_request DROP CONSTRAINT IF EXISTS friend_request_status_check;
+-- ALTER TABLE friend_request ADD CONSTRAINT friend_request_status_check
+--     CHECK (status IN ('pending', 'accepted', 'rejected', 'cancelled'));
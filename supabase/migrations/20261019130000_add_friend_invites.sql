@@ -0,0 +1,41 @@
+-- Shareable invite links/codes. Anyone signed in who redeems a live invite becomes
+-- friends with its owner; links carry an HMAC-signed token wrapping the short code.
+CREATE TABLE friend_invite (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    code TEXT NOT NULL UNIQUE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0), -- NULL for unlimited
+    use_count INTEGER NOT NULL DEFAULT 0,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE friend_invite_redemption (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    invite_id UUID NOT NULL REFERENCES friend_invite(id) ON DELETE CASCADE,
+    redeemed_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    friend_id UUID REFERENCES friend(id) ON DELETE SET NULL,
+    redeemed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(invite_id, redeemed_by)
+);
+
+CREATE TRIGGER set_updated_at_friend_invite
+    BEFORE UPDATE ON friend_invite
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE friend_invite ENABLE ROW LEVEL SECURITY;
+ALTER TABLE friend_invite_redemption ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_friend_invite_user_id ON friend_invite(user_id, created_at DESC);
+CREATE INDEX idx_friend_invite_redemption_invite_id ON friend_invite_redemption(invite_id);
+
+-- ROLLBACK
+-- DROP INDEX IF EXISTS idx_friend_invite_redemption_invite_id;
+-- DROP INDEX IF EXISTS idx_friend_invite_user_id;
+-- DROP TRIGGER IF EXISTS set_updated_at_friend_invite ON friend_invite;
+-- DROP TABLE IF EXISTS friend_invite_redemption;
+-- DROP TABLE IF EXISTS friend_invite;
@@ -0,0 +1,69 @@
+-- Named groups of users (teams) with a shared dashboard. Every group has exactly one
+-- owner; admins can invite and remove members, members can only view and leave.
+CREATE TABLE friend_group (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+    description TEXT,
+    created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE friend_group_member (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    group_id UUID NOT NULL REFERENCES friend_group(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+    joined_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(group_id, user_id)
+);
+
+CREATE UNIQUE INDEX idx_friend_group_member_one_owner ON friend_group_member(group_id) WHERE role = 'owner';
+
+-- Invitations are addressed by email, like friend requests
+CREATE TABLE friend_group_invitation (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    group_id UUID NOT NULL REFERENCES friend_group(id) ON DELETE CASCADE,
+    invited_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    to_email TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'cancelled')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX idx_friend_group_invitation_pending ON friend_group_invitation(group_id, to_email) WHERE status = 'pending';
+CREATE INDEX idx_friend_group_invitation_to_email ON friend_group_invitation(to_email) WHERE status = 'pending';
+CREATE INDEX idx_friend_group_member_user_id ON friend_group_member(user_id);
+
+CREATE TRIGGER set_updated_at_friend_group
+    BEFORE UPDATE ON friend_group
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER set_updated_at_friend_group_member
+    BEFORE UPDATE ON friend_group_member
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER set_updated_at_friend_group_invitation
+    BEFORE UPDATE ON friend_group_invitation
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE friend_group ENABLE ROW LEVEL SECURITY;
+ALTER TABLE friend_group_member ENABLE ROW LEVEL SECURITY;
+ALTER TABLE friend_group_invitation ENABLE ROW LEVEL SECURITY;
+
+-- ROLLBACK
+-- DROP TRIGGER IF EXISTS set_updated_at_friend_group_invitation ON friend_group_invitation;
+-- DROP TRIGGER IF EXISTS set_updated_at_friend_group_member ON friend_group_member;
+-- DROP TRIGGER IF EXISTS set_updated_at_friend_group ON friend_group;
+-- DROP INDEX IF EXISTS idx_friend_group_member_user_id;
+-- DROP INDEX IF EXISTS idx_friend_group_invitation_to_email;
+-- DROP INDEX IF EXISTS idx_friend_group_invitation_pending;
+-- DROP INDEX IF EXISTS idx_friend_group_member_one_owner;
+-- DROP TABLE IF EXISTS friend_group_invitation;
+-- DROP TABLE IF EXISTS friend_group_member;
+-- DROP TABLE IF EXISTS friend_group;
@@ -0,0 +1,40 @@
+-- Notable events shown in friends' activity feeds. reference_id identifies the occurrence
+-- (session, goal period, day or friendship) so each event is recorded once.
+CREATE TABLE friend_feed_event (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    event_type TEXT NOT NULL CHECK (event_type IN ('focus_session_finished', 'goal_hit', 'personal_best', 'friendship_accepted')),
+    reference_id TEXT NOT NULL,
+    data JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(user_id, event_type, reference_id)
+);
+
+-- Which event types a user broadcasts; a missing row means the type is broadcast
+CREATE TABLE friend_feed_preference (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    event_type TEXT NOT NULL CHECK (event_type IN ('focus_session_finished', 'goal_hit', 'personal_best', 'friendship_accepted')),
+    broadcast BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(user_id, event_type)
+);
+
+CREATE TRIGGER set_updated_at_friend_feed_preference
+    BEFORE UPDATE ON friend_feed_preference
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE friend_feed_event ENABLE ROW LEVEL SECURITY;
+ALTER TABLE friend_feed_preference ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_friend_feed_event_user_created ON friend_feed_event(user_id, created_at DESC, id DESC);
+
+-- ROLLBACK
+-- DROP INDEX IF EXISTS idx_friend_feed_event_user_created;
+-- DROP TRIGGER IF EXISTS set_updated_at_friend_feed_preference ON friend_feed_preference;
+-- DROP TABLE IF EXISTS friend_feed_preference;
+-- DROP TABLE IF EXISTS friend_feed_event;
@@ -0,0 +1,18 @@
+-- Precomputed distribution of creating minutes per active user for each day, refreshed by a
+-- background job. totals holds every user's total sorted ascending; the API binary searches it
+-- for a user's percentile instead of aggregating over the rollup view.
+CREATE TABLE activity_day_distribution (
+    date DATE PRIMARY KEY,
+    user_count INTEGER NOT NULL DEFAULT 0,
+    totals INTEGER[] NOT NULL DEFAULT '{}',
+    p25 INTEGER NOT NULL DEFAULT 0,
+    p50 INTEGER NOT NULL DEFAULT 0,
+    p75 INTEGER NOT NULL DEFAULT 0,
+    p90 INTEGER NOT NULL DEFAULT 0,
+    computed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE activity_day_distribution ENABLE ROW LEVEL SECURITY;
+
+-- ROLLBACK
+-- DROP TABLE IF EXISTS activity_day_distribution;
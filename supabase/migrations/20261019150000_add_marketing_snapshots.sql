@@ -0,0 +1,25 @@
+-- Dated copies of the public marketing metrics, written by the snapshot job so the
+-- marketing site can chart growth without re-aggregating the rollups. Scalar metrics
+-- (e.g. total hours) go in value, series metrics (e.g. weekly activity) in data.
+CREATE TABLE marketing_snapshot (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    snapshot_date DATE NOT NULL,
+    metric TEXT NOT NULL,
+    value NUMERIC,
+    data JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(metric, snapshot_date)
+);
+
+CREATE TRIGGER set_updated_at_marketing_snapshot
+    BEFORE UPDATE ON marketing_snapshot
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE marketing_snapshot ENABLE ROW LEVEL SECURITY;
+
+-- ROLLBACK
+-- DROP TRIGGER IF EXISTS set_updated_at_marketing_snapshot ON marketing_snapshot;
+-- DROP TABLE IF EXISTS marketing_snapshot;
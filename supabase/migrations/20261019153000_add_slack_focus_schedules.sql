@@ -0,0 +1,44 @@
+-- Focus blocks scheduled ahead of time. A schedule is either a one-off block (start_at) or a
+-- recurring block on the given weekdays at a local wall-clock time (days_of_week + start_time,
+-- resolved in time_zone). The job queue starts each occurrence as a regular Slack focus session.
+CREATE TABLE slack_focus_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT,
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes BETWEEN 5 AND 720),
+  start_at TIMESTAMPTZ,
+  days_of_week SMALLINT[], -- 0 = Sunday
+  start_time TIME,
+  time_zone TEXT NOT NULL DEFAULT 'UTC',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_run_at TIMESTAMPTZ,
+  last_run_status TEXT CHECK (last_run_status IN ('started', 'skipped', 'conflict', 'failed')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (
+    (start_at IS NOT NULL AND days_of_week IS NULL AND start_time IS NULL)
+    OR (start_at IS NULL AND days_of_week IS NOT NULL AND start_time IS NOT NULL)
+  )
+);
+
+-- Single occurrences of a recurring schedule the user chose to skip, by local date
+CREATE TABLE slack_focus_schedule_skips (
+  schedule_id UUID NOT NULL REFERENCES slack_focus_schedules(id) ON DELETE CASCADE,
+  occurrence_date DATE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (schedule_id, occurrence_date)
+);
+
+CREATE INDEX idx_slack_focus_schedules_user_id ON slack_focus_schedules(user_id, is_active);
+
+CREATE TRIGGER set_updated_at
+    BEFORE UPDATE ON slack_focus_schedules
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE slack_focus_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE slack_focus_schedule_skips ENABLE ROW LEVEL SECURITY;
+
+-- ROLLBACK
+-- DROP TABLE IF EXISTS slack_focus_schedule_skips;
+-- DROP TABLE IF EXISTS slack_focus_schedules;
\ No newline at end of file
@@ -0,0 +1,10 @@
+-- Pausable focus sessions. While paused_at is set the session's Slack DND and status are lifted
+-- and its cleanup job is cancelled; on resume the pause is added to paused_seconds, which pushes
+-- the planned end (start_time + duration_minutes + paused_seconds) back by the time spent paused.
+ALTER TABLE slack_focus_sessions
+  ADD COLUMN paused_at TIMESTAMPTZ,
+  ADD COLUMN paused_seconds INTEGER NOT NULL DEFAULT 0;
+
+-- ROLLBACK
+-- ALTER TABLE slack_focus_sessions DROP COLUMN IF EXISTS paused_seconds;
+-- ALTER TABLE slack_focus_sessions DROP COLUMN IF EXISTS paused_at;
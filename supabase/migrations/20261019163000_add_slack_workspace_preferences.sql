@@ -0,0 +1,29 @@
+-- Per-workspace overrides layered over a user's slack_preferences. A NULL column means the
+-- workspace follows the user-level value, so only the settings that differ are stored.
+CREATE TABLE slack_workspace_preferences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES slack_workspaces(id) ON DELETE CASCADE,
+  auto_status_update BOOLEAN,
+  auto_dnd BOOLEAN,
+  custom_status_text TEXT,
+  custom_status_emoji TEXT,
+  auto_reply_enabled BOOLEAN,
+  auto_reply_message TEXT,
+  urgent_keywords JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, workspace_id)
+);
+
+CREATE INDEX idx_slack_workspace_preferences_workspace_id ON slack_workspace_preferences(workspace_id);
+
+CREATE TRIGGER set_updated_at
+    BEFORE UPDATE ON slack_workspace_preferences
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE slack_workspace_preferences ENABLE ROW LEVEL SECURITY;
+
+-- ROLLBACK
+-- DROP TABLE IF EXISTS slack_workspace_preferences;
\ No newline at end of file
@@ -0,0 +1,28 @@
+-- Messages the bot answered with an auto-reply during a focus session, kept so the user gets a
+-- digest of who reached out once the session ends
+CREATE TABLE slack_deflected_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  focus_session_id UUID NOT NULL REFERENCES slack_focus_sessions(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES slack_workspaces(id) ON DELETE CASCADE,
+  sender_slack_id TEXT NOT NULL,
+  sender_name TEXT,
+  channel_id TEXT NOT NULL,
+  is_direct_message BOOLEAN NOT NULL DEFAULT false,
+  message_ts TEXT NOT NULL,
+  permalink TEXT,
+  snippet TEXT NOT NULL,
+  urgent BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  -- Slack retries event deliveries, so the same message can arrive more than once
+  UNIQUE(focus_session_id, channel_id, message_ts)
+);
+
+-- Set when the digest DM goes out, so ending a session and the cleanup job can't both send it
+ALTER TABLE slack_focus_sessions ADD COLUMN digest_sent_at TIMESTAMPTZ;
+
+ALTER TABLE slack_deflected_messages ENABLE ROW LEVEL SECURITY;
+
+-- ROLLBACK
+-- ALTER TABLE slack_focus_sessions DROP COLUMN IF EXISTS digest_sent_at;
+-- DROP TABLE IF EXISTS slack_deflected_messages;
\ No newline at end of file
@@ -0,0 +1,15 @@
+-- Failed invite redemptions (unknown codes, bad links), kept so redeeming can be rate-limited
+-- per user and codes can't be guessed by trying them one after another.
+CREATE TABLE friend_invite_redeem_attempt (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE friend_invite_redeem_attempt ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_friend_invite_redeem_attempt_user_id ON friend_invite_redeem_attempt(user_id, created_at DESC);
+
+-- ROLLBACK
+-- DROP INDEX IF EXISTS idx_friend_invite_redeem_attempt_user_id;
+-- DROP TABLE IF EXISTS friend_invite_redeem_attempt;
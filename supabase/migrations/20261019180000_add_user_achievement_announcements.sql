@@ -0,0 +1,14 @@
+-- Which friends have been emailed about an unlocked badge. A badge only counts as announced once
+-- every friend got the email, so retries skip the friends who already have it.
+CREATE TABLE user_achievement_announcement (
+    user_achievement_id UUID NOT NULL REFERENCES user_achievement(id) ON DELETE CASCADE,
+    friend_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    sent_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (user_achievement_id, friend_id)
+);
+
+ALTER TABLE user_achievement_announcement ENABLE ROW LEVEL SECURITY;
+
+-- ROLLBACK
+-- DROP TABLE IF EXISTS user_achievement_announcement;
@@ -0,0 +1,772 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test'
+import request from 'supertest'
+import app from '../../index'
+import { getDb } from '../../config/database'
+import { FriendsRepo } from '../../repos/Friends'
+import { generateInviteCode, signInviteToken } from '../../utils/inviteToken'
+import { FriendFeedService } from '../../services/FriendFeedService'
+import { ActivityDistributionService } from '../../services/ActivityDistributionService'
+
+const FOUNDER_ID = '409cf9b9-7aae-4a13-aca9-1bcd7b9a4209'
+const auth = { Authorization: 'Bearer valid_test_token' }
+
+describe('Friends API', () => {
+  const db = getDb()
+  let test1Id: string
+  let test2Id: string
+
+  // Friendships store the smaller user ID first
+  const befriend = (userId: string) => {
+    const [user_id_1, user_id_2] = FOUNDER_ID < userId ? [FOUNDER_ID, userId] : [userId, FOUNDER_ID]
+    return db('friend').insert({ user_id_1, user_id_2, status: 'active' })
+  }
+
+  beforeAll(async () => {
+    test1Id = (await db('auth.users').where({ email: 'test1@example.com' }).first()).id
+    test2Id = (await db('auth.users').where({ email: 'test2@example.com' }).first()).id
+    await befriend(test1Id)
+    await befriend(test2Id)
+  })
+
+  afterAll(async () => {
+    await db('friend')
+      .where('user_id_1', FOUNDER_ID)
+      .orWhere('user_id_2', FOUNDER_ID)
+      .delete()
+    await db('friend_visibility')
+      .where('user_id', FOUNDER_ID)
+      .orWhere('friend_id', FOUNDER_ID)
+      .delete()
+    await db('user_profile').whereIn('id', [test1Id, test2Id]).update({ share_activity: true })
+  })
+
+  describe('GET /api/friends/leaderboard', () => {
+    it('should return 401 when no authorization header is provided', async () => {
+      await request(app)
+        .get('/api/friends/leaderboard')
+        .expect(401)
+    })
+
+    it('should return 400 for an unknown period', async () => {
+      const response = await request(app)
+        .get('/api/friends/leaderboard?period=year')
+        .set(auth)
+        .expect(400)
+
+      expect(response.body.error).toBe('Period must be one of day, week or month')
+    })
+
+    it('should rank the caller and friends with movement versus the previous period', async () => {
+      const response = await request(app)
+        .get('/api/friends/leaderboard?period=day')
+        .set(auth)
+        .expect(200)
+
+      const { entries, current, previous } = response.body.data
+      expect(current.from).toBe(current.to)
+      expect(previous.to < current.from).toBe(true)
+      expect(entries.map((entry: any) => entry.email).sort()).toEqual([
+        'founder@example.com',
+        'test1@example.com',
+        'test2@example.com'
+      ])
+
+      // Seeded data gives test1 120 minutes today and 150 yesterday, test2 90 and 110
+      const test1 = entries.find((entry: any) => entry.userId === test1Id)
+      const test2 = entries.find((entry: any) => entry.userId === test2Id)
+      expect(test1.totalMinutes).toBe(120)
+      expect(test1.rank).toBeLessThan(test2.rank)
+      expect(test1.rankChange).toBe(test1.previousRank - test1.rank)
+      expect(entries.find((entry: any) => entry.isCurrentUser).userId).toBe(FOUNDER_ID)
+    })
+
+    it('should exclude friends who opted out of sharing', async () => {
+      await db('user_profile').where({ id: test2Id }).update({ share_activity: false })
+
+      const response = await request(app)
+        .get('/api/friends/leaderboard?period=week')
+        .set(auth)
+        .expect(200)
+
+      const userIds = response.body.data.entries.map((entry: any) => entry.userId)
+      expect(userIds).toContain(test1Id)
+      expect(userIds).not.toContain(test2Id)
+    })
+  })
+
+  describe('PUT /api/friends/:friendId/visibility', () => {
+    it('should return 400 for a malformed friend ID', async () => {
+      const response = await request(app)
+        .put('/api/friends/not-a-uuid/visibility')
+        .set(auth)
+        .send({ share_activity: false })
+        .expect(400)
+
+      expect(response.body.error).toBe('Valid friend ID is required')
+    })
+
+    it('should return 404 when the user is not a friend', async () => {
+      await request(app)
+        .put('/api/friends/00000000-0000-4000-8000-000000000000/visibility')
+        .set(auth)
+        .send({ share_activity: false })
+        .expect(404)
+    })
+
+    it('should save the caller\'s visibility for a friend', async () => {
+      const response = await request(app)
+        .put(`/api/friends/${test1Id}/visibility`)
+        .set(auth)
+        .send({ share_activity: false })
+        .expect(200)
+
+      expect(response.body.data).toEqual({ friend_id: test1Id, share_activity: false })
+      const row = await db('friend_visibility').where({ user_id: FOUNDER_ID, friend_id: test1Id }).first()
+      expect(row.share_activity).toBe(false)
+    })
+
+    it('should hide a friend\'s activity when they hide it from the caller', async () => {
+      await db('friend_visibility').insert({ user_id: test1Id, friend_id: FOUNDER_ID, share_activity: false })
+
+      const list = await request(app)
+        .get('/api/friends/list')
+        .set(auth)
+        .expect(200)
+      const test1 = list.body.data.find((friend: any) => friend.friend_id === test1Id)
+      expect(test1).toMatchObject({ activity_visible: false, creating_time: 0 })
+
+      const leaderboard = await request(app)
+        .get('/api/friends/leaderboard?period=day')
+        .set(auth)
+        .expect(200)
+      expect(leaderboard.body.data.entries.map((entry: any) => entry.userId)).not.toContain(test1Id)
+
+      await db('friend_visibility').where({ user_id: test1Id, friend_id: FOUNDER_ID }).delete()
+    })
+
+    it('should hide a friend\'s activity when they opted out of sharing', async () => {
+      await db('user_profile').where({ id: test2Id }).update({ share_activity: false })
+
+      const list = await request(app)
+        .get('/api/friends/list')
+        .set(auth)
+        .expect(200)
+      const test2 = list.body.data.find((friend: any) => friend.friend_id === test2Id)
+      expect(test2).toMatchObject({ activity_visible: false, creating_time: 0 })
+
+      await db('user_profile').where({ id: test2Id }).update({ share_activity: true })
+    })
+  })
+
+  describe('Blocking', () => {
+    it('should block a friend, list them as blocked and refuse invites to them', async () => {
+      await request(app)
+        .post(`/api/friends/${test2Id}/block`)
+        .set(auth)
+        .expect(200)
+
+      const list = await request(app)
+        .get('/api/friends/list')
+        .set(auth)
+        .expect(200)
+      expect(list.body.data.map((friend: any) => friend.friend_id)).not.toContain(test2Id)
+
+      const blocked = await request(app)
+        .get('/api/friends/blocked')
+        .set(auth)
+        .expect(200)
+      expect(blocked.body.data.map((user: any) => user.email)).toEqual(['test2@example.com'])
+
+      await request(app)
+        .post('/api/friends/invite')
+        .set(auth)
+        .send({ to_email: 'test2@example.com' })
+        .expect(400)
+    })
+
+    it('should unblock a user only once', async () => {
+      await request(app)
+        .post(`/api/friends/${test2Id}/unblock`)
+        .set(auth)
+        .expect(200)
+
+      await request(app)
+        .post(`/api/friends/${test2Id}/unblock`)
+        .set(auth)
+        .expect(404)
+    })
+
+    it('should silently drop invites to a user who blocked the caller', async () => {
+      const [user_id_1, user_id_2] = FOUNDER_ID < test2Id ? [FOUNDER_ID, test2Id] : [test2Id, FOUNDER_ID]
+      await db('friend').insert({ user_id_1, user_id_2, status: 'blocked', blocked_by: test2Id })
+
+      const response = await request(app)
+        .post('/api/friends/invite')
+        .set(auth)
+        .send({ to_email: 'test2@example.com' })
+        .expect(201)
+
+      expect(response.body.data.status).toBe('pending')
+      const stored = await db('friend_request').where({ from_user_id: FOUNDER_ID, to_email: 'test2@example.com', status: 'pending' })
+      expect(stored).toHaveLength(0)
+    })
+  })
+
+  describe('DELETE /api/friends/:friendId', () => {
+    it('should remove an active friendship', async () => {
+      await request(app)
+        .delete(`/api/friends/${test1Id}`)
+        .set(auth)
+        .expect(200)
+
+      await request(app)
+        .delete(`/api/friends/${test1Id}`)
+        .set(auth)
+        .expect(404)
+    })
+  })
+
+  describe('Cancelling, resending and expiring friend requests', () => {
+    const inviteeEmail = 'pending-friend@example.com'
+    let requestId: string
+
+    afterAll(async () => {
+      await db('friend_request').where({ to_email: inviteeEmail }).delete()
+      await db('friend_request').where({ from_user_id: test1Id, to_email: 'founder@example.com' }).delete()
+    })
+
+    it('should return 400 for a malformed request ID and 404 for an unknown one', async () => {
+      await request(app)
+        .post('/api/friends/requests/not-a-uuid/cancel')
+        .set(auth)
+        .expect(400)
+
+      await request(app)
+        .post('/api/friends/requests/00000000-0000-4000-8000-000000000000/resend')
+        .set(auth)
+        .expect(404)
+    })
+
+    it('should rate-limit resends and restart the expiry once the cooldown has passed', async () => {
+      const invite = await request(app)
+        .post('/api/friends/invite')
+        .set(auth)
+        .send({ to_email: inviteeEmail })
+        .expect(201)
+      requestId = invite.body.data.id
+      expect(invite.body.data.expires_at).toBeDefined()
+
+      await request(app)
+        .post(`/api/friends/requests/${requestId}/resend`)
+        .set(auth)
+        .expect(429)
+
+      const dayAgo = new Date(Date.now() - 25 * 60 * 60 * 1000)
+      await db('friend_request').where({ id: requestId }).update({ last_sent_at: dayAgo, expires_at: dayAgo })
+
+      const response = await request(app)
+        .post(`/api/friends/requests/${requestId}/resend`)
+        .set(auth)
+        .expect(200)
+
+      expect(response.body.data.resend_count).toBe(1)
+      expect(new Date(response.body.data.expires_at).getTime()).toBeGreaterThan(Date.now())
+    })
+
+    it('should cancel a pending request once and allow inviting again', async () => {
+      const response = await request(app)
+        .post(`/api/friends/requests/${requestId}/cancel`)
+        .set(auth)
+        .expect(200)
+      expect(response.body.data.status).toBe('cancelled')
+
+      await request(app)
+        .post(`/api/friends/requests/${requestId}/cancel`)
+        .set(auth)
+        .expect(400)
+
+      const reinvite = await request(app)
+        .post('/api/friends/invite')
+        .set(auth)
+        .send({ to_email: inviteeEmail })
+        .expect(201)
+      expect(reinvite.body.data).toMatchObject({ id: requestId, status: 'pending', resend_count: 0 })
+    })
+
+    it('should hide expired requests from the recipient and mark them expired', async () => {
+      const [expired] = await db('friend_request')
+        .insert({
+          from_user_id: test1Id,
+          to_email: 'founder@example.com',
+          status: 'pending',
+          expires_at: new Date(Date.now() - 60 * 1000)
+        })
+        .returning('*')
+
+      const received = await request(app)
+        .get('/api/friends/requests/received')
+        .set(auth)
+        .expect(200)
+      expect(received.body.data.map((friendRequest: any) => friendRequest.id)).not.toContain(expired.id)
+
+      const count = await FriendsRepo.expireFriendRequests()
+      expect(count).toBeGreaterThanOrEqual(1)
+      const row = await db('friend_request').where({ id: expired.id }).first()
+      expect(row.status).toBe('expired')
+    })
+  })
+
+  describe('Friend invite links', () => {
+    let inviteId: string
+
+    beforeAll(() => {
+      process.env.FRIEND_INVITE_SECRET = 'test-invite-secret'
+    })
+
+    afterAll(async () => {
+      await db('friend_invite').whereIn('user_id', [FOUNDER_ID, test1Id]).delete()
+      await db('friend_invite_redeem_attempt').where({ user_id: FOUNDER_ID }).delete()
+    })
+
+    const createTest1Invite = async (overrides: Record<string, any> = {}) => {
+      const [invite] = await db('friend_invite')
+        .insert({
+          user_id: test1Id,
+          code: generateInviteCode(),
+          expires_at: new Date(Date.now() + 60 * 60 * 1000),
+          ...overrides
+        })
+        .returning('*')
+      return invite
+    }
+
+    it('should create a signed invite link with a short code', async () => {
+      const response = await request(app)
+        .post('/api/friends/invites')
+        .set(auth)
+        .send({ expires_in_hours: 24, max_uses: 5 })
+        .expect(201)
+
+      const invite = response.body.data
+      inviteId = invite.id
+      expect(invite.code).toMatch(/^[A-Z2-9]{12}$/)
+      expect(invite.url).toContain(`/friends/invite/${invite.code}.`)
+      expect(invite).toMatchObject({ status: 'active', max_uses: 5, use_count: 0 })
+    })
+
+    it('should return 400 for an invalid expiry', async () => {
+      await request(app)
+        .post('/api/friends/invites')
+        .set(auth)
+        .send({ expires_in_hours: 0 })
+        .expect(400)
+    })
+
+    it('should not let users redeem their own invite', async () => {
+      const invite = await db('friend_invite').where({ id: inviteId }).first()
+      const response = await request(app)
+        .post('/api/friends/invites/redeem')
+        .set(auth)
+        .send({ code: invite.code.toLowerCase() })
+        .expect(400)
+
+      expect(response.body.error).toBe('You cannot redeem your own invite')
+    })
+
+    it('should befriend the invite owner when a link is redeemed and track the redemption', async () => {
+      const invite = await createTest1Invite({ max_uses: 1 })
+      const token = signInviteToken(invite.code, new Date(invite.expires_at))
+
+      const response = await request(app)
+        .post('/api/friends/invites/redeem')
+        .set(auth)
+        .send({ code: token })
+        .expect(201)
+
+      expect(response.body.data.friend.email).toBe('test1@example.com')
+      expect(response.body.data.friendship.status).toBe('active')
+
+      const redemption = await db('friend_invite_redemption').where({ invite_id: invite.id }).first()
+      expect(redemption.redeemed_by).toBe(FOUNDER_ID)
+      const updated = await db('friend_invite').where({ id: invite.id }).first()
+      expect(updated.use_count).toBe(1)
+      const events = await db('friend_feed_event').where({ event_type: 'friendship_accepted', reference_id: response.body.data.friendship.id })
+      expect(events.map((event: any) => event.user_id).sort()).toEqual([FOUNDER_ID, test1Id].sort())
+
+      await request(app)
+        .post('/api/friends/invites/redeem')
+        .set(auth)
+        .send({ code: token })
+        .expect(410)
+    })
+
+    it('should reject tampered links and revoked invites', async () => {
+      const invite = await createTest1Invite({ revoked_at: new Date() })
+      const token = signInviteToken(invite.code, new Date(invite.expires_at))
+
+      await request(app)
+        .post('/api/friends/invites/redeem')
+        .set(auth)
+        .send({ code: `${token}x` })
+        .expect(400)
+
+      const response = await request(app)
+        .post('/api/friends/invites/redeem')
+        .set(auth)
+        .send({ code: token })
+        .expect(410)
+      expect(response.body.error).toBe('This invite has been revoked')
+    })
+
+    it('should stop redeeming after too many unknown codes', async () => {
+      await db('friend_invite_redeem_attempt').where({ user_id: FOUNDER_ID }).delete()
+      const invite = await createTest1Invite()
+
+      for (let i = 0; i < 10; i++) {
+        await request(app)
+          .post('/api/friends/invites/redeem')
+          .set(auth)
+          .send({ code: generateInviteCode() })
+          .expect(404)
+      }
+
+      const response = await request(app)
+        .post('/api/friends/invites/redeem')
+        .set(auth)
+        .send({ code: invite.code })
+        .expect(429)
+      expect(response.body.error).toBe('Too many invalid invite codes, please try again later')
+    })
+
+    it('should revoke an invite once and list it without a link', async () => {
+      await request(app)
+        .delete(`/api/friends/invites/${inviteId}`)
+        .set(auth)
+        .expect(200)
+
+      await request(app)
+        .delete(`/api/friends/invites/${inviteId}`)
+        .set(auth)
+        .expect(404)
+
+      const response = await request(app)
+        .get('/api/friends/invites')
+        .set(auth)
+        .expect(200)
+      const invite = response.body.data.find((item: any) => item.id === inviteId)
+      expect(invite).toMatchObject({ status: 'revoked', url: null, redemptions: [] })
+    })
+  })
+
+
+  describe('Friend feed', () => {
+    beforeAll(async () => {
+      await db('friend')
+        .where('user_id_1', FOUNDER_ID)
+        .orWhere('user_id_2', FOUNDER_ID)
+        .delete()
+      await befriend(test1Id)
+      await befriend(test2Id)
+      await db('user_profile').whereIn('id', [test1Id, test2Id]).update({ share_activity: true })
+      // Earlier tests may have recorded events through the write-path hooks
+      await db('friend_feed_event').whereIn('user_id', [FOUNDER_ID, test1Id, test2Id]).delete()
+    })
+
+    afterAll(async () => {
+      await db('friend_feed_event').whereIn('user_id', [FOUNDER_ID, test1Id, test2Id]).delete()
+      await db('friend_feed_preference').whereIn('user_id', [FOUNDER_ID, test1Id, test2Id]).delete()
+    })
+
+    it('should default every event type to broadcast', async () => {
+      const response = await request(app)
+        .get('/api/friends/feed/settings')
+        .set(auth)
+        .expect(200)
+
+      expect(response.body.data).toEqual({
+        focus_session_finished: true,
+        goal_hit: true,
+        personal_best: true,
+        friendship_accepted: true
+      })
+    })
+
+    it('should update settings and reject unknown event types', async () => {
+      const response = await request(app)
+        .put('/api/friends/feed/settings')
+        .set(auth)
+        .send({ personal_best: false })
+        .expect(200)
+
+      expect(response.body.data.personal_best).toBe(false)
+      expect(response.body.data.goal_hit).toBe(true)
+
+      await request(app)
+        .put('/api/friends/feed/settings')
+        .set(auth)
+        .send({ streak: false })
+        .expect(400)
+    })
+
+    it('should page through friends\' events newest first', async () => {
+      await db('friend_feed_event').insert([
+        { user_id: test1Id, event_type: 'goal_hit', reference_id: 'goal-1', created_at: new Date(Date.now() - 2000) },
+        { user_id: test2Id, event_type: 'focus_session_finished', reference_id: 'session-1', created_at: new Date(Date.now() - 1000) }
+      ])
+
+      const firstPage = await request(app)
+        .get('/api/friends/feed?limit=1')
+        .set(auth)
+        .expect(200)
+
+      expect(firstPage.body.data.events).toHaveLength(1)
+      expect(firstPage.body.data.events[0].email).toBe('test2@example.com')
+      expect(firstPage.body.data.next_cursor).toBeTruthy()
+
+      const secondPage = await request(app)
+        .get(`/api/friends/feed?limit=1&cursor=${firstPage.body.data.next_cursor}`)
+        .set(auth)
+        .expect(200)
+
+      expect(secondPage.body.data.events[0].email).toBe('test1@example.com')
+      expect(secondPage.body.data.next_cursor).toBeNull()
+    })
+
+    it('should not skip events created within the same millisecond', async () => {
+      const createdAt = new Date(Date.now() + 60000).toISOString().replace('Z', '')
+      await db('friend_feed_event').insert([
+        { user_id: test1Id, event_type: 'goal_hit', reference_id: 'goal-micro-1', created_at: `${createdAt}100Z` },
+        { user_id: test1Id, event_type: 'goal_hit', reference_id: 'goal-micro-2', created_at: `${createdAt}900Z` }
+      ])
+
+      const firstPage = await request(app)
+        .get('/api/friends/feed?limit=1')
+        .set(auth)
+        .expect(200)
+      const secondPage = await request(app)
+        .get(`/api/friends/feed?limit=1&cursor=${firstPage.body.data.next_cursor}`)
+        .set(auth)
+        .expect(200)
+
+      expect([firstPage, secondPage].map(page => page.body.data.events[0].reference_id)).toEqual(['goal-micro-2', 'goal-micro-1'])
+      expect(firstPage.body.data.events[0]).not.toHaveProperty('cursor_at')
+
+      await db('friend_feed_event').whereIn('reference_id', ['goal-micro-1', 'goal-micro-2']).delete()
+    })
+
+    it('should return 400 for a cursor that does not point at an event', async () => {
+      const cursor = Buffer.from(`${new Date().toISOString()}|not-a-uuid`).toString('base64url')
+
+      const response = await request(app)
+        .get(`/api/friends/feed?cursor=${cursor}`)
+        .set(auth)
+        .expect(400)
+      expect(response.body.error).toBe('Invalid cursor')
+    })
+
+    it('should hide activity events from friends who do not share with the caller', async () => {
+      await db('friend_visibility').insert({ user_id: test1Id, friend_id: FOUNDER_ID, share_activity: false })
+
+      const response = await request(app)
+        .get('/api/friends/feed')
+        .set(auth)
+        .expect(200)
+
+      expect(response.body.data.events.map((event: any) => event.user_id)).not.toContain(test1Id)
+      await db('friend_visibility').where({ user_id: test1Id, friend_id: FOUNDER_ID }).delete()
+    })
+
+    it('should not record event types the user stopped broadcasting', async () => {
+      await db('friend_feed_preference').insert({ user_id: test2Id, event_type: 'friendship_accepted', broadcast: false })
+
+      await FriendFeedService.recordFriendshipAccepted('friendship-1', [
+        { id: test1Id, email: 'test1@example.com' },
+        { id: test2Id, email: 'test2@example.com' }
+      ])
+
+      const recorded = await db('friend_feed_event').where({ event_type: 'friendship_accepted', reference_id: 'friendship-1' })
+      expect(recorded.map((event: any) => event.user_id)).toEqual([test1Id])
+    })
+  })
+
+
+  describe('GET /api/friends/presence/stream', () => {
+    it('should return 401 when no authorization header is provided', async () => {
+      await request(app)
+        .get('/api/friends/presence/stream')
+        .expect(401)
+    })
+
+    it('should return 503 when the presence channel is not connected', async () => {
+      const response = await request(app)
+        .get('/api/friends/presence/stream')
+        .set(auth)
+        .expect(503)
+
+      expect(response.body.error).toBe('Presence stream is not available')
+    })
+  })
+
+
+  describe('GET /api/friends/dashboard-insights with a range', () => {
+    beforeAll(async () => {
+      await request(app)
+        .post('/api/rollup/batch')
+        .set(auth)
+        .send({
+          updates: [
+            { tag_name: 'coding', duration_minutes: 45, date: '2023-02-27' },
+            { tag_name: 'coding', duration_minutes: 60, date: '2023-03-06' },
+            { tag_name: 'coding', duration_minutes: 30, date: '2023-03-08' }
+          ]
+        })
+        .expect(200)
+    })
+
+    afterAll(async () => {
+      await db('activity_day_rollup')
+        .where({ user_id: FOUNDER_ID })
+        .whereBetween('date', ['2023-02-27', '2023-03-08'])
+        .delete()
+    })
+
+    it('should return 400 for an unknown range', async () => {
+      const response = await request(app)
+        .get('/api/friends/dashboard-insights?range=year')
+        .set(auth)
+        .expect(400)
+
+      expect(response.body.error).toBe('Range must be one of week, month or custom')
+    })
+
+    it('should aggregate the week to date with a trend versus the same days last week', async () => {
+      const response = await request(app)
+        .get('/api/friends/dashboard-insights?range=week&date=2023-03-08')
+        .set(auth)
+        .expect(200)
+
+      const insights = response.body.data
+      expect(insights.current).toEqual({ from: '2023-03-06', to: '2023-03-08' })
+      expect(insights.previous).toEqual({ from: '2023-02-27', to: '2023-03-01' })
+      expect(insights.userActivity.totalMinutes).toBe(90)
+      expect(insights.userPercentile.percentile).toBe(100)
+      expect(insights.communityStats).toMatchObject({ totalCommunityMinutes: 90, activeUsers: 1 })
+      expect(insights.trend).toMatchObject({ previousMinutes: 45, differenceMinutes: 45, changePercent: 100, direction: 'up' })
+    })
+
+    it('should compare a custom range with the equally long range before it', async () => {
+      const response = await request(app)
+        .get('/api/friends/dashboard-insights?range=custom&from=2023-03-06&to=2023-03-08')
+        .set(auth)
+        .expect(200)
+
+      expect(response.body.data.previous).toEqual({ from: '2023-03-03', to: '2023-03-05' })
+      expect(response.body.data.trend).toMatchObject({ previousMinutes: 0, changePercent: null, direction: 'up' })
+    })
+
+    it('should clamp the previous month to its last day', async () => {
+      const response = await request(app)
+        .get('/api/friends/dashboard-insights?range=month&date=2023-03-31')
+        .set(auth)
+        .expect(200)
+
+      expect(response.body.data.current).toEqual({ from: '2023-03-01', to: '2023-03-31' })
+      expect(response.body.data.previous).toEqual({ from: '2023-02-01', to: '2023-02-28' })
+      expect(response.body.data.trend.previousMinutes).toBe(45)
+    })
+
+    it('should reject a custom range that ends before it starts', async () => {
+      const response = await request(app)
+        .get('/api/friends/dashboard-insights?range=custom&from=2023-03-08&to=2023-03-06')
+        .set(auth)
+        .expect(400)
+
+      expect(response.body.error).toBe('from must not be after to')
+    })
+  })
+
+
+  describe('GET /api/friends/dashboard-insights/distribution', () => {
+    const date = '2023-05-10'
+
+    beforeAll(async () => {
+      await db('activity_day_rollup').insert([
+        { user_id: FOUNDER_ID, date, tag_name: 'coding', total_duration_minutes: 90 },
+        { user_id: test1Id, date, tag_name: 'coding', total_duration_minutes: 30 },
+        { user_id: test2Id, date, tag_name: 'design', total_duration_minutes: 800 }
+      ])
+    })
+
+    afterAll(async () => {
+      await db('activity_day_rollup').where({ date }).delete()
+      await db('activity_day_distribution').where({ date }).delete()
+    })
+
+    it('should return 400 for a malformed date', async () => {
+      await request(app)
+        .get('/api/friends/dashboard-insights/distribution?date=May-10')
+        .set(auth)
+        .expect(400)
+    })
+
+    it('should place the user in the precomputed distribution with a histogram', async () => {
+      const response = await request(app)
+        .get(`/api/friends/dashboard-insights/distribution?date=${date}`)
+        .set(auth)
+        .expect(200)
+
+      const chart = response.body.data
+      expect(chart).toMatchObject({ date, userMinutes: 90, percentile: 67 })
+      expect(chart.distribution).toMatchObject({ p25: 60, p50: 90, p75: 445, p90: 658, userCount: 3 })
+      expect(chart.histogram.find((bucket: any) => bucket.fromMinutes === 90).users).toBe(1)
+      expect(chart.histogram[chart.histogram.length - 1]).toEqual({ fromMinutes: 720, toMinutes: null, users: 1 })
+
+      const stored = await db('activity_day_distribution').where({ date }).first()
+      expect(stored.totals).toEqual([30, 90, 800])
+    })
+
+    it('should serve the stored distribution until the refresh job runs', async () => {
+      await db('activity_day_rollup').insert({ user_id: test1Id, date, tag_name: 'writing', total_duration_minutes: 100 })
+
+      const stale = await request(app)
+        .get(`/api/friends/dashboard-insights?date=${date}`)
+        .set(auth)
+        .expect(200)
+      expect(stale.body.data.userPercentile).toMatchObject({ percentile: 67, distribution: { p50: 90 } })
+
+      await ActivityDistributionService.refreshRecentDistributions(new Date(`${date}T12:00:00Z`))
+
+      const fresh = await request(app)
+        .get(`/api/friends/dashboard-insights?date=${date}`)
+        .set(auth)
+        .expect(200)
+      expect(fresh.body.data.userPercentile).toMatchObject({ percentile: 33, distribution: { p50: 130 } })
+    })
+
+    it('should recompute a stored past day once its rollups change', async () => {
+      await request(app)
+        .post('/api/rollup/update')
+        .set(auth)
+        .send({ tag_name: 'coding', duration_minutes: 900, date })
+        .expect(200)
+
+      expect(await db('activity_day_distribution').where({ date }).first()).toBeUndefined()
+
+      const response = await request(app)
+        .get(`/api/friends/dashboard-insights/distribution?date=${date}`)
+        .set(auth)
+        .expect(200)
+      expect(response.body.data).toMatchObject({ userMinutes: 900, percentile: 100 })
+    })
+
+    it('should return 400 for a day that has not started anywhere yet', async () => {
+      const response = await request(app)
+        .get('/api/friends/dashboard-insights/distribution?date=2999-01-01')
+        .set(auth)
+        .expect(400)
+
+      expect(response.body.error).toBe('Date cannot be in the future')
+      expect(await db('activity_day_distribution').where({ date: '2999-01-01' }).first()).toBeUndefined()
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'bun:test'
+import request from 'supertest'
+import app from '../../index'
+import { GoalService } from '../../services/GoalService'
+import { getDateInTimeZone } from '../../utils/timezone'
+
+const FOUNDER_ID = '409cf9b9-7aae-4a13-aca9-1bcd7b9a4209'
+const auth = { Authorization: 'Bearer valid_test_token' }
+
+describe('Goals API', () => {
+  describe('Authentication Required', () => {
+    it('should return 401 when no authorization header is provided', async () => {
+      await request(app)
+        .get('/api/goals')
+        .expect(401)
+    })
+  })
+
+  describe('POST /api/goals', () => {
+    it('should reject an unknown period', async () => {
+      const response = await request(app)
+        .post('/api/goals')
+        .set(auth)
+        .send({ period: 'monthly', target_minutes: 60 })
+        .expect(400)
+
+      expect(response.body.error).toBe('Period must be either "daily" or "weekly"')
+    })
+
+    it('should reject a daily target longer than a day', async () => {
+      await request(app)
+        .post('/api/goals')
+        .set(auth)
+        .send({ period: 'daily', target_minutes: 24 * 60 + 1 })
+        .expect(400)
+    })
+  })
+
+  describe('GET /api/goals', () => {
+    it('should report progress for the current period', async () => {
+      const today = getDateInTimeZone()
+
+      const created = await request(app)
+        .post('/api/goals')
+        .set(auth)
+        .send({ period: 'daily', target_minutes: 120, tag_names: ['goal-progress'] })
+        .expect(201)
+
+      await request(app)
+        .post('/api/rollup/update')
+        .set(auth)
+        .send({ tag_name: 'goal-progress', duration_minutes: 90, date: today })
+        .expect(200)
+
+      const response = await request(app)
+        .get('/api/goals')
+        .set(auth)
+        .expect(200)
+
+      const goal = response.body.data.find((g: any) => g.id === created.body.data.id)
+      expect(goal).toMatchObject({
+        user_id: FOUNDER_ID,
+        period: 'daily',
+        tag_names: ['goal-progress'],
+        period_start: today,
+        period_end: today,
+        progress_minutes: 90,
+        remaining_minutes: 30,
+        percent_complete: 75,
+        achieved: false
+      })
+    })
+  })
+
+  describe('PUT and DELETE /api/goals/:goalId', () => {
+    it('should update the target and then delete the goal', async () => {
+      const created = await request(app)
+        .post('/api/goals')
+        .set(auth)
+        .send({ period: 'weekly', target_minutes: 600 })
+        .expect(201)
+      const goalId = created.body.data.id
+
+      const updated = await request(app)
+        .put(`/api/goals/${goalId}`)
+        .set(auth)
+        .send({ target_minutes: 900 })
+        .expect(200)
+      expect(updated.body.data).toMatchObject({ period: 'weekly', target_minutes: 900, tag_names: null })
+
+      await request(app)
+        .delete(`/api/goals/${goalId}`)
+        .set(auth)
+        .expect(200)
+
+      await request(app)
+        .put(`/api/goals/${goalId}`)
+        .set(auth)
+        .send({ target_minutes: 300 })
+        .expect(404)
+    })
+
+    it('should return 400 for a malformed goal id', async () => {
+      const updated = await request(app)
+        .put('/api/goals/not-a-uuid')
+        .set(auth)
+        .send({ target_minutes: 900 })
+        .expect(400)
+      expect(updated.body.error).toBe('Valid goal ID is required')
+
+      await request(app)
+        .delete('/api/goals/not-a-uuid')
+        .set(auth)
+        .expect(400)
+    })
+  })
+
+  describe('Goal evaluation', () => {
+    it('should record a hit or miss once per completed period', async () => {
+      const today = getDateInTimeZone()
+      const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000)
+
+      const hitGoal = await request(app)
+        .post('/api/goals')
+        .set(auth)
+        .send({ period: 'daily', target_minutes: 30, tag_names: ['goal-eval'] })
+        .expect(201)
+      const missedGoal = await request(app)
+        .post('/api/goals')
+        .set(auth)
+        .send({ period: 'daily', target_minutes: 60, tag_names: ['goal-eval'] })
+        .expect(201)
+
+      await request(app)
+        .post('/api/rollup/update')
+        .set(auth)
+        .send({ tag_name: 'goal-eval', duration_minutes: 45, date: today })
+        .expect(200)
+
+      const recorded = await GoalService.evaluateCompletedGoals(tomorrow)
+      const hit = recorded.find(result => result.goal_id === hitGoal.body.data.id)
+      const missed = recorded.find(result => result.goal_id === missedGoal.body.data.id)
+      expect(hit).toMatchObject({ status: 'hit', period_start: today, achieved_minutes: 45 })
+      expect(missed).toMatchObject({ status: 'missed', period_start: today, achieved_minutes: 45 })
+
+      const rerun = await GoalService.evaluateCompletedGoals(tomorrow)
+      expect(rerun.find(result => result.goal_id === hitGoal.body.data.id)).toBeUndefined()
+
+      const response = await request(app)
+        .get('/api/goals/results')
+        .set(auth)
+        .expect(200)
+
+      const results = response.body.data.filter((result: any) =>
+        [hitGoal.body.data.id, missedGoal.body.data.id].includes(result.goal_id)
+      )
+      expect(results).toHaveLength(2)
+    })
+  })
+})
\ No newline at end of file
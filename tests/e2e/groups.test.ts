@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test'
+import request from 'supertest'
+import app from '../../index'
+import { getDb } from '../../config/database'
+import { GroupsRepo } from '../../repos/Groups'
+
+const FOUNDER_ID = '409cf9b9-7aae-4a13-aca9-1bcd7b9a4209'
+const auth = { Authorization: 'Bearer valid_test_token' }
+
+describe('Groups API', () => {
+  const db = getDb()
+  let test1Id: string
+  let groupId: string
+
+  beforeAll(async () => {
+    test1Id = (await db('auth.users').where({ email: 'test1@example.com' }).first()).id
+  })
+
+  afterAll(async () => {
+    await db('friend_group').whereIn('created_by', [FOUNDER_ID, test1Id]).delete()
+    await db('user_profile').where({ id: test1Id }).update({ share_activity: true })
+  })
+
+  describe('Authentication Required', () => {
+    it('should return 401 when no authorization header is provided', async () => {
+      await request(app)
+        .get('/api/groups')
+        .expect(401)
+    })
+  })
+
+  describe('POST /api/groups', () => {
+    it('should require a name', async () => {
+      const response = await request(app)
+        .post('/api/groups')
+        .set(auth)
+        .send({ name: '  ' })
+        .expect(400)
+
+      expect(response.body.error).toBe('Group name must be between 1 and 100 characters')
+    })
+
+    it('should create a group owned by the caller', async () => {
+      const response = await request(app)
+        .post('/api/groups')
+        .set(auth)
+        .send({ name: 'Makers', description: 'Our team' })
+        .expect(201)
+
+      groupId = response.body.data.id
+      expect(response.body.data.name).toBe('Makers')
+
+      const groups = await request(app)
+        .get('/api/groups')
+        .set(auth)
+        .expect(200)
+      expect(groups.body.data.find((group: any) => group.id === groupId)).toMatchObject({ role: 'owner', member_count: 1 })
+    })
+
+    it('should hide groups the caller is not a member of', async () => {
+      const otherGroup = await GroupsRepo.createGroup(test1Id, { name: 'Private', description: null })
+
+      await request(app)
+        .get(`/api/groups/${otherGroup.id}`)
+        .set(auth)
+        .expect(404)
+    })
+  })
+
+  describe('Invitations', () => {
+    it('should invite by email and reject duplicate or invalid invitations', async () => {
+      const response = await request(app)
+        .post(`/api/groups/${groupId}/invitations`)
+        .set(auth)
+        .send({ email: 'Test1@example.com' })
+        .expect(201)
+      expect(response.body.data).toMatchObject({ to_email: 'test1@example.com', status: 'pending' })
+
+      await request(app)
+        .post(`/api/groups/${groupId}/invitations`)
+        .set(auth)
+        .send({ email: 'test1@example.com' })
+        .expect(400)
+
+      await request(app)
+        .post(`/api/groups/${groupId}/invitations`)
+        .set(auth)
+        .send({ email: 'not-an-email' })
+        .expect(400)
+
+      // test1 accepts on their side
+      const result = await GroupsRepo.acceptInvitation(response.body.data.id, test1Id, 50)
+      expect(result).toMatchObject({ status: 'accepted', membership: { role: 'member' } })
+
+      await request(app)
+        .post(`/api/groups/${groupId}/invitations`)
+        .set(auth)
+        .send({ email: 'test1@example.com' })
+        .expect(409)
+    })
+
+    it('should list and accept invitations sent to the caller', async () => {
+      const otherGroup = await GroupsRepo.createGroup(test1Id, { name: 'Night owls', description: null })
+      const invitation = await GroupsRepo.createInvitation(otherGroup.id, test1Id, 'founder@example.com')
+
+      const received = await request(app)
+        .get('/api/groups/invitations')
+        .set(auth)
+        .expect(200)
+      expect(received.body.data.find((item: any) => item.id === invitation.id)).toMatchObject({
+        group_name: 'Night owls',
+        invited_by_email: 'test1@example.com'
+      })
+
+      const response = await request(app)
+        .post(`/api/groups/invitations/${invitation.id}/respond`)
+        .set(auth)
+        .send({ action: 'accept' })
+        .expect(200)
+      expect(response.body.data.membership).toMatchObject({ group_id: otherGroup.id, user_id: FOUNDER_ID, role: 'member' })
+
+      await request(app)
+        .post(`/api/groups/invitations/${invitation.id}/respond`)
+        .set(auth)
+        .send({ action: 'decline' })
+        .expect(400)
+    })
+
+    it('should not accept an invitation once the group is full', async () => {
+      const otherGroup = await GroupsRepo.createGroup(test1Id, { name: 'Tiny', description: null })
+      const invitation = await GroupsRepo.createInvitation(otherGroup.id, test1Id, 'founder@example.com')
+
+      expect(await GroupsRepo.acceptInvitation(invitation.id, FOUNDER_ID, 1)).toEqual({ status: 'group_full' })
+      const pending = await GroupsRepo.getInvitationById(invitation.id)
+      expect(pending?.status).toBe('pending')
+      expect(await GroupsRepo.getMembership(otherGroup.id, FOUNDER_ID)).toBeNull()
+    })
+  })
+
+  describe('GET /api/groups/:groupId/dashboard', () => {
+    it('should return 400 for an unknown period', async () => {
+      await request(app)
+        .get(`/api/groups/${groupId}/dashboard?period=year`)
+        .set(auth)
+        .expect(400)
+    })
+
+    it('should total creating time per member and compare with the community', async () => {
+      const response = await request(app)
+        .get(`/api/groups/${groupId}/dashboard?period=day`)
+        .set(auth)
+        .expect(200)
+
+      const dashboard = response.body.data
+      const test1 = dashboard.members.find((member: any) => member.userId === test1Id)
+      const founder = dashboard.members.find((member: any) => member.isCurrentUser)
+
+      // Seeded data gives test1 120 creating minutes today
+      expect(dashboard.memberCount).toBe(2)
+      expect(test1.totalMinutes).toBe(120)
+      expect(founder.userId).toBe(FOUNDER_ID)
+      expect(dashboard.totalMinutes).toBe(test1.totalMinutes + founder.totalMinutes)
+      expect(test1.shareOfGroupPercent).toBe(Math.round((120 / dashboard.totalMinutes) * 100))
+      expect(dashboard.communityComparison.groupAverage).toBe(Math.round(dashboard.totalMinutes / 2))
+      expect(dashboard.communityComparison.communityAverage).toBeGreaterThan(0)
+    })
+
+    it('should leave members who hide their activity from the caller out of the totals', async () => {
+      await db('friend_visibility').insert({ user_id: test1Id, friend_id: FOUNDER_ID, share_activity: false })
+
+      const response = await request(app)
+        .get(`/api/groups/${groupId}/dashboard?period=day`)
+        .set(auth)
+        .expect(200)
+      await db('friend_visibility').where({ user_id: test1Id, friend_id: FOUNDER_ID }).delete()
+
+      const test1 = response.body.data.members.find((member: any) => member.userId === test1Id)
+      expect(test1).toMatchObject({ activityVisible: false, totalMinutes: null })
+      expect(response.body.data.sharingMemberCount).toBe(1)
+    })
+
+    it('should leave members who do not share activity out of the totals', async () => {
+      await db('user_profile').where({ id: test1Id }).update({ share_activity: false })
+
+      const response = await request(app)
+        .get(`/api/groups/${groupId}/dashboard?period=day`)
+        .set(auth)
+        .expect(200)
+
+      const test1 = response.body.data.members.find((member: any) => member.userId === test1Id)
+      const founder = response.body.data.members.find((member: any) => member.isCurrentUser)
+      expect(test1).toMatchObject({ activityVisible: false, totalMinutes: null })
+      expect(response.body.data.totalMinutes).toBe(founder.totalMinutes)
+      expect(response.body.data.sharingMemberCount).toBe(1)
+    })
+  })
+
+  describe('Membership management', () => {
+    it('should let the owner promote a member and hand over ownership', async () => {
+      await request(app)
+        .put(`/api/groups/${groupId}/members/${test1Id}`)
+        .set(auth)
+        .send({ role: 'admin' })
+        .expect(200)
+
+      await request(app)
+        .put(`/api/groups/${groupId}/members/${test1Id}`)
+        .set(auth)
+        .send({ role: 'owner' })
+        .expect(200)
+
+      const group = await request(app)
+        .get(`/api/groups/${groupId}`)
+        .set(auth)
+        .expect(200)
+      expect(group.body.data.role).toBe('admin')
+      expect(group.body.data.members[0]).toMatchObject({ user_id: test1Id, role: 'owner' })
+    })
+
+    it('should stop admins from deleting the group or removing the owner', async () => {
+      await request(app)
+        .delete(`/api/groups/${groupId}`)
+        .set(auth)
+        .expect(403)
+
+      await request(app)
+        .delete(`/api/groups/${groupId}/members/${test1Id}`)
+        .set(auth)
+        .expect(403)
+    })
+
+    it('should let a member leave the group', async () => {
+      await request(app)
+        .delete(`/api/groups/${groupId}/members/${FOUNDER_ID}`)
+        .set(auth)
+        .expect(200)
+
+      await request(app)
+        .get(`/api/groups/${groupId}`)
+        .set(auth)
+        .expect(404)
+    })
+  })
+})
\ No newline at end of file
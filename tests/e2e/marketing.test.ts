@@ -1,6 +1,9 @@
-import { describe, it, expect } from 'bun:test'
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test'
 import request from 'supertest'
 import app from '../../index'
+import { getDb } from '../../config/database'
+import { MarketingService } from '../../services/MarketingService'
+import { getDateInTimeZone, shiftDate } from '../../utils/timezone'
 
 describe('Marketing API', () => {
   describe('GET /api/marketing/weekly-activity', () => {
@@ -210,4 +213,194 @@ describe('Marketing API', () => {
         .expect(200)
     })
   })
+
+  describe('Marketing snapshots', () => {
+    const db = getDb()
+    const snapshotDates = ['2000-01-01', '2000-01-02']
+
+    beforeAll(async () => {
+      await db('marketing_snapshot').whereIn('snapshot_date', snapshotDates).del()
+      for (const date of snapshotDates) {
+        await MarketingService.snapshotMarketingStats(date)
+      }
+    })
+
+    afterAll(async () => {
+      await db('marketing_snapshot').whereIn('snapshot_date', snapshotDates).del()
+    })
+
+    it('should return the stored history for a metric', async () => {
+      const totalHours = await request(app).get('/api/marketing/total-hours').expect(200)
+
+      const response = await request(app)
+        .get('/api/marketing/history/total_hours?from=2000-01-01&to=2000-01-31')
+        .expect(200)
+
+      expect(response.body.success).toBe(true)
+      expect(response.body.data.metric).toBe('total_hours')
+      expect(response.body.data.from).toBe('2000-01-01')
+      expect(response.body.data.to).toBe('2000-01-31')
+      expect(response.body.data.points).toEqual([
+        { date: '2000-01-01', value: totalHours.body.data.total_hours },
+        { date: '2000-01-02', value: totalHours.body.data.total_hours }
+      ])
+    })
+
+    it('should reject unknown metrics and invalid ranges', async () => {
+      await request(app).get('/api/marketing/history/weekly_activity').expect(400)
+      await request(app).get('/api/marketing/history/total_hours?from=2000-02-01&to=2000-01-01').expect(400)
+      await request(app).get('/api/marketing/history/total_hours?from=1998-01-01&to=2000-01-01').expect(400)
+      await request(app).get('/api/marketing/history/total_hours?from=01-01-2000').expect(400)
+    })
+
+    it('should return every metric stored for a date', async () => {
+      const response = await request(app)
+        .get('/api/marketing/snapshots/2000-01-01')
+        .expect(200)
+
+      expect(response.body.data.date).toBe('2000-01-01')
+      const metrics = response.body.data.metrics
+      expect(typeof metrics.total_hours).toBe('number')
+      expect(typeof metrics.average_weekly_hours).toBe('number')
+      expect(Array.isArray(metrics.weekly_activity)).toBe(true)
+      expect(Array.isArray(metrics.daily_activity)).toBe(true)
+      expect(Array.isArray(metrics.top_creating_days)).toBe(true)
+      expect(Array.isArray(metrics.cumulative_weekly_hours)).toBe(true)
+    })
+
+    it('should return 404 for a date without a snapshot and 400 for a bad date', async () => {
+      await request(app).get('/api/marketing/snapshots/1999-12-31').expect(404)
+      await request(app).get('/api/marketing/snapshots/yesterday').expect(400)
+    })
+
+    it('should keep serving primed values after activity is written', async () => {
+      await request(app)
+        .post('/api/rollup/update')
+        .set('Authorization', 'Bearer valid_test_token')
+        .send({ tag_name: 'snapshot-priming', duration_minutes: 5, date: '2000-01-01' })
+        .expect(200)
+
+      const status = await request(app).get('/api/marketing/cache-status').expect(200)
+      const totalHours = status.body.data.items.find((item: any) => item.key === 'marketing:total-hours')
+      expect(totalHours).toMatchObject({ stale: false })
+
+      await db('activity_day_rollup').where({ tag_name: 'snapshot-priming' }).del()
+    })
+  })
+
+  describe('Marketing snapshot backfill', () => {
+    const db = getDb()
+    const FOUNDER_ID = '409cf9b9-7aae-4a13-aca9-1bcd7b9a4209'
+    const dates = ['1990-02-20', '1990-03-01', '1990-03-02', '1990-03-03']
+
+    beforeAll(async () => {
+      await db('activity_day_rollup').insert([
+        { user_id: FOUNDER_ID, date: '1990-02-20', tag_name: 'backfill', total_duration_minutes: 120 },
+        { user_id: FOUNDER_ID, date: '1990-03-01', tag_name: 'backfill', total_duration_minutes: 60 },
+        { user_id: FOUNDER_ID, date: '1990-03-02', tag_name: 'backfill', total_duration_minutes: 30 }
+      ])
+      await db('marketing_snapshot').insert({ snapshot_date: '1990-03-03', metric: 'total_hours', value: 99 })
+    })
+
+    afterAll(async () => {
+      await db('activity_day_rollup').where({ tag_name: 'backfill' }).whereIn('date', dates).del()
+      await db('marketing_snapshot').whereIn('snapshot_date', dates).del()
+    })
+
+    it('should fill in history from the rollups without replacing stored snapshots', async () => {
+      const result = await MarketingService.backfillSnapshots('1990-03-01', '1990-03-03')
+      expect(result.inserted).toBe(5)
+
+      const response = await request(app)
+        .get('/api/marketing/history/total_hours?from=1990-03-01&to=1990-03-03')
+        .expect(200)
+      expect(response.body.data.points).toEqual([
+        { date: '1990-03-01', value: 3 },
+        { date: '1990-03-02', value: 3.5 },
+        { date: '1990-03-03', value: 99 }
+      ])
+
+      const average = await request(app)
+        .get('/api/marketing/history/average_weekly_hours?from=1990-03-01&to=1990-03-03')
+        .expect(200)
+      expect(average.body.data.points.map((point: any) => point.value)).toEqual([1, 1.5, 1.5])
+    })
+
+    it('should validate backfill ranges', () => {
+      expect(() => MarketingService.parseBackfillRange(undefined, undefined)).toThrow('from is required')
+      expect(() => MarketingService.parseBackfillRange('1990-03-02', '1990-03-01')).toThrow('from must not be after to')
+      expect(MarketingService.parseBackfillRange('1990-03-01', '1990-03-03')).toEqual({ from: '1990-03-01', to: '1990-03-03' })
+    })
+  })
+
+  describe('GET /api/marketing/badge/:metric.svg', () => {
+    it('should render a badge for a scalar metric', async () => {
+      const response = await request(app)
+        .get('/api/marketing/badge/total-hours.svg')
+        .expect(200)
+
+      expect(response.headers['content-type']).toMatch(/image\/svg\+xml/)
+      expect(response.headers['cache-control']).toContain('max-age=300')
+      expect(response.headers['etag']).toBeDefined()
+      const svg = response.body.toString()
+      expect(svg).toStartWith('<svg')
+      expect(svg).toContain('hours creating')
+    })
+
+    it('should render a sparkline for a series metric with theming', async () => {
+      const response = await request(app)
+        .get('/api/marketing/badge/daily-activity.svg?days=7&theme=dark&color=ff5500&label=%3Cb%3Eteam%3C%2Fb%3E')
+        .expect(200)
+
+      const svg = response.body.toString()
+      expect(svg).toContain('<polyline')
+      expect(svg).toContain('#ff5500')
+      expect(svg).toContain('#0d1117')
+      expect(svg).toContain('&lt;b&gt;team&lt;/b&gt;')
+      expect(svg).not.toContain('<b>')
+    })
+
+    it('should plot daily activity oldest first with empty days as zero', async () => {
+      const originalGetDailyActivityData = MarketingService.getDailyActivityData
+      const today = getDateInTimeZone()
+      MarketingService.getDailyActivityData = async () => [
+        { date: today, total_minutes: 120 },
+        { date: shiftDate(today, -2), total_minutes: 60 }
+      ]
+
+      try {
+        const response = await request(app).get('/api/marketing/badge/daily-activity.svg?days=3').expect(200)
+
+        const polyline = response.body.toString().match(/<polyline points="([^"]+)"/)![1]
+        const ys = polyline.split(' ').map((point: string) => Number(point.split(',')[1]))
+        expect(ys).toHaveLength(3)
+        // SVG y grows downwards: 1h, then an empty day, then 2h
+        expect(ys[1]).toBeGreaterThan(ys[0])
+        expect(ys[0]).toBeGreaterThan(ys[2])
+        expect(response.body.toString()).toContain('3 hrs')
+      } finally {
+        MarketingService.getDailyActivityData = originalGetDailyActivityData
+      }
+    })
+
+    it('should return 304 when the ETag matches', async () => {
+      const first = await request(app).get('/api/marketing/badge/weekly-activity.svg?type=badge').expect(200)
+      expect(first.body.toString()).toContain('hours, latest week')
+
+      await request(app)
+        .get('/api/marketing/badge/weekly-activity.svg?type=badge')
+        .set('If-None-Match', first.headers['etag'] as string)
+        .expect(304)
+    })
+
+    it('should reject unknown metrics and invalid theming', async () => {
+      await request(app).get('/api/marketing/badge/revenue.svg').expect(404)
+      await request(app).get('/api/marketing/badge/total-hours.svg?type=sparkline').expect(400)
+      await request(app).get('/api/marketing/badge/total-hours.svg?color=not-a-color').expect(400)
+      await request(app).get('/api/marketing/badge/total-hours.svg?color=constructor').expect(400)
+      await request(app).get('/api/marketing/badge/total-hours.svg?labelColor=__proto__').expect(400)
+      await request(app).get('/api/marketing/badge/weekly-activity.svg?theme=neon').expect(400)
+      await request(app).get('/api/marketing/badge/daily-activity.svg?days=0').expect(400)
+    })
+  })
 }) 
\ No newline at end of file
@@ -0,0 +1,364 @@
+import { describe, it, expect } from 'bun:test'
+import request from 'supertest'
+import app from '../../index'
+import { getDb } from '../../config/database'
+
+const FOUNDER_ID = '409cf9b9-7aae-4a13-aca9-1bcd7b9a4209'
+
+describe('Rollup API', () => {
+  describe('POST /api/rollup/update', () => {
+    it('should overwrite the daily total in set mode', async () => {
+      const send = (duration_minutes: number) => request(app)
+        .post('/api/rollup/update')
+        .set('Authorization', 'Bearer valid_test_token')
+        .send({ tag_name: 'mode-set', duration_minutes, date: '2024-04-01' })
+        .expect(200)
+
+      await send(40)
+      const response = await send(30)
+
+      expect(response.body.data.total_duration_minutes).toBe(30)
+      expect(response.body.data.applied).toBe(true)
+    })
+
+    it('should add to the daily total in increment mode', async () => {
+      const send = (duration_minutes: number) => request(app)
+        .post('/api/rollup/update')
+        .set('Authorization', 'Bearer valid_test_token')
+        .send({ tag_name: 'mode-increment', duration_minutes, date: '2024-04-01', mode: 'increment' })
+        .expect(200)
+
+      await send(40)
+      const response = await send(15)
+
+      expect(response.body.data.total_duration_minutes).toBe(55)
+    })
+
+    it('should not count a retried increment twice', async () => {
+      const send = () => request(app)
+        .post('/api/rollup/update')
+        .set('Authorization', 'Bearer valid_test_token')
+        .send({
+          tag_name: 'mode-retry',
+          duration_minutes: 20,
+          date: '2024-04-01',
+          mode: 'increment',
+          idempotency_key: 'sync-2024-04-01-001'
+        })
+        .expect(200)
+
+      const first = await send()
+      const retry = await send()
+
+      expect(first.body.data.applied).toBe(true)
+      expect(retry.body.data.applied).toBe(false)
+      expect(retry.body.data.total_duration_minutes).toBe(20)
+    })
+
+    it('should return 400 for an unknown mode', async () => {
+      const response = await request(app)
+        .post('/api/rollup/update')
+        .set('Authorization', 'Bearer valid_test_token')
+        .send({ tag_name: 'mode-bad', duration_minutes: 10, date: '2024-04-01', mode: 'append' })
+        .expect(400)
+
+      expect(response.body.error).toBe('Mode must be either "set" or "increment"')
+    })
+  })
+
+  describe('POST /api/rollup/batch', () => {
+    it('should return 401 when no authorization header is provided', async () => {
+      const response = await request(app)
+        .post('/api/rollup/batch')
+        .send({ updates: [] })
+        .expect(401)
+
+      expect(response.body).toEqual({
+        success: false,
+        error: 'Access token required'
+      })
+    })
+
+    it('should return 400 when updates is not a non-empty array', async () => {
+      const response = await request(app)
+        .post('/api/rollup/batch')
+        .set('Authorization', 'Bearer valid_test_token')
+        .send({ updates: [] })
+        .expect(400)
+
+      expect(response.body.error).toBe('Updates must be a non-empty array')
+    })
+
+    it('should upsert every valid update across dates and tags', async () => {
+      const response = await request(app)
+        .post('/api/rollup/batch')
+        .set('Authorization', 'Bearer valid_test_token')
+        .send({
+          updates: [
+            { tag_name: 'batch-coding', duration_minutes: 30, date: '2024-01-01' },
+            { tag_name: 'batch-design', duration_minutes: 45, date: '2024-01-01' },
+            { tag_name: 'batch-coding', duration_minutes: 60, date: '2024-01-02' }
+          ]
+        })
+        .expect(200)
+
+      expect(response.body.success).toBe(true)
+      expect(response.body.data.succeeded).toBe(3)
+      expect(response.body.data.failed).toBe(0)
+
+      const rows = await getDb()('activity_day_rollup')
+        .where({ user_id: FOUNDER_ID })
+        .whereIn('tag_name', ['batch-coding', 'batch-design'])
+      expect(rows).toHaveLength(3)
+    })
+
+    it('should report invalid items without rejecting the valid ones', async () => {
+      const response = await request(app)
+        .post('/api/rollup/batch')
+        .set('Authorization', 'Bearer valid_test_token')
+        .send({
+          updates: [
+            { tag_name: 'batch-partial', duration_minutes: 15, date: '2024-02-01' },
+            { tag_name: 'batch-partial', duration_minutes: -5, date: '2024-02-02' },
+            { tag_name: 'batch-partial', duration_minutes: 20, date: '02/03/2024' }
+          ]
+        })
+        .expect(200)
+
+      const { results, succeeded, failed } = response.body.data
+      expect(succeeded).toBe(1)
+      expect(failed).toBe(2)
+      expect(results.map((r: any) => r.index)).toEqual([0, 1, 2])
+      expect(results[0].success).toBe(true)
+      expect(results[1]).toEqual({ index: 1, success: false, error: 'Valid duration in minutes is required' })
+      expect(results[2]).toEqual({ index: 2, success: false, error: 'Date must be in YYYY-MM-DD format' })
+    })
+
+    it('should let later entries win for the same date and tag', async () => {
+      await request(app)
+        .post('/api/rollup/batch')
+        .set('Authorization', 'Bearer valid_test_token')
+        .send({
+          updates: [
+            { tag_name: 'batch-repeat', duration_minutes: 10, date: '2024-03-01' },
+            { tag_name: 'batch-repeat', duration_minutes: 25, date: '2024-03-01' }
+          ]
+        })
+        .expect(200)
+
+      const row = await getDb()('activity_day_rollup')
+        .where({ user_id: FOUNDER_ID, tag_name: 'batch-repeat', date: '2024-03-01' })
+        .first()
+      expect(row.total_duration_minutes).toBe(25)
+    })
+  })
+
+  describe('GET /api/rollup/history', () => {
+    const seedHistory = () => request(app)
+      .post('/api/rollup/batch')
+      .set('Authorization', 'Bearer valid_test_token')
+      .send({
+        updates: [
+          { tag_name: 'history-coding', duration_minutes: 60, date: '2023-06-01' },
+          { tag_name: 'history-coding', duration_minutes: 90, date: '2023-06-02' },
+          { tag_name: 'history-reading', duration_minutes: 30, date: '2023-06-02' },
+          { tag_name: 'history-coding', duration_minutes: 45, date: '2023-06-03' },
+          { tag_name: 'history-reading', duration_minutes: 20, date: '2023-06-05' }
+        ]
+      })
+      .expect(200)
+
+    it('should return 401 when no authorization header is provided', async () => {
+      await request(app)
+        .get('/api/rollup/history')
+        .expect(401)
+    })
+
+    it('should return daily totals, tag totals, best day and streaks', async () => {
+      await seedHistory()
+
+      const response = await request(app)
+        .get('/api/rollup/history?from=2023-06-01&to=2023-06-05&groupBy=day')
+        .set('Authorization', 'Bearer valid_test_token')
+        .expect(200)
+
+      const history = response.body.data
+      expect(history.totalMinutes).toBe(245)
+      expect(history.groups).toEqual([
+        { key: '2023-06-01', totalMinutes: 60 },
+        { key: '2023-06-02', totalMinutes: 120 },
+        { key: '2023-06-03', totalMinutes: 45 },
+        { key: '2023-06-05', totalMinutes: 20 }
+      ])
+      expect(history.tags).toEqual([
+        { key: 'history-coding', totalMinutes: 195 },
+        { key: 'history-reading', totalMinutes: 50 }
+      ])
+      expect(history.bestDay).toEqual({ date: '2023-06-02', totalMinutes: 120 })
+      expect(history.streak).toEqual({ current: 1, longest: 3 })
+    })
+
+    it('should group totals by month', async () => {
+      const response = await request(app)
+        .get('/api/rollup/history?from=2023-06-01&to=2023-06-05&groupBy=month')
+        .set('Authorization', 'Bearer valid_test_token')
+        .expect(200)
+
+      expect(response.body.data.groups).toEqual([{ key: '2023-06-01', totalMinutes: 245 }])
+    })
+
+    it('should return 400 for an unknown groupBy', async () => {
+      const response = await request(app)
+        .get('/api/rollup/history?groupBy=year')
+        .set('Authorization', 'Bearer valid_test_token')
+        .expect(400)
+
+      expect(response.body.error).toBe('groupBy must be one of day, week, month, tag or category')
+    })
+
+    it('should return 400 when from is after to', async () => {
+      await request(app)
+        .get('/api/rollup/history?from=2023-06-05&to=2023-06-01')
+        .set('Authorization', 'Bearer valid_test_token')
+        .expect(400)
+    })
+  })
+
+  describe('/api/rollup/tags', () => {
+    const auth = { Authorization: 'Bearer valid_test_token' }
+
+    it('should return 401 when no authorization header is provided', async () => {
+      await request(app)
+        .get('/api/rollup/tags')
+        .expect(401)
+    })
+
+    it('should list the default tags with their categories', async () => {
+      const response = await request(app)
+        .get('/api/rollup/tags')
+        .set(auth)
+        .expect(200)
+
+      const coding = response.body.data.find((tag: any) => tag.name === 'coding')
+      expect(coding).toMatchObject({ user_id: null, category: 'creating' })
+    })
+
+    it('should let a user tag override a default category', async () => {
+      const created = await request(app)
+        .post('/api/rollup/tags')
+        .set(auth)
+        .send({ name: 'news', category: 'creating' })
+        .expect(201)
+
+      expect(created.body.data).toMatchObject({ user_id: FOUNDER_ID, name: 'news', category: 'creating' })
+
+      const response = await request(app)
+        .get('/api/rollup/tags')
+        .set(auth)
+        .expect(200)
+
+      const newsTags = response.body.data.filter((tag: any) => tag.name === 'news')
+      expect(newsTags).toHaveLength(1)
+      expect(newsTags[0].user_id).toBe(FOUNDER_ID)
+
+      await request(app)
+        .post('/api/rollup/tags')
+        .set(auth)
+        .send({ name: 'news', category: 'neutral' })
+        .expect(409)
+    })
+
+    it('should update and delete a user tag', async () => {
+      const created = await request(app)
+        .post('/api/rollup/tags')
+        .set(auth)
+        .send({ name: 'tag-crud', category: 'neutral' })
+        .expect(201)
+      const tagId = created.body.data.id
+
+      const updated = await request(app)
+        .put(`/api/rollup/tags/${tagId}`)
+        .set(auth)
+        .send({ category: 'consuming' })
+        .expect(200)
+      expect(updated.body.data.category).toBe('consuming')
+
+      await request(app)
+        .delete(`/api/rollup/tags/${tagId}`)
+        .set(auth)
+        .expect(200)
+
+      await request(app)
+        .delete(`/api/rollup/tags/${tagId}`)
+        .set(auth)
+        .expect(404)
+    })
+
+    it('should return 400 for an unknown category', async () => {
+      const response = await request(app)
+        .post('/api/rollup/tags')
+        .set(auth)
+        .send({ name: 'tag-bad-category', category: 'sleeping' })
+        .expect(400)
+
+      expect(response.body.error).toBe('Category must be one of creating, consuming or neutral')
+    })
+
+    it('should merge rollup rows into the target tag, summing shared days', async () => {
+      await request(app)
+        .post('/api/rollup/batch')
+        .set(auth)
+        .send({
+          updates: [
+            { tag_name: 'merge-old', duration_minutes: 30, date: '2023-07-01' },
+            { tag_name: 'merge-old', duration_minutes: 15, date: '2023-07-02' },
+            { tag_name: 'merge-new', duration_minutes: 10, date: '2023-07-02' }
+          ]
+        })
+        .expect(200)
+
+      const response = await request(app)
+        .post('/api/rollup/tags/merge')
+        .set(auth)
+        .send({ from: 'merge-old', to: 'merge-new' })
+        .expect(200)
+
+      expect(response.body.data).toEqual({ from: 'merge-old', to: 'merge-new', rowsMoved: 2 })
+
+      const db = getDb()
+      const rows = await db('activity_day_rollup')
+        .where({ user_id: FOUNDER_ID })
+        .whereIn('tag_name', ['merge-old', 'merge-new'])
+        .orderBy('date', 'asc')
+      expect(rows.map((row: any) => [row.tag_name, row.total_duration_minutes])).toEqual([
+        ['merge-new', 30],
+        ['merge-new', 25]
+      ])
+    })
+
+    it('should report history totals by category', async () => {
+      await request(app)
+        .post('/api/rollup/batch')
+        .set(auth)
+        .send({
+          updates: [
+            { tag_name: 'coding', duration_minutes: 50, date: '2023-08-01' },
+            { tag_name: 'social-media', duration_minutes: 20, date: '2023-08-01' },
+            { tag_name: 'email', duration_minutes: 5, date: '2023-08-01' }
+          ]
+        })
+        .expect(200)
+
+      const response = await request(app)
+        .get('/api/rollup/history?from=2023-08-01&to=2023-08-01&groupBy=category')
+        .set(auth)
+        .expect(200)
+
+      expect(response.body.data.groups).toEqual([
+        { key: 'creating', totalMinutes: 50 },
+        { key: 'consuming', totalMinutes: 20 },
+        { key: 'neutral', totalMinutes: 5 }
+      ])
+    })
+  })
+})
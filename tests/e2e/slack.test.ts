@@ -0,0 +1,464 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test'
+import request from 'supertest'
+import app from '../../index'
+import { getDb } from '../../config/database'
+import { shiftDate } from '../../utils/timezone'
+import { SlackRepo } from '../../repos/Slack'
+import { SlackService } from '../../services/SlackService'
+import { SlackDeflectedMessageRepo } from '../../repos/SlackDeflectedMessage'
+
+const FOUNDER_ID = '409cf9b9-7aae-4a13-aca9-1bcd7b9a4209'
+const auth = { Authorization: 'Bearer valid_test_token' }
+
+describe('Slack API', () => {
+  describe('Focus schedules', () => {
+    const db = getDb()
+
+    afterAll(async () => {
+      await db('slack_focus_schedules').where({ user_id: FOUNDER_ID }).del()
+    })
+
+    // The next date (after today) falling on the given weekday, in UTC
+    const nextWeekday = (weekday: number): string => {
+      let date = shiftDate(new Date().toISOString().split('T')[0]!, 1)
+      while (new Date(`${date}T00:00:00Z`).getUTCDay() !== weekday) {
+        date = shiftDate(date, 1)
+      }
+      return date
+    }
+
+    let recurringId: string
+
+    it('should require authentication', async () => {
+      await request(app).get('/api/slack/focus-schedules').expect(401)
+    })
+
+    it('should create a recurring schedule with its upcoming occurrences', async () => {
+      const response = await request(app)
+        .post('/api/slack/focus-schedules')
+        .set(auth)
+        .send({ title: 'Deep work', durationMinutes: 120, daysOfWeek: [5, 1, 2, 3, 4], startTime: '09:00', timeZone: 'UTC' })
+        .expect(201)
+
+      const schedule = response.body.data
+      recurringId = schedule.id
+      expect(schedule.days_of_week).toEqual([1, 2, 3, 4, 5])
+      expect(schedule.start_time).toBe('09:00:00')
+      expect(schedule.next_occurrences).toHaveLength(5)
+      for (const occurrence of schedule.next_occurrences) {
+        expect(new Date(occurrence.start).getUTCHours()).toBe(9)
+      }
+    })
+
+    it('should reject a schedule that overlaps an existing one', async () => {
+      const response = await request(app)
+        .post('/api/slack/focus-schedules')
+        .set(auth)
+        .send({ durationMinutes: 60, daysOfWeek: [3], startTime: '10:30', timeZone: 'UTC' })
+        .expect(409)
+
+      expect(response.body.error).toBe('Overlaps with focus schedule "Deep work"')
+    })
+
+    it('should allow a one-off block outside the recurring ones', async () => {
+      const response = await request(app)
+        .post('/api/slack/focus-schedules')
+        .set(auth)
+        .send({ durationMinutes: 45, startAt: `${nextWeekday(1)}T14:00:00Z` })
+        .expect(201)
+
+      expect(response.body.data.days_of_week).toBeNull()
+      expect(response.body.data.next_occurrences).toHaveLength(1)
+    })
+
+    it('should validate the schedule', async () => {
+      await request(app).post('/api/slack/focus-schedules').set(auth)
+        .send({ durationMinutes: 2, daysOfWeek: [1], startTime: '09:00' }).expect(400)
+      await request(app).post('/api/slack/focus-schedules').set(auth)
+        .send({ durationMinutes: 30, daysOfWeek: [7], startTime: '09:00' }).expect(400)
+      await request(app).post('/api/slack/focus-schedules').set(auth)
+        .send({ durationMinutes: 30, daysOfWeek: [1], startTime: '9am' }).expect(400)
+      await request(app).post('/api/slack/focus-schedules').set(auth)
+        .send({ durationMinutes: 30, startAt: '2000-01-01T09:00:00Z' }).expect(400)
+      await request(app).post('/api/slack/focus-schedules').set(auth)
+        .send({ durationMinutes: 30, startAt: `${nextWeekday(2)}T18:00:00Z`, daysOfWeek: [1], startTime: '09:00' }).expect(400)
+      await request(app).post('/api/slack/focus-schedules').set(auth)
+        .send({ durationMinutes: 30, daysOfWeek: [1], startTime: '09:00', timeZone: 'Mars/Olympus' }).expect(400)
+    })
+
+    it('should skip a single occurrence', async () => {
+      const date = nextWeekday(3)
+      const response = await request(app)
+        .post(`/api/slack/focus-schedules/${recurringId}/skip`)
+        .set(auth)
+        .send({ date })
+        .expect(200)
+
+      expect(response.body.data.skipped_dates).toContain(date)
+      expect(response.body.data.next_occurrences.map((occurrence: any) => occurrence.date)).not.toContain(date)
+
+      // Sundays aren't part of the schedule
+      await request(app)
+        .post(`/api/slack/focus-schedules/${recurringId}/skip`)
+        .set(auth)
+        .send({ date: nextWeekday(0) })
+        .expect(400)
+    })
+
+    it('should update a schedule and keep fields that were left out', async () => {
+      const response = await request(app)
+        .put(`/api/slack/focus-schedules/${recurringId}`)
+        .set(auth)
+        .send({ startTime: '07:00' })
+        .expect(200)
+
+      expect(response.body.data.title).toBe('Deep work')
+      expect(response.body.data.duration_minutes).toBe(120)
+      expect(response.body.data.start_time).toBe('07:00:00')
+    })
+
+    it('should list the active schedules', async () => {
+      const response = await request(app)
+        .get('/api/slack/focus-schedules')
+        .set(auth)
+        .expect(200)
+
+      expect(response.body.data).toHaveLength(2)
+    })
+
+    it('should delete a schedule', async () => {
+      await request(app).delete(`/api/slack/focus-schedules/${recurringId}`).set(auth).expect(200)
+      await request(app).put(`/api/slack/focus-schedules/${recurringId}`).set(auth).send({ durationMinutes: 30 }).expect(404)
+      await request(app).delete('/api/slack/focus-schedules/not-a-uuid').set(auth).expect(400)
+    })
+  })
+
+  describe('Focus session adjustments', () => {
+    it('should validate the extension', async () => {
+      await request(app).post('/api/slack/focus-session/extend').set(auth).send({ minutes: 0 }).expect(400)
+      await request(app).post('/api/slack/focus-session/extend').set(auth).send({ minutes: '15' }).expect(400)
+    })
+
+    it('should return 404 without an active session', async () => {
+      await request(app).post('/api/slack/focus-session/extend').set(auth).send({ minutes: 15 }).expect(404)
+      await request(app).post('/api/slack/focus-session/pause').set(auth).expect(404)
+      await request(app).post('/api/slack/focus-session/resume').set(auth).expect(404)
+    })
+
+    it('should record the time spent paused', async () => {
+      const db = getDb()
+      const created = await SlackRepo.createFocusSession({
+        user_id: FOUNDER_ID,
+        session_id: `focus-session-pause-${Date.now()}`,
+        duration_minutes: 25,
+        is_active: true
+      })
+
+      try {
+        const pausedAt = new Date(Date.now() - 90 * 1000)
+        const paused = await SlackRepo.pauseFocusSession(created.id, pausedAt)
+        expect(new Date(paused!.paused_at!).getTime()).toBe(pausedAt.getTime())
+        expect(await SlackRepo.pauseFocusSession(created.id, new Date())).toBeUndefined()
+
+        const resumed = await SlackRepo.resumeFocusSession(created.id, new Date())
+        expect(resumed!.paused_at).toBeNull()
+        expect(resumed!.paused_seconds).toBe(90)
+        expect(await SlackRepo.resumeFocusSession(created.id, new Date())).toBeUndefined()
+
+        const extended = await SlackRepo.extendFocusSession(created.id, 10)
+        expect(extended!.duration_minutes).toBe(35)
+      } finally {
+        await db('slack_focus_sessions').where({ id: created.id }).del()
+      }
+    })
+  })
+
+
+  describe('Focus session history', () => {
+    const db = getDb()
+    const hoursAgo = (hours: number): Date => new Date(Date.now() - hours * 60 * 60 * 1000)
+    let workspaceId: string
+    let recentSessionId: string
+    let olderSessionId: string
+
+    beforeAll(async () => {
+      const [workspace] = await db('slack_workspaces')
+        .insert({
+          team_id: `T-history-${Date.now()}`,
+          team_name: 'History Team',
+          bot_token: 'xoxb-test',
+          bot_user_id: 'U-bot',
+          app_id: 'A-test',
+          scope: 'chat:write'
+        })
+        .returning('id')
+      workspaceId = workspace.id
+
+      // 60 minutes long with 10 of them paused
+      const [recent] = await db('slack_focus_sessions')
+        .insert({
+          user_id: FOUNDER_ID,
+          session_id: `focus-session-history-recent-${Date.now()}`,
+          start_time: hoursAgo(3),
+          end_time: hoursAgo(2),
+          duration_minutes: 60,
+          is_active: false,
+          paused_seconds: 600
+        })
+        .returning('id')
+      recentSessionId = recent.id
+
+      const [older] = await db('slack_focus_sessions')
+        .insert({
+          user_id: FOUNDER_ID,
+          session_id: `focus-session-history-older-${Date.now()}`,
+          start_time: hoursAgo(5),
+          end_time: hoursAgo(4.5),
+          duration_minutes: 30,
+          is_active: false
+        })
+        .returning('id')
+      olderSessionId = older.id
+
+      await db('slack_focus_session_workspaces').insert({ session_id: recentSessionId, workspace_id: workspaceId, status_updated: true, dnd_enabled: true })
+
+      const activity = { user_id: FOUNDER_ID, slack_workspace_id: workspaceId, created_at: hoursAgo(2.5) }
+      await db('slack_session_activities').insert([
+        { ...activity, activity_type: 'status_set' },
+        { ...activity, activity_type: 'auto_reply_sent', details: { urgent: false } },
+        { ...activity, activity_type: 'auto_reply_sent', details: { urgent: false } },
+        { ...activity, activity_type: 'auto_reply_sent', details: { urgent: true } },
+        { ...activity, activity_type: 'error', success: false, error_message: 'ratelimited' }
+      ])
+    })
+
+    afterAll(async () => {
+      await db('slack_session_activities').where({ slack_workspace_id: workspaceId }).del()
+      await db('slack_focus_sessions').whereIn('id', [recentSessionId, olderSessionId]).del()
+      await db('slack_workspaces').where({ id: workspaceId }).del()
+    })
+
+    it('should page through sessions newest first', async () => {
+      const first = await request(app).get('/api/slack/focus-sessions?limit=1').set(auth).expect(200)
+      const [recent] = first.body.data.sessions
+      expect(recent.id).toBe(recentSessionId)
+      expect(recent.focused_minutes).toBe(50)
+      expect(recent.interruptions_blocked).toBe(2)
+      expect(recent.urgent_breakthroughs).toBe(1)
+      expect(recent.workspaces).toEqual([
+        { workspace_id: workspaceId, team_name: 'History Team', status_updated: true, dnd_enabled: true, error_type: null }
+      ])
+      expect(first.body.data.next_cursor).toBeString()
+
+      const second = await request(app)
+        .get(`/api/slack/focus-sessions?limit=1&cursor=${first.body.data.next_cursor}`)
+        .set(auth)
+        .expect(200)
+      expect(second.body.data.sessions.map((session: { id: string }) => session.id)).toEqual([olderSessionId])
+      expect(second.body.data.sessions[0].interruptions_blocked).toBe(0)
+      expect(second.body.data.sessions[0].workspaces).toEqual([])
+      expect(second.body.data.next_cursor).toBeNull()
+    })
+
+    it('should reject invalid paging params', async () => {
+      await request(app).get('/api/slack/focus-sessions?limit=0').set(auth).expect(400)
+      await request(app).get('/api/slack/focus-sessions?cursor=nope').set(auth).expect(400)
+    })
+
+    it('should reject a cursor whose id is not a session id', async () => {
+      const cursor = Buffer.from(`${new Date().toISOString()}|1 OR 1=1`).toString('base64url')
+
+      const response = await request(app).get(`/api/slack/focus-sessions?cursor=${cursor}`).set(auth).expect(400)
+      expect(response.body.error).toBe('Invalid cursor')
+    })
+
+    it('should summarise focus time, replies and workspace errors by week', async () => {
+      const response = await request(app).get('/api/slack/focus-sessions/analytics?weeks=4&timeZone=UTC').set(auth).expect(200)
+      const analytics = response.body.data
+
+      expect(analytics.time_zone).toBe('UTC')
+      expect(analytics.weeks).toHaveLength(4)
+      expect(new Date(`${analytics.weeks[0].week_start}T00:00:00Z`).getUTCDay()).toBe(1)
+      expect(analytics.totals).toEqual({ sessions: 2, focus_minutes: 80, interruptions_blocked: 2, urgent_breakthroughs: 1 })
+      expect(analytics.workspaces).toEqual([
+        { workspace_id: workspaceId, team_name: 'History Team', actions: 5, errors: 1, error_rate: 0.2 }
+      ])
+    })
+
+    it('should validate analytics params', async () => {
+      await request(app).get('/api/slack/focus-sessions/analytics?weeks=53').set(auth).expect(400)
+      await request(app).get('/api/slack/focus-sessions/analytics?timeZone=Mars/Base').set(auth).expect(400)
+    })
+  })
+
+
+  describe('Workspace preferences', () => {
+    const db = getDb()
+    let workspaceId: string
+
+    beforeAll(async () => {
+      const [workspace] = await db('slack_workspaces')
+        .insert({
+          team_id: `T-preferences-${Date.now()}`,
+          team_name: 'Community',
+          bot_token: 'xoxb-test',
+          bot_user_id: 'U-bot',
+          app_id: 'A-test',
+          scope: 'chat:write'
+        })
+        .returning('id')
+      workspaceId = workspace.id
+
+      await db('slack_user_connections').insert({
+        user_id: FOUNDER_ID,
+        workspace_id: workspaceId,
+        slack_user_id: 'U-founder',
+        access_token: 'encrypted',
+        scope: 'dnd:write'
+      })
+    })
+
+    afterAll(async () => {
+      await db('slack_workspaces').where({ id: workspaceId }).del()
+    })
+
+    it('should layer workspace overrides over the user preferences', async () => {
+      const response = await request(app)
+        .put(`/api/slack/preferences/${workspaceId}`)
+        .set(auth)
+        .send({ custom_status_text: 'Heads down', auto_dnd: false, urgent_keywords: ['outage'] })
+        .expect(200)
+
+      const { overrides, preferences } = response.body.data
+      expect(overrides).toMatchObject({ workspace_id: workspaceId, custom_status_text: 'Heads down', auto_dnd: false, auto_reply_message: null })
+      expect(preferences.custom_status_text).toBe('Heads down')
+      expect(preferences.auto_dnd).toBe(false)
+      expect(preferences.urgent_keywords).toEqual(['outage'])
+      expect(preferences.auto_status_update).toBe(true)
+    })
+
+    it('should clear an override with null', async () => {
+      const response = await request(app)
+        .put(`/api/slack/preferences/${workspaceId}`)
+        .set(auth)
+        .send({ auto_dnd: null })
+        .expect(200)
+
+      expect(response.body.data.overrides.auto_dnd).toBeNull()
+      expect(response.body.data.overrides.custom_status_text).toBe('Heads down')
+      expect(response.body.data.preferences.auto_dnd).toBe(true)
+
+      const status = await request(app).get('/api/slack/status').set(auth).expect(200)
+      expect(status.body.data.workspace_preferences).toHaveLength(1)
+    })
+
+    it('should resolve the workspace preferences of every connection in one lookup', async () => {
+      const connections = await SlackService.getWorkspaceConnectionPreferences(workspaceId)
+
+      expect(connections).toHaveLength(1)
+      expect(connections[0]).toMatchObject({ user_id: FOUNDER_ID, slack_user_id: 'U-founder', custom_status_text: 'Heads down' })
+      expect(connections[0]!.auto_dnd).toBe((await SlackRepo.getUserPreferences(FOUNDER_ID)).auto_dnd)
+    })
+
+    it('should validate the overrides', async () => {
+      await request(app).put(`/api/slack/preferences/${workspaceId}`).set(auth).send({}).expect(400)
+      await request(app).put(`/api/slack/preferences/${workspaceId}`).set(auth).send({ enabled: false }).expect(400)
+      await request(app).put(`/api/slack/preferences/${workspaceId}`).set(auth).send({ auto_dnd: 'yes' }).expect(400)
+      await request(app).put(`/api/slack/preferences/${workspaceId}`).set(auth).send({ urgent_keywords: [''] }).expect(400)
+      await request(app).put('/api/slack/preferences/not-a-uuid').set(auth).send({ auto_dnd: true }).expect(400)
+    })
+
+    it('should return 404 for a workspace the user is not connected to', async () => {
+      await request(app)
+        .put('/api/slack/preferences/00000000-0000-0000-0000-000000000000')
+        .set(auth)
+        .send({ auto_dnd: true })
+        .expect(404)
+    })
+  })
+
+
+  describe('Focus session digest', () => {
+    const db = getDb()
+    let workspaceId: string
+    let focusSessionId: string
+
+    beforeAll(async () => {
+      const [workspace] = await db('slack_workspaces')
+        .insert({
+          team_id: `T-digest-${Date.now()}`,
+          team_name: 'Digest Team',
+          bot_token: 'xoxb-test',
+          bot_user_id: 'U-bot',
+          app_id: 'A-test',
+          scope: 'chat:write'
+        })
+        .returning('id')
+      workspaceId = workspace.id
+
+      const [session] = await db('slack_focus_sessions')
+        .insert({
+          user_id: FOUNDER_ID,
+          session_id: `focus-session-digest-${Date.now()}`,
+          duration_minutes: 25,
+          is_active: true
+        })
+        .returning('id')
+      focusSessionId = session.id
+
+      const message = {
+        user_id: FOUNDER_ID,
+        focus_session_id: focusSessionId,
+        workspace_id: workspaceId,
+        sender_slack_id: 'U-sender',
+        sender_name: 'Jane Doe',
+        channel_id: 'D-sender',
+        is_direct_message: true
+      }
+      await SlackDeflectedMessageRepo.recordMessage({ ...message, message_ts: '1.1', permalink: null, snippet: 'Quick question', urgent: false })
+      await SlackDeflectedMessageRepo.recordMessage({ ...message, message_ts: '1.2', permalink: null, snippet: 'Prod is down', urgent: true })
+      // Slack redelivering the same event is ignored
+      await SlackDeflectedMessageRepo.recordMessage({ ...message, message_ts: '1.2', permalink: null, snippet: 'Prod is down', urgent: true })
+    })
+
+    afterAll(async () => {
+      await db('slack_focus_sessions').where({ id: focusSessionId }).del()
+      await db('slack_workspaces').where({ id: workspaceId }).del()
+    })
+
+    it('should return the digest for the latest session', async () => {
+      const response = await request(app).get('/api/slack/digest').set(auth).expect(200)
+      const digest = response.body.data
+
+      expect(digest.session.id).toBe(focusSessionId)
+      expect(digest.total).toBe(2)
+      expect(digest.urgent).toBe(1)
+      expect(digest.messages.map((message: { snippet: string }) => message.snippet)).toEqual(['Quick question', 'Prod is down'])
+      expect(digest.messages[0]).toMatchObject({ team_name: 'Digest Team', sender_name: 'Jane Doe', is_direct_message: true })
+      expect(digest.messages[0].user_id).toBeUndefined()
+    })
+
+    it('should return the digest for a given session', async () => {
+      const response = await request(app).get(`/api/slack/focus-sessions/${focusSessionId}/digest`).set(auth).expect(200)
+      expect(response.body.data.total).toBe(2)
+
+      await request(app).get('/api/slack/focus-sessions/not-a-uuid/digest').set(auth).expect(400)
+      await request(app).get('/api/slack/focus-sessions/00000000-0000-0000-0000-000000000000/digest').set(auth).expect(404)
+    })
+
+    it('should only let an ended session claim its digest once', async () => {
+      expect(await SlackDeflectedMessageRepo.claimDigest(FOUNDER_ID, focusSessionId)).toBe(false)
+
+      await db('slack_focus_sessions').where({ id: focusSessionId }).update({ is_active: false, end_time: new Date() })
+
+      expect(await SlackDeflectedMessageRepo.claimDigest(FOUNDER_ID, focusSessionId)).toBe(true)
+      expect(await SlackDeflectedMessageRepo.claimDigest(FOUNDER_ID, focusSessionId)).toBe(false)
+    })
+
+    it('should let a released digest be claimed again', async () => {
+      await SlackDeflectedMessageRepo.releaseDigest(FOUNDER_ID, focusSessionId)
+
+      expect(await SlackDeflectedMessageRepo.claimDigest(FOUNDER_ID, focusSessionId)).toBe(true)
+    })
+  })
+})
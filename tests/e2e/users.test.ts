@@ -1,8 +1,15 @@
-import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'bun:test'
 import request from 'supertest'
 import app from '../../index'
 import { UserProfileRepo } from '../../repos/UserProfile'
 import { LicenseRepo } from '../../repos/License'
+import { AchievementService } from '../../services/AchievementService'
+import { EmailService } from '../../services/EmailService'
+import { AchievementsRepo } from '../../repos/Achievements'
+import { FriendsRepo } from '../../repos/Friends'
+import { getDb } from '../../config/database'
+
+const FOUNDER_ID = '409cf9b9-7aae-4a13-aca9-1bcd7b9a4209'
 
 describe('Users API', () => {
   describe('GET /api/users/status-counts', () => {
@@ -175,4 +182,235 @@ describe('Users API', () => {
       expect(response.headers['access-control-allow-headers']).toContain('Authorization')
     })
   })
+
+  describe('PUT /api/users/timezone', () => {
+    it('should return 401 when no authorization header is provided', async () => {
+      await request(app)
+        .put('/api/users/timezone')
+        .send({ timezone: 'America/Denver' })
+        .expect(401)
+    })
+
+    it('should return 400 for an invalid timezone', async () => {
+      const response = await request(app)
+        .put('/api/users/timezone')
+        .set('Authorization', 'Bearer valid_test_token')
+        .send({ timezone: 'Mars/Olympus_Mons' })
+        .expect(400)
+
+      expect(response.body.error).toBe('A valid IANA timezone is required')
+    })
+
+    it('should save a valid timezone', async () => {
+      const response = await request(app)
+        .put('/api/users/timezone')
+        .set('Authorization', 'Bearer valid_test_token')
+        .send({ timezone: 'America/Denver' })
+        .expect(200)
+
+      expect(response.body.data).toEqual({ timezone: 'America/Denver' })
+    })
+  })
+
+  describe('GET /api/users/achievements', () => {
+    it('should return 401 when no authorization header is provided', async () => {
+      await request(app)
+        .get('/api/users/achievements')
+        .expect(401)
+    })
+
+    it('should return badges unlocked by the achievement job exactly once', async () => {
+      const week = ['2022-01-03', '2022-01-04', '2022-01-05', '2022-01-06', '2022-01-07', '2022-01-08', '2022-01-09']
+      await request(app)
+        .post('/api/rollup/batch')
+        .set('Authorization', 'Bearer valid_test_token')
+        .send({
+          updates: [
+            { tag_name: 'coding', duration_minutes: 100, date: '2021-12-20' },
+            ...week.map(date => ({ tag_name: 'coding', duration_minutes: 60, date }))
+          ]
+        })
+        .expect(200)
+
+      const first = await AchievementService.evaluateAchievements('2022-01-12')
+      const founderUnlocks = first.unlocked.filter(achievement => achievement.user_id === FOUNDER_ID)
+      expect(founderUnlocks.map(achievement => achievement.reference_id).sort()).toEqual([
+        'best_week_2022-01-03',
+        'streak_7'
+      ])
+
+      const rerun = await AchievementService.evaluateAchievements('2022-01-12')
+      expect(rerun.unlocked.filter(achievement => achievement.user_id === FOUNDER_ID)).toHaveLength(0)
+
+      const response = await request(app)
+        .get('/api/users/achievements')
+        .set('Authorization', 'Bearer valid_test_token')
+        .expect(200)
+
+      const streak = response.body.data.find((achievement: any) => achievement.id === 'streak_7')
+      expect(streak).toMatchObject({ name: 'Week Streak', reference_id: 'streak_7' })
+      const bestWeek = response.body.data.find((achievement: any) => achievement.id === 'best_week')
+      expect(bestWeek.data).toEqual({ week_start: '2022-01-03', minutes: 420, previous_best: 100 })
+
+      // Keep the seeded streak from leaking into other suites' streak assertions
+      await getDb()('activity_day_rollup')
+        .where({ user_id: FOUNDER_ID })
+        .whereBetween('date', ['2021-12-20', '2022-01-09'])
+        .delete()
+    })
+
+    it('should only mark an unlock announced once every friend got the email', async () => {
+      const db = getDb()
+      const friends = await db('auth.users')
+        .whereIn('email', ['test1@example.com', 'test2@example.com'])
+        .select('id as friend_id', 'email as friend_email')
+      const [unlock] = await db('user_achievement')
+        .insert({ user_id: FOUNDER_ID, achievement_id: 'friends_10', reference_id: 'friends_10' })
+        .returning('*')
+
+      const originals = {
+        getUnannouncedAchievements: AchievementsRepo.getUnannouncedAchievements,
+        getUsersAnnouncingAchievements: UserProfileRepo.getUsersAnnouncingAchievements,
+        getFriendsWithDetails: FriendsRepo.getFriendsWithDetails,
+        sendAchievementEmail: EmailService.sendAchievementEmail
+      }
+      const sentTo: string[] = []
+      let failingEmail: string | null = friends[0].friend_email
+      AchievementsRepo.getUnannouncedAchievements = async (unlockedSince) =>
+        (await originals.getUnannouncedAchievements(unlockedSince)).filter(achievement => achievement.id === unlock.id)
+      UserProfileRepo.getUsersAnnouncingAchievements = async (userIds) => userIds
+      FriendsRepo.getFriendsWithDetails = async () => friends.map(friend => ({
+        ...friend,
+        id: friend.friend_id,
+        created_at: new Date(),
+        updated_at: new Date(),
+        creating_time: 0,
+        activity_visible: true
+      }))
+      EmailService.sendAchievementEmail = async ({ toEmail }) => {
+        sentTo.push(toEmail)
+        return toEmail !== failingEmail
+      }
+
+      try {
+        const first = await AchievementService.evaluateAchievements()
+        expect(first.announced).toBe(0)
+        expect(sentTo.sort()).toEqual(friends.map(friend => friend.friend_email).sort())
+
+        sentTo.length = 0
+        failingEmail = null
+        const retry = await AchievementService.evaluateAchievements()
+        expect(retry.announced).toBe(1)
+        expect(sentTo).toEqual([friends[0].friend_email])
+
+        const stored = await db('user_achievement').where({ id: unlock.id }).first()
+        expect(stored.announced_at).not.toBeNull()
+      } finally {
+        AchievementsRepo.getUnannouncedAchievements = originals.getUnannouncedAchievements
+        UserProfileRepo.getUsersAnnouncingAchievements = originals.getUsersAnnouncingAchievements
+        FriendsRepo.getFriendsWithDetails = originals.getFriendsWithDetails
+        EmailService.sendAchievementEmail = originals.sendAchievementEmail
+        await db('user_achievement').where({ id: unlock.id }).delete()
+      }
+    })
+  })
+
+  describe('PUT /api/users/achievements/settings', () => {
+    it('should return 400 when announce_to_friends is not a boolean', async () => {
+      const response = await request(app)
+        .put('/api/users/achievements/settings')
+        .set('Authorization', 'Bearer valid_test_token')
+        .send({ announce_to_friends: 'yes' })
+        .expect(400)
+
+      expect(response.body.error).toBe('announce_to_friends must be a boolean')
+    })
+  })
+
+
+  describe('POST /api/users/presence', () => {
+    const auth = { Authorization: 'Bearer valid_test_token' }
+
+    afterAll(async () => {
+      await getDb()('user_profile').where({ id: FOUNDER_ID }).delete()
+    })
+
+    it('should return 401 when no authorization header is provided', async () => {
+      await request(app)
+        .post('/api/users/presence')
+        .send({ status: 'online' })
+        .expect(401)
+    })
+
+    it('should return 400 for an unknown status or malformed app version', async () => {
+      const response = await request(app)
+        .post('/api/users/presence')
+        .set(auth)
+        .send({ status: 'away' })
+        .expect(400)
+
+      expect(response.body.error).toBe('status must be one of online, active, flowing, offline')
+
+      await request(app)
+        .post('/api/users/presence')
+        .set(auth)
+        .send({ status: 'online', app_version: 42 })
+        .expect(400)
+    })
+
+    it('should treat a first check-in as coming from offline', async () => {
+      await getDb()('user_profile').where({ id: FOUNDER_ID }).delete()
+
+      const response = await request(app)
+        .post('/api/users/presence')
+        .set(auth)
+        .send({ status: 'flowing' })
+        .expect(409)
+
+      expect(response.body.error).toBe('Cannot change status from offline to flowing')
+      expect(await UserProfileRepo.getUserProfile(FOUNDER_ID)).toBeFalsy()
+    })
+
+    it('should record the check-in, creating the profile on first use', async () => {
+      await getDb()('user_profile').where({ id: FOUNDER_ID }).delete()
+
+      const response = await request(app)
+        .post('/api/users/presence')
+        .set(auth)
+        .send({ status: 'online', app_version: '1.4.2' })
+        .expect(200)
+
+      expect(response.body.data).toMatchObject({ status: 'online', previous_status: null, app_version: '1.4.2' })
+
+      const profile = await UserProfileRepo.getUserProfile(FOUNDER_ID)
+      expect(profile!.online_status).toBe('online')
+      expect(profile!.version).toBe('1.4.2')
+    })
+
+    it('should allow moving into a flow and keep the stored app version', async () => {
+      const response = await request(app)
+        .post('/api/users/presence')
+        .set(auth)
+        .send({ status: 'flowing' })
+        .expect(200)
+
+      expect(response.body.data).toMatchObject({ status: 'flowing', previous_status: 'online', app_version: '1.4.2' })
+    })
+
+    it('should reject going straight from offline to flowing', async () => {
+      await request(app)
+        .post('/api/users/presence')
+        .set(auth)
+        .send({ status: 'offline' })
+        .expect(200)
+
+      const response = await request(app)
+        .post('/api/users/presence')
+        .set(auth)
+        .send({ status: 'flowing' })
+        .expect(409)
+
+      expect(response.body.error).toBe('Cannot change status from offline to flowing')
+    })
+  })
 }) 
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from 'bun:test'
+import { cache, getCachedOrFetch, getCacheStatus, invalidateCache } from '../../utils/cache'
+
+// Redis isn't connected in tests, so these exercise the in-memory fallback
+describe('getCachedOrFetch', () => {
+  beforeEach(() => {
+    cache.clear()
+  })
+
+  it('should share a single fetch between concurrent callers', async () => {
+    let fetches = 0
+    const fetchValue = async () => {
+      fetches++
+      await new Promise(resolve => setTimeout(resolve, 20))
+      return 42
+    }
+
+    const results = await Promise.all([
+      getCachedOrFetch('test:single-flight', fetchValue),
+      getCachedOrFetch('test:single-flight', fetchValue),
+      getCachedOrFetch('test:single-flight', fetchValue)
+    ])
+
+    expect(results).toEqual([42, 42, 42])
+    expect(fetches).toBe(1)
+  })
+
+  it('should serve stale data after an invalidation while refreshing in the background', async () => {
+    let value = 1
+    const fetchValue = async () => value
+
+    expect(await getCachedOrFetch('test:stale', fetchValue)).toBe(1)
+
+    value = 2
+    await invalidateCache('test')
+
+    // The first read after invalidation still gets the old value...
+    expect(await getCachedOrFetch('test:stale', fetchValue)).toBe(1)
+    await new Promise(resolve => setTimeout(resolve, 5))
+    // ...and triggers the refresh that later reads see
+    expect(await getCachedOrFetch('test:stale', fetchValue)).toBe(2)
+  })
+
+  it('should treat a value fetched across an invalidation as stale', async () => {
+    const fetchValue = async () => {
+      await invalidateCache('test')
+      return 1
+    }
+
+    expect(await getCachedOrFetch('test:racing', fetchValue)).toBe(1)
+
+    const status = await getCacheStatus()
+    expect(status.items.find(item => item.key === 'test:racing')).toMatchObject({ stale: true })
+  })
+
+  it('should fetch again once the stale window has passed', async () => {
+    let value = 'first'
+    await getCachedOrFetch('test:expired', async () => value, 5, 5)
+
+    value = 'second'
+    await new Promise(resolve => setTimeout(resolve, 15))
+
+    expect(await getCachedOrFetch('test:expired', async () => value, 5, 5)).toBe('second')
+  })
+
+  it('should report entries with their freshness', async () => {
+    await getCachedOrFetch('test:status', async () => 'value', 60 * 1000)
+
+    const status = await getCacheStatus()
+
+    expect(status.backend).toBe('memory')
+    expect(status.items.find(item => item.key === 'test:status')).toMatchObject({ ttl: 60 * 1000, stale: false })
+  })
+  it('should leave out entries that expired but were not cleaned up yet', async () => {
+    await getCachedOrFetch('test:status-expired', async () => 'value', 5, 5)
+    await new Promise(resolve => setTimeout(resolve, 15))
+
+    const status = await getCacheStatus()
+
+    expect(status.items.find(item => item.key === 'test:status-expired')).toBeUndefined()
+    expect(status.size).toBe(status.items.length)
+  })
+})
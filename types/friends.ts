@@ -1,4 +1,4 @@
-export type FriendRequestStatus = 'pending' | 'accepted' | 'rejected' | 'cancelled'
+export type FriendRequestStatus = 'pending' | 'accepted' | 'rejected' | 'cancelled' | 'expired'
 export type FriendStatus = 'active' | 'blocked'
 
 export interface FriendRequest {
@@ -30,5 +30,6 @@ export interface FriendWithDetails {
   friend_email: string
   created_at: Date
   updated_at: Date
-  creating_time: number
+  creating_time: number // always 0 when the friend hides their activity from the caller
+  activity_visible: boolean
 } 
\ No newline at end of file
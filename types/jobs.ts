@@ -24,10 +24,42 @@ export interface SlackCleanupJobData {
   userId: string
 }
 
+export interface SlackSessionDigestJobData {
+  userId: string
+  focusSessionId: string
+}
+
+export interface SlackScheduledFocusJobData {
+  scheduleId: string
+  userId: string
+  occurrenceDate: string // local date of the occurrence in the schedule's timezone
+  version: number // the schedule's updated_at when queued; jobs from an older version are ignored
+}
+
 export interface WeeklyEmailReminderJobData {
   [key: string]: any
 }
 
+export interface GoalCheckJobData {
+  [key: string]: any
+}
+
+export interface AchievementCheckJobData {
+  [key: string]: any
+}
+
+export interface FriendRequestExpiryJobData {
+  [key: string]: any
+}
+
+export interface ActivityDistributionRefreshJobData {
+  [key: string]: any
+}
+
+export interface MarketingSnapshotJobData {
+  backfill?: { from: string; to: string } // also fill in history for these days from the rollups
+}
+
 export interface UserMetrics {
   newUsers: number
   paidUsers: number
@@ -67,6 +99,19 @@ export interface InactiveUserRecord {
   days_inactive: number
 }
 
+// id is the goal owner's user id so results can be used directly as notification users
+export interface GoalResultRecord {
+  id: string
+  email: string
+  goal_id: string
+  period: 'daily' | 'weekly'
+  period_start: string
+  period_end: string
+  target_minutes: number
+  achieved_minutes: number
+  status: 'hit' | 'missed'
+}
+
 export interface UserMetrics {
   newUsers: number
   paidUsers: number
@@ -97,7 +142,14 @@ export const JOB_TYPES = {
   TEST_JOB: 'test-job',
   SLACK_CLEANUP_DND: 'slack-cleanup-dnd',
   SLACK_CLEANUP_STATUS: 'slack-cleanup-status',
+  SLACK_SCHEDULED_FOCUS_START: 'slack-scheduled-focus-start',
+  SLACK_SESSION_DIGEST: 'slack-session-digest',
   WEEKLY_EMAIL_REMINDER: 'weekly-email-reminder',
+  CHECK_GOALS: 'check-goals',
+  CHECK_ACHIEVEMENTS: 'check-achievements',
+  EXPIRE_FRIEND_REQUESTS: 'expire-friend-requests',
+  REFRESH_ACTIVITY_DISTRIBUTION: 'refresh-activity-distribution',
+  SNAPSHOT_MARKETING_STATS: 'snapshot-marketing-stats',
 } as const
 
 export type JobType = typeof JOB_TYPES[keyof typeof JOB_TYPES]
@@ -0,0 +1,131 @@
+// Server-side SVG rendering for embeddable stats badges and sparkline charts
+
+export type BadgeStyle = 'flat' | 'flat-square'
+export type SparklineTheme = 'light' | 'dark'
+
+export interface BadgeOptions {
+  label: string
+  value: string
+  color: string
+  labelColor: string
+  style: BadgeStyle
+}
+
+export interface SparklineOptions {
+  label: string
+  value: string
+  points: number[]
+  color: string
+  theme: SparklineTheme
+  width: number
+  height: number
+}
+
+export const BADGE_COLORS: Record<string, string> = {
+  brightgreen: '#4c1',
+  green: '#97ca00',
+  yellow: '#dfb317',
+  orange: '#fe7d37',
+  red: '#e05d44',
+  blue: '#007ec6',
+  purple: '#8250df',
+  grey: '#555'
+}
+
+const THEMES: Record<SparklineTheme, { background: string; text: string; muted: string }> = {
+  light: { background: '#ffffff', text: '#24292f', muted: '#57606a' },
+  dark: { background: '#0d1117', text: '#c9d1d9', muted: '#8b949e' }
+}
+
+const FONT_FAMILY = 'Verdana,Geneva,DejaVu Sans,sans-serif'
+const BADGE_HEIGHT = 20
+const BADGE_PADDING = 6
+const SPARKLINE_PADDING = 8
+const SPARKLINE_HEADER_HEIGHT = 20
+
+// Resolve a named color or a 3/6 digit hex (without the #), or null when it isn't one
+export const parseColor = (value: string): string | null => {
+  if (Object.hasOwn(BADGE_COLORS, value)) return BADGE_COLORS[value]!
+  if (/^([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value)) return `#${value.toLowerCase()}`
+  return null
+}
+
+export const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+// No font metrics on the server, so widths are estimated from 11px Verdana's average glyph
+const textWidth = (text: string): number => {
+  let width = 0
+  for (const char of text) {
+    width += /[il.,:;'|!]/.test(char) ? 3.5 : /[mwMW@]/.test(char) ? 10 : /[A-Z0-9]/.test(char) ? 7.5 : 6.5
+  }
+  return Math.ceil(width)
+}
+
+export const renderBadge = ({ label, value, color, labelColor, style }: BadgeOptions): string => {
+  const labelWidth = textWidth(label) + BADGE_PADDING * 2
+  const valueWidth = textWidth(value) + BADGE_PADDING * 2
+  const width = labelWidth + valueWidth
+  const radius = style === 'flat' ? 3 : 0
+  const title = escapeXml(`${label}: ${value}`)
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${BADGE_HEIGHT}" role="img" aria-label="${title}">`,
+    `<title>${title}</title>`,
+    style === 'flat'
+      ? '<linearGradient id="s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>'
+      : '',
+    `<clipPath id="r"><rect width="${width}" height="${BADGE_HEIGHT}" rx="${radius}" fill="#fff"/></clipPath>`,
+    '<g clip-path="url(#r)">',
+    `<rect width="${labelWidth}" height="${BADGE_HEIGHT}" fill="${labelColor}"/>`,
+    `<rect x="${labelWidth}" width="${valueWidth}" height="${BADGE_HEIGHT}" fill="${color}"/>`,
+    style === 'flat' ? `<rect width="${width}" height="${BADGE_HEIGHT}" fill="url(#s)"/>` : '',
+    '</g>',
+    `<g fill="#fff" text-anchor="middle" font-family="${FONT_FAMILY}" font-size="11">`,
+    `<text x="${labelWidth / 2}" y="14">${escapeXml(label)}</text>`,
+    `<text x="${labelWidth + valueWidth / 2}" y="14">${escapeXml(value)}</text>`,
+    '</g>',
+    '</svg>'
+  ].join('')
+}
+
+export const renderSparkline = ({ label, value, points, color, theme, width, height }: SparklineOptions): string => {
+  const colors = THEMES[theme]
+  const chartTop = SPARKLINE_HEADER_HEIGHT + SPARKLINE_PADDING
+  const chartHeight = Math.max(height - chartTop - SPARKLINE_PADDING, 1)
+  const chartWidth = width - SPARKLINE_PADDING * 2
+  const max = Math.max(...points, 0)
+  const min = Math.min(...points, 0)
+  const span = max - min || 1
+  const step = points.length > 1 ? chartWidth / (points.length - 1) : 0
+
+  // A single point (or none) is drawn as a flat line across the chart
+  const series = points.length > 0 ? points : [0]
+  const coordinates = (series.length > 1 ? series : [series[0]!, series[0]!]).map((point, index) => {
+    const x = SPARKLINE_PADDING + (series.length > 1 ? index * step : index * chartWidth)
+    const y = chartTop + chartHeight - ((point - min) / span) * chartHeight
+    return `${x.toFixed(1)},${y.toFixed(1)}`
+  })
+  const baseline = (chartTop + chartHeight).toFixed(1)
+  const area = `${SPARKLINE_PADDING},${baseline} ${coordinates.join(' ')} ${(SPARKLINE_PADDING + chartWidth).toFixed(1)},${baseline}`
+  const title = escapeXml(`${label}: ${value}`)
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="${title}">`,
+    `<title>${title}</title>`,
+    `<rect width="${width}" height="${height}" rx="6" fill="${colors.background}"/>`,
+    `<g font-family="${FONT_FAMILY}" font-size="11">`,
+    `<text x="${SPARKLINE_PADDING}" y="${SPARKLINE_PADDING + 11}" fill="${colors.muted}">${escapeXml(label)}</text>`,
+    `<text x="${width - SPARKLINE_PADDING}" y="${SPARKLINE_PADDING + 11}" fill="${colors.text}" text-anchor="end" font-weight="bold">${escapeXml(value)}</text>`,
+    '</g>',
+    `<polygon points="${area}" fill="${color}" fill-opacity="0.15"/>`,
+    `<polyline points="${coordinates.join(' ')}" fill="none" stroke="${color}" stroke-width="1.5" stroke-linejoin="round" stroke-linecap="round"/>`,
+    '</svg>'
+  ].join('')
+}
\ No newline at end of file
@@ -1,5 +1,7 @@
-// Simple in-memory cache with TTL (Time To Live)
-// Perfect for marketing stats that only need hourly accuracy
+// Cache with TTL (Time To Live), shared across API instances through Redis.
+// Falls back to a per-process in-memory cache when Redis isn't connected.
+import type Redis from 'ioredis'
+import { createRedisConnection } from '../config/redis.js'
 
 interface CacheItem<T> {
   data: T
@@ -115,7 +117,7 @@ class SimpleCache {
   }
 }
 
-// Create singleton instance
+// Create singleton instance (in-memory fallback when Redis isn't connected)
 const cache = new SimpleCache()
 
 // Cache keys for marketing endpoints
@@ -128,37 +130,300 @@ export const MARKETING_CACHE_KEYS = {
   CUMULATIVE_WEEKLY_HOURS: 'marketing:cumulative-weekly-hours'
 } as const
 
+// Keys are namespaced by the part before the first ':'; invalidation works per namespace
+export const MARKETING_CACHE_NAMESPACE = 'marketing'
+
 // Export cache instance and helper functions
 export { cache }
 
+const REDIS_KEY_PREFIX = 'cache:'
+const LOCK_TTL = 30 * 1000 // Longest a fetch may hold the lock before another instance takes over
+const LOCK_POLL_INTERVAL = 100
+
+// What is stored per key; entries outlive their TTL by the stale window
+interface CacheEntry<T> {
+  data: T
+  storedAt: number
+  ttl: number
+  version: number // namespace version the data was fetched under
+}
+
+export interface CacheStatus {
+  backend: 'redis' | 'memory'
+  size: number
+  items: Array<{ key: string; age: number; ttl: number; stale: boolean }>
+}
+
+let redisClient: Redis | null = null
+const inFlight: Map<string, Promise<unknown>> = new Map()
+const localVersions: Map<string, number> = new Map()
+
+const getNamespace = (key: string): string => key.split(':')[0]!
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Connect the shared Redis cache. Until this succeeds every instance caches in memory.
+ */
+export async function initializeCache(): Promise<void> {
+  if (redisClient) {
+    return
+  }
+
+  const client = createRedisConnection()
+  try {
+    await client.connect()
+    redisClient = client
+    console.log('✅ Redis cache connected')
+  } catch (error) {
+    client.disconnect()
+    throw error
+  }
+}
+
+export async function shutdownCache(): Promise<void> {
+  if (redisClient) {
+    await redisClient.quit()
+    redisClient = null
+  }
+}
+
+const readEntry = async <T>(key: string): Promise<CacheEntry<T> | null> => {
+  if (!redisClient) {
+    return cache.get<CacheEntry<T>>(key)
+  }
+  const raw = await redisClient.get(`${REDIS_KEY_PREFIX}${key}`)
+  return raw ? JSON.parse(raw) : null
+}
+
+const writeEntry = async <T>(key: string, entry: CacheEntry<T>, staleTtl: number): Promise<void> => {
+  if (!redisClient) {
+    cache.set(key, entry, entry.ttl + staleTtl)
+    return
+  }
+  await redisClient.set(`${REDIS_KEY_PREFIX}${key}`, JSON.stringify(entry), 'PX', entry.ttl + staleTtl)
+}
+
+/**
+ * The namespace's invalidation counter. Entries fetched under an older version are stale.
+ * A counter kept in Redis avoids comparing timestamps taken on different instances' clocks.
+ */
+const getVersion = async (key: string): Promise<number> => {
+  const namespace = getNamespace(key)
+  if (!redisClient) {
+    return localVersions.get(namespace) || 0
+  }
+  const raw = await redisClient.get(`${REDIS_KEY_PREFIX}version:${namespace}`)
+  return raw ? parseInt(raw) : 0
+}
+
+const isFresh = (entry: CacheEntry<unknown>, version: number, now: number = Date.now()): boolean => {
+  return now - entry.storedAt < entry.ttl && (entry.version ?? 0) === version
+}
+
+/**
+ * Take the cross-instance fetch lock for a key. Returns a token to release it with, or
+ * null when another instance is already fetching. In-memory mode relies on the in-process
+ * single-flight alone.
+ */
+const acquireLock = async (key: string): Promise<string | null> => {
+  const token = `${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`
+  if (!redisClient) {
+    return token
+  }
+  const acquired = await redisClient.set(`${REDIS_KEY_PREFIX}lock:${key}`, token, 'PX', LOCK_TTL, 'NX')
+  return acquired ? token : null
+}
+
+// Only delete the lock if it is still ours; it may have expired and been taken over
+const releaseLock = async (key: string, token: string): Promise<void> => {
+  if (!redisClient) {
+    return
+  }
+  await redisClient.eval(
+    'if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end',
+    1,
+    `${REDIS_KEY_PREFIX}lock:${key}`,
+    token
+  )
+}
+
+// Wait for the instance holding the lock to finish, then read what it stored
+const waitForEntry = async <T>(key: string): Promise<CacheEntry<T> | null> => {
+  const deadline = Date.now() + LOCK_TTL
+  while (Date.now() < deadline) {
+    await sleep(LOCK_POLL_INTERVAL)
+    if (!await redisClient?.exists(`${REDIS_KEY_PREFIX}lock:${key}`)) {
+      return readEntry<T>(key)
+    }
+  }
+  return null
+}
+
+/**
+ * Fetch and store a key at most once at a time: concurrent callers in this process share
+ * one promise, and other instances wait for the lock holder's result instead of fetching too.
+ */
+const refresh = <T>(key: string, fetchFunction: () => Promise<T>, ttl: number, staleTtl: number): Promise<T> => {
+  const existing = inFlight.get(key)
+  if (existing) {
+    return existing as Promise<T>
+  }
+
+  const promise = (async () => {
+    let token: string | null = null
+    try {
+      token = await acquireLock(key)
+      if (!token) {
+        const entry = await waitForEntry<T>(key)
+        if (entry) {
+          return entry.data
+        }
+        // The lock holder took too long (or stored nothing), so fetch without it
+      }
+    } catch (error) {
+      console.error(`Cache lock error for key: ${key}`, error)
+    }
+
+    try {
+      // Read before fetching, so an invalidation during the fetch leaves the result stale
+      const version = await getVersion(key).catch(() => 0)
+      const freshData = await fetchFunction()
+      await writeEntry(key, { data: freshData, storedAt: Date.now(), ttl, version }, staleTtl).catch(error => {
+        console.error(`Cache write error for key: ${key}`, error)
+      })
+      return freshData
+    } finally {
+      if (token) {
+        await releaseLock(key, token).catch(error => {
+          console.error(`Cache unlock error for key: ${key}`, error)
+        })
+      }
+    }
+  })().finally(() => inFlight.delete(key))
+
+  inFlight.set(key, promise)
+  return promise
+}
+
 /**
  * Get cached data or execute function if cache miss
  * @param key Cache key
  * @param fetchFunction Function to execute on cache miss
  * @param ttl Time to live in milliseconds (default: 1 hour)
+ * @param staleTtl How long past the TTL (or an invalidation) stale data may still be served
+ *   while it is refreshed in the background (default: the TTL)
  * @returns Cached or freshly fetched data
  */
 export async function getCachedOrFetch<T>(
   key: string,
   fetchFunction: () => Promise<T>,
-  ttl: number = 60 * 60 * 1000
+  ttl: number = 60 * 60 * 1000,
+  staleTtl: number = ttl
 ): Promise<T> {
-  // Try to get from cache first
-  const cachedData = cache.get<T>(key)
-  
-  if (cachedData !== null) {
+  let entry: CacheEntry<T> | null
+  let version: number
+  try {
+    [entry, version] = await Promise.all([readEntry<T>(key), getVersion(key)])
+  } catch (error) {
+    // A cache outage shouldn't take the endpoint down with it
+    console.error(`Cache read error for key: ${key}`, error)
+    return fetchFunction()
+  }
+
+  if (entry && isFresh(entry, version)) {
     console.log(`Cache HIT for key: ${key}`)
-    return cachedData
+    return entry.data
+  }
+
+  if (entry) {
+    console.log(`Cache STALE for key: ${key} - serving stale data while revalidating`)
+    refresh(key, fetchFunction, ttl, staleTtl).catch(error => {
+      console.error(`Cache revalidation failed for key: ${key}`, error)
+    })
+    return entry.data
   }
 
   // Cache miss - fetch fresh data
   console.log(`Cache MISS for key: ${key} - fetching fresh data`)
-  const freshData = await fetchFunction()
-  
-  // Store in cache
-  cache.set(key, freshData, ttl)
-  
-  return freshData
+  return refresh(key, fetchFunction, ttl, staleTtl)
+}
+
+/**
+ * Store a freshly computed value so readers never pay for the computation
+ * @param key Cache key
+ * @param data Value to store
+ * @param ttl Time to live in milliseconds (default: 1 hour)
+ * @param staleTtl How long past the TTL stale data may still be served (default: the TTL)
+ */
+export async function primeCache<T>(
+  key: string,
+  data: T,
+  ttl: number = 60 * 60 * 1000,
+  staleTtl: number = ttl
+): Promise<void> {
+  try {
+    await writeEntry(key, { data, storedAt: Date.now(), ttl, version: await getVersion(key) }, staleTtl)
+  } catch (error) {
+    console.error(`Cache write error for key: ${key}`, error)
+  }
+}
+
+/**
+ * Mark every entry in a namespace stale. Readers keep getting the old value while the
+ * first one after the invalidation refreshes it. Every entry is refetched, so this is for
+ * occasional changes, not for calling on each write.
+ * @param namespace Key namespace, e.g. MARKETING_CACHE_NAMESPACE
+ */
+export async function invalidateCache(namespace: string): Promise<void> {
+  try {
+    if (!redisClient) {
+      localVersions.set(namespace, (localVersions.get(namespace) || 0) + 1)
+      return
+    }
+    await redisClient.incr(`${REDIS_KEY_PREFIX}version:${namespace}`)
+  } catch (error) {
+    console.error(`Cache invalidation error for namespace: ${namespace}`, error)
+  }
+}
+
+/**
+ * Get cache statistics across every instance sharing the cache
+ * @returns Which backend is in use, plus each entry's age and TTL
+ */
+export async function getCacheStatus(): Promise<CacheStatus> {
+  const now = Date.now()
+
+  if (!redisClient) {
+    const items: CacheStatus['items'] = []
+    for (const { key } of cache.getStats().items) {
+      const entry = cache.get<CacheEntry<unknown>>(key)
+      if (!entry) continue // expired but not cleaned up yet
+      const stale = !isFresh(entry, await getVersion(key), now)
+      items.push({ key, age: now - entry.storedAt, ttl: entry.ttl, stale })
+    }
+    return { backend: 'memory', size: items.length, items }
+  }
+
+  const redisKeys: string[] = []
+  let cursor = '0'
+  do {
+    const [nextCursor, batch] = await redisClient.scan(cursor, 'MATCH', `${REDIS_KEY_PREFIX}*`, 'COUNT', 100)
+    cursor = nextCursor
+    redisKeys.push(...batch.filter(key => !key.startsWith(`${REDIS_KEY_PREFIX}lock:`) && !key.startsWith(`${REDIS_KEY_PREFIX}version:`)))
+  } while (cursor !== '0')
+
+  const values = redisKeys.length > 0 ? await redisClient.mget(...redisKeys) : []
+  const items: CacheStatus['items'] = []
+  for (const [index, raw] of values.entries()) {
+    if (!raw) continue // expired between SCAN and MGET
+    const key = redisKeys[index]!.slice(REDIS_KEY_PREFIX.length)
+    const entry: CacheEntry<unknown> = JSON.parse(raw)
+    const stale = !isFresh(entry, await getVersion(key), now)
+    items.push({ key, age: now - entry.storedAt, ttl: entry.ttl, stale })
+  }
+
+  return { backend: 'redis', size: items.length, items }
 }
 
 /**
@@ -180,7 +445,7 @@ export function getCacheKey(baseKey: string, params?: Record<string, any>): stri
   return `${baseKey}:${paramString}`
 }
 
-// Optional: Set up periodic cleanup (every 5 minutes)
+// Optional: Set up periodic cleanup of the in-memory fallback (every 5 minutes)
 if (typeof setInterval !== 'undefined') {
   setInterval(() => {
     const removed = cache.cleanup()
@@ -190,4 +455,4 @@ if (typeof setInterval !== 'undefined') {
   }, 5 * 60 * 1000) // 5 minutes
 }
 
-export default cache 
\ No newline at end of file
+export default cache
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { ApiError } from '../middleware/errorHandler.js'
+import { UUID_REGEX } from './validation.js'
+
+// Keyset pagination position: the last row's timestamp (full microsecond precision, UTC ISO 8601) and id
+export interface PageCursor {
+  at: string
+  id: string
+}
+
+// Rows of a paged query carry their timestamp as text in cursor_at, see cursorTimestampSql
+export type WithCursor<T> = T & { cursor_at: string }
+
+const CURSOR_TIMESTAMP_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?Z$/
+
+/**
+ * Select a timestamptz column as text without losing its microseconds. A JS Date only keeps
+ * milliseconds, so a cursor built from one would skip or repeat rows sharing a millisecond.
+ */
+export const cursorTimestampSql = (column: string): string => {
+  return `to_char(${column} AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS cursor_at`
+}
+
+/**
+ * Encode the position after a row. Cursors are opaque to clients: (timestamp, id), base64url encoded.
+ */
+export const encodeCursor = (at: string, id: string): string => {
+  return Buffer.from(`${at}|${id}`).toString('base64url')
+}
+
+/**
+ * Decode a client-supplied cursor. Anything that doesn't decode to a timestamp and a UUID is
+ * rejected with a 400, so a tampered cursor never reaches the query.
+ */
+export const decodeCursor = (cursor: string): PageCursor => {
+  const [at, id] = Buffer.from(cursor, 'base64url').toString().split('|')
+  if (!at || !CURSOR_TIMESTAMP_REGEX.test(at) || isNaN(new Date(at).getTime()) || !id || !UUID_REGEX.test(id)) {
+    throw new ApiError('Invalid cursor', 400)
+  }
+  return { at, id }
+}
@@ -0,0 +1,60 @@
+import crypto from 'node:crypto'
+
+// Short codes skip characters that are easy to misread when typed (0/O, 1/I/L). A typed code
+// redeems without the signed token, so it has to be long enough not to be guessed (~59 bits)
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+const CODE_LENGTH = 12
+
+export const generateInviteCode = (): string => {
+  let code = ''
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]
+  }
+  return code
+}
+
+// Codes are shown upper case but people paste them however they like
+export const normalizeInviteCode = (code: string): string => {
+  return code.replace(/[\s-]/g, '').toUpperCase()
+}
+
+const getSecret = (): string => {
+  const secret = process.env.FRIEND_INVITE_SECRET
+  if (!secret) {
+    throw new Error('FRIEND_INVITE_SECRET is not configured')
+  }
+  return secret
+}
+
+// Called at startup so a missing secret stops the server instead of failing every invite request
+export const assertInviteSecretConfigured = (): void => {
+  getSecret()
+}
+
+const sign = (payload: string): string => {
+  return crypto.createHmac('sha256', getSecret()).update(payload).digest('base64url')
+}
+
+/**
+ * Link token in the form `<code>.<expiry in unix seconds>.<signature>`, so a link
+ * can be rejected as tampered or expired before touching the database
+ */
+export const signInviteToken = (code: string, expiresAt: Date): string => {
+  const payload = `${code}.${Math.floor(expiresAt.getTime() / 1000)}`
+  return `${payload}.${sign(payload)}`
+}
+
+// Returns the invite code for a valid, unexpired token, otherwise null
+export const verifyInviteToken = (token: string, now: Date = new Date()): string | null => {
+  const [code, expiry, signature] = token.split('.')
+  if (!code || !expiry || !signature) return null
+
+  const expected = Buffer.from(sign(`${code}.${expiry}`))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  if (parseInt(expiry) * 1000 <= now.getTime()) return null
+  return code
+}
@@ -0,0 +1,80 @@
+// Helpers for computing calendar days in a user's IANA timezone
+// Rollup rows are keyed by local date, so "today" has to be resolved per user rather than in UTC
+
+export const DEFAULT_TIME_ZONE = 'UTC'
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Get the calendar date (YYYY-MM-DD) for an instant in the given timezone
+ * @param timeZone IANA timezone name (falls back to UTC when invalid)
+ * @param at Instant to resolve (default: now)
+ */
+export const getDateInTimeZone = (timeZone: string = DEFAULT_TIME_ZONE, at: Date = new Date()): string => {
+  const zone = isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: zone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(at)
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days (negative to go back)
+ */
+export const shiftDate = (date: string, days: number): string => {
+  const shifted = new Date(`${date}T00:00:00Z`)
+  shifted.setUTCDate(shifted.getUTCDate() + days)
+  return shifted.toISOString().split('T')[0]!
+}
+
+/**
+ * Get the Monday that starts the week containing a YYYY-MM-DD date
+ */
+export const getWeekStart = (date: string): string => {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay()
+  // getUTCDay() is 0 for Sunday, which belongs to the week that started six days earlier
+  return shiftDate(date, -((day + 6) % 7))
+}
+
+// Milliseconds the timezone's wall clock is ahead of UTC at an instant
+const getTimeZoneOffset = (timeZone: string, at: Date): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(at)
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value)
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'))
+  return wallClock - Math.floor(at.getTime() / 1000) * 1000
+}
+
+/**
+ * Get the instant a local wall-clock time occurs in a timezone
+ * @param date Local date (YYYY-MM-DD)
+ * @param time Local time (HH:MM or HH:MM:SS)
+ * @param timeZone IANA timezone name (falls back to UTC when invalid)
+ */
+export const zonedTimeToUtc = (date: string, time: string, timeZone: string = DEFAULT_TIME_ZONE): Date => {
+  const zone = isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE
+  const [hours = 0, minutes = 0] = time.split(':').map(Number)
+  const wallClock = new Date(`${date}T00:00:00Z`).getTime() + (hours * 60 + minutes) * 60000
+
+  // The offset can differ on either side of a DST change, so correct against the first guess
+  const guess = wallClock - getTimeZoneOffset(zone, new Date(wallClock))
+  return new Date(wallClock - getTimeZoneOffset(zone, new Date(guess)))
+}
@@ -0,0 +1,2 @@
+// Ids are checked before they reach a query, so a malformed one is a 400 rather than a Postgres error
+export const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i